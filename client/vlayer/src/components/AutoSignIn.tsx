@@ -0,0 +1,23 @@
+import React from "react";
+import { useAccount } from "wagmi";
+import { useAuth } from "../hooks/useAuth";
+
+export const AutoSignIn: React.FC = () => {
+  const { address } = useAccount();
+  const { isAuthenticated, isSigningIn, error, signIn } = useAuth();
+
+  // Ask for a Sign-In with Ethereum signature once per connected wallet
+  React.useEffect(() => {
+    if (address && !isAuthenticated && !isSigningIn && !error) {
+      signIn();
+    }
+  }, [address, isAuthenticated]);
+
+  React.useEffect(() => {
+    if (error) {
+      console.error("Auto sign-in error:", error);
+    }
+  }, [error]);
+
+  return null;
+};
@@ -8,6 +8,7 @@ import {
   CardHeader,
   CardTitle,
 } from "../../ui/card";
+import { authService } from "../../../services/authService";
 
 interface CreateDAOFormProps {
   onDAOCreated: () => void;
@@ -167,6 +168,7 @@ export const CreateDAOForm: React.FC<CreateDAOFormProps> = ({
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
         },
         body: JSON.stringify(requestData),
       });
@@ -5,11 +5,15 @@ import { DAODetailPage } from "../../../pages/DAODetailPage";
 interface DAOTabProps {
   selectedDAOId?: string | null;
   onDAOSelect?: (daoId: string) => void;
+  selectedProposalId?: string | null;
+  onProposalSelect?: (proposalId: string | null) => void;
 }
 
 export const DAOTab: React.FC<DAOTabProps> = ({
   selectedDAOId: externalSelectedDAOId,
   onDAOSelect: externalOnDAOSelect,
+  selectedProposalId,
+  onProposalSelect,
 }) => {
   const [internalSelectedDAOId, setInternalSelectedDAOId] = useState<
     string | null
@@ -46,7 +50,14 @@ export const DAOTab: React.FC<DAOTabProps> = ({
   }, [externalSelectedDAOId, externalOnDAOSelect]);
 
   if (selectedDAOId) {
-    return <DAODetailPage daoId={selectedDAOId} onBack={handleBack} />;
+    return (
+      <DAODetailPage
+        daoId={selectedDAOId}
+        onBack={handleBack}
+        selectedProposalId={selectedProposalId}
+        onProposalSelect={onProposalSelect}
+      />
+    );
   }
 
   return <DAOListPage onDAOSelect={handleDAOSelect} />;
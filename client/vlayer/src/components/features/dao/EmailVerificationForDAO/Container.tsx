@@ -6,16 +6,19 @@ import { useEmailInbox } from "../../../../hooks/useEmailInbox";
 import { useEmailProofVerification } from "../../../../hooks/useEmailProofVerification";
 import { daoService } from "../../../../services/daoService";
 import { DAO } from "../../../../types/dao";
+import { authService } from "../../../../services/authService";
 
 interface EmailVerificationForDAOContainerProps {
   daoId: string;
+  // Replaces the membership submission, e.g. to complete a quest task instead
+  submitProof?: (txHash: string) => Promise<void>;
   onSuccess?: () => void;
   onError?: (error: string) => void;
 }
 
 export const EmailVerificationForDAOContainer: React.FC<
   EmailVerificationForDAOContainerProps
-> = ({ daoId, onSuccess, onError }) => {
+> = ({ daoId, submitProof, onSuccess, onError }) => {
   const { address } = useAccount();
   const [dao, setDAO] = useState<DAO | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -126,6 +129,18 @@ export const EmailVerificationForDAOContainer: React.FC<
     setError(undefined);
 
     try {
+      if (submitProof) {
+        if (!txHash) {
+          throw new Error("No transaction hash available");
+        }
+
+        await submitProof(txHash);
+        setIsVerified(true);
+        onSuccess?.();
+        localStorage.removeItem("emailVerificationData");
+        return;
+      }
+
       // Submit to DAO backend with blockchain verification proof
       const response = await fetch(
         `${import.meta.env.VITE_BE_API_URL}/api/v1/membership/email-verified`,
@@ -133,6 +148,7 @@ export const EmailVerificationForDAOContainer: React.FC<
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            ...authService.getAuthHeaders(),
           },
           body: JSON.stringify({
             wallet_address: address,
@@ -1,19 +1,24 @@
 import React, { useState, useEffect } from "react";
 import { useAccount } from "wagmi";
-import { DAO } from "../../../../types/dao";
+import { DAO, GitHubRepository } from "../../../../types/dao";
 import { daoService } from "../../../../services/daoService";
 import { GitHubVerificationForDAO } from "./Presentational";
 import { useGitHubProofVerification } from "../../../../hooks/useGitHubProofVerification";
+import { authService } from "../../../../services/authService";
 
 interface GitHubVerificationForDAOContainerProps {
   daoId: string;
+  // Pins the repository to prove, e.g. the one a quest task asks for
+  repository?: Pick<GitHubRepository, "repo_owner" | "repo_name">;
+  // Replaces the membership submission, e.g. to complete a quest task instead
+  submitProof?: (txHash: string) => Promise<void>;
   onSuccess?: () => void;
   onError?: (error: string) => void;
 }
 
 export const GitHubVerificationForDAOContainer: React.FC<
   GitHubVerificationForDAOContainerProps
-> = ({ daoId, onSuccess, onError }) => {
+> = ({ daoId, repository, submitProof, onSuccess, onError }) => {
   const { address } = useAccount();
   const [dao, setDAO] = useState<DAO | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -25,8 +30,9 @@ export const GitHubVerificationForDAOContainer: React.FC<
 
   // GitHub form state
   const [githubUsername, setGithubUsername] = useState("");
-  const [repoOwner, setRepoOwner] = useState("covalenthq");
-  const [repoName, setRepoName] = useState("ai-agent-sdk");
+  const [repositories, setRepositories] = useState<GitHubRepository[]>([]);
+  const [repoOwner, setRepoOwner] = useState(repository?.repo_owner || "");
+  const [repoName, setRepoName] = useState(repository?.repo_name || "");
   const [branch, setBranch] = useState("main");
   const [isVerifying, setIsVerifying] = useState(false);
 
@@ -44,6 +50,18 @@ export const GitHubVerificationForDAOContainer: React.FC<
         try {
           const daoData = await daoService.getDAOById(daoId);
           setDAO(daoData);
+
+          const repositoriesResponse =
+            await daoService.getGitHubRepositories(daoId);
+          if (repositoriesResponse.success && repositoriesResponse.data) {
+            setRepositories(repositoriesResponse.data);
+
+            const [firstRepository] = repositoriesResponse.data;
+            if (firstRepository && !repository) {
+              setRepoOwner(firstRepository.repo_owner);
+              setRepoName(firstRepository.repo_name);
+            }
+          }
         } catch (error) {
           console.error("Error loading DAO:", error);
           setError("Failed to load DAO information");
@@ -148,6 +166,18 @@ export const GitHubVerificationForDAOContainer: React.FC<
     setError(undefined);
 
     try {
+      if (submitProof) {
+        if (!txHash) {
+          throw new Error("No transaction hash available");
+        }
+
+        await submitProof(txHash);
+        setIsVerified(true);
+        onSuccess?.();
+        localStorage.removeItem("githubVerificationData");
+        return;
+      }
+
       // Submit to DAO backend with blockchain verification proof
       const response = await fetch(
         `${import.meta.env.VITE_BE_API_URL}/api/v1/membership/github-verified`,
@@ -155,16 +185,12 @@ export const GitHubVerificationForDAOContainer: React.FC<
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            ...authService.getAuthHeaders(),
           },
           body: JSON.stringify({
             wallet_address: address,
             dao_id: daoId,
             tx_hash: txHash,
-            github_username: githubUsername,
-            repo_owner: repoOwner,
-            repo_name: repoName,
-            branch: branch,
-            verification_type: "vlayer_proof",
           }),
         }
       );
@@ -216,6 +242,7 @@ export const GitHubVerificationForDAOContainer: React.FC<
   return (
     <GitHubVerificationForDAO
       dao={dao}
+      repositories={repositories}
       githubStep={githubStep}
       githubUsername={githubUsername}
       repoOwner={repoOwner}
@@ -1,8 +1,9 @@
 import React from "react";
-import { DAO } from "../../../../types/dao";
+import { DAO, GitHubRepository } from "../../../../types/dao";
 
 interface GitHubVerificationForDAOProps {
   dao: DAO | null;
+  repositories: GitHubRepository[];
   githubStep: "input" | "verify" | "submit";
   githubUsername: string;
   repoOwner: string;
@@ -28,6 +29,7 @@ export const GitHubVerificationForDAO: React.FC<
   GitHubVerificationForDAOProps
 > = ({
   dao,
+  repositories,
   githubStep,
   githubUsername,
   repoOwner,
@@ -269,12 +271,38 @@ export const GitHubVerificationForDAO: React.FC<
 
                   <div className="p-4 bg-yellow-500/10 border border-yellow-500/20 rounded-lg">
                     <p className="text-yellow-400 text-sm mb-2">
-                      📋 Example Repository:
-                    </p>
-                    <p className="text-muted-foreground text-xs">
-                      Owner: covalenthq, Name: ai-agent-sdk, Branch:
-                      deferred_commit_contributors
+                      📋 Repositories rewarded by {dao.name}:
                     </p>
+                    {repositories.length > 0 ? (
+                      <div className="space-y-2">
+                        {repositories.map((repository) => (
+                          <button
+                            key={repository.repository_id}
+                            type="button"
+                            onClick={() =>
+                              onRepoDetailsChange(
+                                repository.repo_owner,
+                                repository.repo_name,
+                                branch
+                              )
+                            }
+                            className="w-full flex items-center justify-between text-xs text-muted-foreground hover:text-foreground"
+                          >
+                            <span className="font-mono">
+                              {repository.repo_owner}/{repository.repo_name}
+                            </span>
+                            <span>
+                              +{repository.reputation_reward} reputation · +
+                              {repository.merits_reward} merits
+                            </span>
+                          </button>
+                        ))}
+                      </div>
+                    ) : (
+                      <p className="text-muted-foreground text-xs">
+                        No repositories have been configured for this DAO yet
+                      </p>
+                    )}
                   </div>
                 </div>
 
@@ -5,12 +5,22 @@ import { Card, CardContent } from "../../ui/card";
 import { ChevronDown, ChevronUp } from "lucide-react";
 import { Vote } from "../../../types/dao";
 import { daoService } from "../../../services/daoService";
+import {
+  formatVoteSelections,
+  formatVoteWeightBreakdown,
+} from "../../../utils/daoHelpers";
 
 interface VotesListProps {
   proposalId: string;
   isFeedback: boolean;
   house?: string;
   voteType: "YES" | "NO" | "ABSTAIN";
+  // Lists the ballots selecting an option instead of a yes/no/abstain vote
+  option?: {
+    index: number;
+    options: string[];
+    firstChoiceOnly: boolean;
+  };
   count: number;
   weight: number;
   className?: string;
@@ -21,6 +31,7 @@ export const VotesList: React.FC<VotesListProps> = ({
   isFeedback,
   house,
   voteType,
+  option,
   count,
   weight,
   className = "",
@@ -44,9 +55,14 @@ export const VotesList: React.FC<VotesListProps> = ({
       );
 
       if (response.success && response.data) {
-        // Filter votes by the specific vote type
-        const filteredVotes = response.data.filter(
-          (vote) => vote.vote === voteType
+        // Filter votes by the specific vote type or option
+        const filteredVotes = response.data.filter((vote) =>
+          option
+            ? !!vote.selections &&
+              (option.firstChoiceOnly
+                ? vote.selections[0] === option.index
+                : vote.selections.includes(option.index))
+            : vote.vote === voteType
         );
         setVotes(filteredVotes);
       } else {
@@ -116,8 +132,12 @@ export const VotesList: React.FC<VotesListProps> = ({
         disabled={loading}
       >
         <div className="flex items-center space-x-2">
-          <span className="text-lg">{getVoteIcon(voteType)}</span>
-          <span className="text-sm font-medium">{voteType}</span>
+          <span className="text-lg">
+            {option ? "🔘" : getVoteIcon(voteType)}
+          </span>
+          <span className="text-sm font-medium">
+            {option ? option.options[option.index] : voteType}
+          </span>
           <Badge variant="outline" className={getVoteColor(voteType)}>
             {count} vote{count !== 1 ? "s" : ""}
           </Badge>
@@ -150,10 +170,17 @@ export const VotesList: React.FC<VotesListProps> = ({
                     className="flex items-center justify-between p-2 bg-muted/50 rounded-lg"
                   >
                     <div className="flex items-center space-x-2">
-                      <span className="text-sm">{getVoteIcon(vote.vote)}</span>
+                      <span className="text-sm">
+                        {option ? "🔘" : getVoteIcon(vote.vote ?? "")}
+                      </span>
                       <span className="text-sm font-mono">
                         {formatAddress(vote.member_id)}
                       </span>
+                      {option && (
+                        <span className="text-xs text-muted-foreground">
+                          {formatVoteSelections(vote, option.options)}
+                        </span>
+                      )}
                       {vote.house && (
                         <Badge variant="secondary" className="text-xs">
                           House {vote.house}
@@ -161,7 +188,15 @@ export const VotesList: React.FC<VotesListProps> = ({
                       )}
                     </div>
                     <div className="flex items-center space-x-2 text-xs text-muted-foreground">
-                      <span>Weight: {vote.weight}</span>
+                      <span
+                        title={
+                          vote.weight_breakdown
+                            ? formatVoteWeightBreakdown(vote.weight_breakdown)
+                            : undefined
+                        }
+                      >
+                        Weight: {vote.weight}
+                      </span>
                       <span>•</span>
                       <span>{formatTimestamp(vote.created_at)}</span>
                     </div>
@@ -12,61 +12,49 @@ import { Badge } from "../../../ui/badge";
 import { Separator } from "../../../ui/separator";
 import { Message } from "../../../../types/dao";
 import { messagesService } from "../../../../services/messagesService";
+import { useProposalChat } from "../../../../hooks/useProposalChat";
 import { formatDateTime } from "../../../../utils/daoHelpers";
+import { ProposalMessage } from "./ProposalMessage";
 
 interface ProposalChatProps {
   proposalId: string;
   proposalTitle: string;
+  daoId: string;
   isUserMember: boolean;
+  canModerate: boolean;
 }
 
 export const ProposalChat: React.FC<ProposalChatProps> = ({
   proposalId,
   proposalTitle,
+  daoId,
   isUserMember,
+  canModerate,
 }) => {
-  const [messages, setMessages] = useState<Message[]>([]);
   const [newMessage, setNewMessage] = useState("");
-  const [loading, setLoading] = useState(true);
   const [sending, setSending] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [hasMore, setHasMore] = useState(true);
-  const [loadingMore, setLoadingMore] = useState(false);
-  const [isPolling, setIsPolling] = useState(true);
-  const [isTyping, setIsTyping] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [replyTo, setReplyTo] = useState<Message | null>(null);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const { address, isConnected } = useAccount();
-
-  // Load initial messages
-  useEffect(() => {
-    loadMessages();
-  }, [proposalId]);
-
-  // Set up polling for new messages
-  useEffect(() => {
-    if (!isPolling) return;
-
-    const startPolling = () => {
-      pollingIntervalRef.current = setInterval(() => {
-        // Only poll if we're not currently loading, sending, or typing
-        if (!loading && !sending && !loadingMore && !isTyping) {
-          pollForNewMessages();
-        }
-      }, 5000); // Poll every 5 seconds
-    };
-
-    startPolling();
-
-    // Cleanup interval on unmount or when polling is disabled
-    return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-        pollingIntervalRef.current = null;
-      }
-    };
-  }, [isPolling, loading, sending, loadingMore, messages.length, isTyping]);
+  const {
+    messages,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    connection,
+    typingMemberIds,
+    viewers,
+    loadMore,
+    reload,
+    addMessage,
+    updateMessage,
+    removeMessage,
+    sendTyping,
+  } = useProposalChat(proposalId, address);
+  const canInteract = isConnected && isUserMember && !!address;
 
   // Auto-scroll to bottom when new messages are added
   useEffect(() => {
@@ -75,128 +63,65 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
     }
   }, [messages]);
 
-  const pollForNewMessages = async () => {
-    try {
-      // Get the latest message timestamp to only fetch newer messages
-      const latestMessageTime =
-        messages.length > 0
-          ? new Date(messages[messages.length - 1].created_at).getTime()
-          : 0;
-
-      const response = await messagesService.getMessageHistory({
-        proposal_id: proposalId,
-        limit: 50,
-        offset: 0,
-      });
-
-      if (response.success && response.data) {
-        // Filter for messages newer than our latest message
-        const newMessages = response.data.filter(
-          (message) =>
-            new Date(message.created_at).getTime() > latestMessageTime
-        );
-
-        if (newMessages.length > 0) {
-          // Sort new messages (they come in descending order, so reverse)
-          const sortedNewMessages = [...newMessages].reverse();
-
-          // Check for duplicates before adding (in case of race conditions)
-          setMessages((prev) => {
-            const existingIds = new Set(prev.map((msg) => msg.id));
-            const uniqueNewMessages = sortedNewMessages.filter(
-              (msg) => !existingIds.has(msg.id)
-            );
-
-            if (uniqueNewMessages.length > 0) {
-              return [...prev, ...uniqueNewMessages];
-            }
-            return prev;
-          });
-        }
-      }
-    } catch (error) {
-      console.error("Error polling for new messages:", error);
-      // Don't show error to user for polling failures, just log them
-    }
-  };
-
-  const loadMessages = async (offset = 0, append = false) => {
-    try {
-      if (!append) setLoading(true);
-      setError(null);
-
-      const response = await messagesService.getMessageHistory({
-        proposal_id: proposalId,
-        limit: 50,
-        offset,
-      });
-
-      if (response.success && response.data) {
-        // Messages come in descending order (newest first), so reverse for chat display
-        const sortedMessages = [...response.data].reverse();
-
-        if (append) {
-          setMessages((prev) => [...sortedMessages, ...prev]);
-        } else {
-          setMessages(sortedMessages);
-        }
-
-        // Check if there are more messages to load
-        setHasMore(response.data.length === 50);
-      } else {
-        setError(response.error || "Failed to load messages");
-      }
-    } catch (error) {
-      console.error("Error loading messages:", error);
-      setError("Failed to load messages");
-    } finally {
-      setLoading(false);
-      setLoadingMore(false);
-    }
-  };
-
-  const loadMoreMessages = async () => {
-    if (loadingMore || !hasMore) return;
-
-    setLoadingMore(true);
-    await loadMessages(messages.length, true);
-  };
-
   const sendMessage = async () => {
     if (!newMessage.trim() || !address || !isConnected || !isUserMember) {
       return;
     }
 
     if (newMessage.length > 1000) {
-      setError("Message must be 1000 characters or less");
+      setSendError("Message must be 1000 characters or less");
       return;
     }
 
     try {
       setSending(true);
-      setError(null);
+      setSendError(null);
 
       const response = await messagesService.createMessage({
         member_id: address,
         proposal_id: proposalId,
         message: newMessage.trim(),
+        reply_to_id: replyTo?.message_id,
       });
 
       if (response.success && response.data) {
-        // Add the new message to the end of the list
-        setMessages((prev) => [...prev, response.data!]);
+        // The stream echoes it too, addMessage skips the duplicate
+        addMessage(response.data);
         setNewMessage("");
+        setReplyTo(null);
       } else {
-        setError(response.error || "Failed to send message");
+        setSendError(response.error || "Failed to send message");
       }
     } catch (error) {
       console.error("Error sending message:", error);
-      setError("Failed to send message");
+      setSendError("Failed to send message");
     } finally {
       setSending(false);
     }
   };
 
+  const handleMute = async (memberId: string) => {
+    const minutes = window.prompt(
+      `Mute ${truncateAddress(memberId)} for how many minutes? Leave empty to mute until unmuted.`
+    );
+    if (minutes === null) return;
+
+    const response = await messagesService.muteMember({
+      dao_id: daoId,
+      member_id: memberId,
+      duration_minutes: minutes.trim() ? parseInt(minutes) : undefined,
+    });
+    setSendError(
+      response.success ? null : response.error || "Failed to mute member"
+    );
+  };
+
+  const handleMention = (memberId: string) => {
+    setNewMessage(
+      (prev) => `${prev}${prev && !prev.endsWith(" ") ? " " : ""}@${memberId} `
+    );
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -206,18 +131,16 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
 
   const handleMessageChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     setNewMessage(e.target.value);
-
-    // Set typing state
-    setIsTyping(true);
+    sendTyping(e.target.value.trim().length > 0);
 
     // Clear existing timeout
     if (typingTimeoutRef.current) {
       clearTimeout(typingTimeoutRef.current);
     }
 
-    // Set new timeout to clear typing state after 2 seconds of inactivity
+    // Stop showing as typing after 2 seconds of inactivity
     typingTimeoutRef.current = setTimeout(() => {
-      setIsTyping(false);
+      sendTyping(false);
     }, 2000);
   };
 
@@ -249,10 +172,6 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
     return `${address.slice(0, 6)}...${address.slice(-4)}`;
   };
 
-  const isOwnMessage = (message: Message) => {
-    return address && message.member_id.toLowerCase() === address.toLowerCase();
-  };
-
   return (
     <Card className="h-[600px] flex flex-col">
       <CardHeader className="pb-3">
@@ -266,33 +185,24 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
             </CardDescription>
           </div>
           <div className="flex items-center gap-2">
-            {isPolling && !isTyping && (
-              <Badge variant="outline" className="text-xs animate-pulse">
-                🔄 Auto-refresh
-              </Badge>
+            {viewers > 1 && (
+              <span className="text-xs text-muted-foreground">
+                👀 {viewers} viewing
+              </span>
             )}
-            {isPolling && isTyping && (
+            {connection === "live" ? (
               <Badge variant="outline" className="text-xs">
-                ⏸️ Paused (typing)
+                🟢 Live
+              </Badge>
+            ) : connection === "offline" ? (
+              <Badge variant="outline" className="text-xs">
+                ⚪ Offline
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-xs animate-pulse">
+                🟡 {connection === "connecting" ? "Connecting" : "Reconnecting"}
               </Badge>
             )}
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => pollForNewMessages()}
-              disabled={loading || sending}
-              className="text-xs"
-            >
-              🔄 Refresh
-            </Button>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={() => setIsPolling(!isPolling)}
-              className="text-xs"
-            >
-              {isPolling ? "⏸️ Pause" : "▶️ Resume"}
-            </Button>
           </div>
         </div>
       </CardHeader>
@@ -313,7 +223,7 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => loadMessages()}
+                onClick={reload}
                 className="mt-2"
               >
                 Retry
@@ -333,7 +243,7 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={loadMoreMessages}
+                    onClick={loadMore}
                     disabled={loadingMore}
                   >
                     {loadingMore ? "Loading..." : "Load older messages"}
@@ -342,40 +252,38 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
               )}
 
               {/* Messages */}
-              {messages.map((message, index) => (
-                <div
-                  key={message.id}
-                  className={`flex ${
-                    isOwnMessage(message) ? "justify-end" : "justify-start"
-                  }`}
-                >
-                  <div
-                    className={`max-w-[70%] rounded-lg p-3 ${
-                      isOwnMessage(message)
-                        ? "bg-primary text-primary-foreground"
-                        : "bg-muted"
-                    }`}
-                  >
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-xs font-medium">
-                        {isOwnMessage(message)
-                          ? "You"
-                          : truncateAddress(message.member_id)}
-                      </span>
-                      <span className="text-xs opacity-70">
-                        {formatMessageTime(message.created_at)}
-                      </span>
-                    </div>
-                    <p className="text-sm whitespace-pre-wrap break-words">
-                      {message.message}
-                    </p>
-                  </div>
-                </div>
+              {messages.map((message) => (
+                <ProposalMessage
+                  key={message.message_id}
+                  message={message}
+                  replyTo={messages.find(
+                    ({ message_id }) => message_id === message.reply_to_id
+                  )}
+                  memberId={address}
+                  canInteract={canInteract}
+                  canModerate={canModerate}
+                  getAuthorLabel={truncateAddress}
+                  formatTime={formatMessageTime}
+                  onReply={setReplyTo}
+                  onMention={handleMention}
+                  onUpdated={updateMessage}
+                  onHidden={removeMessage}
+                  onMute={handleMute}
+                  onError={setSendError}
+                />
               ))}
             </div>
           )}
         </div>
 
+        {typingMemberIds.length > 0 && (
+          <p className="px-4 pb-2 text-xs text-muted-foreground italic">
+            {typingMemberIds.length === 1
+              ? `${truncateAddress(typingMemberIds[0])} is typing...`
+              : `${typingMemberIds.length} members are typing...`}
+          </p>
+        )}
+
         <Separator />
 
         {/* Message Input */}
@@ -393,27 +301,47 @@ export const ProposalChat: React.FC<ProposalChatProps> = ({
               </p>
             </div>
           ) : (
-            <div className="flex gap-2">
-              <textarea
-                value={newMessage}
-                onChange={handleMessageChange}
-                onKeyPress={handleKeyPress}
-                placeholder="Type your message..."
-                disabled={sending}
-                maxLength={1000}
-                className="flex-1 min-h-[40px] max-h-[120px] px-3 py-2 border border-input bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 rounded-md resize-none"
-                rows={1}
-              />
-              <Button
-                onClick={sendMessage}
-                disabled={sending || !newMessage.trim()}
-                size="sm"
-              >
-                {sending ? "Sending..." : "Send"}
-              </Button>
+            <div className="space-y-2">
+              {replyTo && (
+                <div className="flex items-center justify-between rounded-md bg-muted px-3 py-1 text-xs">
+                  <span className="truncate">
+                    ↪ Replying to {truncateAddress(replyTo.member_id)}:{" "}
+                    {replyTo.message}
+                  </span>
+                  <button
+                    onClick={() => setReplyTo(null)}
+                    className="ml-2 text-muted-foreground"
+                  >
+                    ✕
+                  </button>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <textarea
+                  value={newMessage}
+                  onChange={handleMessageChange}
+                  onKeyPress={handleKeyPress}
+                  placeholder="Type your message..."
+                  disabled={sending}
+                  maxLength={1000}
+                  className="flex-1 min-h-[40px] max-h-[120px] px-3 py-2 border border-input bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 rounded-md resize-none"
+                  rows={1}
+                />
+                <Button
+                  onClick={sendMessage}
+                  disabled={sending || !newMessage.trim()}
+                  size="sm"
+                >
+                  {sending ? "Sending..." : "Send"}
+                </Button>
+              </div>
             </div>
           )}
 
+          {sendError && (
+            <p className="text-xs text-red-500 mt-1">{sendError}</p>
+          )}
+
           {newMessage.length > 900 && (
             <p className="text-xs text-muted-foreground mt-1">
               {1000 - newMessage.length} characters remaining
@@ -0,0 +1,369 @@
+import React, { useState } from "react";
+import { Button } from "../../../ui/button";
+import { Message, MessageEdit } from "../../../../types/dao";
+import { messagesService } from "../../../../services/messagesService";
+
+// Must match MESSAGE_REACTIONS on the server
+const MESSAGE_REACTIONS = ["👍", "👎", "❤️", "🎉", "😄", "🤔", "👀", "🚀"];
+
+// The server notifies members mentioned as @0x... in a message
+const MENTION_PATTERN = /(@0x[a-fA-F0-9]{40})\b/;
+
+interface ProposalMessageProps {
+  message: Message;
+  replyTo?: Message;
+  memberId?: string;
+  canInteract: boolean;
+  canModerate: boolean;
+  getAuthorLabel: (memberId: string) => string;
+  formatTime: (timestamp: string) => string;
+  onReply: (message: Message) => void;
+  onMention: (memberId: string) => void;
+  onUpdated: (message: Message) => void;
+  onHidden: (messageId: string) => void;
+  onMute: (memberId: string) => void;
+  onError: (error: string) => void;
+}
+
+const truncateText = (text: string, length: number) =>
+  text.length > length ? `${text.slice(0, length)}...` : text;
+
+export const ProposalMessage: React.FC<ProposalMessageProps> = ({
+  message,
+  replyTo,
+  memberId,
+  canInteract,
+  canModerate,
+  getAuthorLabel,
+  formatTime,
+  onReply,
+  onMention,
+  onUpdated,
+  onHidden,
+  onMute,
+  onError,
+}) => {
+  const [editing, setEditing] = useState(false);
+  const [editText, setEditText] = useState(message.message);
+  const [showReactions, setShowReactions] = useState(false);
+  const [edits, setEdits] = useState<MessageEdit[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const isOwn =
+    !!memberId && message.member_id.toLowerCase() === memberId.toLowerCase();
+  const isDeleted = !!message.deleted_at;
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; data?: Message; error?: string }>
+  ) => {
+    setBusy(true);
+    try {
+      const response = await action();
+      if (response.success && response.data) {
+        onUpdated(response.data);
+        return true;
+      }
+
+      onError(response.error || "Failed to update message");
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleReaction = (emoji: string) => {
+    if (!memberId) return;
+
+    const reacted = message.reactions.some(
+      (reaction) =>
+        reaction.emoji === emoji &&
+        reaction.member_ids.some(
+          (id) => id.toLowerCase() === memberId.toLowerCase()
+        )
+    );
+    const reactionData = {
+      member_id: memberId,
+      message_id: message.message_id,
+      emoji,
+    };
+
+    setShowReactions(false);
+    runAction(() =>
+      reacted
+        ? messagesService.removeReaction(reactionData)
+        : messagesService.addReaction(reactionData)
+    );
+  };
+
+  const handleSaveEdit = async () => {
+    if (!memberId || !editText.trim()) return;
+
+    const saved = await runAction(() =>
+      messagesService.editMessage({
+        member_id: memberId,
+        message_id: message.message_id,
+        message: editText.trim(),
+      })
+    );
+    if (saved) {
+      setEditing(false);
+      setEdits(null);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!memberId || !window.confirm("Delete this message?")) return;
+
+    runAction(() =>
+      messagesService.deleteMessage({
+        member_id: memberId,
+        message_id: message.message_id,
+      })
+    );
+  };
+
+  const handleHide = async () => {
+    const reason = window.prompt("Why are you hiding this message? (optional)");
+    if (reason === null) return;
+
+    setBusy(true);
+    try {
+      const response = await messagesService.hideMessage(
+        message.message_id,
+        reason.trim() || undefined
+      );
+      if (response.success) {
+        onHidden(message.message_id);
+      } else {
+        onError(response.error || "Failed to hide message");
+      }
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const toggleEdits = async () => {
+    if (edits) {
+      setEdits(null);
+      return;
+    }
+
+    const response = await messagesService.getMessageEdits(message.message_id);
+    if (response.success && response.data) {
+      setEdits(response.data);
+    } else {
+      onError(response.error || "Failed to load edit history");
+    }
+  };
+
+  const renderReplyPreview = () => {
+    if (!message.reply_to_id) return null;
+
+    return (
+      <div className="mb-2 border-l-2 border-current pl-2 text-xs opacity-75">
+        ↪{" "}
+        {replyTo
+          ? `${getAuthorLabel(replyTo.member_id)}: ${
+              replyTo.deleted_at
+                ? "deleted message"
+                : truncateText(replyTo.message, 80)
+            }`
+          : "Reply to an earlier message"}
+      </div>
+    );
+  };
+
+  const renderBody = () => {
+    if (isDeleted) {
+      return <p className="text-sm italic opacity-70">Message deleted</p>;
+    }
+
+    if (editing) {
+      return (
+        <div className="space-y-2">
+          <textarea
+            value={editText}
+            onChange={(e) => setEditText(e.target.value)}
+            maxLength={1000}
+            rows={2}
+            className="w-full px-2 py-1 border border-input bg-background text-foreground text-sm rounded-md resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                setEditing(false);
+                setEditText(message.message);
+              }}
+              disabled={busy}
+              className="text-xs text-foreground"
+            >
+              Cancel
+            </Button>
+            <Button
+              size="sm"
+              onClick={handleSaveEdit}
+              disabled={busy || !editText.trim()}
+              className="text-xs"
+            >
+              {busy ? "Saving..." : "Save"}
+            </Button>
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <p className="text-sm whitespace-pre-wrap break-words">
+        {message.message.split(MENTION_PATTERN).map((part, index) =>
+          index % 2 === 1 ? (
+            <span
+              key={index}
+              title={part.slice(1)}
+              className={`font-semibold ${
+                part.slice(1).toLowerCase() === memberId?.toLowerCase()
+                  ? "underline"
+                  : ""
+              }`}
+            >
+              @{getAuthorLabel(part.slice(1))}
+            </span>
+          ) : (
+            part
+          )
+        )}
+      </p>
+    );
+  };
+
+  return (
+    <div className={`flex ${isOwn ? "justify-end" : "justify-start"}`}>
+      <div className="max-w-[70%] space-y-1">
+        <div
+          className={`rounded-lg p-3 ${
+            isOwn ? "bg-primary text-primary-foreground" : "bg-muted"
+          }`}
+        >
+          <div className="flex items-center gap-2 mb-1">
+            <span className="text-xs font-medium">
+              {isOwn ? "You" : getAuthorLabel(message.member_id)}
+            </span>
+            <span className="text-xs opacity-70">
+              {formatTime(message.created_at)}
+            </span>
+            {message.edited_at && !isDeleted && (
+              <button
+                onClick={toggleEdits}
+                className="text-xs opacity-70 underline"
+              >
+                (edited)
+              </button>
+            )}
+          </div>
+
+          {renderReplyPreview()}
+          {renderBody()}
+
+          {edits && (
+            <div className="mt-2 space-y-1 border-t border-current/20 pt-2">
+              <p className="text-xs font-medium opacity-75">
+                Previous versions
+              </p>
+              {edits.map((edit) => (
+                <p key={edit.edit_id} className="text-xs opacity-75">
+                  <span className="mr-1">{formatTime(edit.edited_at)}:</span>
+                  <span className="whitespace-pre-wrap break-words">
+                    {edit.message}
+                  </span>
+                </p>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {message.reactions.length > 0 && (
+          <div className={`flex flex-wrap gap-1 ${isOwn ? "justify-end" : ""}`}>
+            {message.reactions.map((reaction) => {
+              const reacted =
+                !!memberId &&
+                reaction.member_ids.some(
+                  (id) => id.toLowerCase() === memberId.toLowerCase()
+                );
+
+              return (
+                <button
+                  key={reaction.emoji}
+                  onClick={() => handleReaction(reaction.emoji)}
+                  disabled={!canInteract || busy || isDeleted}
+                  title={reaction.member_ids.map(getAuthorLabel).join(", ")}
+                  className={`text-xs rounded-full border px-2 py-0.5 ${
+                    reacted ? "bg-primary/10 border-primary" : "bg-background"
+                  }`}
+                >
+                  {reaction.emoji} {reaction.member_ids.length}
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        {canInteract && !isDeleted && !editing && (
+          <div
+            className={`flex gap-3 text-xs text-muted-foreground ${
+              isOwn ? "justify-end" : ""
+            }`}
+          >
+            <button onClick={() => onReply(message)}>Reply</button>
+            {!isOwn && (
+              <button onClick={() => onMention(message.member_id)}>
+                Mention
+              </button>
+            )}
+            <button onClick={() => setShowReactions(!showReactions)}>
+              React
+            </button>
+            {isOwn && (
+              <>
+                <button
+                  onClick={() => {
+                    setEditText(message.message);
+                    setEditing(true);
+                  }}
+                >
+                  Edit
+                </button>
+                <button onClick={handleDelete} disabled={busy}>
+                  Delete
+                </button>
+              </>
+            )}
+            {canModerate && !isOwn && (
+              <>
+                <button onClick={handleHide} disabled={busy}>
+                  Hide
+                </button>
+                <button onClick={() => onMute(message.member_id)}>Mute</button>
+              </>
+            )}
+          </div>
+        )}
+
+        {showReactions && (
+          <div className={`flex flex-wrap gap-1 ${isOwn ? "justify-end" : ""}`}>
+            {MESSAGE_REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => handleReaction(emoji)}
+                disabled={busy}
+                className="text-sm rounded-md border bg-background px-1.5 py-0.5 hover:bg-muted"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -9,6 +9,7 @@ export { JoinDAOButton } from "./details/JoinDAOButton";
 
 // DAO Proposals
 export { CreateProposal } from "./proposals/CreateProposal";
+export { OptionBallot } from "./proposals/OptionBallot";
 
 // DAO Voting
 export { VotesList } from "./VotesList";
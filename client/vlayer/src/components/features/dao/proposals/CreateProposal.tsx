@@ -13,7 +13,15 @@ import { IPFSMetadata } from "../../../ui/IPFSMetadata";
 import { OnChainStatusBadge } from "../../../ui/OnChainStatusBadge";
 import { governanceService } from "../../../../services/governanceService";
 import { useGovernanceContract } from "../../../../hooks/useGovernanceContract";
-import { CreateProposalRequest } from "../../../../types/dao";
+import { CreateProposalRequest, VotingMethod } from "../../../../types/dao";
+import { getVotingMethodLabel } from "../../../../utils/daoHelpers";
+
+const VOTING_METHODS: VotingMethod[] = [
+  "BINARY",
+  "SINGLE_CHOICE",
+  "APPROVAL",
+  "RANKED_CHOICE",
+];
 
 interface CreateProposalProps {
   daoId: string;
@@ -32,6 +40,8 @@ export const CreateProposal: React.FC<CreateProposalProps> = ({
     voting_start: "",
     voting_end: "",
     feedback_end: "",
+    voting_method: "BINARY" as VotingMethod,
+    options: "",
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -45,7 +55,9 @@ export const CreateProposal: React.FC<CreateProposalProps> = ({
   }>({});
 
   const handleInputChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
   ) => {
     const { name, value } = e.target;
     setFormData((prev) => ({
@@ -60,12 +72,21 @@ export const CreateProposal: React.FC<CreateProposalProps> = ({
     }
   };
 
+  // One option per line, blank lines ignored
+  const getOptions = () =>
+    formData.options
+      .split("\n")
+      .map((option) => option.trim())
+      .filter(Boolean);
+
   const validateForm = (): string | null => {
     if (!formData.title.trim()) return "Title is required";
     if (!formData.description.trim()) return "Description is required";
     if (!formData.voting_start) return "Voting start date is required";
     if (!formData.voting_end) return "Voting end date is required";
     if (!formData.feedback_end) return "Feedback end date is required";
+    if (formData.voting_method !== "BINARY" && getOptions().length < 2)
+      return "At least 2 options are required";
 
     const votingStart = new Date(formData.voting_start);
     const votingEnd = new Date(formData.voting_end);
@@ -107,6 +128,8 @@ export const CreateProposal: React.FC<CreateProposalProps> = ({
         voting_start: new Date(formData.voting_start).toISOString(),
         voting_end: new Date(formData.voting_end).toISOString(),
         feedback_end: new Date(formData.feedback_end).toISOString(),
+        voting_method: formData.voting_method,
+        options: formData.voting_method === "BINARY" ? undefined : getOptions(),
       };
 
       const result = await governanceService.createHybridProposal(
@@ -151,6 +174,8 @@ export const CreateProposal: React.FC<CreateProposalProps> = ({
           voting_start: "",
           voting_end: "",
           feedback_end: "",
+          voting_method: "BINARY",
+          options: "",
         });
         onProposalCreated();
       } else {
@@ -222,6 +247,41 @@ export const CreateProposal: React.FC<CreateProposalProps> = ({
             />
           </div>
 
+          {/* Voting Method */}
+          <div>
+            <label className="block text-sm font-medium mb-2">
+              Voting Method
+            </label>
+            <select
+              name="voting_method"
+              value={formData.voting_method}
+              onChange={handleInputChange}
+              className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+            >
+              {VOTING_METHODS.map((method) => (
+                <option key={method} value={method}>
+                  {getVotingMethodLabel(method)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {formData.voting_method !== "BINARY" && (
+            <div>
+              <label className="block text-sm font-medium mb-2">
+                Options * (one per line)
+              </label>
+              <textarea
+                name="options"
+                value={formData.options}
+                onChange={handleInputChange}
+                placeholder={"Option A\nOption B"}
+                className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2 resize-none"
+                rows={4}
+              />
+            </div>
+          )}
+
           {/* Date Fields */}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             <div>
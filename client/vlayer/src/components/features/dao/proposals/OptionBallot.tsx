@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from "react";
+import { Button } from "../../../ui/button";
+import { VotingMethod } from "../../../../types/dao";
+
+interface OptionBallotProps {
+  options: string[];
+  votingMethod: VotingMethod;
+  initialSelections?: number[] | null;
+  disabled?: boolean;
+  submitLabel: string;
+  onSubmit: (selections: number[]) => void;
+}
+
+export const OptionBallot: React.FC<OptionBallotProps> = ({
+  options,
+  votingMethod,
+  initialSelections,
+  disabled = false,
+  submitLabel,
+  onSubmit,
+}) => {
+  const [selections, setSelections] = useState<number[]>(
+    initialSelections || []
+  );
+
+  useEffect(() => {
+    setSelections(initialSelections || []);
+  }, [initialSelections]);
+
+  // Single choice replaces the pick, approval toggles it and ranked choice
+  // appends it to the end of the ranking (clicking again removes it)
+  const handleToggle = (index: number) => {
+    if (votingMethod === "SINGLE_CHOICE") {
+      setSelections([index]);
+      return;
+    }
+
+    setSelections((prev) =>
+      prev.includes(index)
+        ? prev.filter((selection) => selection !== index)
+        : [...prev, index]
+    );
+  };
+
+  const getHint = () => {
+    switch (votingMethod) {
+      case "SINGLE_CHOICE":
+        return "Pick one option";
+      case "APPROVAL":
+        return "Pick every option you approve of";
+      case "RANKED_CHOICE":
+        return "Click options in order of preference";
+      default:
+        return "";
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-muted-foreground">{getHint()}</p>
+      {options.map((option, index) => {
+        const rank = selections.indexOf(index);
+        const isSelected = rank !== -1;
+
+        return (
+          <Button
+            key={index}
+            onClick={() => handleToggle(index)}
+            disabled={disabled}
+            variant={isSelected ? "default" : "outline"}
+            className="w-full justify-start"
+          >
+            {votingMethod === "RANKED_CHOICE" && isSelected && (
+              <span className="mr-2 font-mono">#{rank + 1}</span>
+            )}
+            {option}
+          </Button>
+        );
+      })}
+      <Button
+        onClick={() => onSubmit(selections)}
+        disabled={disabled || selections.length === 0}
+        className="w-full"
+      >
+        {disabled ? "Processing..." : submitLabel}
+      </Button>
+    </div>
+  );
+};
@@ -8,19 +8,30 @@ import {
   CardTitle,
 } from "../../../ui/card";
 import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
 import { Member } from "../../../../types/dao";
-import { formatDate, getHouseBadgeProps } from "../../../../utils/daoHelpers";
+import { daoService } from "../../../../services/daoService";
+import {
+  formatDate,
+  getHouseBadgeProps,
+  getRoleBadgeProps,
+} from "../../../../utils/daoHelpers";
 
 interface DAOMembersTabProps {
   members: Member[] | undefined;
+  daoId: string;
   daoName: string;
+  onDelegationChange?: () => void;
 }
 
 export const DAOMembersTab: React.FC<DAOMembersTabProps> = ({
   members,
+  daoId,
   daoName,
+  onDelegationChange,
 }) => {
   const { address } = useAccount();
+  const [delegating, setDelegating] = React.useState<string | null>(null);
 
   // Sort members to put current user first if they are a member
   const sortedMembers = React.useMemo(() => {
@@ -44,6 +55,37 @@ export const DAOMembersTab: React.FC<DAOMembersTabProps> = ({
     return address && memberAddress.toLowerCase() === address.toLowerCase();
   };
 
+  const currentUserMembership = members?.find((member) =>
+    isCurrentUser(member.member_id)
+  );
+
+  // Members who delegated their vote to the given member
+  const getDelegators = (memberAddress: string) =>
+    (members || []).filter(
+      (member) =>
+        member.delegate_id?.toLowerCase() === memberAddress.toLowerCase()
+    );
+
+  const handleDelegation = async (delegateId: string, revoke: boolean) => {
+    if (!address) return;
+
+    setDelegating(delegateId);
+    try {
+      const result = revoke
+        ? await daoService.revokeDelegate(daoId, address)
+        : await daoService.setDelegate(daoId, address, delegateId);
+
+      if (!result.success) {
+        alert(result.message || "Failed to update delegation");
+        return;
+      }
+
+      onDelegationChange?.();
+    } finally {
+      setDelegating(null);
+    }
+  };
+
   return (
     <Card>
       <CardHeader>
@@ -57,6 +99,11 @@ export const DAOMembersTab: React.FC<DAOMembersTabProps> = ({
           <div className="space-y-4">
             {sortedMembers.map((member, index) => {
               const houseBadge = getHouseBadgeProps(member.house);
+              const roleBadge = getRoleBadgeProps(member.role);
+              const delegators = getDelegators(member.member_id);
+              const isCurrentDelegate =
+                currentUserMembership?.delegate_id?.toLowerCase() ===
+                member.member_id.toLowerCase();
               const isCurrentUserMember = isCurrentUser(member.member_id);
 
               return (
@@ -101,7 +148,39 @@ export const DAOMembersTab: React.FC<DAOMembersTabProps> = ({
                       <p className="text-sm font-medium">
                         Reputation: {member.reputation}
                       </p>
+                      {delegators.length > 0 && (
+                        <p className="text-xs text-muted-foreground">
+                          Delegated power: {delegators.length} member
+                          {delegators.length === 1 ? "" : "s"} (
+                          {delegators.reduce(
+                            (acc, delegator) => acc + delegator.reputation,
+                            0
+                          )}{" "}
+                          reputation)
+                        </p>
+                      )}
                     </div>
+                    {currentUserMembership && !isCurrentUserMember && (
+                      <Button
+                        variant={isCurrentDelegate ? "outline" : "secondary"}
+                        size="sm"
+                        disabled={delegating !== null}
+                        onClick={() =>
+                          handleDelegation(member.member_id, isCurrentDelegate)
+                        }
+                      >
+                        {delegating === member.member_id
+                          ? "Updating..."
+                          : isCurrentDelegate
+                            ? "Revoke Delegation"
+                            : "Delegate"}
+                      </Button>
+                    )}
+                    {roleBadge && (
+                      <Badge className={roleBadge.className}>
+                        {roleBadge.text}
+                      </Badge>
+                    )}
                     <Badge className={houseBadge.className}>
                       {houseBadge.text}
                     </Badge>
@@ -0,0 +1,354 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../../ui/card";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import {
+  ChatMute,
+  MessageModerationAction,
+  ModerationLogEntry,
+} from "../../../../types/dao";
+import { messagesService } from "../../../../services/messagesService";
+import { formatDateTime } from "../../../../utils/daoHelpers";
+import { formatAddress } from "../../../../utils/functions/helpers";
+
+interface DAOModerationTabProps {
+  daoId: string;
+}
+
+const LOG_PAGE_SIZE = 50;
+
+const INPUT_CLASS_NAME =
+  "w-full px-3 py-2 border border-input bg-background text-sm rounded-md";
+
+const ACTION_LABELS: Record<MessageModerationAction, string> = {
+  HIDE_MESSAGE: "Hid a message",
+  UNHIDE_MESSAGE: "Restored a message",
+  MUTE_MEMBER: "Muted a member",
+  UNMUTE_MEMBER: "Unmuted a member",
+  UPDATE_SETTINGS: "Updated the chat filter",
+};
+
+export const DAOModerationTab: React.FC<DAOModerationTabProps> = ({
+  daoId,
+}) => {
+  const [blockedWords, setBlockedWords] = useState("");
+  const [allowLinks, setAllowLinks] = useState(true);
+  const [mutes, setMutes] = useState<ChatMute[]>([]);
+  const [log, setLog] = useState<ModerationLogEntry[]>([]);
+  const [hasMoreLog, setHasMoreLog] = useState(false);
+  const [muteAddress, setMuteAddress] = useState("");
+  const [muteMinutes, setMuteMinutes] = useState("");
+  const [muteReason, setMuteReason] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string>();
+  const [errorMessage, setErrorMessage] = useState<string>();
+
+  const loadModeration = useCallback(async () => {
+    const [settings, activeMutes, entries] = await Promise.all([
+      messagesService.getChatSettings(daoId),
+      messagesService.getChatMutes(daoId),
+      messagesService.getModerationLog(daoId, LOG_PAGE_SIZE),
+    ]);
+
+    if (settings.success && settings.data) {
+      setBlockedWords(settings.data.blocked_words.join("\n"));
+      setAllowLinks(settings.data.allow_links);
+    }
+    if (activeMutes.success && activeMutes.data) {
+      setMutes(activeMutes.data);
+    }
+    if (entries.success && entries.data) {
+      setLog(entries.data);
+      setHasMoreLog(entries.data.length === LOG_PAGE_SIZE);
+    }
+
+    const failed = [settings, activeMutes, entries].find(
+      (response) => !response.success
+    );
+    setErrorMessage(failed?.error);
+  }, [daoId]);
+
+  useEffect(() => {
+    loadModeration();
+  }, [loadModeration]);
+
+  const runAction = async (
+    action: () => Promise<{ success: boolean; error?: string }>,
+    success: string
+  ) => {
+    setSaving(true);
+    setSuccessMessage(undefined);
+    setErrorMessage(undefined);
+
+    try {
+      const response = await action();
+      if (!response.success) {
+        setErrorMessage(response.error);
+        return false;
+      }
+
+      setSuccessMessage(success);
+      await loadModeration();
+      return true;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveSettings = () =>
+    runAction(
+      () =>
+        messagesService.updateChatSettings({
+          dao_id: daoId,
+          blocked_words: blockedWords
+            .split(/[\n,]/)
+            .map((word) => word.trim())
+            .filter(Boolean),
+          allow_links: allowLinks,
+        }),
+      "Chat filter saved"
+    );
+
+  const handleMute = async () => {
+    const muted = await runAction(
+      () =>
+        messagesService.muteMember({
+          dao_id: daoId,
+          member_id: muteAddress.trim(),
+          duration_minutes: muteMinutes ? parseInt(muteMinutes) : undefined,
+          reason: muteReason.trim() || undefined,
+        }),
+      "Member muted"
+    );
+    if (muted) {
+      setMuteAddress("");
+      setMuteMinutes("");
+      setMuteReason("");
+    }
+  };
+
+  const handleLoadMoreLog = async () => {
+    const response = await messagesService.getModerationLog(
+      daoId,
+      LOG_PAGE_SIZE,
+      log.length
+    );
+    if (response.success && response.data) {
+      setLog((prev) => [...prev, ...response.data!]);
+      setHasMoreLog(response.data.length === LOG_PAGE_SIZE);
+    } else {
+      setErrorMessage(response.error);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          {successMessage}
+        </div>
+      )}
+      {errorMessage && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {errorMessage}
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Chat Filter</CardTitle>
+          <CardDescription>
+            Messages containing a blocked word, or a link when links are off,
+            are rejected in every proposal chat of this DAO.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">
+              Blocked words (one per line)
+            </label>
+            <textarea
+              value={blockedWords}
+              onChange={(e) => setBlockedWords(e.target.value)}
+              rows={4}
+              className={INPUT_CLASS_NAME}
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={allowLinks}
+              onChange={(e) => setAllowLinks(e.target.checked)}
+            />
+            Allow links in messages
+          </label>
+          <Button onClick={handleSaveSettings} disabled={saving}>
+            Save Filter
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Muted Members</CardTitle>
+          <CardDescription>
+            Muted members can read the chat but can't post or react. You can
+            only mute members ranked below you.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-2 md:grid-cols-4">
+            <input
+              placeholder="Member address (0x...)"
+              value={muteAddress}
+              onChange={(e) => setMuteAddress(e.target.value)}
+              className={`${INPUT_CLASS_NAME} md:col-span-2`}
+            />
+            <input
+              type="number"
+              min={1}
+              placeholder="Minutes (empty = until unmuted)"
+              value={muteMinutes}
+              onChange={(e) => setMuteMinutes(e.target.value)}
+              className={INPUT_CLASS_NAME}
+            />
+            <input
+              placeholder="Reason (optional)"
+              value={muteReason}
+              onChange={(e) => setMuteReason(e.target.value)}
+              className={INPUT_CLASS_NAME}
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleMute}
+            disabled={saving || !muteAddress.trim()}
+          >
+            Mute Member
+          </Button>
+
+          {mutes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No one is muted right now.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {mutes.map((mute) => (
+                <div
+                  key={mute.member_id}
+                  className="flex items-center justify-between p-3 border rounded-lg"
+                >
+                  <div className="text-sm">
+                    <p className="font-mono">{formatAddress(mute.member_id)}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {mute.muted_until
+                        ? `Until ${formatDateTime(mute.muted_until)}`
+                        : "Until unmuted"}
+                      {mute.reason && ` · ${mute.reason}`}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={saving}
+                    onClick={() =>
+                      runAction(
+                        () =>
+                          messagesService.unmuteMember(daoId, mute.member_id),
+                        "Member unmuted"
+                      )
+                    }
+                  >
+                    Unmute
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Moderation Log</CardTitle>
+          <CardDescription>
+            Every moderation action in this DAO. Hidden messages keep their text
+            here and can be restored.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {log.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No moderation actions yet.
+            </p>
+          ) : (
+            log.map((entry) => (
+              <div key={entry.log_id} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge variant="outline">
+                      {ACTION_LABELS[entry.action]}
+                    </Badge>
+                    <span className="text-muted-foreground">
+                      by {formatAddress(entry.moderator_id)}
+                    </span>
+                    {entry.member_id && (
+                      <span className="text-muted-foreground">
+                        · member {formatAddress(entry.member_id)}
+                      </span>
+                    )}
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDateTime(entry.created_at)}
+                  </span>
+                </div>
+                {entry.message && (
+                  <p className="mt-2 text-sm bg-muted rounded-md p-2 whitespace-pre-wrap break-words">
+                    {entry.message.message}
+                  </p>
+                )}
+                {entry.reason && (
+                  <p className="mt-1 text-xs text-muted-foreground">
+                    Reason: {entry.reason}
+                  </p>
+                )}
+                {entry.action === "HIDE_MESSAGE" &&
+                  entry.message?.hidden_at && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="mt-2"
+                      disabled={saving}
+                      onClick={() =>
+                        runAction(
+                          () =>
+                            messagesService.unhideMessage(
+                              entry.message!.message_id
+                            ),
+                          "Message restored"
+                        )
+                      }
+                    >
+                      Restore Message
+                    </Button>
+                  )}
+              </div>
+            ))
+          )}
+
+          {hasMoreLog && (
+            <Button variant="outline" size="sm" onClick={handleLoadMoreLog}>
+              Load more
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { useAccount } from "wagmi";
 import {
   Card,
@@ -11,8 +11,18 @@ import { Badge } from "../../../ui/badge";
 import { Button } from "../../../ui/button";
 import { EmailVerificationForDAOContainer } from "../EmailVerificationForDAO/Container";
 import { GitHubVerificationForDAOContainer } from "../GitHubVerificationForDAO/Container";
-import { DAO, MembershipStatus } from "../../../../types/dao";
-import { isDAOMember } from "../../../../utils/daoHelpers";
+import {
+  DAO,
+  GitHubRepository,
+  MembershipStatus,
+  ReputationEvent,
+} from "../../../../types/dao";
+import { daoService } from "../../../../services/daoService";
+import {
+  formatDateTime,
+  getReputationReasonLabel,
+  isDAOMember,
+} from "../../../../utils/daoHelpers";
 
 interface DAOReputationTabProps {
   dao: DAO;
@@ -32,15 +42,49 @@ export const DAOReputationTab: React.FC<DAOReputationTabProps> = ({
   const [showGitHubVerification, setShowGitHubVerification] = useState(false);
   const [successMessage, setSuccessMessage] = useState<string>();
   const [errorMessage, setErrorMessage] = useState<string>();
+  const [reputationHistory, setReputationHistory] = useState<ReputationEvent[]>(
+    []
+  );
+  const [githubRepositories, setGitHubRepositories] = useState<
+    GitHubRepository[]
+  >([]);
 
   const isMember = isDAOMember(membershipStatus);
 
+  const loadReputationHistory = useCallback(async () => {
+    if (!address || !isMember) return;
+
+    const response = await daoService.getReputationHistory(
+      dao.dao_id,
+      address.toLowerCase()
+    );
+    if (response.success && response.data) {
+      setReputationHistory(response.data);
+    }
+  }, [address, isMember, dao.dao_id]);
+
+  useEffect(() => {
+    loadReputationHistory();
+  }, [loadReputationHistory]);
+
+  useEffect(() => {
+    const loadGitHubRepositories = async () => {
+      const response = await daoService.getGitHubRepositories(dao.dao_id);
+      if (response.success && response.data) {
+        setGitHubRepositories(response.data);
+      }
+    };
+
+    loadGitHubRepositories();
+  }, [dao.dao_id]);
+
   const handleEmailVerificationSuccess = () => {
     setSuccessMessage(
       "Email verification completed! You've earned reputation points."
     );
     setShowEmailVerification(false);
     onReputationEarned?.();
+    loadReputationHistory();
 
     // Clear success message after 5 seconds
     setTimeout(() => setSuccessMessage(undefined), 5000);
@@ -59,6 +103,7 @@ export const DAOReputationTab: React.FC<DAOReputationTabProps> = ({
     );
     setShowGitHubVerification(false);
     onReputationEarned?.();
+    loadReputationHistory();
 
     // Clear success message after 5 seconds
     setTimeout(() => setSuccessMessage(undefined), 5000);
@@ -162,6 +207,56 @@ export const DAOReputationTab: React.FC<DAOReputationTabProps> = ({
         </Card>
       ) : (
         <>
+          {/* Reputation History */}
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Your Reputation History</CardTitle>
+                  <CardDescription>
+                    Every reputation change you received in {dao.name}
+                  </CardDescription>
+                </div>
+                {reputationHistory.length > 0 && (
+                  <Badge variant="outline">
+                    {reputationHistory[0].reputation} points
+                  </Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent>
+              {reputationHistory.length > 0 ? (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {reputationHistory.map((event) => (
+                    <div
+                      key={event.event_id}
+                      className="flex items-center justify-between p-2 bg-muted/50 rounded-lg text-sm"
+                    >
+                      <div>
+                        <p>{getReputationReasonLabel(event.reason)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {formatDateTime(event.created_at)}
+                        </p>
+                      </div>
+                      <span
+                        className={
+                          event.delta >= 0 ? "text-green-600" : "text-red-600"
+                        }
+                      >
+                        {event.delta >= 0 ? "+" : ""}
+                        {event.delta}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground text-center py-2">
+                  No reputation changes yet
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
           {/* Email Verification Activity */}
           <Card>
             <CardHeader>
@@ -254,14 +349,38 @@ export const DAOReputationTab: React.FC<DAOReputationTabProps> = ({
               </p>
 
               <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
-                <p className="text-blue-800 text-xs">
-                  <strong>Example:</strong> Verify contributions to
-                  covalenthq/ai-agent-sdk repository
-                </p>
+                {githubRepositories.length > 0 ? (
+                  <>
+                    <p className="text-blue-800 text-xs font-semibold mb-2">
+                      Rewarded repositories:
+                    </p>
+                    <ul className="space-y-1">
+                      {githubRepositories.map((repository) => (
+                        <li
+                          key={repository.repository_id}
+                          className="flex items-center justify-between text-xs text-blue-800"
+                        >
+                          <span className="font-mono">
+                            {repository.repo_owner}/{repository.repo_name}
+                          </span>
+                          <span>
+                            +{repository.reputation_reward} reputation · +
+                            {repository.merits_reward} merits
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  </>
+                ) : (
+                  <p className="text-blue-800 text-xs">
+                    This DAO has not configured any repositories to reward yet
+                  </p>
+                )}
               </div>
 
               <Button
                 onClick={() => setShowGitHubVerification(true)}
+                disabled={githubRepositories.length === 0}
                 className="w-full bg-blue-600 hover:bg-blue-700"
               >
                 Start GitHub Verification
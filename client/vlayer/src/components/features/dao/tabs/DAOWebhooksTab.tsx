@@ -0,0 +1,433 @@
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../../ui/card";
+import { Badge } from "../../../ui/badge";
+import { Button } from "../../../ui/button";
+import {
+  Webhook,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEvent,
+} from "../../../../types/dao";
+import { webhooksService } from "../../../../services/webhooksService";
+import { formatDateTime } from "../../../../utils/daoHelpers";
+
+interface DAOWebhooksTabProps {
+  daoId: string;
+}
+
+const DELIVERIES_PAGE_SIZE = 50;
+
+const INPUT_CLASS_NAME =
+  "w-full px-3 py-2 border border-input bg-background text-sm rounded-md";
+
+const EVENT_LABELS: Record<WebhookEvent, string> = {
+  PROPOSAL_CREATED: "Proposal created",
+  VOTING_STARTED: "Voting started",
+  PROPOSAL_CONCLUDED: "Proposal concluded",
+  FEEDBACK_CONCLUDED: "Feedback concluded",
+  MEMBER_JOINED: "Member joined",
+  QUEST_COMPLETED: "Quest completed",
+  PING: "Test ping",
+};
+
+// PING is only sent by the test button, webhooks can't subscribe to it
+const SUBSCRIBABLE_EVENTS = (
+  Object.keys(EVENT_LABELS) as WebhookEvent[]
+).filter((event) => event !== "PING");
+
+const STATUS_CLASS_NAMES: Record<WebhookDeliveryStatus, string> = {
+  PENDING: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  SENT: "bg-green-100 text-green-800 border-green-200",
+  FAILED: "bg-red-100 text-red-800 border-red-200",
+};
+
+export const DAOWebhooksTab: React.FC<DAOWebhooksTabProps> = ({ daoId }) => {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [hasMoreDeliveries, setHasMoreDeliveries] = useState(false);
+  const [url, setUrl] = useState("");
+  const [events, setEvents] = useState<WebhookEvent[]>(SUBSCRIBABLE_EVENTS);
+  const [revealedSecret, setRevealedSecret] = useState<{
+    url: string;
+    secret: string;
+  }>();
+  const [saving, setSaving] = useState(false);
+  const [successMessage, setSuccessMessage] = useState<string>();
+  const [errorMessage, setErrorMessage] = useState<string>();
+
+  const loadWebhooks = useCallback(async () => {
+    const [webhooksResponse, deliveriesResponse] = await Promise.all([
+      webhooksService.getWebhooks(daoId),
+      webhooksService.getDeliveries(daoId, DELIVERIES_PAGE_SIZE),
+    ]);
+
+    if (webhooksResponse.success && webhooksResponse.data) {
+      setWebhooks(webhooksResponse.data);
+    }
+    if (deliveriesResponse.success && deliveriesResponse.data) {
+      setDeliveries(deliveriesResponse.data);
+      setHasMoreDeliveries(
+        deliveriesResponse.data.length === DELIVERIES_PAGE_SIZE
+      );
+    }
+
+    const failed = [webhooksResponse, deliveriesResponse].find(
+      (response) => !response.success
+    );
+    setErrorMessage(failed?.error);
+  }, [daoId]);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const runAction = async <T,>(
+    action: () => Promise<{ success: boolean; data?: T; error?: string }>,
+    success: string
+  ) => {
+    setSaving(true);
+    setSuccessMessage(undefined);
+    setErrorMessage(undefined);
+
+    try {
+      const response = await action();
+      if (!response.success) {
+        setErrorMessage(response.error);
+        return null;
+      }
+
+      setSuccessMessage(success);
+      await loadWebhooks();
+      return response.data ?? null;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    setEvents((prev) =>
+      prev.includes(event)
+        ? prev.filter((selected) => selected !== event)
+        : [...prev, event]
+    );
+  };
+
+  const handleCreate = async () => {
+    const webhook = await runAction(
+      () =>
+        webhooksService.createWebhook({
+          dao_id: daoId,
+          url: url.trim(),
+          events,
+        }),
+      "Webhook created"
+    );
+    if (webhook?.secret) {
+      setRevealedSecret({ url: webhook.url, secret: webhook.secret });
+      setUrl("");
+      setEvents(SUBSCRIBABLE_EVENTS);
+    }
+  };
+
+  const handleRotateSecret = async (webhook: Webhook) => {
+    if (
+      !window.confirm(
+        "Rotate this webhook's secret? Deliveries are signed with the new one right away."
+      )
+    ) {
+      return;
+    }
+
+    const rotated = await runAction(
+      () => webhooksService.rotateWebhookSecret(daoId, webhook.webhook_id),
+      "Secret rotated"
+    );
+    if (rotated?.secret) {
+      setRevealedSecret({ url: rotated.url, secret: rotated.secret });
+    }
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (!window.confirm(`Delete the webhook for ${webhook.url}?`)) return;
+
+    runAction(
+      () => webhooksService.deleteWebhook(daoId, webhook.webhook_id),
+      "Webhook deleted"
+    );
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setSaving(true);
+    setSuccessMessage(undefined);
+    setErrorMessage(undefined);
+
+    try {
+      const response = await webhooksService.testWebhook(
+        daoId,
+        webhook.webhook_id
+      );
+      if (!response.success || !response.data) {
+        setErrorMessage(response.error);
+      } else if (response.data.status === "SENT") {
+        setSuccessMessage(
+          `Test ping delivered (${response.data.response_status})`
+        );
+      } else {
+        setErrorMessage(`Test ping failed: ${response.data.last_error}`);
+      }
+      await loadWebhooks();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleLoadMoreDeliveries = async () => {
+    const response = await webhooksService.getDeliveries(
+      daoId,
+      DELIVERIES_PAGE_SIZE,
+      deliveries.length
+    );
+    if (response.success && response.data) {
+      setDeliveries((prev) => [...prev, ...response.data!]);
+      setHasMoreDeliveries(response.data.length === DELIVERIES_PAGE_SIZE);
+    } else {
+      setErrorMessage(response.error);
+    }
+  };
+
+  const getWebhookUrl = (webhookId: string) =>
+    webhooks.find((webhook) => webhook.webhook_id === webhookId)?.url;
+
+  return (
+    <div className="space-y-6">
+      {successMessage && (
+        <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm text-green-800">
+          {successMessage}
+        </div>
+      )}
+      {errorMessage && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {errorMessage}
+        </div>
+      )}
+      {revealedSecret && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-900 space-y-1">
+          <p>
+            Signing secret for {revealedSecret.url}. Copy it now, it won't be
+            shown again.
+          </p>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 break-all bg-background rounded px-2 py-1">
+              {revealedSecret.secret}
+            </code>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setRevealedSecret(undefined)}
+            >
+              Done
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Webhooks</CardTitle>
+          <CardDescription>
+            DAOscape POSTs the selected events to these URLs, signed with each
+            webhook's secret in the X-DAOscape-Signature header. Failed
+            deliveries are retried with backoff.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <input
+              placeholder="https://example.com/daoscape-webhook"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              className={INPUT_CLASS_NAME}
+            />
+            <div className="flex flex-wrap gap-3">
+              {SUBSCRIBABLE_EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={events.includes(event)}
+                    onChange={() => toggleEvent(event)}
+                  />
+                  {EVENT_LABELS[event]}
+                </label>
+              ))}
+            </div>
+          </div>
+          <Button
+            onClick={handleCreate}
+            disabled={saving || !url.trim() || events.length === 0}
+          >
+            Add Webhook
+          </Button>
+
+          {webhooks.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No webhooks registered yet.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {webhooks.map((webhook) => (
+                <div
+                  key={webhook.webhook_id}
+                  className="p-3 border rounded-lg space-y-2"
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="text-sm font-mono break-all">{webhook.url}</p>
+                    <Badge variant="outline">
+                      {webhook.active ? "Active" : "Paused"}
+                    </Badge>
+                  </div>
+                  <div className="flex flex-wrap gap-1">
+                    {webhook.events.map((event) => (
+                      <Badge key={event} variant="secondary">
+                        {EVENT_LABELS[event]}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => handleTest(webhook)}
+                    >
+                      Send Test
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() =>
+                        runAction(
+                          () =>
+                            webhooksService.updateWebhook({
+                              dao_id: daoId,
+                              webhook_id: webhook.webhook_id,
+                              active: !webhook.active,
+                            }),
+                          webhook.active ? "Webhook paused" : "Webhook resumed"
+                        )
+                      }
+                    >
+                      {webhook.active ? "Pause" : "Resume"}
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => handleRotateSecret(webhook)}
+                    >
+                      Rotate Secret
+                    </Button>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={saving}
+                      onClick={() => handleDelete(webhook)}
+                    >
+                      Delete
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Delivery Log</CardTitle>
+          <CardDescription>
+            Every delivery to this DAO's webhooks, newest first. A delivery
+            keeps its id when it is retried or sent again.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {deliveries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No deliveries yet.</p>
+          ) : (
+            deliveries.map((delivery) => (
+              <div key={delivery.delivery_id} className="p-3 border rounded-lg">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 text-sm">
+                    <Badge className={STATUS_CLASS_NAMES[delivery.status]}>
+                      {delivery.status}
+                    </Badge>
+                    <Badge variant="outline">
+                      {EVENT_LABELS[delivery.event]}
+                    </Badge>
+                    <span className="text-muted-foreground truncate">
+                      {getWebhookUrl(delivery.webhook_id) ?? "Deleted webhook"}
+                    </span>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {formatDateTime(delivery.created_at)}
+                  </span>
+                </div>
+                <p className="mt-1 text-xs text-muted-foreground">
+                  {delivery.attempts} attempt
+                  {delivery.attempts === 1 ? "" : "s"}
+                  {delivery.response_status !== null &&
+                    ` · last response ${delivery.response_status}`}
+                  {delivery.status === "PENDING" &&
+                    delivery.attempts > 0 &&
+                    ` · next retry ${formatDateTime(delivery.next_attempt_at)}`}
+                </p>
+                {delivery.last_error && (
+                  <p className="mt-1 text-xs text-red-700 break-words">
+                    {delivery.last_error}
+                  </p>
+                )}
+                {delivery.status !== "PENDING" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    disabled={saving}
+                    onClick={() =>
+                      runAction(
+                        () =>
+                          webhooksService.redeliver(
+                            daoId,
+                            delivery.delivery_id
+                          ),
+                        "Delivery sent again"
+                      )
+                    }
+                  >
+                    Redeliver
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+
+          {hasMoreDeliveries && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleLoadMoreDeliveries}
+            >
+              Load more
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
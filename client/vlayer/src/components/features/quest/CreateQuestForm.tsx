@@ -1,7 +1,11 @@
 import React, { useState } from "react";
 import { useAccount } from "wagmi";
 import { questService } from "../../../services/questService";
-import { CreateQuestRequest } from "../../../types/quest";
+import {
+  CreateQuestRequest,
+  CreateQuestTask,
+  QuestTaskType,
+} from "../../../types/quest";
 import { useUserDAOs } from "../../../hooks/useUserDAOs";
 import { isDAOOwner } from "../../../utils/daoHelpers";
 import { Button } from "../../ui/button";
@@ -14,6 +18,89 @@ import {
 } from "../../ui/card";
 import { Badge } from "../../ui/badge";
 
+const MAX_QUEST_TASKS = 10;
+
+const TASK_TYPES: {
+  value: QuestTaskType;
+  label: string;
+  fields: { name: string; label: string; placeholder: string }[];
+}[] = [
+  {
+    value: "TWITTER_FOLLOW",
+    label: "Follow Twitter Account",
+    fields: [{ name: "username", label: "Username", placeholder: "@username" }],
+  },
+  {
+    value: "TWITTER_LIKE",
+    label: "Like Tweet",
+    fields: [
+      {
+        name: "tweet_id",
+        label: "Tweet",
+        placeholder: "https://x.com/username/status/1234567890",
+      },
+    ],
+  },
+  {
+    value: "TWITTER_RETWEET",
+    label: "Retweet",
+    fields: [
+      {
+        name: "tweet_id",
+        label: "Tweet",
+        placeholder: "https://x.com/username/status/1234567890",
+      },
+    ],
+  },
+  {
+    value: "GITHUB_CONTRIBUTION",
+    label: "Contribute on GitHub",
+    fields: [
+      {
+        name: "repo_owner",
+        label: "Repository Owner",
+        placeholder: "vlayer-xyz",
+      },
+      { name: "repo_name", label: "Repository Name", placeholder: "vlayer" },
+    ],
+  },
+  {
+    value: "EMAIL_DOMAIN",
+    label: "Verify Email Domain",
+    fields: [
+      {
+        name: "email_domain",
+        label: "Email Domain",
+        placeholder: "example.com",
+      },
+    ],
+  },
+];
+
+const getTaskFields = (taskType: QuestTaskType) =>
+  TASK_TYPES.find(({ value }) => value === taskType)?.fields || [];
+
+const createTask = (taskType: QuestTaskType): CreateQuestTask =>
+  ({
+    task_type: taskType,
+    config: Object.fromEntries(
+      getTaskFields(taskType).map(({ name }) => [name, ""])
+    ),
+  }) as CreateQuestTask;
+
+// Accepts a tweet URL as well as a bare id, the backend only takes the id
+const cleanTask = (task: CreateQuestTask): CreateQuestTask => {
+  const config: Record<string, string> = Object.fromEntries(
+    Object.entries(task.config).map(([name, value]) => [name, value.trim()])
+  );
+  if (config.tweet_id) {
+    config.tweet_id =
+      config.tweet_id.match(/status\/(\d+)/)?.[1] || config.tweet_id;
+  }
+
+  return { ...task, config } as CreateQuestTask;
+};
+
 interface CreateQuestFormProps {
   daoId?: string;
   onQuestCreated: () => void;
@@ -40,11 +127,12 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
     reward_token_chain: undefined,
     reward_token_address: "",
     reward_token_amount: undefined,
-    twitter_account_url: "",
-    twitter_post_url: "",
-    twitter_follow_enabled: false,
-    twitter_like_enabled: false,
-    twitter_retweet_enabled: false,
+    reward_token_budget: undefined,
+    max_participants: undefined,
+    members_only: false,
+    min_reputation: undefined,
+    required_house: undefined,
+    tasks: [createTask("TWITTER_FOLLOW")],
   });
 
   const [loading, setLoading] = useState(false);
@@ -65,7 +153,9 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
   };
 
   const handleInputChange = (
-    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+    e: React.ChangeEvent<
+      HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement
+    >
   ) => {
     const { name, value, type } = e.target;
     setFormData((prev) => ({
@@ -81,6 +171,47 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
     }));
   };
 
+  const handleTaskTypeChange = (index: number, taskType: QuestTaskType) => {
+    setFormData((prev) => ({
+      ...prev,
+      tasks: prev.tasks.map((task, i) =>
+        i === index ? createTask(taskType) : task
+      ),
+    }));
+  };
+
+  const handleTaskConfigChange = (
+    index: number,
+    name: string,
+    value: string
+  ) => {
+    setFormData((prev) => ({
+      ...prev,
+      tasks: prev.tasks.map((task, i) =>
+        i === index
+          ? ({
+              ...task,
+              config: { ...task.config, [name]: value },
+            } as CreateQuestTask)
+          : task
+      ),
+    }));
+  };
+
+  const handleAddTask = () => {
+    setFormData((prev) => ({
+      ...prev,
+      tasks: [...prev.tasks, createTask("TWITTER_FOLLOW")],
+    }));
+  };
+
+  const handleRemoveTask = (index: number) => {
+    setFormData((prev) => ({
+      ...prev,
+      tasks: prev.tasks.filter((_, i) => i !== index),
+    }));
+  };
+
   const validateForm = (): string | null => {
     if (!selectedDaoId) {
       return "Please select a DAO";
@@ -104,23 +235,33 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
       return "Reward merits must be greater than 0";
     }
     if (
-      !formData.twitter_follow_enabled &&
-      !formData.twitter_like_enabled &&
-      !formData.twitter_retweet_enabled
+      formData.reward_token_chain ||
+      (formData.reward_token_address || "").trim() ||
+      formData.reward_token_amount ||
+      formData.reward_token_budget
     ) {
-      return "At least one Twitter action must be enabled";
+      if (
+        !formData.reward_token_chain ||
+        !(formData.reward_token_address || "").trim() ||
+        !formData.reward_token_amount ||
+        !formData.reward_token_budget
+      ) {
+        return "Token rewards need a chain, address, amount and budget";
+      }
+      if (formData.reward_token_budget < formData.reward_token_amount) {
+        return "Token budget must cover at least one reward";
+      }
     }
-    if (
-      formData.twitter_follow_enabled &&
-      !(formData.twitter_account_url || "").trim()
-    ) {
-      return "Twitter account URL is required when follow is enabled";
+    if (formData.tasks.length === 0) {
+      return "At least one task is required";
     }
-    if (
-      (formData.twitter_like_enabled || formData.twitter_retweet_enabled) &&
-      !(formData.twitter_post_url || "").trim()
-    ) {
-      return "Twitter post URL is required when like or retweet is enabled";
+    for (const task of formData.tasks) {
+      const missingField = getTaskFields(task.task_type).find(
+        ({ name }) => !(task.config as Record<string, string>)[name].trim()
+      );
+      if (missingField) {
+        return `${missingField.label} is required for every task`;
+      }
     }
 
     return null;
@@ -144,11 +285,10 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
         dao_id: selectedDaoId,
         start_time: new Date(formData.start_time).toISOString(),
         end_time: new Date(formData.end_time).toISOString(),
-        twitter_account_url:
-          (formData.twitter_account_url || "").trim() || undefined,
-        twitter_post_url: (formData.twitter_post_url || "").trim() || undefined,
+        tasks: formData.tasks.map(cleanTask),
         reward_token_address:
           (formData.reward_token_address || "").trim() || undefined,
+        required_house: formData.required_house || undefined,
       };
 
       await questService.createQuest(cleanedData);
@@ -208,10 +348,10 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Create Twitter Quest</CardTitle>
+        <CardTitle>Create Quest</CardTitle>
         <CardDescription>
-          Set up a quest for your DAO members to complete Twitter actions and
-          earn rewards. Only DAO owners can create quests.
+          Set up a quest for your DAO members to complete tasks and earn
+          rewards. Only DAO owners can create quests.
         </CardDescription>
       </CardHeader>
 
@@ -282,7 +422,7 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
                     type="text"
                     value={formData.title}
                     onChange={handleInputChange}
-                    placeholder="e.g., Follow our Twitter and like our latest post"
+                    placeholder="e.g., Follow our Twitter and contribute to our repo"
                     className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
                     required
                   />
@@ -345,115 +485,96 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
                 </div>
               </div>
 
-              {/* Twitter Actions */}
+              {/* Tasks */}
               <div className="space-y-4">
-                <h3 className="text-lg font-semibold">Twitter Actions</h3>
-
-                <div className="space-y-3">
-                  <div className="flex items-center space-x-2">
-                    <input
-                      id="twitter_follow_enabled"
-                      type="checkbox"
-                      checked={formData.twitter_follow_enabled}
-                      onChange={(e) =>
-                        handleCheckboxChange(
-                          "twitter_follow_enabled",
-                          e.target.checked
-                        )
-                      }
-                      className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
-                    />
-                    <label
-                      htmlFor="twitter_follow_enabled"
-                      className="text-sm font-medium"
-                    >
-                      Follow Twitter Account
-                    </label>
-                  </div>
+                <h3 className="text-lg font-semibold">Tasks</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Participants complete every task with an on-chain proof to
+                  finish the quest.
+                </p>
 
-                  {formData.twitter_follow_enabled && (
-                    <div className="ml-6">
-                      <label
-                        htmlFor="twitter_account_url"
-                        className="block text-sm font-medium mb-2"
+                {formData.tasks.map((task, index) => (
+                  <div
+                    key={index}
+                    className="p-4 border border-border rounded-lg space-y-3"
+                  >
+                    <div className="flex items-end space-x-2">
+                      <div className="flex-1">
+                        <label
+                          htmlFor={`task_type_${index}`}
+                          className="block text-sm font-medium mb-2"
+                        >
+                          Task {index + 1}
+                        </label>
+                        <select
+                          id={`task_type_${index}`}
+                          value={task.task_type}
+                          onChange={(e) =>
+                            handleTaskTypeChange(
+                              index,
+                              e.target.value as QuestTaskType
+                            )
+                          }
+                          className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                        >
+                          {TASK_TYPES.map(({ value, label }) => (
+                            <option key={value} value={value}>
+                              {label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => handleRemoveTask(index)}
+                        disabled={formData.tasks.length === 1}
                       >
-                        Twitter Account URL
-                      </label>
-                      <input
-                        id="twitter_account_url"
-                        name="twitter_account_url"
-                        type="text"
-                        value={formData.twitter_account_url || ""}
-                        onChange={handleInputChange}
-                        placeholder="https://twitter.com/username"
-                        className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                      />
+                        Remove
+                      </Button>
                     </div>
-                  )}
 
-                  <div className="flex items-center space-x-2">
-                    <input
-                      id="twitter_like_enabled"
-                      type="checkbox"
-                      checked={formData.twitter_like_enabled}
-                      onChange={(e) =>
-                        handleCheckboxChange(
-                          "twitter_like_enabled",
-                          e.target.checked
-                        )
-                      }
-                      className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
-                    />
-                    <label
-                      htmlFor="twitter_like_enabled"
-                      className="text-sm font-medium"
-                    >
-                      Like Tweet
-                    </label>
-                  </div>
-
-                  <div className="flex items-center space-x-2">
-                    <input
-                      id="twitter_retweet_enabled"
-                      type="checkbox"
-                      checked={formData.twitter_retweet_enabled}
-                      onChange={(e) =>
-                        handleCheckboxChange(
-                          "twitter_retweet_enabled",
-                          e.target.checked
-                        )
-                      }
-                      className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
-                    />
-                    <label
-                      htmlFor="twitter_retweet_enabled"
-                      className="text-sm font-medium"
-                    >
-                      Retweet
-                    </label>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                      {getTaskFields(task.task_type).map((field) => (
+                        <div key={field.name}>
+                          <label
+                            htmlFor={`task_${index}_${field.name}`}
+                            className="block text-sm font-medium mb-2"
+                          >
+                            {field.label}
+                          </label>
+                          <input
+                            id={`task_${index}_${field.name}`}
+                            type="text"
+                            value={
+                              (task.config as Record<string, string>)[
+                                field.name
+                              ]
+                            }
+                            onChange={(e) =>
+                              handleTaskConfigChange(
+                                index,
+                                field.name,
+                                e.target.value
+                              )
+                            }
+                            placeholder={field.placeholder}
+                            className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                          />
+                        </div>
+                      ))}
+                    </div>
                   </div>
+                ))}
 
-                  {(formData.twitter_like_enabled ||
-                    formData.twitter_retweet_enabled) && (
-                    <div className="ml-6">
-                      <label
-                        htmlFor="twitter_post_url"
-                        className="block text-sm font-medium mb-2"
-                      >
-                        Twitter Post URL
-                      </label>
-                      <input
-                        id="twitter_post_url"
-                        name="twitter_post_url"
-                        type="text"
-                        value={formData.twitter_post_url || ""}
-                        onChange={handleInputChange}
-                        placeholder="https://twitter.com/username/status/1234567890"
-                        className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
-                      />
-                    </div>
-                  )}
-                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={handleAddTask}
+                  disabled={formData.tasks.length >= MAX_QUEST_TASKS}
+                >
+                  + Add Task
+                </Button>
               </div>
 
               {/* Rewards */}
@@ -483,7 +604,7 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
                   />
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <div>
                     <label
                       htmlFor="reward_token_chain"
@@ -536,6 +657,109 @@ export const CreateQuestForm: React.FC<CreateQuestFormProps> = ({
                       className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
                     />
                   </div>
+                  <div>
+                    <label
+                      htmlFor="reward_token_budget"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      Reward Token Budget (Optional)
+                    </label>
+                    <input
+                      id="reward_token_budget"
+                      name="reward_token_budget"
+                      type="number"
+                      step="0.01"
+                      value={formData.reward_token_budget || ""}
+                      onChange={handleInputChange}
+                      placeholder="Total tokens paid out, e.g., 500"
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                    />
+                  </div>
+                </div>
+              </div>
+
+              {/* Participation */}
+              <div className="space-y-4">
+                <h3 className="text-lg font-semibold">Participation</h3>
+                <p className="text-sm text-muted-foreground mb-4">
+                  Limit how many members can join and who is eligible. Quests
+                  only accept joins and completions between the start and end
+                  time.
+                </p>
+
+                <div className="flex items-center space-x-2">
+                  <input
+                    id="members_only"
+                    type="checkbox"
+                    checked={!!formData.members_only}
+                    onChange={(e) =>
+                      handleCheckboxChange("members_only", e.target.checked)
+                    }
+                    className="h-4 w-4 text-primary focus:ring-primary border-gray-300 rounded"
+                  />
+                  <label htmlFor="members_only" className="text-sm font-medium">
+                    DAO members only
+                  </label>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div>
+                    <label
+                      htmlFor="max_participants"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      Max Participants (Optional)
+                    </label>
+                    <input
+                      id="max_participants"
+                      name="max_participants"
+                      type="number"
+                      min="1"
+                      value={formData.max_participants || ""}
+                      onChange={handleInputChange}
+                      placeholder="Unlimited"
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="min_reputation"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      Minimum Reputation (Optional)
+                    </label>
+                    <input
+                      id="min_reputation"
+                      name="min_reputation"
+                      type="number"
+                      value={formData.min_reputation ?? ""}
+                      onChange={handleInputChange}
+                      placeholder="Any"
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                    />
+                  </div>
+                  <div>
+                    <label
+                      htmlFor="required_house"
+                      className="block text-sm font-medium mb-2"
+                    >
+                      House (Optional)
+                    </label>
+                    <select
+                      id="required_house"
+                      name="required_house"
+                      value={formData.required_house || ""}
+                      onChange={handleInputChange}
+                      className="w-full px-3 py-2 border border-input rounded-md bg-background text-sm ring-offset-background focus:outline-none focus:ring-2 focus:ring-ring focus:ring-offset-2"
+                    >
+                      <option value="">Any house</option>
+                      {["1", "2", "3", "4"].map((house) => (
+                        <option key={house} value={house}>
+                          House {house}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
                 </div>
               </div>
             </>
@@ -1,20 +1,14 @@
 import React, { useState, useEffect } from "react";
-import { QuestWithStatus, QuestParticipant } from "../../../types/quest";
+import {
+  QuestWithStatus,
+  QuestParticipant,
+  QuestEligibility,
+  QuestTask,
+  QuestTaskType,
+  QuestFunnel,
+} from "../../../types/quest";
 import { DAO } from "../../../types/dao";
 import { questService } from "../../../services/questService";
-import {
-  useDynamicTwitterProof,
-  ActionType,
-} from "../../../hooks/useDynamicTwitterProof";
-import {
-  useWriteContract,
-  useWaitForTransactionReceipt,
-  useAccount,
-  useBalance,
-} from "wagmi";
-import { useNotification } from "@blockscout/app-sdk";
-import dynamicTwitterVerifier from "../../../constants/DynamicTwitterVerifier.json";
-import { ensureBalance } from "../../../utils/ethFaucet";
 import { Button } from "../../ui/button";
 import {
   Card,
@@ -24,8 +18,18 @@ import {
   CardTitle,
 } from "../../ui/card";
 import { Badge } from "../../ui/badge";
-import { useTransactionWithAPI } from "../../../hooks/useTransactionWithAPI";
-import { executeAPIAfterTransaction } from "../../../utils/transactionWithAPI";
+import { GitHubVerificationForDAOContainer } from "../dao/GitHubVerificationForDAO/Container";
+import { EmailVerificationForDAOContainer } from "../dao/EmailVerificationForDAO/Container";
+import { QuestTwitterTask } from "./QuestTwitterTask";
+import { Progress } from "../../ui/progress";
+
+const TASK_DESCRIPTIONS: Record<QuestTaskType, string> = {
+  TWITTER_FOLLOW: "Follow the specified Twitter account",
+  TWITTER_LIKE: "Like the specified tweet",
+  TWITTER_RETWEET: "Retweet the specified tweet",
+  GITHUB_CONTRIBUTION: "Prove a contribution to the specified repository",
+  EMAIL_DOMAIN: "Prove you own an email address on the specified domain",
+};
 
 interface QuestDetailProps {
   quest: QuestWithStatus;
@@ -45,60 +49,35 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
   const [success, setSuccess] = useState<string | null>(null);
   const [userParticipation, setUserParticipation] =
     useState<QuestParticipant | null>(quest.userParticipation || null);
-  const [currentVerifyingAction, setCurrentVerifyingAction] = useState<
-    string | null
-  >(null);
-
-  // Verification state and hooks
-  const [isVerifying, setIsVerifying] = useState(false);
-  const [verificationError, setVerificationError] = useState<Error | null>(
-    null
-  );
-  const [pendingVerificationAction, setPendingVerificationAction] = useState<
-    string | null
-  >(null);
-  const { address } = useAccount();
-  const { data: balance } = useBalance({ address });
-  const {
-    writeContract,
-    data: txHash,
-    error: contractError,
-  } = useWriteContract();
-  const { openTxToast } = useNotification();
-  const { status: txStatus } = useWaitForTransactionReceipt({
-    hash: txHash,
-  });
-
-  // Extract target values from quest URLs
-  const getTwitterUsername = (url?: string) => {
-    if (!url) return undefined;
-    const match = url.match(/twitter\.com\/([^\/\?]+)/);
-    const xmatch = url.match(/x\.com\/([^\/\?]+)/);
-    return match ? match[1] : xmatch ? xmatch[1] : undefined;
-  };
-
-  const getTweetId = (url?: string) => {
-    if (!url) return undefined;
-    const match = url.match(/status\/(\d+)/);
-    return match ? match[1] : undefined;
-  };
-
-  const twitterUsername = getTwitterUsername(quest.twitter_account_url);
-  const tweetId = getTweetId(quest.twitter_post_url);
-
-  // vlayer proof hooks for different actions
-  const followProof = useDynamicTwitterProof(
-    ActionType.FOLLOW_USER,
-    twitterUsername
+  const [eligibility, setEligibility] = useState<QuestEligibility | null>(
+    quest.eligibility || null
   );
-  const likeProof = useDynamicTwitterProof(ActionType.LIKE_POST, tweetId);
-  const retweetProof = useDynamicTwitterProof(ActionType.RETWEET_POST, tweetId);
+  const [funnel, setFunnel] = useState<QuestFunnel | null>(null);
+  const [exporting, setExporting] = useState(false);
 
   const isQuestActive = quest.status === "active";
   const isQuestCompleted =
     userParticipation &&
     questService.isQuestCompleted(userParticipation, quest);
-  const canJoin = userAddress && !userParticipation && isQuestActive;
+  const canJoin =
+    userAddress &&
+    !userParticipation &&
+    isQuestActive &&
+    eligibility?.eligible !== false;
+  const requirements = questService.getQuestRequirements(quest);
+
+  useEffect(() => {
+    if (!userAddress) return;
+
+    questService
+      .getQuestEligibility(quest.quest_id, userAddress)
+      .then(setEligibility);
+  }, [quest.quest_id, userAddress, userParticipation]);
+
+  useEffect(() => {
+    questService.getQuestFunnel(quest.quest_id).then(setFunnel);
+  }, [quest.quest_id, userParticipation]);
+
   const canVerify =
     userAddress && userParticipation && !isQuestCompleted && isQuestActive;
 
@@ -166,384 +145,123 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
     }
   };
 
-  const handleVerifyAction = async (
-    actionType: "follow" | "like" | "retweet"
-  ) => {
-    if (!userAddress || !userParticipation) return;
+  const isQuestOwner =
+    !!userAddress &&
+    dao?.owner_address.toLowerCase() === userAddress.toLowerCase();
 
-    setCurrentVerifyingAction(actionType);
+  const handleExportParticipants = async () => {
+    setExporting(true);
     setError(null);
-    setSuccess(null);
 
-    switch (actionType) {
-      case "follow":
-        if (!twitterUsername) {
-          setError("Twitter username not found in quest URL");
-          setCurrentVerifyingAction(null);
-          return;
-        }
-        // Only request web proof, the hook will handle the rest automatically
-        followProof.requestWebProof();
-        break;
-      case "like":
-        if (!tweetId) {
-          setError("Tweet ID not found in quest URL");
-          setCurrentVerifyingAction(null);
-          return;
-        }
-        likeProof.requestWebProof();
-        break;
-      case "retweet":
-        if (!tweetId) {
-          setError("Tweet ID not found in quest URL");
-          setCurrentVerifyingAction(null);
-          return;
-        }
-        retweetProof.requestWebProof();
-        break;
-      default:
-        setError("Invalid action type");
-        setCurrentVerifyingAction(null);
-        return;
+    try {
+      await questService.exportQuestParticipants(quest.quest_id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export CSV");
+    } finally {
+      setExporting(false);
     }
   };
 
-  useEffect(() => {
-    const handleProverCall = async (proof: any, actionType: string) => {
-      if (proof.webProof && proof.isCallProverIdle && userAddress) {
-        await proof.callProver([
-          proof.webProof,
-          proof.actionType,
-          "",
-          proof.targetValue || "",
-          userAddress,
-        ]);
-      }
-    };
-
-    if (currentVerifyingAction === "follow") {
-      handleProverCall(followProof, "follow");
-    } else if (currentVerifyingAction === "like") {
-      handleProverCall(likeProof, "like");
-    } else if (currentVerifyingAction === "retweet") {
-      handleProverCall(retweetProof, "retweet");
-    }
-  }, [
-    followProof.webProof,
-    followProof.isCallProverIdle,
-    likeProof.webProof,
-    likeProof.isCallProverIdle,
-    retweetProof.webProof,
-    retweetProof.isCallProverIdle,
-    currentVerifyingAction,
-    userAddress,
-  ]);
-
-  // Effect to handle completion when result is available
-  useEffect(() => {
-    const handleCompletion = async (proof: any, actionType: string) => {
-      if (proof.result && currentVerifyingAction === actionType) {
-        // Set pending verification instead of auto-completing
-        setPendingVerificationAction(actionType);
-        setCurrentVerifyingAction(null);
-      }
-    };
+  const renderFunnelStep = (label: string, count: number) => (
+    <div key={label} className="space-y-1">
+      <div className="flex justify-between text-sm">
+        <span>{label}</span>
+        <span className="text-muted-foreground">
+          {count}
+          {funnel && funnel.joined > 0 && (
+            <> ({Math.round((count / funnel.joined) * 100)}%)</>
+          )}
+        </span>
+      </div>
+      <Progress value={funnel?.joined ? (count / funnel.joined) * 100 : 0} />
+    </div>
+  );
 
-    if (followProof.result) {
-      handleCompletion(followProof, "follow");
-    } else if (likeProof.result) {
-      handleCompletion(likeProof, "like");
-    } else if (retweetProof.result) {
-      handleCompletion(retweetProof, "retweet");
-    }
-  }, [
-    followProof.result,
-    likeProof.result,
-    retweetProof.result,
-    currentVerifyingAction,
-    quest.quest_id,
-    userAddress,
-    onQuestUpdated,
-  ]);
-
-  // Verification function
-  const handleVerifyOnChain = async (
-    actionType: "follow" | "like" | "retweet"
+  const handleTaskCompleted = (
+    task: QuestTask,
+    participation: QuestParticipant | null
   ) => {
-    if (!userAddress || !userParticipation) return;
-
-    setIsVerifying(true);
-    setVerificationError(null);
-
-    try {
-      let proofResult;
-      switch (actionType) {
-        case "follow":
-          proofResult = followProof.result;
-          break;
-        case "like":
-          proofResult = likeProof.result;
-          break;
-        case "retweet":
-          proofResult = retweetProof.result;
-          break;
-        default:
-          throw new Error("Invalid action type");
-      }
-
-      if (!proofResult) {
-        throw new Error("No proof data available");
-      }
-
-      const proofData = proofResult as any[];
-      const proof = proofData[0];
-      const actionVerified = proofData[1];
-      const actualValue = proofData[2];
-      const account = proofData[3];
-      const actionId = proofData[4];
-      const username = proofData[5];
-      const targetValue = proofData[6];
-
-      const writeContractArgs = {
-        address: import.meta.env.VITE_VERIFIER_ADDRESS as `0x${string}`,
-        abi: dynamicTwitterVerifier.abi,
-        functionName: "verifySingleAction",
-        args: [
-          proof,
-          actionVerified,
-          actualValue,
-          account,
-          actionId,
-          username,
-          targetValue,
-        ],
-      };
-
-      await ensureBalance(userAddress as `0x${string}`, balance?.value ?? 0n);
-      writeContract(writeContractArgs);
-    } catch (error) {
-      setVerificationError(error as Error);
-      setIsVerifying(false);
-    }
+    setUserParticipation(participation);
+    setSuccess(
+      `${questService.getTaskLabel(task)} verified successfully on-chain and recorded!`
+    );
+    onQuestUpdated();
   };
 
-  // Handle successful verification
-  useEffect(() => {
-    if (txStatus === "success" && pendingVerificationAction) {
-      const actionType = pendingVerificationAction;
-
-      // Update the completion status in the backend AFTER transaction settlement
-      const updateCompletion = async () => {
-        try {
-          if (!txHash) {
-            throw new Error("No transaction hash available");
-          }
-
-          console.log(`🎯 Quest verification transaction confirmed: ${txHash}`);
-
-          // Wait for transaction settlement, then update API
-          await executeAPIAfterTransaction(
-            txHash,
-            async () => {
-              const updateData = {
-                [`twitter_${actionType}_completed`]: true,
-              };
-
-              await questService.updateParticipantCompletion(
-                quest.quest_id,
-                userAddress!,
-                updateData
-              );
-
-              // Refresh participation status
-              const updatedParticipation =
-                await questService.getParticipantStatus(
-                  quest.quest_id,
-                  userAddress!
-                );
-              setUserParticipation(updatedParticipation);
-
-              return updatedParticipation;
-            },
-            {
-              onTransactionConfirmed: (receipt) => {
-                console.log(
-                  `✅ Quest verification confirmed in block ${receipt.blockNumber}`
-                );
-              },
-              onAPIComplete: (result) => {
-                console.log(`✅ Quest completion updated in API`);
-                setSuccess(
-                  `${
-                    actionType.charAt(0).toUpperCase() + actionType.slice(1)
-                  } action verified successfully on-chain and recorded!`
-                );
-                onQuestUpdated();
-              },
-            }
-          );
-        } catch (err) {
-          console.error(`Error updating completion for ${actionType}:`, err);
-          setError(
-            err instanceof Error
-              ? err.message
-              : `Failed to update ${actionType} completion`
-          );
-        } finally {
-          setIsVerifying(false);
-          setPendingVerificationAction(null);
-        }
-      };
-
-      updateCompletion();
-    }
-  }, [
-    txStatus,
-    txHash,
-    pendingVerificationAction,
-    quest.quest_id,
-    userAddress,
-    onQuestUpdated,
-  ]);
-
-  // Handle transaction hash
-  useEffect(() => {
-    if (txHash) {
-      openTxToast("84532", txHash);
-    }
-  }, [txHash, openTxToast]);
-
-  // Handle contract errors
-  useEffect(() => {
-    if (contractError) {
-      setIsVerifying(false);
-      setVerificationError(new Error(contractError.message));
-    }
-  }, [contractError]);
-
-  // Throw verification errors
-  useEffect(() => {
-    if (verificationError) {
-      setIsVerifying(false);
-      throw verificationError;
-    }
-  }, [verificationError]);
-
-  // Effect to handle errors from proof hooks (matching workflow pattern)
-  useEffect(() => {
-    if (followProof.error) {
-      throw followProof.error;
-    }
-  }, [followProof.error]);
-
-  useEffect(() => {
-    if (likeProof.error) {
-      throw likeProof.error;
-    }
-  }, [likeProof.error]);
-
-  useEffect(() => {
-    if (retweetProof.error) {
-      throw retweetProof.error;
-    }
-  }, [retweetProof.error]);
-
-  const getTaskStatus = (actionType: "follow" | "like" | "retweet") => {
-    if (!userParticipation) return "not_started";
-
-    const completedField =
-      `twitter_${actionType}_completed` as keyof QuestParticipant;
-
-    if (userParticipation[completedField]) return "completed";
-    if (pendingVerificationAction === actionType) return "pending_verification";
-    if (isVerifying && pendingVerificationAction === actionType)
-      return "verifying";
-
-    // Check if proof is ready for verification
-    const hasProofResult =
-      (actionType === "follow" && followProof.result) ||
-      (actionType === "like" && likeProof.result) ||
-      (actionType === "retweet" && retweetProof.result);
-
-    if (hasProofResult) return "ready_to_verify";
+  const submitTaskProof = (task: QuestTask) => async (txHash: string) => {
+    if (!userAddress) return;
 
-    return "pending";
+    await questService.updateParticipantCompletion(
+      quest.quest_id,
+      userAddress,
+      { task_id: task.task_id, tx_hash: txHash }
+    );
+    handleTaskCompleted(
+      task,
+      await questService.getParticipantStatus(quest.quest_id, userAddress)
+    );
   };
 
-  const getProofStatus = (actionType: "follow" | "like" | "retweet") => {
-    if (currentVerifyingAction === actionType) {
-      switch (actionType) {
-        case "follow":
-          if (followProof.isWebProofPending) return "Generating web proof...";
-          if (followProof.isPending) return "Generating vlayer proof...";
-          break;
-        case "like":
-          if (likeProof.isWebProofPending) return "Generating web proof...";
-          if (likeProof.isPending) return "Generating vlayer proof...";
-          break;
-        case "retweet":
-          if (retweetProof.isWebProofPending) return "Generating web proof...";
-          if (retweetProof.isPending) return "Generating vlayer proof...";
-          break;
-      }
-    }
-    return null;
-  };
+  const renderTaskProof = (task: QuestTask) => {
+    if (!userAddress || !canVerify) return null;
 
-  const renderTaskCard = (
-    actionType: "follow" | "like" | "retweet",
-    enabled: boolean,
-    title: string,
-    description: string,
-    url?: string
-  ) => {
-    if (!enabled) return null;
-
-    const status = getTaskStatus(actionType);
-    const isCompleted = status === "completed";
-    const isReadyToVerify = status === "ready_to_verify";
-    const isPendingVerification = status === "pending_verification";
-    const isCurrentlyVerifying = currentVerifyingAction === actionType;
-    const isOnChainVerifying =
-      isVerifying && pendingVerificationAction === actionType;
-    const proofStatus = getProofStatus(actionType);
-
-    const getStatusBadge = () => {
-      if (isCompleted) {
+    switch (task.task_type) {
+      case "TWITTER_FOLLOW":
+      case "TWITTER_LIKE":
+      case "TWITTER_RETWEET":
         return (
-          <Badge className="bg-green-100 text-green-800 border-green-200">
-            Completed
-          </Badge>
+          <QuestTwitterTask
+            questId={quest.quest_id}
+            task={task}
+            userAddress={userAddress}
+            onCompleted={(participation) =>
+              handleTaskCompleted(task, participation)
+            }
+            onError={setError}
+          />
         );
-      }
-      if (isPendingVerification) {
+      case "GITHUB_CONTRIBUTION":
         return (
-          <Badge className="bg-yellow-100 text-yellow-800 border-yellow-200">
-            Ready to Verify
-          </Badge>
+          <GitHubVerificationForDAOContainer
+            daoId={quest.dao_id}
+            repository={task.config}
+            submitProof={submitTaskProof(task)}
+            onError={setError}
+          />
         );
-      }
-      if (isOnChainVerifying) {
+      case "EMAIL_DOMAIN":
         return (
-          <Badge className="bg-blue-100 text-blue-800 border-blue-200">
-            Verifying...
-          </Badge>
+          <EmailVerificationForDAOContainer
+            daoId={quest.dao_id}
+            submitProof={submitTaskProof(task)}
+            onError={setError}
+          />
         );
-      }
-      return null;
-    };
+    }
+  };
+
+  const renderTaskCard = (task: QuestTask) => {
+    const title = questService.getTaskLabel(task);
+    const url = questService.getTaskUrl(task);
+    const isCompleted =
+      !!userParticipation &&
+      questService.isTaskCompleted(userParticipation, task);
 
     return (
-      <Card key={actionType} className="border-l-4 border-l-blue-500">
+      <Card key={task.task_id} className="border-l-4 border-l-blue-500">
         <CardHeader className="pb-3">
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg flex items-center space-x-2">
               <span>{title}</span>
               {isCompleted && <span className="text-green-600">✅</span>}
             </CardTitle>
-            {getStatusBadge()}
+            {isCompleted && (
+              <Badge className="bg-green-100 text-green-800 border-green-200">
+                Completed
+              </Badge>
+            )}
           </div>
-          <CardDescription>{description}</CardDescription>
+          <CardDescription>{TASK_DESCRIPTIONS[task.task_type]}</CardDescription>
         </CardHeader>
 
         <CardContent>
@@ -556,99 +274,17 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
                   rel="noopener noreferrer"
                   className="text-blue-600 hover:text-blue-800 text-sm underline"
                 >
-                  🔗 Open {actionType === "follow" ? "Profile" : "Tweet"}
+                  🔗 Open{" "}
+                  {task.task_type === "GITHUB_CONTRIBUTION"
+                    ? "Repository"
+                    : task.task_type === "TWITTER_FOLLOW"
+                      ? "Profile"
+                      : "Tweet"}
                 </a>
               </div>
             )}
 
-            {/* Generate Proof Button */}
-            {canVerify &&
-              !isCompleted &&
-              !isReadyToVerify &&
-              !isPendingVerification && (
-                <div className="space-y-2">
-                  <Button
-                    onClick={() => handleVerifyAction(actionType)}
-                    disabled={isCurrentlyVerifying || loading}
-                    size="sm"
-                    className="w-full"
-                  >
-                    {isCurrentlyVerifying
-                      ? proofStatus || "Generating Proof..."
-                      : `Generate Proof for ${title}`}
-                  </Button>
-
-                  {isCurrentlyVerifying && (
-                    <div className="text-xs text-muted-foreground">
-                      <div className="flex items-center space-x-2">
-                        <div className="animate-spin rounded-full h-3 w-3 border-b border-primary"></div>
-                        <span>
-                          Follow the vlayer proof generation steps in the popup
-                        </span>
-                      </div>
-                    </div>
-                  )}
-                </div>
-              )}
-
-            {/* Verify On-Chain Button */}
-            {isReadyToVerify && (
-              <div className="space-y-2">
-                <Button
-                  onClick={() => handleVerifyOnChain(actionType)}
-                  disabled={isOnChainVerifying}
-                  size="sm"
-                  className="w-full bg-green-600 hover:bg-green-700"
-                >
-                  {isOnChainVerifying
-                    ? "Verifying On-Chain..."
-                    : `Verify ${title} On-Chain`}
-                </Button>
-                <div className="text-xs text-muted-foreground">
-                  <div className="flex items-center space-x-2">
-                    <span className="text-green-600">✓</span>
-                    <span>
-                      Proof generated successfully! Click to verify on-chain.
-                    </span>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {/* Pending Verification State */}
-            {isPendingVerification && !isOnChainVerifying && (
-              <div className="space-y-2">
-                <Button
-                  onClick={() => handleVerifyOnChain(actionType)}
-                  disabled={false}
-                  size="sm"
-                  className="w-full bg-green-600 hover:bg-green-700"
-                >
-                  Verify {title} On-Chain
-                </Button>
-                <div className="text-xs text-muted-foreground">
-                  <div className="flex items-center space-x-2">
-                    <span className="text-green-600">✓</span>
-                    <span>Proof ready for on-chain verification</span>
-                  </div>
-                </div>
-              </div>
-            )}
-
-            {/* On-Chain Verification in Progress */}
-            {isOnChainVerifying && (
-              <div className="space-y-2">
-                <Button disabled={true} size="sm" className="w-full">
-                  Verifying On-Chain...
-                </Button>
-                <div className="text-xs text-muted-foreground">
-                  <div className="flex items-center space-x-2">
-                    <div className="animate-spin rounded-full h-3 w-3 border-b border-primary"></div>
-                    <span>Submitting verification to blockchain...</span>
-                  </div>
-                </div>
-              </div>
-            )}
+            {!isCompleted && renderTaskProof(task)}
 
             {!userParticipation && (
               <p className="text-sm text-muted-foreground">
@@ -694,7 +330,21 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
               <span className="text-sm text-muted-foreground">
                 Participants
               </span>
-              <div className="font-semibold">{quest.participantCount || 0}</div>
+              <div className="font-semibold">
+                {eligibility?.participant_count ?? quest.participantCount ?? 0}
+                {quest.max_participants && (
+                  <span className="text-sm text-muted-foreground font-normal">
+                    {" "}
+                    / {quest.max_participants}
+                  </span>
+                )}
+              </div>
+              {eligibility?.remaining_slots !== null &&
+                eligibility?.remaining_slots !== undefined && (
+                  <div className="text-xs text-muted-foreground">
+                    {eligibility.remaining_slots} slots left
+                  </div>
+                )}
             </div>
             <div>
               <span className="text-sm text-muted-foreground">Start Time</span>
@@ -710,6 +360,41 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
             </div>
           </div>
 
+          {/* Eligibility */}
+          {(requirements.length > 0 ||
+            (eligibility && !eligibility.eligible && !eligibility.joined)) && (
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg mb-6">
+              <h4 className="font-semibold mb-2">Eligibility</h4>
+              {requirements.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-2">
+                  {requirements.map((requirement) => (
+                    <Badge
+                      key={requirement}
+                      className="bg-gray-100 text-gray-800 border-gray-200"
+                    >
+                      {requirement}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {eligibility && !eligibility.joined && (
+                <>
+                  {eligibility.eligible ? (
+                    <p className="text-green-700 text-sm">
+                      ✓ You meet every requirement
+                    </p>
+                  ) : (
+                    <ul className="text-red-600 text-sm list-disc list-inside">
+                      {eligibility.reasons.map((reason) => (
+                        <li key={reason}>{reason}</li>
+                      ))}
+                    </ul>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+
           {/* Token Rewards */}
           {quest.reward_token_address && quest.reward_token_amount && (
             <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg mb-6">
@@ -723,6 +408,28 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
               <p className="text-yellow-600 text-xs mt-1">
                 Address: {quest.reward_token_address}
               </p>
+              {quest.reward_token_budget && (
+                <p className="text-yellow-600 text-xs mt-1">
+                  Budget: {quest.reward_token_budget} tokens
+                  {eligibility?.remaining_token_rewards !== null &&
+                    eligibility?.remaining_token_rewards !== undefined &&
+                    ` (${eligibility.remaining_token_rewards} rewards left)`}
+                </p>
+              )}
+              {userParticipation?.token_payout_status && (
+                <p className="text-yellow-700 text-xs mt-2">
+                  Payout:{" "}
+                  {questService.getTokenPayoutLabel(
+                    userParticipation.token_payout_status
+                  )}
+                  {userParticipation.token_payout_tx_hash && (
+                    <span className="font-mono break-all">
+                      {" "}
+                      ({userParticipation.token_payout_tx_hash})
+                    </span>
+                  )}
+                </p>
+              )}
             </div>
           )}
 
@@ -748,31 +455,7 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
         <div className="space-y-4">
           <h3 className="text-xl font-semibold">Quest Tasks</h3>
 
-          <div className="grid gap-4">
-            {renderTaskCard(
-              "follow",
-              quest.twitter_follow_enabled,
-              "Follow Account",
-              "Follow the specified Twitter account",
-              quest.twitter_account_url
-            )}
-
-            {renderTaskCard(
-              "like",
-              quest.twitter_like_enabled,
-              "Like Tweet",
-              "Like the specified tweet",
-              quest.twitter_post_url
-            )}
-
-            {renderTaskCard(
-              "retweet",
-              quest.twitter_retweet_enabled,
-              "Retweet",
-              "Retweet the specified tweet",
-              quest.twitter_post_url
-            )}
-          </div>
+          <div className="grid gap-4">{quest.tasks.map(renderTaskCard)}</div>
 
           {/* Progress Summary */}
           <Card>
@@ -785,23 +468,11 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
                   <span>Tasks Completed:</span>
                   <span>
                     {
-                      [
-                        quest.twitter_follow_enabled &&
-                          userParticipation.twitter_follow_completed,
-                        quest.twitter_like_enabled &&
-                          userParticipation.twitter_like_completed,
-                        quest.twitter_retweet_enabled &&
-                          userParticipation.twitter_retweet_completed,
-                      ].filter(Boolean).length
+                      quest.tasks.filter((task) =>
+                        questService.isTaskCompleted(userParticipation, task)
+                      ).length
                     }{" "}
-                    /{" "}
-                    {
-                      [
-                        quest.twitter_follow_enabled,
-                        quest.twitter_like_enabled,
-                        quest.twitter_retweet_enabled,
-                      ].filter(Boolean).length
-                    }
+                    / {quest.tasks.length}
                   </span>
                 </div>
 
@@ -819,6 +490,47 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
         </div>
       )}
 
+      {/* Funnel */}
+      {funnel && funnel.joined > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg">📊 Quest Funnel</CardTitle>
+              {isQuestOwner && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleExportParticipants}
+                  disabled={exporting}
+                >
+                  {exporting ? "Exporting..." : "Export Participants CSV"}
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {renderFunnelStep("Joined", funnel.joined)}
+              {funnel.tasks.map((funnelTask) => {
+                const task = quest.tasks.find(
+                  ({ task_id }) => task_id === funnelTask.task_id
+                );
+                return renderFunnelStep(
+                  task
+                    ? questService.getTaskLabel(task)
+                    : `Task ${funnelTask.position + 1}`,
+                  funnelTask.completed
+                );
+              })}
+              {renderFunnelStep("Completed all tasks", funnel.completed)}
+              {renderFunnelStep("Merits rewarded", funnel.rewarded)}
+              {quest.reward_token_address &&
+                renderFunnelStep("Tokens paid", funnel.token_rewarded)}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Messages */}
       {error && (
         <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
@@ -840,8 +552,8 @@ export const QuestDetail: React.FC<QuestDetailProps> = ({
         <CardContent>
           <p className="text-sm text-muted-foreground mb-3">
             This quest uses vlayer's Web Proof technology to cryptographically
-            verify your Twitter actions without requiring API access or
-            revealing sensitive information.
+            verify your quest tasks without requiring API access or revealing
+            sensitive information.
           </p>
           <div className="space-y-2 text-sm">
             <div className="flex items-center space-x-2">
@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from "react";
+import { questService } from "../../../services/questService";
+import { QuestLeaderboardEntry, QuestWithStatus } from "../../../types/quest";
+import { formatAddress } from "../../../utils/functions/helpers";
+import { Button } from "../../ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "../../ui/card";
+import { Badge } from "../../ui/badge";
+
+interface QuestLeaderboardProps {
+  daoId: string;
+  userAddress?: string;
+  canExport: boolean;
+  // Reloads the leaderboard whenever the quest list is reloaded
+  quests: QuestWithStatus[];
+}
+
+const LEADERBOARD_SIZE = 10;
+
+export const QuestLeaderboard: React.FC<QuestLeaderboardProps> = ({
+  daoId,
+  userAddress,
+  canExport,
+  quests,
+}) => {
+  const [entries, setEntries] = useState<QuestLeaderboardEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    setError(null);
+
+    questService
+      .getQuestLeaderboard(daoId)
+      .then(setEntries)
+      .catch(() => setError("Failed to load the leaderboard"))
+      .finally(() => setLoading(false));
+  }, [daoId, quests]);
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+
+    try {
+      await questService.exportQuestLeaderboard(daoId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export CSV");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const userEntry = entries.find(
+    (entry) => entry.member_id.toLowerCase() === userAddress?.toLowerCase()
+  );
+  const topEntries = entries.slice(0, LEADERBOARD_SIZE);
+
+  const renderRow = (entry: QuestLeaderboardEntry) => {
+    const isUser = entry.member_id === userEntry?.member_id;
+
+    return (
+      <tr
+        key={entry.member_id}
+        className={`border-b last:border-0 ${isUser ? "bg-primary/5" : ""}`}
+      >
+        <td className="py-2 pr-4 font-semibold">
+          {entry.rank <= 3 ? ["🥇", "🥈", "🥉"][entry.rank - 1] : entry.rank}
+        </td>
+        <td className="py-2 pr-4 font-mono">
+          {formatAddress(entry.member_id)}
+          {isUser && (
+            <Badge className="ml-2 bg-blue-100 text-blue-800 border-blue-200">
+              You
+            </Badge>
+          )}
+        </td>
+        <td className="py-2 pr-4 text-right">
+          {entry.quests_completed}
+          <span className="text-muted-foreground">
+            {" "}
+            / {entry.quests_joined}
+          </span>
+        </td>
+        <td className="py-2 pr-4 text-right">{entry.tasks_completed}</td>
+        <td className="py-2 pr-4 text-right">{entry.merits_earned}</td>
+        <td className="py-2 text-right">
+          {entry.current_streak > 0 && "🔥 "}
+          {entry.current_streak}
+          <span className="text-muted-foreground">
+            {" "}
+            (best {entry.longest_streak})
+          </span>
+        </td>
+      </tr>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>🏆 Quest Leaderboard</CardTitle>
+            <CardDescription>
+              Members ranked by completed quests, then merits earned. Streaks
+              count quests completed in a row.
+            </CardDescription>
+          </div>
+          {canExport && entries.length > 0 && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExport}
+              disabled={exporting}
+            >
+              {exporting ? "Exporting..." : "Export CSV"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No one has joined a quest in this DAO yet.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-muted-foreground">
+                  <th className="py-2 pr-4 text-left font-medium">Rank</th>
+                  <th className="py-2 pr-4 text-left font-medium">Member</th>
+                  <th className="py-2 pr-4 text-right font-medium">Quests</th>
+                  <th className="py-2 pr-4 text-right font-medium">Tasks</th>
+                  <th className="py-2 pr-4 text-right font-medium">Merits</th>
+                  <th className="py-2 text-right font-medium">Streak</th>
+                </tr>
+              </thead>
+              <tbody>
+                {topEntries.map(renderRow)}
+                {userEntry &&
+                  !topEntries.includes(userEntry) &&
+                  renderRow(userEntry)}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {error && <p className="text-red-600 text-sm mt-3">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
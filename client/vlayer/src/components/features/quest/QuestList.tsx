@@ -68,20 +68,13 @@ export const QuestList: React.FC<QuestListProps> = ({
     }
 
     // Show progress
-    const totalTasks = [
-      quest.twitter_follow_enabled,
-      quest.twitter_like_enabled,
-      quest.twitter_retweet_enabled,
-    ].filter(Boolean).length;
-
-    const completedTasks = [
-      quest.twitter_follow_enabled &&
-        quest.userParticipation.twitter_follow_completed,
-      quest.twitter_like_enabled &&
-        quest.userParticipation.twitter_like_completed,
-      quest.twitter_retweet_enabled &&
-        quest.userParticipation.twitter_retweet_completed,
-    ].filter(Boolean).length;
+    const totalTasks = quest.tasks.length;
+
+    const completedTasks = quest.tasks.filter(
+      (task) =>
+        quest.userParticipation &&
+        questService.isTaskCompleted(quest.userParticipation, task)
+    ).length;
 
     return (
       <Badge className="bg-blue-100 text-blue-800 border-blue-200">
@@ -99,19 +92,7 @@ export const QuestList: React.FC<QuestListProps> = ({
   };
 
   const getQuestActions = (quest: QuestWithStatus) => {
-    const actions = [];
-
-    if (quest.twitter_follow_enabled) {
-      actions.push("Follow");
-    }
-    if (quest.twitter_like_enabled) {
-      actions.push("Like");
-    }
-    if (quest.twitter_retweet_enabled) {
-      actions.push("Retweet");
-    }
-
-    return actions.join(" • ");
+    return quest.tasks.map(questService.getTaskLabel).join(" • ");
   };
 
   if (quests.length === 0) {
@@ -169,10 +150,43 @@ export const QuestList: React.FC<QuestListProps> = ({
                   <span className="text-muted-foreground">Participants:</span>
                   <div className="font-medium">
                     {quest.participantCount || 0}
+                    {quest.max_participants && (
+                      <span className="text-muted-foreground font-normal">
+                        {" "}
+                        / {quest.max_participants} (
+                        {questService.getRemainingSlots(quest)} slots left)
+                      </span>
+                    )}
                   </div>
                 </div>
               </div>
 
+              {/* Eligibility */}
+              {(questService.getQuestRequirements(quest).length > 0 ||
+                (quest.eligibility && !quest.eligibility.joined)) && (
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                  {questService
+                    .getQuestRequirements(quest)
+                    .map((requirement) => (
+                      <Badge
+                        key={requirement}
+                        className="bg-gray-100 text-gray-800 border-gray-200"
+                      >
+                        {requirement}
+                      </Badge>
+                    ))}
+                  {quest.eligibility &&
+                    !quest.eligibility.joined &&
+                    (quest.eligibility.eligible ? (
+                      <span className="text-green-700">✓ You can join</span>
+                    ) : (
+                      <span className="text-red-600">
+                        {quest.eligibility.reasons[0]}
+                      </span>
+                    ))}
+                </div>
+              )}
+
               {/* Timeline */}
               <div className="flex items-center space-x-4 text-sm text-muted-foreground">
                 <span>
@@ -181,29 +195,25 @@ export const QuestList: React.FC<QuestListProps> = ({
                 </span>
               </div>
 
-              {/* Twitter Links */}
-              {(quest.twitter_account_url || quest.twitter_post_url) && (
+              {/* Task Links */}
+              {quest.tasks.some((task) => questService.getTaskUrl(task)) && (
                 <div className="flex flex-wrap gap-2">
-                  {quest.twitter_account_url && (
-                    <a
-                      href={quest.twitter_account_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800 text-sm"
-                    >
-                      🐦 Account
-                    </a>
-                  )}
-                  {quest.twitter_post_url && (
-                    <a
-                      href={quest.twitter_post_url}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:text-blue-800 text-sm"
-                    >
-                      📝 Post
-                    </a>
-                  )}
+                  {quest.tasks.map((task) => {
+                    const url = questService.getTaskUrl(task);
+                    return (
+                      url && (
+                        <a
+                          key={task.task_id}
+                          href={url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 text-sm"
+                        >
+                          🔗 {questService.getTaskLabel(task)}
+                        </a>
+                      )
+                    );
+                  })}
                 </div>
               )}
 
@@ -3,6 +3,7 @@ import { useAccount } from "wagmi";
 import { QuestList } from "./QuestList";
 import { CreateQuestForm } from "./CreateQuestForm";
 import { QuestDetail } from "./QuestDetail";
+import { QuestLeaderboard } from "./QuestLeaderboard";
 import { questService } from "../../../services/questService";
 import { daoService } from "../../../services/daoService";
 import { useUserDAOs } from "../../../hooks/useUserDAOs";
@@ -205,7 +206,7 @@ export const QuestTab: React.FC<QuestTabProps> = ({
             <CardHeader>
               <CardTitle>Create New Quest</CardTitle>
               <CardDescription>
-                Create Twitter engagement quests for DAOs you own
+                Create task quests for DAOs you own
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -271,8 +272,8 @@ export const QuestTab: React.FC<QuestTabProps> = ({
             <h2 className="text-2xl font-bold">Create New Quest</h2>
             <p className="text-muted-foreground">
               {selectedDAO?.name
-                ? `Create a Twitter engagement quest for ${selectedDAO.name}`
-                : "Create a Twitter engagement quest for any DAO you own"}
+                ? `Create a quest for ${selectedDAO.name}`
+                : "Create a quest for any DAO you own"}
             </p>
           </div>
           <Button variant="outline" onClick={handleBackToList}>
@@ -320,9 +321,7 @@ export const QuestTab: React.FC<QuestTabProps> = ({
       <div className="flex items-center justify-between">
         <div>
           <h2 className="text-2xl font-bold">Quests</h2>
-          <p className="text-muted-foreground">
-            {selectedDAO?.name} • Twitter engagement quests
-          </p>
+          <p className="text-muted-foreground">{selectedDAO?.name} • Quests</p>
         </div>
 
         {isConnected && (isSelectedDAOOwner || isDAOMember) && (
@@ -412,6 +411,16 @@ export const QuestTab: React.FC<QuestTabProps> = ({
         userAddress={address}
         canParticipate={isConnected && (isDAOMember || isSelectedDAOOwner)}
       />
+
+      {/* Leaderboard */}
+      {selectedDAOId && quests.length > 0 && (
+        <QuestLeaderboard
+          daoId={selectedDAOId}
+          userAddress={address}
+          canExport={isConnected && !!isSelectedDAOOwner}
+          quests={quests}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,271 @@
+import React, { useState, useEffect } from "react";
+import { QuestParticipant, QuestTask } from "../../../types/quest";
+import { questService } from "../../../services/questService";
+import {
+  useDynamicTwitterProof,
+  ActionType,
+} from "../../../hooks/useDynamicTwitterProof";
+import {
+  useWriteContract,
+  useWaitForTransactionReceipt,
+  useBalance,
+} from "wagmi";
+import { useNotification } from "@blockscout/app-sdk";
+import dynamicTwitterVerifier from "../../../constants/DynamicTwitterVerifier.json";
+import { ensureBalance } from "../../../utils/ethFaucet";
+import { executeAPIAfterTransaction } from "../../../utils/transactionWithAPI";
+import { Button } from "../../ui/button";
+
+interface QuestTwitterTaskProps {
+  questId: string;
+  task: QuestTask;
+  userAddress: string;
+  onCompleted: (participation: QuestParticipant | null) => void;
+  onError: (error: string) => void;
+}
+
+// Twitter tasks are proven with a vlayer web proof and verified on-chain by the DynamicTwitterVerifier
+const getTwitterAction = (
+  task: QuestTask
+): { actionType: ActionType; targetValue?: string } => {
+  switch (task.task_type) {
+    case "TWITTER_FOLLOW":
+      return {
+        actionType: ActionType.FOLLOW_USER,
+        targetValue: task.config.username.replace(/^@/, ""),
+      };
+    case "TWITTER_LIKE":
+      return {
+        actionType: ActionType.LIKE_POST,
+        targetValue: task.config.tweet_id,
+      };
+    case "TWITTER_RETWEET":
+      return {
+        actionType: ActionType.RETWEET_POST,
+        targetValue: task.config.tweet_id,
+      };
+    default:
+      return { actionType: ActionType.PROFILE_VERIFICATION };
+  }
+};
+
+export const QuestTwitterTask: React.FC<QuestTwitterTaskProps> = ({
+  questId,
+  task,
+  userAddress,
+  onCompleted,
+  onError,
+}) => {
+  const { actionType, targetValue } = getTwitterAction(task);
+  const proof = useDynamicTwitterProof(actionType, targetValue);
+  const title = questService.getTaskLabel(task);
+
+  const [isGeneratingProof, setIsGeneratingProof] = useState(false);
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [verificationError, setVerificationError] = useState<Error | null>(
+    null
+  );
+  const { data: balance } = useBalance({
+    address: userAddress as `0x${string}`,
+  });
+  const {
+    writeContract,
+    data: txHash,
+    error: contractError,
+  } = useWriteContract();
+  const { openTxToast } = useNotification();
+  const { status: txStatus } = useWaitForTransactionReceipt({
+    hash: txHash,
+  });
+
+  const isReadyToVerify = !!proof.result;
+
+  const handleGenerateProof = () => {
+    if (!targetValue) {
+      onError("Task is missing its Twitter target");
+      return;
+    }
+
+    setIsGeneratingProof(true);
+    // Only request web proof, the effects below handle the rest automatically
+    proof.requestWebProof();
+  };
+
+  useEffect(() => {
+    if (
+      isGeneratingProof &&
+      proof.webProof &&
+      proof.isCallProverIdle &&
+      userAddress
+    ) {
+      proof.callProver([
+        proof.webProof,
+        proof.actionType,
+        "",
+        proof.targetValue || "",
+        userAddress,
+      ]);
+    }
+  }, [proof.webProof, proof.isCallProverIdle, isGeneratingProof, userAddress]);
+
+  useEffect(() => {
+    if (proof.result) {
+      setIsGeneratingProof(false);
+    }
+  }, [proof.result]);
+
+  const handleVerifyOnChain = async () => {
+    setIsVerifying(true);
+    setVerificationError(null);
+
+    try {
+      if (!proof.result) {
+        throw new Error("No proof data available");
+      }
+
+      const proofData = proof.result as any[];
+
+      await ensureBalance(userAddress as `0x${string}`, balance?.value ?? 0n);
+      writeContract({
+        address: import.meta.env.VITE_VERIFIER_ADDRESS as `0x${string}`,
+        abi: dynamicTwitterVerifier.abi,
+        functionName: "verifySingleAction",
+        args: proofData.slice(0, 7),
+      });
+    } catch (error) {
+      setVerificationError(error as Error);
+      setIsVerifying(false);
+    }
+  };
+
+  // Record the task AFTER transaction settlement, the backend reads the proof from it
+  useEffect(() => {
+    if (txStatus !== "success" || !txHash || !isVerifying) return;
+
+    const completeTask = async () => {
+      try {
+        await executeAPIAfterTransaction(
+          txHash,
+          async () => {
+            await questService.updateParticipantCompletion(
+              questId,
+              userAddress,
+              { task_id: task.task_id, tx_hash: txHash }
+            );
+
+            return await questService.getParticipantStatus(
+              questId,
+              userAddress
+            );
+          },
+          {
+            onAPIComplete: (participation) => {
+              onCompleted(participation as QuestParticipant | null);
+            },
+          }
+        );
+      } catch (err) {
+        console.error(`Error completing task ${task.task_id}:`, err);
+        onError(
+          err instanceof Error ? err.message : `Failed to complete ${title}`
+        );
+      } finally {
+        setIsVerifying(false);
+      }
+    };
+
+    completeTask();
+  }, [txStatus, txHash, isVerifying, questId, task.task_id, userAddress]);
+
+  useEffect(() => {
+    if (txHash) {
+      openTxToast("84532", txHash);
+    }
+  }, [txHash, openTxToast]);
+
+  useEffect(() => {
+    if (contractError) {
+      setIsVerifying(false);
+      setVerificationError(new Error(contractError.message));
+    }
+  }, [contractError]);
+
+  // Throw verification errors (matching workflow pattern)
+  useEffect(() => {
+    if (verificationError) {
+      throw verificationError;
+    }
+  }, [verificationError]);
+
+  useEffect(() => {
+    if (proof.error) {
+      throw proof.error;
+    }
+  }, [proof.error]);
+
+  const getProofStatus = () => {
+    if (proof.isWebProofPending) return "Generating web proof...";
+    if (proof.isPending) return "Generating vlayer proof...";
+    return null;
+  };
+
+  if (isVerifying) {
+    return (
+      <div className="space-y-2">
+        <Button disabled={true} size="sm" className="w-full">
+          Verifying On-Chain...
+        </Button>
+        <div className="text-xs text-muted-foreground">
+          <div className="flex items-center space-x-2">
+            <div className="animate-spin rounded-full h-3 w-3 border-b border-primary"></div>
+            <span>Submitting verification to blockchain...</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isReadyToVerify) {
+    return (
+      <div className="space-y-2">
+        <Button
+          onClick={handleVerifyOnChain}
+          size="sm"
+          className="w-full bg-green-600 hover:bg-green-700"
+        >
+          Verify {title} On-Chain
+        </Button>
+        <div className="text-xs text-muted-foreground">
+          <div className="flex items-center space-x-2">
+            <span className="text-green-600">✓</span>
+            <span>Proof generated successfully! Click to verify on-chain.</span>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Button
+        onClick={handleGenerateProof}
+        disabled={isGeneratingProof}
+        size="sm"
+        className="w-full"
+      >
+        {isGeneratingProof
+          ? getProofStatus() || "Generating Proof..."
+          : `Generate Proof for ${title}`}
+      </Button>
+
+      {isGeneratingProof && (
+        <div className="text-xs text-muted-foreground">
+          <div className="flex items-center space-x-2">
+            <div className="animate-spin rounded-full h-3 w-3 border-b border-primary"></div>
+            <span>Follow the vlayer proof generation steps in the popup</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
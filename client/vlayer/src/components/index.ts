@@ -25,3 +25,4 @@ export {
 // Other Components
 export { TokenDetailsCard } from "./TokenDetailsCard";
 export { AutoCreateMember } from "./AutoCreateMember";
+export { AutoSignIn } from "./AutoSignIn";
@@ -9,13 +9,18 @@ import { ProfilePage } from "../../pages/ProfilePage";
 import { HomePage } from "../../pages/HomePage";
 import { CreateDAOForm } from "../features/dao/CreateDAOForm";
 import { AutoCreateMember } from "../AutoCreateMember";
+import { AutoSignIn } from "../AutoSignIn";
 import { STEP_KIND } from "../../utils/steps";
 import { useAppContext } from "../../contexts/AppContext";
+import { Notification } from "../../types/notification";
 
 export const MainLayout: React.FC = () => {
   const { state, goToStepByKind } = useAppContext();
   const [activeTab, setActiveTab] = useState("home");
   const [selectedDAOId, setSelectedDAOId] = useState<string | null>(null);
+  const [selectedProposalId, setSelectedProposalId] = useState<string | null>(
+    null
+  );
   const [showSecretDAOForm, setShowSecretDAOForm] = useState(false);
 
   useEffect(() => {
@@ -56,10 +61,12 @@ export const MainLayout: React.FC = () => {
 
   const handleDAOSelect = (daoId: string) => {
     setSelectedDAOId(daoId === "" ? null : daoId);
+    setSelectedProposalId(null);
   };
 
   const handleTabChange = (tab: string) => {
     setActiveTab(tab);
+    setSelectedProposalId(null);
     if (tab !== "daos" && tab !== "quests") {
       setSelectedDAOId(null);
     }
@@ -78,6 +85,16 @@ export const MainLayout: React.FC = () => {
     setActiveTab("daos");
   };
 
+  // Opens what the notification is about: its quest, its proposal or its DAO
+  const handleNotificationSelect = (notification: Notification) => {
+    if (!notification.dao_id) return;
+
+    setShowSecretDAOForm(false);
+    setActiveTab(notification.quest_id ? "quests" : "daos");
+    setSelectedDAOId(notification.dao_id);
+    setSelectedProposalId(notification.proposal_id);
+  };
+
   // Homepage CTA handlers
   const handleGetStarted = () => {
     setActiveTab("proof-verification");
@@ -115,7 +132,12 @@ export const MainLayout: React.FC = () => {
         );
       case "daos":
         return (
-          <DAOTab selectedDAOId={selectedDAOId} onDAOSelect={handleDAOSelect} />
+          <DAOTab
+            selectedDAOId={selectedDAOId}
+            onDAOSelect={handleDAOSelect}
+            selectedProposalId={selectedProposalId}
+            onProposalSelect={setSelectedProposalId}
+          />
         );
       case "quests":
         return (
@@ -150,8 +172,9 @@ export const MainLayout: React.FC = () => {
   return (
     <div className="min-h-screen bg-background">
       <AutoCreateMember />
+      <AutoSignIn />
 
-      <Header />
+      <Header onNotificationSelect={handleNotificationSelect} />
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <div className="flex">
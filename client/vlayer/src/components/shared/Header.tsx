@@ -3,8 +3,14 @@ import { Button } from "../ui/button";
 import { useAppKit } from "@reown/appkit/react";
 import { useAccount } from "wagmi";
 import { formatAddress } from "../../utils/functions/helpers";
+import { Notification } from "../../types/notification";
+import { NotificationBell } from "./NotificationBell";
 
-export const Header: React.FC = () => {
+interface HeaderProps {
+  onNotificationSelect?: (notification: Notification) => void;
+}
+
+export const Header: React.FC<HeaderProps> = ({ onNotificationSelect }) => {
   const { open } = useAppKit();
   const { address } = useAccount();
 
@@ -23,6 +29,9 @@ export const Header: React.FC = () => {
             <h1 className="text-xl font-semibold text-foreground">DAOScape</h1>
           </div>
           <div className="flex items-center space-x-4">
+            {address && onNotificationSelect && (
+              <NotificationBell onSelect={onNotificationSelect} />
+            )}
             <Button
               variant="outline"
               size="sm"
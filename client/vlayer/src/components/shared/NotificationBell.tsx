@@ -0,0 +1,144 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "../ui/button";
+import { useNotifications } from "../../hooks/useNotifications";
+import { Notification, NotificationType } from "../../types/notification";
+import { formatDateTime } from "../../utils/daoHelpers";
+
+interface NotificationBellProps {
+  onSelect: (notification: Notification) => void;
+}
+
+const NOTIFICATION_ICONS: Record<NotificationType, string> = {
+  MENTION: "💬",
+  REPLY: "↪️",
+  NEW_PROPOSAL: "📝",
+  VOTING_STARTED: "🗳️",
+  VOTING_ENDED: "🏁",
+  QUEST_REWARD: "🎯",
+  MERIT_PAYOUT: "🏅",
+};
+
+export const NotificationBell: React.FC<NotificationBellProps> = ({
+  onSelect,
+}) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const {
+    notifications,
+    unreadCount,
+    loading,
+    error,
+    loadNotifications,
+    markRead,
+  } = useNotifications();
+
+  // Close the dropdown when clicking anywhere else
+  useEffect(() => {
+    if (!open) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!containerRef.current?.contains(event.target as Node)) {
+        setOpen(false);
+      }
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const handleToggle = () => {
+    if (!open) {
+      loadNotifications();
+    }
+    setOpen(!open);
+  };
+
+  const handleSelect = (notification: Notification) => {
+    if (!notification.read_at) {
+      markRead([notification.notification_id]);
+    }
+    setOpen(false);
+    onSelect(notification);
+  };
+
+  return (
+    <div className="relative" ref={containerRef}>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={handleToggle}
+        className="relative"
+        aria-label="Notifications"
+      >
+        🔔
+        {unreadCount > 0 && (
+          <span className="absolute -top-2 -right-2 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+            {unreadCount > 99 ? "99+" : unreadCount}
+          </span>
+        )}
+      </Button>
+
+      {open && (
+        <div className="absolute right-0 mt-2 w-80 bg-background border border-border rounded-lg shadow-lg z-50">
+          <div className="flex items-center justify-between px-4 py-2 border-b">
+            <span className="text-sm font-medium">Notifications</span>
+            {unreadCount > 0 && (
+              <button
+                onClick={() => markRead()}
+                className="text-xs text-muted-foreground hover:text-foreground"
+              >
+                Mark all read
+              </button>
+            )}
+          </div>
+
+          <div className="max-h-96 overflow-y-auto">
+            {loading ? (
+              <div className="flex justify-center py-6">
+                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+              </div>
+            ) : error ? (
+              <p className="px-4 py-6 text-sm text-red-600">{error}</p>
+            ) : notifications.length === 0 ? (
+              <p className="px-4 py-6 text-sm text-muted-foreground text-center">
+                You're all caught up.
+              </p>
+            ) : (
+              notifications.map((notification) => (
+                <button
+                  key={notification.notification_id}
+                  onClick={() => handleSelect(notification)}
+                  className={`flex w-full gap-3 px-4 py-3 text-left border-b last:border-0 hover:bg-muted/50 ${
+                    notification.read_at ? "" : "bg-primary/5"
+                  }`}
+                >
+                  <span>{NOTIFICATION_ICONS[notification.type]}</span>
+                  <div className="min-w-0 flex-1">
+                    <p
+                      className={`text-sm truncate ${
+                        notification.read_at ? "" : "font-medium"
+                      }`}
+                    >
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="text-xs text-muted-foreground line-clamp-2">
+                        {notification.body}
+                      </p>
+                    )}
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {formatDateTime(notification.created_at)}
+                    </p>
+                  </div>
+                  {!notification.read_at && (
+                    <span className="mt-1.5 h-2 w-2 rounded-full bg-blue-600 flex-shrink-0" />
+                  )}
+                </button>
+              ))
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,2 +1,3 @@
 export { Header } from "./Header";
+export { NotificationBell } from "./NotificationBell";
 export * from "./navigation";
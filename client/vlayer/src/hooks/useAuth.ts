@@ -0,0 +1,63 @@
+import { useEffect, useState } from "react";
+import { useAccount, useSignMessage } from "wagmi";
+import { authService } from "../services/authService";
+
+interface UseAuthResult {
+  isSigningIn: boolean;
+  isAuthenticated: boolean;
+  error: string | null;
+  signIn: () => Promise<void>;
+  signOut: () => void;
+}
+
+export const useAuth = (): UseAuthResult => {
+  const { address, chainId } = useAccount();
+  const { signMessageAsync } = useSignMessage();
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [isAuthenticated, setIsAuthenticated] = useState(
+    () => !!authService.getSession(address)
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const signIn = async () => {
+    if (!address || !chainId || isSigningIn) {
+      return;
+    }
+
+    setIsSigningIn(true);
+    setError(null);
+
+    try {
+      await authService.signIn(address, chainId, (message) =>
+        signMessageAsync({ message })
+      );
+      setIsAuthenticated(true);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : "Failed to sign in";
+      setError(errorMessage);
+      console.error("Error signing in:", error);
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const signOut = () => {
+    authService.signOut();
+    setIsAuthenticated(false);
+  };
+
+  // Re-evaluate the stored session whenever the connected wallet changes
+  useEffect(() => {
+    setIsAuthenticated(!!authService.getSession(address));
+    setError(null);
+  }, [address]);
+
+  return {
+    isSigningIn,
+    isAuthenticated,
+    error,
+    signIn,
+    signOut,
+  };
+};
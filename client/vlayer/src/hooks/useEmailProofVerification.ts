@@ -49,7 +49,6 @@ export const useEmailProofVerification = () => {
     writeContract,
     data: txHash,
     error: verificationError,
-    status,
   } = useWriteContract();
 
   const { status: onChainVerificationStatus } = useWaitForTransactionReceipt({
@@ -192,11 +191,12 @@ export const useEmailProofVerification = () => {
     }
   }, [proof]);
 
+  // The server reads the receipt before awarding reputation, so wait for it to be mined
   useEffect(() => {
-    if (status === "success" && proof) {
+    if (onChainVerificationStatus === "success" && proof) {
       setCurrentStep(ProofVerificationStep.DONE);
     }
-  }, [status, proof]);
+  }, [onChainVerificationStatus, proof]);
 
   // Show transaction toast when txHash is available
   useEffect(() => {
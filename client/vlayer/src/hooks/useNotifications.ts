@@ -0,0 +1,96 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAccount } from "wagmi";
+import { authService } from "../services/authService";
+import { notificationsService } from "../services/notificationsService";
+import { Notification } from "../types/notification";
+
+const PAGE_SIZE = 20;
+// The inbox is polled, so the badge can lag a new notification by this much
+const UNREAD_POLL_MS = 30000;
+
+export const useNotifications = () => {
+  const { address } = useAccount();
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Only members signed in with their wallet have an inbox, sign-in can finish between polls
+  const isSignedIn = useCallback(
+    () => !!address && !!authService.getSession(address),
+    [address]
+  );
+
+  const refreshUnreadCount = useCallback(async () => {
+    if (!isSignedIn()) {
+      setUnreadCount(0);
+      return;
+    }
+
+    const response = await notificationsService.getUnreadCount();
+    if (response.success && response.data) {
+      setUnreadCount(response.data.unread_count);
+    }
+  }, [isSignedIn]);
+
+  useEffect(() => {
+    refreshUnreadCount();
+
+    const interval = setInterval(refreshUnreadCount, UNREAD_POLL_MS);
+    window.addEventListener("focus", refreshUnreadCount);
+
+    return () => {
+      clearInterval(interval);
+      window.removeEventListener("focus", refreshUnreadCount);
+    };
+  }, [refreshUnreadCount]);
+
+  const loadNotifications = useCallback(async () => {
+    if (!isSignedIn()) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await notificationsService.getNotifications({
+        limit: PAGE_SIZE,
+      });
+      if (response.success && response.data) {
+        setNotifications(response.data);
+      } else {
+        setError(response.error || "Failed to load notifications");
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [isSignedIn]);
+
+  const markRead = useCallback(async (notificationIds?: string[]) => {
+    const response = await notificationsService.markRead(notificationIds);
+    if (!response.success || !response.data) {
+      setError(response.error || "Failed to mark notifications read");
+      return;
+    }
+
+    const readAt = new Date().toISOString();
+    const readIds = new Set(
+      response.data.map(({ notification_id }) => notification_id)
+    );
+    setNotifications((prev) =>
+      prev.map((notification) =>
+        readIds.has(notification.notification_id)
+          ? { ...notification, read_at: readAt }
+          : notification
+      )
+    );
+    setUnreadCount((count) => Math.max(count - readIds.size, 0));
+  }, []);
+
+  return {
+    notifications,
+    unreadCount,
+    loading,
+    error,
+    loadNotifications,
+    markRead,
+  };
+};
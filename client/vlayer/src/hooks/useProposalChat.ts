@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback, useRef } from "react";
+import { messagesService } from "../services/messagesService";
+import { Message } from "../types/dao";
+
+export type ChatConnection = "connecting" | "live" | "reconnecting" | "offline";
+
+const PAGE_SIZE = 50;
+// The server forgets typing after 6 seconds, so keep refreshing it while the member types
+const TYPING_REFRESH_MS = 3000;
+
+const mergeMessages = (current: Message[], incoming: Message[]) => {
+  const existingIds = new Set(current.map((message) => message.message_id));
+  const newMessages = incoming.filter(
+    (message) => !existingIds.has(message.message_id)
+  );
+
+  if (newMessages.length === 0) {
+    return current;
+  }
+
+  return [...current, ...newMessages].sort((a, b) => a.seq - b.seq);
+};
+
+// Restored messages are not in the list anymore, so they are merged back in
+const replaceMessage = (current: Message[], updated: Message) =>
+  current.some((message) => message.message_id === updated.message_id)
+    ? current.map((message) =>
+        message.message_id === updated.message_id ? updated : message
+      )
+    : mergeMessages(current, [updated]);
+
+export const useProposalChat = (proposalId: string, memberId?: string) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasMore, setHasMore] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [connection, setConnection] = useState<ChatConnection>("connecting");
+  const [typingMemberIds, setTypingMemberIds] = useState<string[]>([]);
+  const [viewers, setViewers] = useState(0);
+  const [streamKey, setStreamKey] = useState(0);
+  const lastTypingRef = useRef(0);
+
+  // Load the latest page, then stream everything after it
+  useEffect(() => {
+    let eventSource: EventSource | null = null;
+    let cancelled = false;
+
+    const connect = async () => {
+      setLoading(true);
+      setError(null);
+      setConnection("connecting");
+
+      const response = await messagesService.getMessageHistory({
+        proposal_id: proposalId,
+        limit: PAGE_SIZE,
+        offset: 0,
+      });
+      if (cancelled) return;
+
+      setLoading(false);
+      if (!response.success || !response.data) {
+        setError(response.error || "Failed to load messages");
+        setConnection("offline");
+        return;
+      }
+
+      // Messages come in descending order (newest first), so reverse for chat display
+      const history = [...response.data].reverse();
+      setMessages(history);
+      setHasMore(response.data.length === PAGE_SIZE);
+
+      // EventSource resumes from the last event id by itself when it reconnects
+      eventSource = new EventSource(
+        messagesService.getStreamUrl(
+          proposalId,
+          history.length > 0 ? history[history.length - 1].seq : 0
+        )
+      );
+
+      eventSource.onopen = () => setConnection("live");
+      eventSource.onerror = () => {
+        setConnection(
+          eventSource?.readyState === EventSource.CLOSED
+            ? "offline"
+            : "reconnecting"
+        );
+      };
+
+      eventSource.addEventListener("message", (event) => {
+        const message: Message = JSON.parse((event as MessageEvent).data);
+        setMessages((prev) => mergeMessages(prev, [message]));
+      });
+      eventSource.addEventListener("message_updated", (event) => {
+        const message: Message = JSON.parse((event as MessageEvent).data);
+        setMessages((prev) => replaceMessage(prev, message));
+      });
+      eventSource.addEventListener("message_hidden", (event) => {
+        const { message_id } = JSON.parse((event as MessageEvent).data);
+        setMessages((prev) =>
+          prev.filter((message) => message.message_id !== message_id)
+        );
+      });
+      eventSource.addEventListener("typing", (event) => {
+        setTypingMemberIds(JSON.parse((event as MessageEvent).data).member_ids);
+      });
+      eventSource.addEventListener("presence", (event) => {
+        setViewers(JSON.parse((event as MessageEvent).data).viewers);
+      });
+      // Too many messages were missed to replay, start over from the latest page
+      eventSource.addEventListener("reset", () => {
+        eventSource?.close();
+        setStreamKey((key) => key + 1);
+      });
+    };
+
+    connect();
+
+    return () => {
+      cancelled = true;
+      eventSource?.close();
+    };
+  }, [proposalId, streamKey]);
+
+  const reload = useCallback(() => setStreamKey((key) => key + 1), []);
+
+  const loadMore = async () => {
+    if (loadingMore || !hasMore) return;
+
+    setLoadingMore(true);
+    try {
+      const response = await messagesService.getMessageHistory({
+        proposal_id: proposalId,
+        limit: PAGE_SIZE,
+        offset: messages.length,
+      });
+
+      if (response.success && response.data) {
+        setMessages((prev) => mergeMessages(prev, response.data!));
+        setHasMore(response.data.length === PAGE_SIZE);
+      } else {
+        setError(response.error || "Failed to load messages");
+      }
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  // Adds a message this client sent without waiting for its echo on the stream
+  const addMessage = useCallback((message: Message) => {
+    setMessages((prev) => mergeMessages(prev, [message]));
+    lastTypingRef.current = 0;
+  }, []);
+
+  // Applies an edit, delete or reaction this client made before the stream reports it
+  const updateMessage = useCallback((message: Message) => {
+    setMessages((prev) => replaceMessage(prev, message));
+  }, []);
+
+  const removeMessage = useCallback((messageId: string) => {
+    setMessages((prev) =>
+      prev.filter((message) => message.message_id !== messageId)
+    );
+  }, []);
+
+  const sendTyping = useCallback(
+    (typing: boolean) => {
+      if (!memberId) return;
+
+      const now = Date.now();
+      if (typing && now - lastTypingRef.current < TYPING_REFRESH_MS) return;
+      if (!typing && lastTypingRef.current === 0) return;
+
+      lastTypingRef.current = typing ? now : 0;
+      messagesService.sendTyping({
+        member_id: memberId,
+        proposal_id: proposalId,
+        typing,
+      });
+    },
+    [memberId, proposalId]
+  );
+
+  return {
+    messages,
+    loading,
+    loadingMore,
+    hasMore,
+    error,
+    connection,
+    typingMemberIds: typingMemberIds.filter(
+      (id) => id.toLowerCase() !== memberId?.toLowerCase()
+    ),
+    viewers,
+    loadMore,
+    reload,
+    addMessage,
+    updateMessage,
+    removeMessage,
+    sendTyping,
+  };
+};
@@ -18,6 +18,8 @@ import { DAODetailsTab } from "../components/features/dao/tabs/DAODetailsTab";
 import { DAOMembersTab } from "../components/features/dao/tabs/DAOMembersTab";
 import { DAOProposalsTab } from "../components/features/dao/tabs/DAOProposalsTab";
 import { DAOReputationTab } from "../components/features/dao/tabs/DAOReputationTab";
+import { DAOModerationTab } from "../components/features/dao/tabs/DAOModerationTab";
+import { DAOWebhooksTab } from "../components/features/dao/tabs/DAOWebhooksTab";
 import { ProposalPage } from "./ProposalPage";
 import { DAO, MembershipStatus } from "../types/dao";
 import { daoService } from "../services/daoService";
@@ -34,11 +36,18 @@ import {
 interface DAODetailPageProps {
   daoId: string;
   onBack: () => void;
+  selectedProposalId?: string | null;
+  onProposalSelect?: (proposalId: string | null) => void;
 }
 
+// The moderation and webhooks tabs each add a column when shown
+const TAB_GRID_COLUMNS = ["grid-cols-5", "grid-cols-6", "grid-cols-7"];
+
 export const DAODetailPage: React.FC<DAODetailPageProps> = ({
   daoId,
   onBack,
+  selectedProposalId: externalSelectedProposalId,
+  onProposalSelect: externalOnProposalSelect,
 }) => {
   const [dao, setDAO] = useState<DAO | null>(null);
   const [membershipStatus, setMembershipStatus] =
@@ -47,15 +56,31 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
   const [joinMessage, setJoinMessage] = useState("");
   const [activeTab, setActiveTab] = useState("details");
   const [viewMode, setViewMode] = useState<"member" | "owner">("member");
-  const [selectedProposalId, setSelectedProposalId] = useState<string | null>(
-    null
-  );
+  const [canModerate, setCanModerate] = useState(false);
+  const [internalSelectedProposalId, setInternalSelectedProposalId] = useState<
+    string | null
+  >(null);
   const { address, isConnected } = useAccount();
   const { refetch: refetchUserDAOs } = useUserDAOs();
 
+  // A notification can open a proposal from outside, so the selection can be controlled
+  const selectedProposalId =
+    externalSelectedProposalId !== undefined
+      ? externalSelectedProposalId
+      : internalSelectedProposalId;
+  const setSelectedProposalId = (proposalId: string | null) => {
+    if (externalOnProposalSelect) {
+      externalOnProposalSelect(proposalId);
+    } else {
+      setInternalSelectedProposalId(proposalId);
+    }
+  };
+
   const isOwner =
     dao && address ? isDAOOwner(address, dao.owner_address) : false;
   const isMember = isDAOMember(membershipStatus);
+  // Owners and admins can manage proposals and quests
+  const canManage = isOwner || membershipStatus === "admin";
 
   // Filter proposals by status
   const activeProposals =
@@ -78,17 +103,22 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
       setDAO(daoData);
 
       if (daoData && address) {
-        const isMember = daoData.members?.some(
+        const currentMember = daoData.members?.find(
           (member) => member.member_id === address
         );
-        setMembershipStatus(isMember ? "member" : "not_member");
-        console.log(
-          "👤 User membership status:",
-          isMember ? "member" : "not_member"
-        );
+        const isAdmin =
+          currentMember?.role === "owner" || currentMember?.role === "admin";
+        const status: MembershipStatus = !currentMember
+          ? "not_member"
+          : isAdmin
+            ? "admin"
+            : "member";
+        setMembershipStatus(status);
+        setCanModerate(isAdmin || currentMember?.role === "moderator");
+        console.log("👤 User membership status:", status);
 
         const userIsOwner = isDAOOwner(address, daoData.owner_address);
-        setViewMode(userIsOwner ? "owner" : "member");
+        setViewMode(userIsOwner || isAdmin ? "owner" : "member");
       }
 
       console.log(
@@ -211,7 +241,7 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
               </div>
             </div>
             {/* Owner/Member View Toggle */}
-            {isOwner && (
+            {canManage && (
               <div className="flex gap-2">
                 <Button
                   variant={viewMode === "member" ? "default" : "outline"}
@@ -277,7 +307,9 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
 
       {/* Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList
+          className={`grid w-full ${TAB_GRID_COLUMNS[Number(canModerate) + Number(canManage)]}`}
+        >
           <TabsTrigger value="details">DAO Details</TabsTrigger>
           <TabsTrigger value="members">
             Members ({dao.members?.length || 0})
@@ -289,6 +321,10 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
             Ended Proposals ({endedProposals.length})
           </TabsTrigger>
           <TabsTrigger value="reputation">Reputation</TabsTrigger>
+          {canModerate && (
+            <TabsTrigger value="moderation">Moderation</TabsTrigger>
+          )}
+          {canManage && <TabsTrigger value="webhooks">Webhooks</TabsTrigger>}
         </TabsList>
 
         {/* DAO Details Tab */}
@@ -308,7 +344,12 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
 
         {/* Members Tab */}
         <TabsContent value="members" className="space-y-6">
-          <DAOMembersTab members={dao.members} daoName={dao.name} />
+          <DAOMembersTab
+            members={dao.members}
+            daoId={dao.dao_id}
+            daoName={dao.name}
+            onDelegationChange={loadDAODetails}
+          />
         </TabsContent>
 
         {/* Active Proposals Tab */}
@@ -317,7 +358,7 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
             proposals={activeProposals}
             daoId={dao.dao_id}
             daoName={dao.name}
-            isOwner={isOwner && viewMode === "owner"}
+            isOwner={canManage && viewMode === "owner"}
             onProposalCreated={handleProposalCreated}
             onProposalClick={handleProposalClick}
             showOnlyActive={true}
@@ -346,6 +387,20 @@ export const DAODetailPage: React.FC<DAODetailPageProps> = ({
             onReputationEarned={handleJoinSuccess}
           />
         </TabsContent>
+
+        {/* Moderation Tab */}
+        {canModerate && (
+          <TabsContent value="moderation" className="space-y-6">
+            <DAOModerationTab daoId={dao.dao_id} />
+          </TabsContent>
+        )}
+
+        {/* Webhooks Tab */}
+        {canManage && (
+          <TabsContent value="webhooks" className="space-y-6">
+            <DAOWebhooksTab daoId={dao.dao_id} />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -22,6 +22,9 @@ import {
   getAuthenticatedUserData,
   getUserActivityLogs,
 } from "../services/blockscout";
+import { daoService } from "../services/daoService";
+import { MemberVerifications } from "../types/dao";
+import { formatDateTime, getVerificationTypeLabel } from "../utils/daoHelpers";
 
 interface MeritsData {
   total_balance: string;
@@ -68,6 +71,8 @@ const ProfileContent: React.FC = () => {
   const [authToken, setAuthToken] = useState<string | null>(null);
   const [isAuthenticating, setIsAuthenticating] = useState(false);
   const [showAuthPrompt, setShowAuthPrompt] = useState(false);
+  const [memberVerifications, setMemberVerifications] =
+    useState<MemberVerifications | null>(null);
 
   const STORAGE_KEY = "blockscout_auth_data";
 
@@ -150,6 +155,15 @@ const ProfileContent: React.FC = () => {
     }
   };
 
+  const fetchMemberVerifications = async (userAddress: string) => {
+    const response = await daoService.getMemberVerifications(
+      userAddress.toLowerCase()
+    );
+    if (response.success && response.data) {
+      setMemberVerifications(response.data);
+    }
+  };
+
   const authenticateUser = async (showPrompt = true) => {
     if (!address || !chainId) {
       setError("Please connect your wallet first");
@@ -235,6 +249,7 @@ const ProfileContent: React.FC = () => {
   useEffect(() => {
     if (address && isConnected) {
       fetchMeritsData(address);
+      fetchMemberVerifications(address);
 
       // Try to load stored authentication
       const storedToken = loadStoredAuth(address);
@@ -249,6 +264,7 @@ const ProfileContent: React.FC = () => {
     } else {
       // Clear state when wallet disconnected
       setMeritsData(null);
+      setMemberVerifications(null);
       setUserBalance(null);
       setActivityLogs([]);
       setIsAuthenticated(false);
@@ -369,6 +385,68 @@ const ProfileContent: React.FC = () => {
         </Card>
       )}
 
+      {/* Verified Identities */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <span>🛡️</span>
+                <span>Verified Identities</span>
+              </CardTitle>
+              <CardDescription>
+                On-chain proofs that make up your verification score
+              </CardDescription>
+            </div>
+            {memberVerifications && (
+              <Badge variant="secondary">
+                Score {memberVerifications.verification_score}/100
+              </Badge>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {memberVerifications?.verifications.length ? (
+            <div className="space-y-3">
+              {memberVerifications.verifications.map((verification) => (
+                <div
+                  key={verification.verification_type}
+                  className="flex items-center justify-between p-3 bg-muted rounded"
+                >
+                  <div>
+                    <p className="text-sm font-medium">
+                      {getVerificationTypeLabel(verification.verification_type)}
+                      : {verification.identity}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Verified {formatDateTime(verification.verified_at)}
+                    </p>
+                  </div>
+                  {verification.verification_proofs && (
+                    <div className="text-right">
+                      <p className="text-xs text-muted-foreground">
+                        Proof on chain{" "}
+                        {verification.verification_proofs.chain_id}
+                      </p>
+                      <p className="text-xs font-mono break-all">
+                        {verification.verification_proofs.tx_hash.slice(0, 10)}
+                        ...
+                        {verification.verification_proofs.tx_hash.slice(-8)}
+                      </p>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              No verified identities yet. Verify your email or GitHub from a
+              DAO's reputation tab.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Merits Information */}
       <Card>
         <CardHeader>
@@ -14,7 +14,13 @@ import {
   Badge,
   IPFSMetadata,
 } from "../components/ui";
-import { ProposalWithVotes, VoteType, DAO, Member } from "../types/dao";
+import {
+  ProposalWithVotes,
+  ProposalSnapshot,
+  VoteType,
+  DAO,
+  Member,
+} from "../types/dao";
 import { daoService } from "../services/daoService";
 import { governanceService } from "../services/governanceService";
 import { useGovernanceContract } from "../hooks/useGovernanceContract";
@@ -29,10 +35,16 @@ import {
   isVotingActive,
   isFeedbackActive,
   hasUserVoted,
+  getUserVote,
+  canUserChangeVote,
+  getOptionResults,
+  formatVoteSelections,
+  getVotingMethodLabel,
 } from "../utils/daoHelpers";
 import { OnChainStatusBadge } from "../components/ui/OnChainStatusBadge";
 import { ProposalChat } from "../components/features/dao/chat/ProposalChat";
 import { VotesList } from "../components/features/dao/VotesList";
+import { OptionBallot } from "../components/features/dao/proposals/OptionBallot";
 
 interface ProposalPageProps {
   proposalId: string;
@@ -46,6 +58,7 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
   const [proposal, setProposal] = useState<ProposalWithVotes | null>(null);
   const [dao, setDAO] = useState<DAO | null>(null);
   const [userMember, setUserMember] = useState<Member | null>(null);
+  const [snapshot, setSnapshot] = useState<ProposalSnapshot | null>(null);
   const [loading, setLoading] = useState(true);
   const [voting, setVoting] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -69,6 +82,7 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
   const isOwner =
     dao && address ? isDAOOwner(address, dao.owner_address) : false;
   const userHouse = userMember?.house;
+  const userJoinedAt = userMember?.created_at;
   const proposalPhase = proposal ? getProposalPhase(proposal) : "ended";
 
   const [onChainStatus, setOnChainStatus] = useState<{
@@ -127,9 +141,8 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
                 `✅ Auto-concluded ${successfulConclusions.length} phases for proposal`
               );
               // Reload the proposal to get updated data
-              const updatedProposal = await daoService.getProposalById(
-                proposalId
-              );
+              const updatedProposal =
+                await daoService.getProposalById(proposalId);
               if (updatedProposal.success && updatedProposal.data) {
                 setProposal(updatedProposal.data);
               }
@@ -150,8 +163,24 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
     loadProposalDetails();
   }, [proposalId, address]);
 
+  // The server takes the token snapshot once voting has started
+  useEffect(() => {
+    if (!proposal || proposalPhase === "upcoming") return;
+
+    daoService.getProposalSnapshot(proposal.proposal_id).then((response) => {
+      if (response.success && response.data) {
+        setSnapshot(response.data);
+      }
+    });
+  }, [proposal?.proposal_id, proposalPhase]);
+
+  // Option ballots pass selections instead of a vote
   const handleVote = useCallback(
-    async (vote: VoteType, isFeedback: boolean) => {
+    async (
+      vote: VoteType | undefined,
+      isFeedback: boolean,
+      selections?: number[]
+    ) => {
       if (!proposal || !address) return;
 
       setVoting(true);
@@ -166,6 +195,7 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
             dao_id: proposal.dao_id,
             wallet_address: address,
             vote,
+            selections,
             is_feedback: isFeedback,
           },
           memoizedGovernanceContract
@@ -210,6 +240,63 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
     [proposal, address, proposalId, memoizedGovernanceContract]
   );
 
+  // Passing neither a vote nor selections retracts the vote instead of changing it
+  const handleChangeVote = useCallback(
+    async (
+      vote: VoteType | null,
+      isFeedback: boolean,
+      selections?: number[]
+    ) => {
+      if (!proposal || !address) return;
+
+      const isRetraction = !vote && !selections;
+
+      setVoting(true);
+      setError(null);
+
+      try {
+        const voteData = {
+          proposal_id: proposalId,
+          dao_id: proposal.dao_id,
+          wallet_address: address,
+          is_feedback: isFeedback,
+        };
+        const response = isRetraction
+          ? await governanceService.retractHybridVote(voteData)
+          : await governanceService.changeHybridVote({
+              ...voteData,
+              vote: vote ?? undefined,
+              selections,
+            });
+
+        if (response.success) {
+          setOnChainStatus({ voting: "api-only" });
+
+          const updatedProposal = await daoService.getProposalById(proposalId);
+          if (updatedProposal.success && updatedProposal.data) {
+            setProposal(updatedProposal.data);
+          }
+        } else {
+          setError(
+            response.message ||
+              (isRetraction
+                ? "Failed to retract vote"
+                : "Failed to change vote")
+          );
+        }
+      } catch (error) {
+        console.error("Error updating vote:", error);
+        setError(
+          isRetraction ? "Failed to retract vote" : "Failed to change vote"
+        );
+      } finally {
+        setVoting(false);
+        setTimeout(() => setOnChainStatus({}), 5000);
+      }
+    },
+    [proposal, address, proposalId]
+  );
+
   const renderVotingSection = useCallback(
     (isFeedback: boolean) => {
       if (!proposal) return null;
@@ -224,8 +311,14 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
         address,
         userHouse,
         isOwner,
-        isFeedback
+        isFeedback,
+        userJoinedAt
       );
+      const userVote = getUserVote(proposal, address, isFeedback);
+      const canChangeVote = canUserChangeVote(proposal, address, isFeedback);
+      // Feedback stays yes/no/abstain whatever the main voting method is
+      const isOptionVote = !isFeedback && proposal.voting_method !== "BINARY";
+      const optionResults = isOptionVote ? getOptionResults(proposal) : [];
 
       const getVotePercentage = (weight: number) => {
         return voteCounts.total.weight > 0
@@ -244,72 +337,148 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
             </div>
           </CardHeader>
           <CardContent className="space-y-4">
+            {isOptionVote && (
+              <p className="text-xs text-muted-foreground">
+                {getVotingMethodLabel(proposal.voting_method)}
+                {proposal.voting_method === "RANKED_CHOICE" &&
+                  " · live results show first choices"}
+              </p>
+            )}
+
             {/* Vote Results */}
-            <div className="space-y-3">
-              <div className="flex items-center justify-between">
-                <span className="text-sm font-medium">Yes</span>
-                <span className="text-sm text-muted-foreground">
-                  {voteCounts.yes.count} votes ({voteCounts.yes.weight} weight)
-                </span>
-              </div>
-              <Progress
-                value={getVotePercentage(voteCounts.yes.weight)}
-                className="h-2"
-              />
-
-              <div className="flex items-center justify-between">
-                <span className="text-sm font-medium">No</span>
-                <span className="text-sm text-muted-foreground">
-                  {voteCounts.no.count} votes ({voteCounts.no.weight} weight)
-                </span>
+            {isOptionVote ? (
+              <div className="space-y-3">
+                {proposal.options.map((option, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">
+                        {option}
+                        {proposal.winning_option === index && " 🏆"}
+                      </span>
+                      <span className="text-sm text-muted-foreground">
+                        {optionResults[index].count} votes (
+                        {optionResults[index].weight} weight)
+                      </span>
+                    </div>
+                    <Progress
+                      value={getVotePercentage(optionResults[index].weight)}
+                      className="h-2"
+                    />
+                  </div>
+                ))}
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Abstain</span>
+                  <span className="text-sm text-muted-foreground">
+                    {voteCounts.abstain.count} votes (
+                    {voteCounts.abstain.weight} weight)
+                  </span>
+                </div>
+                <Progress
+                  value={getVotePercentage(voteCounts.abstain.weight)}
+                  className="h-2"
+                />
               </div>
-              <Progress
-                value={getVotePercentage(voteCounts.no.weight)}
-                className="h-2"
-              />
-
-              <div className="flex items-center justify-between">
-                <span className="text-sm font-medium">Abstain</span>
-                <span className="text-sm text-muted-foreground">
-                  {voteCounts.abstain.count} votes ({voteCounts.abstain.weight}{" "}
-                  weight)
-                </span>
+            ) : (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Yes</span>
+                  <span className="text-sm text-muted-foreground">
+                    {voteCounts.yes.count} votes ({voteCounts.yes.weight}{" "}
+                    weight)
+                  </span>
+                </div>
+                <Progress
+                  value={getVotePercentage(voteCounts.yes.weight)}
+                  className="h-2"
+                />
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">No</span>
+                  <span className="text-sm text-muted-foreground">
+                    {voteCounts.no.count} votes ({voteCounts.no.weight} weight)
+                  </span>
+                </div>
+                <Progress
+                  value={getVotePercentage(voteCounts.no.weight)}
+                  className="h-2"
+                />
+
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Abstain</span>
+                  <span className="text-sm text-muted-foreground">
+                    {voteCounts.abstain.count} votes (
+                    {voteCounts.abstain.weight} weight)
+                  </span>
+                </div>
+                <Progress
+                  value={getVotePercentage(voteCounts.abstain.weight)}
+                  className="h-2"
+                />
               </div>
-              <Progress
-                value={getVotePercentage(voteCounts.abstain.weight)}
-                className="h-2"
-              />
-            </div>
+            )}
 
             {/* Detailed Vote Lists */}
             <div className="space-y-2 pt-4 border-t">
               <h4 className="text-sm font-medium text-muted-foreground mb-3">
                 Vote Details
               </h4>
-              <VotesList
-                proposalId={proposalId}
-                isFeedback={isFeedback}
-                house={!isFeedback ? proposal.voting_house : undefined}
-                voteType="YES"
-                count={voteCounts.yes.count}
-                weight={voteCounts.yes.weight}
-              />
-              <VotesList
-                proposalId={proposalId}
-                isFeedback={isFeedback}
-                house={!isFeedback ? proposal.voting_house : undefined}
-                voteType="NO"
-                count={voteCounts.no.count}
-                weight={voteCounts.no.weight}
-              />
-              <VotesList
-                proposalId={proposalId}
-                isFeedback={isFeedback}
-                house={!isFeedback ? proposal.voting_house : undefined}
-                voteType="ABSTAIN"
-                count={voteCounts.abstain.count}
-                weight={voteCounts.abstain.weight}
-              />
+              {isOptionVote ? (
+                <>
+                  {proposal.options.map((_, index) => (
+                    <VotesList
+                      key={index}
+                      proposalId={proposalId}
+                      isFeedback={isFeedback}
+                      house={proposal.voting_house}
+                      voteType="YES"
+                      option={{
+                        index,
+                        options: proposal.options,
+                        firstChoiceOnly:
+                          proposal.voting_method === "RANKED_CHOICE",
+                      }}
+                      count={optionResults[index].count}
+                      weight={optionResults[index].weight}
+                    />
+                  ))}
+                  <VotesList
+                    proposalId={proposalId}
+                    isFeedback={isFeedback}
+                    house={proposal.voting_house}
+                    voteType="ABSTAIN"
+                    count={voteCounts.abstain.count}
+                    weight={voteCounts.abstain.weight}
+                  />
+                </>
+              ) : (
+                <>
+                  <VotesList
+                    proposalId={proposalId}
+                    isFeedback={isFeedback}
+                    house={!isFeedback ? proposal.voting_house : undefined}
+                    voteType="YES"
+                    count={voteCounts.yes.count}
+                    weight={voteCounts.yes.weight}
+                  />
+                  <VotesList
+                    proposalId={proposalId}
+                    isFeedback={isFeedback}
+                    house={!isFeedback ? proposal.voting_house : undefined}
+                    voteType="NO"
+                    count={voteCounts.no.count}
+                    weight={voteCounts.no.weight}
+                  />
+                  <VotesList
+                    proposalId={proposalId}
+                    isFeedback={isFeedback}
+                    house={!isFeedback ? proposal.voting_house : undefined}
+                    voteType="ABSTAIN"
+                    count={voteCounts.abstain.count}
+                    weight={voteCounts.abstain.weight}
+                  />
+                </>
+              )}
             </div>
 
             {/* Voting Buttons */}
@@ -325,31 +494,130 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
                   </div>
                 )}
 
-                <div className="flex gap-2 pt-2">
-                  <Button
-                    onClick={() => handleVote(VoteType.YES, isFeedback)}
-                    disabled={voting}
-                    className="flex-1 bg-green-600 hover:bg-green-700"
-                  >
-                    {voting ? "Processing..." : "Vote Yes"}
-                  </Button>
-                  <Button
-                    onClick={() => handleVote(VoteType.NO, isFeedback)}
-                    disabled={voting}
-                    variant="destructive"
-                    className="flex-1"
-                  >
-                    {voting ? "Processing..." : "Vote No"}
-                  </Button>
-                  <Button
-                    onClick={() => handleVote(VoteType.ABSTAIN, isFeedback)}
-                    disabled={voting}
-                    variant="outline"
-                    className="flex-1"
-                  >
-                    {voting ? "Processing..." : "Abstain"}
-                  </Button>
-                </div>
+                {isOptionVote ? (
+                  <div className="space-y-2 pt-2">
+                    <OptionBallot
+                      options={proposal.options}
+                      votingMethod={proposal.voting_method}
+                      disabled={voting}
+                      submitLabel="Submit Ballot"
+                      onSubmit={(selections) =>
+                        handleVote(undefined, isFeedback, selections)
+                      }
+                    />
+                    <Button
+                      onClick={() => handleVote(VoteType.ABSTAIN, isFeedback)}
+                      disabled={voting}
+                      variant="outline"
+                      className="w-full"
+                    >
+                      {voting ? "Processing..." : "Abstain"}
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2 pt-2">
+                    <Button
+                      onClick={() => handleVote(VoteType.YES, isFeedback)}
+                      disabled={voting}
+                      className="flex-1 bg-green-600 hover:bg-green-700"
+                    >
+                      {voting ? "Processing..." : "Vote Yes"}
+                    </Button>
+                    <Button
+                      onClick={() => handleVote(VoteType.NO, isFeedback)}
+                      disabled={voting}
+                      variant="destructive"
+                      className="flex-1"
+                    >
+                      {voting ? "Processing..." : "Vote No"}
+                    </Button>
+                    <Button
+                      onClick={() => handleVote(VoteType.ABSTAIN, isFeedback)}
+                      disabled={voting}
+                      variant="outline"
+                      className="flex-1"
+                    >
+                      {voting ? "Processing..." : "Abstain"}
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ) : canChangeVote && userVote ? (
+              <div className="space-y-3">
+                {onChainStatus.voting && (
+                  <div className="flex justify-center">
+                    <OnChainStatusBadge
+                      status={onChainStatus.voting}
+                      message={onChainStatus.message}
+                    />
+                  </div>
+                )}
+
+                <p className="text-sm text-muted-foreground text-center">
+                  You voted {formatVoteSelections(userVote, proposal.options)}.
+                  You can change or retract your vote until the{" "}
+                  {isFeedback ? "feedback period" : "voting period"} ends.
+                </p>
+                {isOptionVote ? (
+                  <div className="space-y-2 pt-2">
+                    <OptionBallot
+                      options={proposal.options}
+                      votingMethod={proposal.voting_method}
+                      initialSelections={userVote.selections}
+                      disabled={voting}
+                      submitLabel="Change Ballot"
+                      onSubmit={(selections) =>
+                        handleChangeVote(null, isFeedback, selections)
+                      }
+                    />
+                    <div className="flex gap-2">
+                      {userVote.vote !== VoteType.ABSTAIN && (
+                        <Button
+                          onClick={() =>
+                            handleChangeVote(VoteType.ABSTAIN, isFeedback)
+                          }
+                          disabled={voting}
+                          variant="outline"
+                          className="flex-1"
+                        >
+                          {voting ? "Processing..." : "Change to ABSTAIN"}
+                        </Button>
+                      )}
+                      <Button
+                        onClick={() => handleChangeVote(null, isFeedback)}
+                        disabled={voting}
+                        variant="destructive"
+                        className="flex-1"
+                      >
+                        {voting ? "Processing..." : "Retract Vote"}
+                      </Button>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="flex gap-2 pt-2">
+                    {[VoteType.YES, VoteType.NO, VoteType.ABSTAIN]
+                      .filter((vote) => vote !== userVote.vote)
+                      .map((vote) => (
+                        <Button
+                          key={vote}
+                          onClick={() => handleChangeVote(vote, isFeedback)}
+                          disabled={voting}
+                          variant="outline"
+                          className="flex-1"
+                        >
+                          {voting ? "Processing..." : `Change to ${vote}`}
+                        </Button>
+                      ))}
+                    <Button
+                      onClick={() => handleChangeVote(null, isFeedback)}
+                      disabled={voting}
+                      variant="destructive"
+                      className="flex-1"
+                    >
+                      {voting ? "Processing..." : "Retract Vote"}
+                    </Button>
+                  </div>
+                )}
               </div>
             ) : (
               <Alert>
@@ -364,11 +632,13 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
       proposal,
       address,
       userHouse,
+      userJoinedAt,
       isOwner,
       proposalId,
       onChainStatus,
       voting,
       handleVote,
+      handleChangeVote,
     ]
   );
 
@@ -450,6 +720,16 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
               <p>{formatDateTime(proposal.voting_start)}</p>
               <p className="text-xs text-muted-foreground">to</p>
               <p>{formatDateTime(proposal.voting_end)}</p>
+              {snapshot && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Token snapshot at{" "}
+                  {Object.entries(snapshot.blocks)
+                    .map(
+                      ([chainId, block]) => `block ${block} (chain ${chainId})`
+                    )
+                    .join(", ") || "voting start"}
+                </p>
+              )}
             </div>
             <div>
               <p className="font-medium text-muted-foreground">
@@ -494,13 +774,60 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <p className="font-medium">Voting Result</p>
-                <p className="text-lg text-primary">{proposal.conclusion}</p>
+                <p className="text-lg text-primary">
+                  {proposal.conclusion &&
+                    getProposalStatusBadgeProps(proposal.conclusion).text}
+                </p>
+                {proposal.winning_option !== null &&
+                  proposal.options[proposal.winning_option] && (
+                    <p className="text-sm font-medium">
+                      Winner: {proposal.options[proposal.winning_option]}
+                    </p>
+                  )}
+                {proposal.tally?.rounds && proposal.tally.rounds.length > 1 && (
+                  <p className="text-sm text-muted-foreground">
+                    Decided after {proposal.tally.rounds.length} instant-runoff
+                    rounds
+                  </p>
+                )}
+                {proposal.tally && (
+                  <p className="text-sm text-muted-foreground">
+                    {proposal.tally.voters + (proposal.tally.delegators ?? 0)}{" "}
+                    of {proposal.tally.eligible_members} members voted (
+                    {proposal.tally.participation_percentage.toFixed(1)}%)
+                    {proposal.tally.delegators
+                      ? `, ${proposal.tally.delegators} through delegates`
+                      : ""}
+                    {proposal.tally.option_weights
+                      ? `, weight ${proposal.tally.option_weights
+                          .map(
+                            (weight, index) =>
+                              `${weight} ${proposal.options[index]}`
+                          )
+                          .join(" / ")} / ${
+                          proposal.tally.weighted_abstain
+                        } abstain`
+                      : `, weight ${proposal.tally.weighted_yes} yes / ${proposal.tally.weighted_no} no / ${proposal.tally.weighted_abstain} abstain`}
+                  </p>
+                )}
               </div>
               <div>
                 <p className="font-medium">Feedback Result</p>
                 <p className="text-lg text-primary">
-                  {proposal.feedback_conclusion}
+                  {proposal.feedback_conclusion &&
+                    getProposalStatusBadgeProps(proposal.feedback_conclusion)
+                      .text}
                 </p>
+                {proposal.feedback_tally && (
+                  <p className="text-sm text-muted-foreground">
+                    {proposal.feedback_tally.voters} of{" "}
+                    {proposal.feedback_tally.eligible_members} members voted (
+                    {proposal.feedback_tally.participation_percentage.toFixed(
+                      1
+                    )}
+                    %)
+                  </p>
+                )}
               </div>
             </div>
           </CardContent>
@@ -531,7 +858,12 @@ export const ProposalPage: React.FC<ProposalPageProps> = ({
       <ProposalChat
         proposalId={proposalId}
         proposalTitle={proposal.title}
+        daoId={proposal.dao_id}
         isUserMember={!!userMember}
+        canModerate={
+          !!userMember &&
+          ["owner", "admin", "moderator"].includes(userMember.role)
+        }
       />
     </div>
   );
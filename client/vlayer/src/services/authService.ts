@@ -0,0 +1,111 @@
+import { createSiweMessage } from "viem/siwe";
+import {
+  AuthNonceResponse,
+  AuthSession,
+  AuthVerifyResponse,
+} from "../types/dao";
+
+const API_BASE_URL = import.meta.env.VITE_BE_API_URL;
+
+const AUTH_SESSION_KEY = "daoscapeAuthSession";
+
+export const authService = {
+  getSession: (walletAddress?: string): AuthSession | null => {
+    try {
+      const stored = localStorage.getItem(AUTH_SESSION_KEY);
+      if (!stored) {
+        return null;
+      }
+
+      const session: AuthSession = JSON.parse(stored);
+
+      if (new Date(session.expires_at) <= new Date()) {
+        localStorage.removeItem(AUTH_SESSION_KEY);
+        return null;
+      }
+
+      if (
+        walletAddress &&
+        session.wallet_address.toLowerCase() !== walletAddress.toLowerCase()
+      ) {
+        return null;
+      }
+
+      return session;
+    } catch (error) {
+      console.error("Error reading auth session:", error);
+      return null;
+    }
+  },
+
+  // Headers for routes protected by the server's validateJwt middleware
+  getAuthHeaders: (): Record<string, string> => {
+    const session = authService.getSession();
+    return session ? { Authorization: `Bearer ${session.token}` } : {};
+  },
+
+  signIn: async (
+    walletAddress: `0x${string}`,
+    chainId: number,
+    signMessage: (message: string) => Promise<string>
+  ): Promise<AuthSession> => {
+    const nonceResponse = await fetch(`${API_BASE_URL}/api/v1/auth/nonce`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ wallet_address: walletAddress }),
+    });
+
+    const nonceData: AuthNonceResponse = await nonceResponse.json();
+
+    if (!nonceResponse.ok || !nonceData.data) {
+      throw new Error(
+        nonceData.message || `HTTP error! status: ${nonceResponse.status}`
+      );
+    }
+
+    const message = createSiweMessage({
+      address: walletAddress,
+      chainId,
+      domain: window.location.host,
+      nonce: nonceData.data.nonce,
+      uri: window.location.origin,
+      version: "1",
+      statement: "Sign in to DAOScape",
+      expirationTime: new Date(nonceData.data.expires_at),
+    });
+
+    const signature = await signMessage(message);
+
+    const verifyResponse = await fetch(`${API_BASE_URL}/api/v1/auth/verify`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({ message, signature }),
+    });
+
+    const verifyData: AuthVerifyResponse = await verifyResponse.json();
+
+    if (!verifyResponse.ok || !verifyData.data) {
+      throw new Error(
+        verifyData.message || `HTTP error! status: ${verifyResponse.status}`
+      );
+    }
+
+    const session: AuthSession = {
+      token: verifyData.data.token,
+      wallet_address: verifyData.data.member.member_id,
+      expires_at: verifyData.data.expires_at,
+    };
+
+    localStorage.setItem(AUTH_SESSION_KEY, JSON.stringify(session));
+
+    return session;
+  },
+
+  signOut: () => {
+    localStorage.removeItem(AUTH_SESSION_KEY);
+  },
+};
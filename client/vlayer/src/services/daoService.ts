@@ -3,6 +3,7 @@ import {
   DAOResponse,
   DAODetailResponse,
   JoinDAOResponse,
+  DelegationResponse,
   CreateMemberResponse,
   CreateProposalRequest,
   CreateProposalResponse,
@@ -13,11 +14,17 @@ import {
   ProposalDetailResponse,
   VoteRequest,
   VoteResponse,
+  VoteHistoryEntry,
+  ProposalSnapshot,
+  ReputationEvent,
+  GitHubRepository,
+  MemberVerifications,
   ConcludeProposalRequest,
   ConcludeProposalResponse,
   Proposal,
   Vote,
 } from "../types/dao";
+import { authService } from "./authService";
 
 const API_BASE_URL = import.meta.env.VITE_BE_API_URL;
 
@@ -201,6 +208,39 @@ export const daoService = {
     }
   },
 
+  getMemberVerifications: async (
+    walletAddress: string
+  ): Promise<{
+    success: boolean;
+    data?: MemberVerifications;
+    message?: string;
+  }> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/member/${walletAddress}/verifications`
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error fetching member verifications:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch member verifications",
+      };
+    }
+  },
+
   joinDAO: async (
     daoId: string,
     walletAddress: string
@@ -210,6 +250,7 @@ export const daoService = {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
         },
         body: JSON.stringify({
           dao_id: daoId,
@@ -235,6 +276,163 @@ export const daoService = {
     }
   },
 
+  setDelegate: async (
+    daoId: string,
+    walletAddress: string,
+    delegateId: string
+  ): Promise<DelegationResponse> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/membership/delegate`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...authService.getAuthHeaders(),
+          },
+          body: JSON.stringify({
+            dao_id: daoId,
+            wallet_address: walletAddress,
+            delegate_id: delegateId,
+          }),
+        }
+      );
+
+      const data: DelegationResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error setting delegate:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to set delegate",
+      };
+    }
+  },
+
+  getReputationHistory: async (
+    daoId: string,
+    memberId: string
+  ): Promise<{
+    success: boolean;
+    data?: ReputationEvent[];
+    message?: string;
+  }> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/membership/reputation/history`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            dao_id: daoId,
+            member_id: memberId,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error fetching reputation history:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch reputation history",
+      };
+    }
+  },
+
+  getGitHubRepositories: async (
+    daoId: string
+  ): Promise<{
+    success: boolean;
+    data?: GitHubRepository[];
+    message?: string;
+  }> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/governance/${daoId}/github-repositories`
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error fetching GitHub repositories:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch GitHub repositories",
+      };
+    }
+  },
+
+  revokeDelegate: async (
+    daoId: string,
+    walletAddress: string
+  ): Promise<DelegationResponse> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/membership/delegate/revoke`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            ...authService.getAuthHeaders(),
+          },
+          body: JSON.stringify({
+            dao_id: daoId,
+            wallet_address: walletAddress,
+          }),
+        }
+      );
+
+      const data: DelegationResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error revoking delegate:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to revoke delegate",
+      };
+    }
+  },
+
   requestToJoinDAO: async (
     daoId: string,
     userAddress: string,
@@ -281,6 +479,7 @@ export const daoService = {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
         },
         body: JSON.stringify(proposalData),
       });
@@ -344,6 +543,7 @@ export const daoService = {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
         },
         body: JSON.stringify(voteData),
       });
@@ -366,6 +566,148 @@ export const daoService = {
     }
   },
 
+  updateVote: async (voteData: VoteRequest): Promise<VoteResponse> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/v1/vote/update`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
+        },
+        body: JSON.stringify(voteData),
+      });
+
+      const data: VoteResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error changing vote:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to change vote",
+      };
+    }
+  },
+
+  retractVote: async (
+    voteData: Omit<VoteRequest, "vote" | "selections">
+  ): Promise<VoteResponse> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/v1/vote/retract`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
+        },
+        body: JSON.stringify(voteData),
+      });
+
+      const data: VoteResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error retracting vote:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to retract vote",
+      };
+    }
+  },
+
+  getProposalSnapshot: async (
+    proposalId: string
+  ): Promise<{
+    success: boolean;
+    data?: ProposalSnapshot;
+    message?: string;
+  }> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/proposal/${proposalId}/snapshot`,
+        {
+          method: "GET",
+          headers: {
+            "Content-Type": "application/json",
+          },
+        }
+      );
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error fetching proposal snapshot:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch proposal snapshot",
+      };
+    }
+  },
+
+  getVoteHistory: async (
+    proposalId: string,
+    walletAddress: string
+  ): Promise<{
+    success: boolean;
+    data?: VoteHistoryEntry[];
+    message?: string;
+  }> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/v1/vote/history`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          proposal_id: proposalId,
+          wallet_address: walletAddress,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error fetching vote history:", error);
+      return {
+        success: false,
+        message:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch vote history",
+      };
+    }
+  },
+
   getVotesForProposal: async (
     proposalId: string,
     isFeedback: boolean,
@@ -411,6 +753,7 @@ export const daoService = {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
         },
         body: JSON.stringify(concludeData),
       });
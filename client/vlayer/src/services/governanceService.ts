@@ -187,6 +187,16 @@ export const governanceService = {
       ) => Promise<`0x${string}`>;
     }
   ): Promise<HybridVoteResponse> => {
+    // The Governance contract only knows yes/no/abstain, so option ballots
+    // are recorded by the API alone
+    if (voteData.selections) {
+      const apiResponse = await daoService.castVote(voteData);
+      return {
+        ...apiResponse,
+        onChainVoted: false,
+      };
+    }
+
     try {
       console.log("🗳️ Starting hybrid vote casting...");
 
@@ -257,6 +267,28 @@ export const governanceService = {
     }
   },
 
+  // The Governance contract records a single vote per address, so changes
+  // and retractions are recorded by the API, which is authoritative for tallies
+  changeHybridVote: async (
+    voteData: VoteRequest
+  ): Promise<HybridVoteResponse> => {
+    const apiResponse = await daoService.updateVote(voteData);
+    return {
+      ...apiResponse,
+      onChainVoted: false,
+    };
+  },
+
+  retractHybridVote: async (
+    voteData: Omit<VoteRequest, "vote" | "selections">
+  ): Promise<HybridVoteResponse> => {
+    const apiResponse = await daoService.retractVote(voteData);
+    return {
+      ...apiResponse,
+      onChainVoted: false,
+    };
+  },
+
   // New function: Conclude proposal on-chain first, then update API
   concludeHybridProposal: async (
     proposalId: string,
@@ -1,13 +1,60 @@
 import {
   Message,
+  ChatMute,
+  ChatSettings,
   CreateMessageRequest,
   CreateMessageResponse,
+  DeleteMessageRequest,
+  EditMessageRequest,
+  GetMessageEditsResponse,
   GetMessageHistoryRequest,
   GetMessageHistoryResponse,
+  MessageReactionRequest,
+  MessageResponse,
+  ModerationLogEntry,
+  MuteMemberRequest,
+  SendTypingRequest,
+  SendTypingResponse,
+  UpdateChatSettingsRequest,
 } from "../types/dao";
+import { authService } from "./authService";
 
 const API_BASE_URL = import.meta.env.VITE_BE_API_URL || "http://localhost:3000";
 
+// Authenticated requests to the messages API, the server explains failures in `message`
+const requestMessages = async <T>(
+  path: string,
+  fallbackError: string,
+  body?: object
+): Promise<{ success: boolean; data?: T; error?: string }> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/v1/messages/${path}`, {
+      method: body ? "POST" : "GET",
+      headers: {
+        "Content-Type": "application/json",
+        ...authService.getAuthHeaders(),
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(
+        data.error || data.message || `HTTP error! status: ${response.status}`
+      );
+    }
+
+    return data;
+  } catch (error) {
+    console.error(`Error requesting messages/${path}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackError,
+    };
+  }
+};
+
 export const messagesService = {
   createMessage: async (
     messageData: CreateMessageRequest
@@ -17,6 +64,7 @@ export const messagesService = {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
         },
         body: JSON.stringify(messageData),
       });
@@ -24,7 +72,9 @@ export const messagesService = {
       const data: CreateMessageResponse = await response.json();
 
       if (!response.ok) {
-        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+        throw new Error(
+          data.error || data.message || `HTTP error! status: ${response.status}`
+        );
       }
 
       return data;
@@ -72,4 +122,172 @@ export const messagesService = {
       };
     }
   },
+
+  editMessage: async (
+    editData: EditMessageRequest
+  ): Promise<MessageResponse> => {
+    return requestMessages("edit", "Failed to edit message", editData);
+  },
+
+  deleteMessage: async (
+    deleteData: DeleteMessageRequest
+  ): Promise<MessageResponse> => {
+    return requestMessages("delete", "Failed to delete message", deleteData);
+  },
+
+  addReaction: async (
+    reactionData: MessageReactionRequest
+  ): Promise<MessageResponse> => {
+    return requestMessages("react", "Failed to add reaction", reactionData);
+  },
+
+  removeReaction: async (
+    reactionData: MessageReactionRequest
+  ): Promise<MessageResponse> => {
+    return requestMessages(
+      "unreact",
+      "Failed to remove reaction",
+      reactionData
+    );
+  },
+
+  getMessageEdits: async (
+    messageId: string
+  ): Promise<GetMessageEditsResponse> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/messages/${messageId}/edits`
+      );
+
+      const data: GetMessageEditsResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error fetching message edits:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to fetch message edits",
+      };
+    }
+  },
+
+  hideMessage: async (
+    messageId: string,
+    reason?: string
+  ): Promise<MessageResponse> => {
+    return requestMessages("hide", "Failed to hide message", {
+      message_id: messageId,
+      reason,
+    });
+  },
+
+  unhideMessage: async (
+    messageId: string,
+    reason?: string
+  ): Promise<MessageResponse> => {
+    return requestMessages("unhide", "Failed to unhide message", {
+      message_id: messageId,
+      reason,
+    });
+  },
+
+  muteMember: async (
+    muteData: MuteMemberRequest
+  ): Promise<{ success: boolean; data?: ChatMute; error?: string }> => {
+    return requestMessages("mute", "Failed to mute member", muteData);
+  },
+
+  unmuteMember: async (
+    daoId: string,
+    memberId: string
+  ): Promise<{ success: boolean; data?: ChatMute; error?: string }> => {
+    return requestMessages("unmute", "Failed to unmute member", {
+      dao_id: daoId,
+      member_id: memberId,
+    });
+  },
+
+  getChatMutes: async (
+    daoId: string
+  ): Promise<{ success: boolean; data?: ChatMute[]; error?: string }> => {
+    return requestMessages(`dao/${daoId}/mutes`, "Failed to fetch mutes");
+  },
+
+  getChatSettings: async (
+    daoId: string
+  ): Promise<{ success: boolean; data?: ChatSettings; error?: string }> => {
+    return requestMessages(
+      `dao/${daoId}/settings`,
+      "Failed to fetch chat settings"
+    );
+  },
+
+  updateChatSettings: async (
+    settingsData: UpdateChatSettingsRequest
+  ): Promise<{ success: boolean; data?: ChatSettings; error?: string }> => {
+    return requestMessages(
+      "settings",
+      "Failed to update chat settings",
+      settingsData
+    );
+  },
+
+  getModerationLog: async (
+    daoId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{
+    success: boolean;
+    data?: ModerationLogEntry[];
+    error?: string;
+  }> => {
+    return requestMessages("moderation-log", "Failed to fetch moderation log", {
+      dao_id: daoId,
+      limit,
+      offset,
+    });
+  },
+
+  sendTyping: async (
+    typingData: SendTypingRequest
+  ): Promise<SendTypingResponse> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}/api/v1/messages/typing`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
+        },
+        body: JSON.stringify(typingData),
+      });
+
+      const data: SendTypingResponse = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      return data;
+    } catch (error) {
+      console.error("Error sending typing state:", error);
+      return {
+        success: false,
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to send typing state",
+      };
+    }
+  },
+
+  // Server-Sent Events stream of the proposal's chat, resuming after lastSeq
+  getStreamUrl: (proposalId: string, lastSeq: number): string =>
+    `${API_BASE_URL}/api/v1/messages/${proposalId}/stream?last_event_id=${lastSeq}`,
 };
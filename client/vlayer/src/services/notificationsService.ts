@@ -0,0 +1,86 @@
+import { GetNotificationsRequest, Notification } from "../types/notification";
+import { authService } from "./authService";
+
+const API_BASE_URL = import.meta.env.VITE_BE_API_URL || "http://localhost:3000";
+
+// Authenticated requests to the notifications API, the server explains failures in `message`
+const requestNotifications = async <T>(
+  path: string,
+  fallbackError: string,
+  body?: object
+): Promise<{ success: boolean; data?: T; error?: string }> => {
+  try {
+    const response = await fetch(
+      `${API_BASE_URL}/api/v1/notifications${path}`,
+      {
+        method: body ? "POST" : "GET",
+        headers: {
+          "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      }
+    );
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(
+        data.error || data.message || `HTTP error! status: ${response.status}`
+      );
+    }
+
+    return data;
+  } catch (error) {
+    console.error(`Error requesting notifications${path}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackError,
+    };
+  }
+};
+
+export const notificationsService = {
+  getNotifications: async ({
+    unread_only,
+    limit = 20,
+    offset = 0,
+  }: GetNotificationsRequest = {}): Promise<{
+    success: boolean;
+    data?: Notification[];
+    error?: string;
+  }> => {
+    const params = new URLSearchParams({
+      limit: limit.toString(),
+      offset: offset.toString(),
+    });
+    if (unread_only) {
+      params.set("unread_only", "true");
+    }
+
+    return requestNotifications(
+      `?${params.toString()}`,
+      "Failed to fetch notifications"
+    );
+  },
+
+  getUnreadCount: async (): Promise<{
+    success: boolean;
+    data?: { unread_count: number };
+    error?: string;
+  }> => {
+    return requestNotifications(
+      "/unread-count",
+      "Failed to fetch unread notifications"
+    );
+  },
+
+  // Marks every unread notification read when no ids are given
+  markRead: async (
+    notificationIds?: string[]
+  ): Promise<{ success: boolean; data?: Notification[]; error?: string }> => {
+    return requestNotifications("/read", "Failed to mark notifications read", {
+      notification_ids: notificationIds,
+    });
+  },
+};
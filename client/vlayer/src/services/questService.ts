@@ -11,7 +11,16 @@ import {
   GenericResponse,
   QuestWithStatus,
   QuestStatus,
+  QuestPayoutStatus,
+  QuestEligibility,
+  QuestEligibilityResponse,
+  QuestTask,
+  QuestLeaderboardEntry,
+  QuestLeaderboardResponse,
+  QuestFunnel,
+  QuestFunnelResponse,
 } from "../types/quest";
+import { authService } from "./authService";
 
 const API_BASE_URL = import.meta.env.VITE_BE_API_URL;
 
@@ -25,6 +34,7 @@ export const questService = {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          ...authService.getAuthHeaders(),
         },
         body: JSON.stringify(questData),
       });
@@ -95,6 +105,7 @@ export const questService = {
           method: "POST",
           headers: {
             "Content-Type": "application/json",
+            ...authService.getAuthHeaders(),
           },
           body: JSON.stringify(joinData),
         }
@@ -169,6 +180,32 @@ export const questService = {
     }
   },
 
+  getQuestEligibility: async (
+    questId: string,
+    memberId: string
+  ): Promise<QuestEligibility | null> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/quest-participant/quest/${questId}/member/${memberId}/eligibility`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data: QuestEligibilityResponse = await response.json();
+
+      if (!data.success) {
+        throw new Error("API returned unsuccessful response");
+      }
+
+      return data.data;
+    } catch (error) {
+      console.error("Error fetching quest eligibility:", error);
+      return null;
+    }
+  },
+
   updateParticipantCompletion: async (
     questId: string,
     memberId: string,
@@ -181,6 +218,7 @@ export const questService = {
           method: "PATCH",
           headers: {
             "Content-Type": "application/json",
+            ...authService.getAuthHeaders(),
           },
           body: JSON.stringify(completionData),
         }
@@ -201,6 +239,93 @@ export const questService = {
     }
   },
 
+  // Analytics
+  getQuestLeaderboard: async (
+    daoId: string
+  ): Promise<QuestLeaderboardEntry[]> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/quest/dao/${daoId}/leaderboard`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data: QuestLeaderboardResponse = await response.json();
+
+      if (!data.success) {
+        throw new Error("API returned unsuccessful response");
+      }
+
+      return data.data;
+    } catch (error) {
+      console.error("Error fetching quest leaderboard:", error);
+      throw error;
+    }
+  },
+
+  getQuestFunnel: async (questId: string): Promise<QuestFunnel | null> => {
+    try {
+      const response = await fetch(
+        `${API_BASE_URL}/api/v1/quest/${questId}/stats`
+      );
+
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+
+      const data: QuestFunnelResponse = await response.json();
+
+      if (!data.success) {
+        throw new Error("API returned unsuccessful response");
+      }
+
+      return data.data;
+    } catch (error) {
+      console.error("Error fetching quest stats:", error);
+      return null;
+    }
+  },
+
+  // Exports need the quest permission, so they are fetched with auth and saved from a blob
+  downloadCsv: async (path: string, filename: string): Promise<void> => {
+    try {
+      const response = await fetch(`${API_BASE_URL}${path}`, {
+        headers: authService.getAuthHeaders(),
+      });
+
+      if (!response.ok) {
+        const data: GenericResponse = await response.json();
+        throw new Error(
+          data.message || `HTTP error! status: ${response.status}`
+        );
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = filename;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting CSV:", error);
+      throw error;
+    }
+  },
+
+  exportQuestLeaderboard: (daoId: string): Promise<void> =>
+    questService.downloadCsv(
+      `/api/v1/quest/dao/${daoId}/leaderboard/export`,
+      `quest-leaderboard-${daoId}.csv`
+    ),
+
+  exportQuestParticipants: (questId: string): Promise<void> =>
+    questService.downloadCsv(
+      `/api/v1/quest/${questId}/participants/export`,
+      `quest-participants-${questId}.csv`
+    ),
+
   // Utility functions
   getQuestStatus: (quest: Quest): QuestStatus => {
     const now = new Date();
@@ -231,12 +356,18 @@ export const questService = {
         );
 
         let userParticipation: QuestParticipant | undefined;
+        let eligibility: QuestEligibility | undefined;
         if (userAddress) {
           userParticipation =
             (await questService.getParticipantStatus(
               quest.quest_id,
               userAddress
             )) || undefined;
+          eligibility =
+            (await questService.getQuestEligibility(
+              quest.quest_id,
+              userAddress
+            )) || undefined;
         }
 
         questsWithStatus.push({
@@ -244,6 +375,7 @@ export const questService = {
           status,
           participantCount: participants.length,
           userParticipation,
+          eligibility,
         });
       }
 
@@ -254,14 +386,83 @@ export const questService = {
     }
   },
 
-  isQuestCompleted: (participant: QuestParticipant, quest: Quest): boolean => {
-    const followCompleted =
-      !quest.twitter_follow_enabled || participant.twitter_follow_completed;
-    const likeCompleted =
-      !quest.twitter_like_enabled || participant.twitter_like_completed;
-    const retweetCompleted =
-      !quest.twitter_retweet_enabled || participant.twitter_retweet_completed;
+  isTaskCompleted: (participant: QuestParticipant, task: QuestTask): boolean =>
+    participant.completions.some(
+      (completion) => completion.task_id === task.task_id
+    ),
+
+  isQuestCompleted: (participant: QuestParticipant, quest: Quest): boolean =>
+    quest.tasks.every((task) =>
+      questService.isTaskCompleted(participant, task)
+    ),
+
+  getTaskLabel: (task: QuestTask): string => {
+    switch (task.task_type) {
+      case "TWITTER_FOLLOW":
+        return `Follow @${task.config.username.replace(/^@/, "")}`;
+      case "TWITTER_LIKE":
+        return "Like the tweet";
+      case "TWITTER_RETWEET":
+        return "Retweet the tweet";
+      case "GITHUB_CONTRIBUTION":
+        return `Contribute to ${task.config.repo_owner}/${task.config.repo_name}`;
+      case "EMAIL_DOMAIN":
+        return `Verify an @${task.config.email_domain.replace(/^@/, "")} email`;
+    }
+  },
+
+  getTaskUrl: (task: QuestTask): string | null => {
+    switch (task.task_type) {
+      case "TWITTER_FOLLOW":
+        return `https://x.com/${task.config.username.replace(/^@/, "")}`;
+      case "TWITTER_LIKE":
+      case "TWITTER_RETWEET":
+        return `https://x.com/i/web/status/${task.config.tweet_id}`;
+      case "GITHUB_CONTRIBUTION":
+        return `https://github.com/${task.config.repo_owner}/${task.config.repo_name}`;
+      case "EMAIL_DOMAIN":
+        return null;
+    }
+  },
+
+  getQuestRequirements: (quest: Quest): string[] => {
+    const requirements = [];
 
-    return followCompleted && likeCompleted && retweetCompleted;
+    if (quest.members_only) {
+      requirements.push("DAO members only");
+    }
+    if (quest.min_reputation !== undefined && quest.min_reputation !== null) {
+      requirements.push(`${quest.min_reputation}+ reputation`);
+    }
+    if (quest.required_house) {
+      requirements.push(`House ${quest.required_house} only`);
+    }
+
+    return requirements;
+  },
+
+  getRemainingSlots: (quest: QuestWithStatus): number | null => {
+    if (!quest.max_participants) {
+      return null;
+    }
+
+    return Math.max(quest.max_participants - (quest.participantCount || 0), 0);
+  },
+
+  getTokenPayoutLabel: (status: QuestPayoutStatus): string => {
+    switch (status) {
+      case "PENDING":
+        return "Sending";
+      case "SENT":
+        return "Sent";
+      case "SIMULATED":
+        return "Simulated (dry run)";
+      case "FAILED":
+        return "Failed";
+      case "BUDGET_EXHAUSTED":
+        return "Quest budget exhausted";
+      default:
+        return status;
+    }
   },
 };
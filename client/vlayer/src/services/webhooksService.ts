@@ -0,0 +1,122 @@
+import {
+  CreateWebhookRequest,
+  UpdateWebhookRequest,
+  Webhook,
+  WebhookDelivery,
+} from "../types/dao";
+import { authService } from "./authService";
+
+const API_BASE_URL = import.meta.env.VITE_BE_API_URL || "http://localhost:3000";
+
+// Authenticated requests to the webhooks API, the server explains failures in `message`
+const requestWebhooks = async <T>(
+  path: string,
+  fallbackError: string,
+  body: object
+): Promise<{ success: boolean; data?: T; error?: string }> => {
+  try {
+    const response = await fetch(`${API_BASE_URL}/api/v1/webhooks/${path}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...authService.getAuthHeaders(),
+      },
+      body: JSON.stringify(body),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      throw new Error(
+        data.error || data.message || `HTTP error! status: ${response.status}`
+      );
+    }
+
+    return data;
+  } catch (error) {
+    console.error(`Error requesting webhooks/${path}:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : fallbackError,
+    };
+  }
+};
+
+export const webhooksService = {
+  getWebhooks: async (
+    daoId: string
+  ): Promise<{ success: boolean; data?: Webhook[]; error?: string }> => {
+    return requestWebhooks("list", "Failed to fetch webhooks", {
+      dao_id: daoId,
+    });
+  },
+
+  createWebhook: async (
+    webhookData: CreateWebhookRequest
+  ): Promise<{ success: boolean; data?: Webhook; error?: string }> => {
+    return requestWebhooks("create", "Failed to create webhook", webhookData);
+  },
+
+  updateWebhook: async (
+    webhookData: UpdateWebhookRequest
+  ): Promise<{ success: boolean; data?: Webhook; error?: string }> => {
+    return requestWebhooks("update", "Failed to update webhook", webhookData);
+  },
+
+  rotateWebhookSecret: async (
+    daoId: string,
+    webhookId: string
+  ): Promise<{ success: boolean; data?: Webhook; error?: string }> => {
+    return requestWebhooks("rotate-secret", "Failed to rotate secret", {
+      dao_id: daoId,
+      webhook_id: webhookId,
+    });
+  },
+
+  deleteWebhook: async (
+    daoId: string,
+    webhookId: string
+  ): Promise<{ success: boolean; error?: string }> => {
+    return requestWebhooks("delete", "Failed to delete webhook", {
+      dao_id: daoId,
+      webhook_id: webhookId,
+    });
+  },
+
+  // Sends a PING and resolves once the receiver answered
+  testWebhook: async (
+    daoId: string,
+    webhookId: string
+  ): Promise<{ success: boolean; data?: WebhookDelivery; error?: string }> => {
+    return requestWebhooks("test", "Failed to test webhook", {
+      dao_id: daoId,
+      webhook_id: webhookId,
+    });
+  },
+
+  getDeliveries: async (
+    daoId: string,
+    limit = 50,
+    offset = 0
+  ): Promise<{
+    success: boolean;
+    data?: WebhookDelivery[];
+    error?: string;
+  }> => {
+    return requestWebhooks("deliveries", "Failed to fetch deliveries", {
+      dao_id: daoId,
+      limit,
+      offset,
+    });
+  },
+
+  redeliver: async (
+    daoId: string,
+    deliveryId: string
+  ): Promise<{ success: boolean; data?: WebhookDelivery; error?: string }> => {
+    return requestWebhooks("deliveries/redeliver", "Failed to redeliver", {
+      dao_id: daoId,
+      delivery_id: deliveryId,
+    });
+  },
+};
@@ -28,12 +28,89 @@ export interface TokenDetailsResponse {
   message?: string;
 }
 
+export type DAORole = "owner" | "admin" | "moderator" | "member";
+
 export interface Member {
   house: string;
   dao_id: string;
   member_id: string;
   created_at: string;
   reputation: number;
+  role: DAORole;
+  delegate_id: string | null;
+  delegated_at: string | null;
+}
+
+export type ReputationReason =
+  | "JOINED_DAO"
+  | "CORRECT_VOTE"
+  | "INCORRECT_VOTE"
+  | "EMAIL_VERIFIED"
+  | "GITHUB_VERIFIED";
+
+export interface ReputationEvent {
+  event_id: string;
+  member_id: string;
+  dao_id: string;
+  delta: number;
+  reputation: number;
+  reason: ReputationReason;
+  proposal_id: string | null;
+  quest_id: string | null;
+  verification_id: string | null;
+  created_at: string;
+}
+
+export type VerificationType = "TWITTER" | "GITHUB" | "EMAIL";
+
+export interface MemberVerification {
+  member_id: string;
+  verification_type: VerificationType;
+  identity: string;
+  verification_id: string;
+  verified_at: string;
+  verification_proofs: {
+    proof_type: string;
+    tx_hash: string;
+    chain_id: number;
+    block_number: number;
+    dao_id: string;
+  } | null;
+}
+
+export interface MemberVerifications {
+  verifications: MemberVerification[];
+  verification_score: number;
+}
+
+export interface GitHubRepository {
+  repository_id: string;
+  dao_id: string;
+  repo_owner: string;
+  repo_name: string;
+  reputation_reward: number;
+  merits_reward: number;
+  created_at: string;
+}
+
+export interface ProposalTally {
+  outcome: "YES" | "NO" | "FAILED_QUORUM" | "TIED" | "DECIDED";
+  winning_option: number | null;
+  option_weights: number[] | null;
+  rounds: number[][] | null;
+  weighted_yes: number;
+  weighted_no: number;
+  weighted_abstain: number;
+  participating_weight: number;
+  delegated_weight: number;
+  voters: number;
+  // Members represented through their delegate's vote, missing on older tallies
+  delegators?: number;
+  eligible_members: number;
+  participation_percentage: number;
+  quorum_weight: number;
+  quorum_member_percentage: number;
+  approval_threshold: number;
 }
 
 export interface Proposal {
@@ -48,6 +125,11 @@ export interface Proposal {
   voting_house: string;
   voting_start: string;
   feedback_conclusion: string;
+  voting_method: VotingMethod;
+  options: string[];
+  winning_option: number | null;
+  tally?: ProposalTally | null;
+  feedback_tally?: ProposalTally | null;
   akave_url?: string;
 }
 
@@ -83,6 +165,12 @@ export interface JoinDAOResponse {
   message?: string;
 }
 
+export interface DelegationResponse {
+  success: boolean;
+  data?: Member;
+  message?: string;
+}
+
 export interface CreateMemberResponse {
   success: boolean;
   message?: string;
@@ -110,6 +198,12 @@ export interface MembershipRequest {
   message?: string;
 }
 
+export type VotingMethod =
+  | "BINARY"
+  | "SINGLE_CHOICE"
+  | "APPROVAL"
+  | "RANKED_CHOICE";
+
 export interface CreateProposalRequest {
   title: string;
   description: string;
@@ -117,6 +211,8 @@ export interface CreateProposalRequest {
   voting_start: string;
   voting_end: string;
   feedback_end: string;
+  voting_method?: VotingMethod;
+  options?: string[];
 }
 
 export interface CreateProposalResponse {
@@ -132,9 +228,24 @@ export interface CreateProposalResponse {
 
 export type MembershipStatus = "not_member" | "pending" | "member" | "admin";
 
+export interface VoteWeightBreakdown {
+  token_share: number;
+  reputation: number;
+  verification_score: number;
+  token_coefficient: number;
+  reputation_coefficient: number;
+  verification_coefficient: number;
+  house_multiplier: number;
+  weight: number;
+}
+
 export interface Vote {
-  vote: "YES" | "NO" | "ABSTAIN";
+  vote: "YES" | "NO" | "ABSTAIN" | null;
+  selections: number[] | null;
   weight: number;
+  weight_breakdown: VoteWeightBreakdown | null;
+  delegated_weight: number;
+  delegators: { member_id: string; weight: number }[];
   member_id: string;
   created_at: string;
   is_feedback: boolean;
@@ -156,8 +267,40 @@ export interface VoteRequest {
   proposal_id: string;
   dao_id: string;
   wallet_address: string;
-  vote: "YES" | "NO" | "ABSTAIN";
+  vote?: "YES" | "NO" | "ABSTAIN";
+  selections?: number[];
+  is_feedback: boolean;
+}
+
+export interface VoteHistoryEntry {
+  history_id: string;
+  proposal_id: string;
+  member_id: string;
   is_feedback: boolean;
+  vote: "YES" | "NO" | "ABSTAIN" | null;
+  selections: number[] | null;
+  weight: number;
+  action: "CHANGED" | "RETRACTED";
+  created_at: string;
+}
+
+export interface TokenBalanceSnapshot {
+  proposal_id: string;
+  member_id: string;
+  chain_id: number;
+  token_address: string;
+  block_number: number;
+  balance: number;
+  created_at: string;
+}
+
+// Balances pinned at voting_start that main-vote weights are computed from
+export interface ProposalSnapshot {
+  proposal_id: string;
+  snapshot_at: string;
+  blocks: Record<string, number>;
+  created_at: string;
+  balances: TokenBalanceSnapshot[];
 }
 
 export interface VoteResponse {
@@ -183,24 +326,72 @@ export enum VoteType {
 }
 
 // Message types for proposal chat
+export interface MessageReaction {
+  emoji: string;
+  member_ids: string[];
+}
+
 export interface Message {
-  id: string;
+  message_id: string;
+  seq: number;
   member_id: string;
   proposal_id: string;
   message: string;
+  reply_to_id: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reactions: MessageReaction[];
   created_at: string;
 }
 
+export interface MessageEdit {
+  edit_id: string;
+  message_id: string;
+  message: string;
+  edited_at: string;
+}
+
 export interface CreateMessageRequest {
   member_id: string;
   proposal_id: string;
   message: string;
+  reply_to_id?: string;
+}
+
+export interface EditMessageRequest {
+  member_id: string;
+  message_id: string;
+  message: string;
+}
+
+export interface DeleteMessageRequest {
+  member_id: string;
+  message_id: string;
+}
+
+export interface MessageReactionRequest {
+  member_id: string;
+  message_id: string;
+  emoji: string;
+}
+
+export interface MessageResponse {
+  success: boolean;
+  data?: Message;
+  error?: string;
+}
+
+export interface GetMessageEditsResponse {
+  success: boolean;
+  data?: MessageEdit[];
+  error?: string;
 }
 
 export interface CreateMessageResponse {
   success: boolean;
   data?: Message;
   error?: string;
+  message?: string;
 }
 
 export interface GetMessageHistoryRequest {
@@ -214,3 +405,154 @@ export interface GetMessageHistoryResponse {
   data?: Message[];
   error?: string;
 }
+
+export interface ChatSettings {
+  dao_id: string;
+  blocked_words: string[];
+  allow_links: boolean;
+  updated_at: string;
+}
+
+export interface UpdateChatSettingsRequest {
+  dao_id: string;
+  blocked_words?: string[];
+  allow_links?: boolean;
+}
+
+export interface ChatMute {
+  dao_id: string;
+  member_id: string;
+  muted_by: string;
+  reason: string | null;
+  muted_until: string | null;
+  created_at: string;
+}
+
+export interface MuteMemberRequest {
+  dao_id: string;
+  member_id: string;
+  duration_minutes?: number;
+  reason?: string;
+}
+
+export type MessageModerationAction =
+  | "HIDE_MESSAGE"
+  | "UNHIDE_MESSAGE"
+  | "MUTE_MEMBER"
+  | "UNMUTE_MEMBER"
+  | "UPDATE_SETTINGS";
+
+export interface ModerationLogEntry {
+  log_id: string;
+  dao_id: string;
+  moderator_id: string;
+  action: MessageModerationAction;
+  message_id: string | null;
+  member_id: string | null;
+  reason: string | null;
+  details: Record<string, unknown>;
+  created_at: string;
+  // The message as stored, including the text of hidden messages
+  message:
+    | (Omit<Message, "reactions"> & {
+        hidden_at: string | null;
+        hidden_by: string | null;
+      })
+    | null;
+}
+
+export type WebhookEvent =
+  | "PROPOSAL_CREATED"
+  | "VOTING_STARTED"
+  | "PROPOSAL_CONCLUDED"
+  | "FEEDBACK_CONCLUDED"
+  | "MEMBER_JOINED"
+  | "QUEST_COMPLETED"
+  | "PING";
+
+export interface Webhook {
+  webhook_id: string;
+  dao_id: string;
+  url: string;
+  events: WebhookEvent[];
+  active: boolean;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  // Only returned when the webhook is created or its secret rotated
+  secret?: string;
+}
+
+export interface CreateWebhookRequest {
+  dao_id: string;
+  url: string;
+  events: WebhookEvent[];
+  secret?: string;
+}
+
+export interface UpdateWebhookRequest {
+  dao_id: string;
+  webhook_id: string;
+  url?: string;
+  events?: WebhookEvent[];
+  active?: boolean;
+}
+
+export type WebhookDeliveryStatus = "PENDING" | "SENT" | "FAILED";
+
+export interface WebhookDelivery {
+  delivery_id: string;
+  webhook_id: string;
+  dao_id: string;
+  event: WebhookEvent;
+  payload: Record<string, unknown>;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SendTypingRequest {
+  member_id: string;
+  proposal_id: string;
+  typing: boolean;
+}
+
+export interface SendTypingResponse {
+  success: boolean;
+  error?: string;
+}
+
+// Sign-In with Ethereum types
+export interface AuthNonceResponse {
+  success: boolean;
+  data?: {
+    nonce: string;
+    wallet_address: string;
+    expires_at: string;
+  };
+  message?: string;
+}
+
+export interface AuthSession {
+  token: string;
+  wallet_address: string;
+  expires_at: string;
+}
+
+export interface AuthVerifyResponse {
+  success: boolean;
+  data?: {
+    token: string;
+    expires_at: string;
+    member: {
+      member_id: string;
+      created_at: string;
+    };
+  };
+  message?: string;
+}
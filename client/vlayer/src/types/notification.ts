@@ -0,0 +1,28 @@
+export type NotificationType =
+  | "MENTION"
+  | "REPLY"
+  | "NEW_PROPOSAL"
+  | "VOTING_STARTED"
+  | "VOTING_ENDED"
+  | "QUEST_REWARD"
+  | "MERIT_PAYOUT";
+
+export interface Notification {
+  notification_id: string;
+  member_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  dao_id: string | null;
+  proposal_id: string | null;
+  message_id: string | null;
+  quest_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
+export interface GetNotificationsRequest {
+  unread_only?: boolean;
+  limit?: number;
+  offset?: number;
+}
@@ -1,3 +1,27 @@
+export type QuestTaskType =
+  | "TWITTER_FOLLOW"
+  | "TWITTER_LIKE"
+  | "TWITTER_RETWEET"
+  | "GITHUB_CONTRIBUTION"
+  | "EMAIL_DOMAIN";
+
+export type CreateQuestTask =
+  | { task_type: "TWITTER_FOLLOW"; config: { username: string } }
+  | { task_type: "TWITTER_LIKE"; config: { tweet_id: string } }
+  | { task_type: "TWITTER_RETWEET"; config: { tweet_id: string } }
+  | {
+      task_type: "GITHUB_CONTRIBUTION";
+      config: { repo_owner: string; repo_name: string };
+    }
+  | { task_type: "EMAIL_DOMAIN"; config: { email_domain: string } };
+
+export type QuestTask = CreateQuestTask & {
+  task_id: string;
+  quest_id: string;
+  position: number;
+  created_at: string;
+};
+
 export interface Quest {
   quest_id: string;
   dao_id: string;
@@ -9,11 +33,12 @@ export interface Quest {
   reward_token_chain?: number;
   reward_token_address?: string;
   reward_token_amount?: number;
-  twitter_account_url?: string;
-  twitter_post_url?: string;
-  twitter_follow_enabled: boolean;
-  twitter_like_enabled: boolean;
-  twitter_retweet_enabled: boolean;
+  reward_token_budget?: number;
+  tasks: QuestTask[];
+  max_participants?: number | null;
+  members_only?: boolean;
+  min_reputation?: number | null;
+  required_house?: string | null;
   created_at?: string;
 }
 
@@ -27,25 +52,40 @@ export interface CreateQuestRequest {
   reward_token_chain?: number;
   reward_token_address?: string;
   reward_token_amount?: number;
-  twitter_account_url?: string;
-  twitter_post_url?: string;
-  twitter_follow_enabled: boolean;
-  twitter_like_enabled: boolean;
-  twitter_retweet_enabled: boolean;
+  reward_token_budget?: number;
+  tasks: CreateQuestTask[];
+  max_participants?: number;
+  members_only?: boolean;
+  min_reputation?: number;
+  required_house?: string;
+}
+
+export type QuestPayoutStatus =
+  | "PENDING"
+  | "SENT"
+  | "SIMULATED"
+  | "FAILED"
+  | "BUDGET_EXHAUSTED";
+
+export interface QuestTaskCompletion {
+  task_id: string;
+  quest_id: string;
+  member_id: string;
+  verification_id: string;
+  completed_at: string;
 }
 
 export interface QuestParticipant {
   quest_id: string;
   member_id: string;
   joined_at: string;
-  twitter_follow_completed: boolean;
-  twitter_like_completed: boolean;
-  twitter_retweet_completed: boolean;
-  twitter_follow_proof?: string;
-  twitter_like_proof?: string;
-  twitter_retweet_proof?: string;
-  completed_at?: string;
+  completions: QuestTaskCompletion[];
+  completed_at?: string | null;
   reward_claimed: boolean;
+  token_payout_status?: QuestPayoutStatus | null;
+  token_payout_tx_hash?: string | null;
+  token_payout_error?: string | null;
+  token_paid_at?: string | null;
 }
 
 export interface JoinQuestRequest {
@@ -53,13 +93,64 @@ export interface JoinQuestRequest {
   quest_id: string;
 }
 
+// The proof transaction for one task, the backend checks it on-chain against the task's config
 export interface UpdateCompletionRequest {
-  twitter_follow_completed?: boolean;
-  twitter_like_completed?: boolean;
-  twitter_retweet_completed?: boolean;
-  twitter_follow_proof?: string;
-  twitter_like_proof?: string;
-  twitter_retweet_proof?: string;
+  task_id: string;
+  tx_hash: string;
+}
+
+export interface QuestEligibility {
+  joined: boolean;
+  eligible: boolean;
+  reasons: string[];
+  participant_count: number;
+  remaining_slots: number | null;
+  remaining_token_rewards: number | null;
+}
+
+export interface QuestEligibilityResponse {
+  success: boolean;
+  data: QuestEligibility;
+  message?: string;
+}
+
+export interface QuestLeaderboardEntry {
+  rank: number;
+  member_id: string;
+  quests_joined: number;
+  quests_completed: number;
+  tasks_completed: number;
+  merits_earned: number;
+  current_streak: number;
+  longest_streak: number;
+  last_completed_at: string | null;
+}
+
+export interface QuestLeaderboardResponse {
+  success: boolean;
+  data: QuestLeaderboardEntry[];
+  message?: string;
+}
+
+// Participants at each step of a quest, from joining to being paid
+export interface QuestFunnel {
+  quest_id: string;
+  joined: number;
+  tasks: {
+    task_id: string;
+    task_type: QuestTaskType;
+    position: number;
+    completed: number;
+  }[];
+  completed: number;
+  rewarded: number;
+  token_rewarded: number;
+}
+
+export interface QuestFunnelResponse {
+  success: boolean;
+  data: QuestFunnel;
+  message?: string;
 }
 
 export interface QuestResponse {
@@ -97,4 +188,5 @@ export interface QuestWithStatus extends Quest {
   status: QuestStatus;
   participantCount?: number;
   userParticipation?: QuestParticipant;
+  eligibility?: QuestEligibility;
 }
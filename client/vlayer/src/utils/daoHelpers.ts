@@ -1,8 +1,13 @@
 import {
+  DAORole,
   MembershipStatus,
   Proposal,
   ProposalWithVotes,
   Vote,
+  VoteWeightBreakdown,
+  VotingMethod,
+  ReputationReason,
+  VerificationType,
 } from "../types/dao";
 
 export const formatDate = (dateString: string): string => {
@@ -47,6 +52,114 @@ export const getMembershipStatusBadgeProps = (
   }
 };
 
+export const getRoleBadgeProps = (role: DAORole) => {
+  switch (role) {
+    case "owner":
+      return {
+        className: "bg-purple-100 text-purple-800 border-purple-200",
+        text: "👑 Owner",
+      };
+    case "admin":
+      return {
+        className: "bg-indigo-100 text-indigo-800 border-indigo-200",
+        text: "Admin",
+      };
+    case "moderator":
+      return {
+        className: "bg-orange-100 text-orange-800 border-orange-200",
+        text: "Moderator",
+      };
+    default:
+      return null;
+  }
+};
+
+export const formatVoteWeightBreakdown = (
+  breakdown: VoteWeightBreakdown
+): string => {
+  return [
+    `Tokens: ${breakdown.token_share.toFixed(4)}% × ${breakdown.token_coefficient}`,
+    `Reputation: ${breakdown.reputation} × ${breakdown.reputation_coefficient}`,
+    `Verification: ${breakdown.verification_score} × ${breakdown.verification_coefficient}`,
+    `House multiplier: × ${breakdown.house_multiplier}`,
+  ].join("\n");
+};
+
+export const getReputationReasonLabel = (reason: ReputationReason): string => {
+  switch (reason) {
+    case "JOINED_DAO":
+      return "Joined the DAO";
+    case "CORRECT_VOTE":
+      return "Voted with the feedback outcome";
+    case "INCORRECT_VOTE":
+      return "Voted against the feedback outcome";
+    case "EMAIL_VERIFIED":
+      return "Verified email domain";
+    case "GITHUB_VERIFIED":
+      return "Verified GitHub contribution";
+    default:
+      return reason;
+  }
+};
+
+export const getVerificationTypeLabel = (type: VerificationType): string => {
+  switch (type) {
+    case "TWITTER":
+      return "Twitter";
+    case "GITHUB":
+      return "GitHub";
+    case "EMAIL":
+      return "Email domain";
+    default:
+      return type;
+  }
+};
+
+export const getVotingMethodLabel = (method: VotingMethod): string => {
+  switch (method) {
+    case "SINGLE_CHOICE":
+      return "Single choice";
+    case "APPROVAL":
+      return "Approval";
+    case "RANKED_CHOICE":
+      return "Ranked choice (instant runoff)";
+    default:
+      return "Yes / No";
+  }
+};
+
+// Weight per option from the current ballots; ranked ballots count their first choice
+export const getOptionResults = (proposal: ProposalWithVotes) => {
+  const optionWeights = proposal.options.map(() => ({ count: 0, weight: 0 }));
+
+  for (const vote of proposal.votes) {
+    if (vote.is_feedback || !vote.selections) continue;
+
+    const selections =
+      proposal.voting_method === "RANKED_CHOICE"
+        ? vote.selections.slice(0, 1)
+        : vote.selections;
+    for (const selection of selections) {
+      if (!optionWeights[selection]) continue;
+      optionWeights[selection].count += 1;
+      optionWeights[selection].weight += vote.weight;
+    }
+  }
+
+  return optionWeights;
+};
+
+export const formatVoteSelections = (
+  vote: Vote,
+  options: string[] | undefined
+): string => {
+  if (!vote.selections) return vote.vote ?? "";
+
+  return vote.selections
+    .map((selection) => options?.[selection] ?? `Option ${selection + 1}`)
+    .join(" > ");
+};
+
 export const getHouseBadgeProps = (house: string) => {
   const houseColors = {
     "1": "bg-red-100 text-red-800 border-red-200",
@@ -73,6 +186,21 @@ export const getProposalStatusBadgeProps = (conclusion: string) => {
         className: "bg-red-100 text-red-800 border-red-200",
         text: "Rejected",
       };
+    case "failed_quorum":
+      return {
+        className: "bg-gray-100 text-gray-800 border-gray-200",
+        text: "Failed Quorum",
+      };
+    case "decided":
+      return {
+        className: "bg-green-100 text-green-800 border-green-200",
+        text: "Decided",
+      };
+    case "tied":
+      return {
+        className: "bg-orange-100 text-orange-800 border-orange-200",
+        text: "Tied",
+      };
     default:
       return {
         className: "bg-yellow-100 text-yellow-800 border-yellow-200",
@@ -126,12 +254,38 @@ export const hasUserVoted = (
   );
 };
 
+export const getUserVote = (
+  proposal: ProposalWithVotes,
+  userAddress: string | undefined,
+  isFeedback: boolean
+): Vote | undefined => {
+  if (!userAddress) return undefined;
+
+  return proposal.votes.find(
+    (vote) =>
+      vote.member_id.toLowerCase() === userAddress.toLowerCase() &&
+      vote.is_feedback === isFeedback
+  );
+};
+
+// Votes can be changed or retracted until the matching window closes
+export const canUserChangeVote = (
+  proposal: ProposalWithVotes,
+  userAddress: string | undefined,
+  isFeedback: boolean
+): boolean => {
+  if (!getUserVote(proposal, userAddress, isFeedback)) return false;
+
+  return isFeedback ? isFeedbackActive(proposal) : isVotingActive(proposal);
+};
+
 export const canUserVote = (
   proposal: ProposalWithVotes,
   userAddress: string | undefined,
   userHouse: string | undefined,
   isOwner: boolean,
-  isFeedback: boolean
+  isFeedback: boolean,
+  userJoinedAt?: string
 ): { canVote: boolean; reason?: string } => {
   if (!userAddress) {
     return { canVote: false, reason: "Please connect your wallet" };
@@ -152,6 +306,19 @@ export const canUserVote = (
     };
   }
 
+  // Main-vote weight comes from balances snapshotted at voting start
+  if (
+    !isFeedback &&
+    userJoinedAt &&
+    new Date(userJoinedAt) > new Date(proposal.voting_start)
+  ) {
+    return {
+      canVote: false,
+      reason:
+        "You joined the DAO after this proposal's snapshot, so you are not eligible to vote on it",
+    };
+  }
+
   if (hasUserVoted(proposal, userAddress, isFeedback)) {
     return { canVote: false, reason: "You have already voted" };
   }
@@ -1,14 +1,21 @@
 import {
+    authRouter,
     daoRouter,
+    governanceRouter,
     memberRouter,
     membershipRouter,
+    meritsRouter,
     messagesRouter,
+    notificationsRouter,
     proposalRouter,
     questParticipantRouter,
     questRouter,
+    schedulerRouter,
     swapRouter,
     voteRouter,
+    webhooksRouter,
 } from "../microservices";
+import { startScheduler } from "../microservices/scheduler/scheduler.service";
 import {
     AkaveService,
     BlockscoutService,
@@ -37,7 +44,9 @@ app.get("/healthcheck", (_req: Request, res: Response) => {
     });
 });
 
+app.use("/api/v1/auth", authRouter);
 app.use("/api/v1/dao", daoRouter);
+app.use("/api/v1/governance", governanceRouter);
 app.use("/api/v1/member", memberRouter);
 app.use("/api/v1/proposal", proposalRouter);
 app.use("/api/v1/vote", voteRouter);
@@ -45,7 +54,11 @@ app.use("/api/v1/membership", membershipRouter);
 app.use("/api/v1/quest", questRouter);
 app.use("/api/v1/quest-participant", questParticipantRouter);
 app.use("/api/v1/messages", messagesRouter);
+app.use("/api/v1/merits", meritsRouter);
+app.use("/api/v1/notifications", notificationsRouter);
+app.use("/api/v1/scheduler", schedulerRouter);
 app.use("/api/v1/swap", swapRouter);
+app.use("/api/v1/webhooks", webhooksRouter);
 app.use("*", (_req: Request, res: Response) => {
     res.status(404).json({
         success: false,
@@ -81,6 +94,10 @@ app.use(
                     `Server listening on Port ${port} in the ${env} environment`
                 );
             });
+
+            if (process.env.SCHEDULER_ENABLED !== "false") {
+                startScheduler();
+            }
         }
     } catch (error) {
         console.error(error);
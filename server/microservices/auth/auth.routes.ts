@@ -0,0 +1,71 @@
+import { validateQuery } from "../../middlewares";
+import {
+    getNonceBodySchema,
+    verifySignatureBodySchema,
+    type GetNonceBody,
+    type VerifySignatureBody,
+} from "./auth.schema";
+import { createNonce, verifySignature } from "./auth.service";
+import {
+    Router,
+    type NextFunction,
+    type Request,
+    type Response,
+} from "express";
+
+export const authRouter = Router();
+
+const handleGetNonce = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { wallet_address } = req.body as GetNonceBody;
+
+        const data = await createNonce({
+            wallet_address,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleVerifySignature = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message, signature } = req.body as VerifySignatureBody;
+
+        const data = await verifySignature({
+            message,
+            signature,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+authRouter.post(
+    "/nonce",
+    validateQuery("body", getNonceBodySchema),
+    handleGetNonce
+);
+
+authRouter.post(
+    "/verify",
+    validateQuery("body", verifySignatureBodySchema),
+    handleVerifySignature
+);
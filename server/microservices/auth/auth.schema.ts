@@ -0,0 +1,18 @@
+import { walletAddressSchema } from "../../utils/shared.schema";
+import * as z from "zod";
+
+export const getNonceBodySchema = z.object({
+    wallet_address: walletAddressSchema,
+});
+
+export type GetNonceBody = z.infer<typeof getNonceBodySchema>;
+
+export const verifySignatureBodySchema = z.object({
+    message: z.string().min(1),
+    signature: z
+        .string()
+        .trim()
+        .regex(/^0x[a-fA-F0-9]+$/, "Must be a hex encoded signature"),
+});
+
+export type VerifySignatureBody = z.infer<typeof verifySignatureBodySchema>;
@@ -0,0 +1,76 @@
+import { validateJwt } from "../../middlewares";
+import { useLocalMode } from "../../test/local";
+import { createNonce, verifySignature } from "./auth.service";
+import type { Request, Response } from "express";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { createSiweMessage } from "viem/siwe";
+import { describe, expect, it, vi } from "vitest";
+
+const local = useLocalMode();
+
+const signIn = async (
+    account = privateKeyToAccount(generatePrivateKey()),
+    signer = account
+) => {
+    const { nonce } = await createNonce({ wallet_address: account.address });
+    const message = createSiweMessage({
+        address: account.address,
+        chainId: 1,
+        domain: "localhost",
+        nonce,
+        uri: "http://localhost",
+        version: "1",
+    });
+    const signature = await signer.signMessage({ message });
+
+    return { account, message, signature };
+};
+
+describe("auth", () => {
+    it("signs a wallet in and issues a JWT the middleware accepts", async () => {
+        const { account, message, signature } = await signIn();
+
+        const { token, member } = await verifySignature({ message, signature });
+
+        expect(member.member_id).toBe(account.address.toLowerCase());
+        expect(local.supabase.rows("members")).toHaveLength(1);
+        expect(local.supabase.rows("auth_nonces")).toHaveLength(0);
+
+        const req = {
+            headers: { authorization: `Bearer ${token}` },
+        } as Request;
+        const next = vi.fn();
+        await validateJwt()(req, {} as Response, next);
+
+        expect(next).toHaveBeenCalledWith();
+        expect(req.wallet_address).toBe(account.address.toLowerCase());
+    });
+
+    it("does not accept a nonce twice", async () => {
+        const { message, signature } = await signIn();
+        await verifySignature({ message, signature });
+
+        await expect(
+            verifySignature({ message, signature })
+        ).rejects.toMatchObject({
+            message: "Invalid or expired nonce",
+            errorCode: 401,
+        });
+    });
+
+    it("keeps the nonce when the signature is from another wallet", async () => {
+        const { message, signature } = await signIn(
+            undefined,
+            privateKeyToAccount(generatePrivateKey())
+        );
+
+        await expect(
+            verifySignature({ message, signature })
+        ).rejects.toMatchObject({
+            message: "Invalid signature",
+            errorCode: 401,
+        });
+        expect(local.supabase.rows("auth_nonces")).toHaveLength(1);
+        expect(local.supabase.rows("members")).toHaveLength(0);
+    });
+});
@@ -0,0 +1,117 @@
+import { SupabaseService } from "../../services";
+import {
+    AUTH_JWT_EXPIRY_SECONDS,
+    AUTH_NONCE_TTL_MS,
+    SUPABASE_0_ROWS_ERROR_CODE,
+} from "../../utils/constants";
+import {
+    createError,
+    HttpStatusCode,
+    normalizeAddress,
+} from "../../utils/functions";
+import { getOrCreateMember } from "../member/member.service";
+import type { GetNonceBody, VerifySignatureBody } from "./auth.schema";
+import { sign } from "jsonwebtoken";
+import { isAddressEqual, verifyMessage, type Hex } from "viem";
+import {
+    generateSiweNonce,
+    parseSiweMessage,
+    validateSiweMessage,
+} from "viem/siwe";
+
+export const createNonce = async ({ wallet_address }: GetNonceBody) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("auth_nonces")
+        .insert({
+            nonce: generateSiweNonce(),
+            wallet_address: normalizeAddress(wallet_address),
+            expires_at: new Date(Date.now() + AUTH_NONCE_TTL_MS).toISOString(),
+        })
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+const consumeNonce = async (nonce: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("auth_nonces")
+        .delete()
+        .eq("nonce", nonce)
+        .select()
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const verifySignature = async ({
+    message,
+    signature,
+}: VerifySignatureBody) => {
+    const siweMessage = parseSiweMessage(message);
+    if (!siweMessage.address || !siweMessage.nonce) {
+        throw createError(
+            "Malformed Sign-In with Ethereum message",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const isMessageValid = validateSiweMessage({
+        message: siweMessage,
+        address: siweMessage.address,
+        domain: process.env.AUTH_DOMAIN || undefined,
+    });
+    if (!isMessageValid) {
+        throw createError(
+            "Sign-In with Ethereum message is not valid",
+            HttpStatusCode.UNAUTHORIZED
+        );
+    }
+
+    const isSignatureValid = await verifyMessage({
+        address: siweMessage.address,
+        message,
+        signature: signature as Hex,
+    });
+    if (!isSignatureValid) {
+        throw createError("Invalid signature", HttpStatusCode.UNAUTHORIZED);
+    }
+
+    // * INFO: consumed only after the signature checks out, so a forged request cannot burn a wallet's nonce
+    const authNonce = await consumeNonce(siweMessage.nonce);
+    if (
+        !authNonce ||
+        new Date(authNonce.expires_at) < new Date() ||
+        !isAddressEqual(authNonce.wallet_address as Hex, siweMessage.address)
+    ) {
+        throw createError(
+            "Invalid or expired nonce",
+            HttpStatusCode.UNAUTHORIZED
+        );
+    }
+
+    const member = await getOrCreateMember({
+        wallet_address: normalizeAddress(siweMessage.address),
+    });
+
+    const token = sign({}, process.env.JWT_SECRET!, {
+        subject: member.member_id,
+        expiresIn: AUTH_JWT_EXPIRY_SECONDS,
+    });
+
+    return {
+        token,
+        expires_at: new Date(
+            Date.now() + AUTH_JWT_EXPIRY_SECONDS * 1000
+        ).toISOString(),
+        member,
+    };
+};
@@ -1,4 +1,8 @@
-import { validateQuery } from "../../middlewares";
+import {
+    validateJwt,
+    validateQuery,
+    validateWalletOwnership,
+} from "../../middlewares";
 import {
     createDaoBodySchema,
     getTokenDetailsBodySchema,
@@ -21,22 +25,14 @@ const handleCreateDao = async (
     next: NextFunction
 ) => {
     try {
-        const {
-            description,
-            logo,
-            name,
-            owner_address,
-            socials,
-            tokens,
-            tags,
-            email_subfix,
-        } = req.body as CreateDaoBody;
+        const { description, logo, name, socials, tokens, tags, email_subfix } =
+            req.body as CreateDaoBody;
 
         const data = await createDao({
             description,
             logo,
             name,
-            owner_address,
+            owner_address: req.wallet_address!,
             socials,
             tokens,
             tags,
@@ -111,8 +107,9 @@ const handleGetDao = async (
 
 daoRouter.post(
     "/create",
-    // validateJwt(),
+    validateJwt(),
     validateQuery("body", createDaoBodySchema),
+    validateWalletOwnership("body", "owner_address"),
     handleCreateDao
 );
 
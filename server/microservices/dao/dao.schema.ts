@@ -1,11 +1,14 @@
-import { evmAddressSchema } from "../../utils/shared.schema";
+import {
+    evmAddressSchema,
+    walletAddressSchema,
+} from "../../utils/shared.schema";
 import * as z from "zod";
 
 export const createDaoBodySchema = z.object({
     name: z.string().trim(),
     description: z.string().trim(),
     logo: z.string().trim(),
-    owner_address: evmAddressSchema,
+    owner_address: walletAddressSchema,
     tokens: z.array(
         z.object({
             token_address: evmAddressSchema,
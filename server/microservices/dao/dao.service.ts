@@ -1,7 +1,9 @@
 import { OneinchService, SupabaseService } from "../../services";
+import { DAO_ROLES } from "../../utils/constants";
 import { createError, HttpStatusCode } from "../../utils/functions";
+import { createGovernanceConfig } from "../governance/governance.service";
 import { getMember } from "../member/member.service";
-import { joinDao } from "../membership/membership.service";
+import { joinDao, setMembershipRole } from "../membership/membership.service";
 import type { CreateDaoBody, GetTokenDetailsBody } from "./dao.schema";
 
 export const createDao = async ({
@@ -44,6 +46,8 @@ export const createDao = async ({
     }
 
     await joinDao({ dao_id: data.dao_id, wallet_address: owner_address });
+    await setMembershipRole(owner_address, data.dao_id, DAO_ROLES.OWNER);
+    await createGovernanceConfig(data.dao_id);
 
     return data;
 };
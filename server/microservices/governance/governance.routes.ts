@@ -0,0 +1,199 @@
+import { validateJwt, validateQuery } from "../../middlewares";
+import {
+    getGitHubRepositoriesParamsSchema,
+    getGovernanceConfigParamsSchema,
+    removeGitHubRepositoryBodySchema,
+    setGitHubRepositoryBodySchema,
+    updateGovernanceConfigBodySchema,
+    type GetGitHubRepositoriesParams,
+    type GetGovernanceConfigParams,
+    type RemoveGitHubRepositoryBody,
+    type SetGitHubRepositoryBody,
+    type UpdateGovernanceConfigBody,
+} from "./governance.schema";
+import {
+    getGitHubRepositories,
+    getGovernanceConfig,
+    removeGitHubRepository,
+    setGitHubRepository,
+    updateGovernanceConfig,
+} from "./governance.service";
+import {
+    Router,
+    type NextFunction,
+    type Request,
+    type Response,
+} from "express";
+
+export const governanceRouter = Router();
+
+const handleGetGovernanceConfig = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.params as GetGovernanceConfigParams;
+
+        const data = await getGovernanceConfig(dao_id);
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleUpdateGovernanceConfig = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const {
+            dao_id,
+            token_coefficient,
+            reputation_coefficient,
+            verification_coefficient,
+            house_multipliers,
+            quorum_weight,
+            quorum_member_percentage,
+            approval_threshold,
+        } = req.body as UpdateGovernanceConfigBody;
+
+        const data = await updateGovernanceConfig(
+            {
+                dao_id,
+                token_coefficient,
+                reputation_coefficient,
+                verification_coefficient,
+                house_multipliers,
+                quorum_weight,
+                quorum_member_percentage,
+                approval_threshold,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetGitHubRepositories = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.params as GetGitHubRepositoriesParams;
+
+        const data = await getGitHubRepositories(dao_id);
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleSetGitHubRepository = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const {
+            dao_id,
+            repo_owner,
+            repo_name,
+            reputation_reward,
+            merits_reward,
+        } = req.body as SetGitHubRepositoryBody;
+
+        const data = await setGitHubRepository(
+            {
+                dao_id,
+                repo_owner,
+                repo_name,
+                reputation_reward,
+                merits_reward,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleRemoveGitHubRepository = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, repository_id } =
+            req.body as RemoveGitHubRepositoryBody;
+
+        const data = await removeGitHubRepository(
+            {
+                dao_id,
+                repository_id,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+governanceRouter.post(
+    "/update",
+    validateJwt(),
+    validateQuery("body", updateGovernanceConfigBodySchema),
+    handleUpdateGovernanceConfig
+);
+
+governanceRouter.post(
+    "/github-repositories",
+    validateJwt(),
+    validateQuery("body", setGitHubRepositoryBodySchema),
+    handleSetGitHubRepository
+);
+
+governanceRouter.post(
+    "/github-repositories/remove",
+    validateJwt(),
+    validateQuery("body", removeGitHubRepositoryBodySchema),
+    handleRemoveGitHubRepository
+);
+
+governanceRouter.get(
+    "/:dao_id/github-repositories",
+    validateQuery("params", getGitHubRepositoriesParamsSchema),
+    handleGetGitHubRepositories
+);
+
+governanceRouter.get(
+    "/:dao_id",
+    validateQuery("params", getGovernanceConfigParamsSchema),
+    handleGetGovernanceConfig
+);
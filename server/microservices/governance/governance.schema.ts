@@ -0,0 +1,62 @@
+import { HOUSES } from "../../utils/constants";
+import * as z from "zod";
+
+const coefficientSchema = z.number().min(0).max(1);
+
+export const getGovernanceConfigParamsSchema = z.object({
+    dao_id: z.string().uuid(),
+});
+
+export type GetGovernanceConfigParams = z.infer<
+    typeof getGovernanceConfigParamsSchema
+>;
+
+export const updateGovernanceConfigBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    token_coefficient: coefficientSchema.optional(),
+    reputation_coefficient: coefficientSchema.optional(),
+    verification_coefficient: coefficientSchema.optional(),
+    house_multipliers: z
+        .record(z.nativeEnum(HOUSES), z.number().min(0).max(10))
+        .optional(),
+    quorum_weight: z.number().min(0).optional(),
+    quorum_member_percentage: z.number().min(0).max(100).optional(),
+    approval_threshold: z.number().min(0.5).max(1).optional(),
+});
+
+export type UpdateGovernanceConfigBody = z.infer<
+    typeof updateGovernanceConfigBodySchema
+>;
+
+export const getGitHubRepositoriesParamsSchema = z.object({
+    dao_id: z.string().uuid(),
+});
+
+export type GetGitHubRepositoriesParams = z.infer<
+    typeof getGitHubRepositoriesParamsSchema
+>;
+
+export const setGitHubRepositoryBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    repo_owner: z
+        .string()
+        .regex(/^[A-Za-z0-9-]{1,39}$/, "Invalid GitHub owner"),
+    repo_name: z
+        .string()
+        .regex(/^[A-Za-z0-9._-]{1,100}$/, "Invalid GitHub repository name"),
+    reputation_reward: z.number().int().min(0),
+    merits_reward: z.number().int().min(0),
+});
+
+export type SetGitHubRepositoryBody = z.infer<
+    typeof setGitHubRepositoryBodySchema
+>;
+
+export const removeGitHubRepositoryBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    repository_id: z.string().uuid(),
+});
+
+export type RemoveGitHubRepositoryBody = z.infer<
+    typeof removeGitHubRepositoryBodySchema
+>;
@@ -0,0 +1,223 @@
+import { SupabaseService } from "../../services";
+import {
+    DAO_PERMISSIONS,
+    SUPABASE_0_ROWS_ERROR_CODE,
+} from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import type { Tables } from "../../utils/types/database.types";
+import { assertDaoPermission } from "../membership/membership.service";
+import type {
+    RemoveGitHubRepositoryBody,
+    SetGitHubRepositoryBody,
+    UpdateGovernanceConfigBody,
+} from "./governance.schema";
+
+const getDefaultGovernanceConfig = (
+    dao_id: string
+): Tables<"governance_configs"> => ({
+    dao_id,
+    token_coefficient: 0.4,
+    reputation_coefficient: 0.4,
+    verification_coefficient: 0.2,
+    house_multipliers: { "1": 1, "2": 1, "3": 1, "4": 1 },
+    quorum_weight: 0,
+    quorum_member_percentage: 0,
+    approval_threshold: 0.5,
+    updated_at: new Date().toISOString(),
+});
+
+export const createGovernanceConfig = async (dao_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("governance_configs")
+        .upsert({ dao_id }, { onConflict: "dao_id" })
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getGovernanceConfig = async (dao_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("governance_configs")
+        .select()
+        .eq("dao_id", dao_id)
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    if (data) {
+        return data;
+    }
+
+    const { data: dao, error: daoError } = await SupabaseService.getSupabase(
+        "admin"
+    )
+        .from("daos")
+        .select("dao_id")
+        .eq("dao_id", dao_id)
+        .single();
+
+    if (daoError?.code === SUPABASE_0_ROWS_ERROR_CODE) {
+        throw createError("DAO not found", HttpStatusCode.NOT_FOUND);
+    }
+    if (daoError) {
+        throw daoError;
+    }
+
+    return getDefaultGovernanceConfig(dao.dao_id);
+};
+
+export const updateGovernanceConfig = async (
+    {
+        dao_id,
+        token_coefficient,
+        reputation_coefficient,
+        verification_coefficient,
+        house_multipliers,
+        quorum_weight,
+        quorum_member_percentage,
+        approval_threshold,
+    }: UpdateGovernanceConfigBody,
+    updated_by: string
+) => {
+    await assertDaoPermission(
+        updated_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    const config = await getGovernanceConfig(dao_id);
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("governance_configs")
+        .upsert({
+            dao_id,
+            token_coefficient,
+            reputation_coefficient,
+            verification_coefficient,
+            house_multipliers: house_multipliers
+                ? {
+                      ...(config.house_multipliers as Record<string, number>),
+                      ...house_multipliers,
+                  }
+                : undefined,
+            quorum_weight,
+            quorum_member_percentage,
+            approval_threshold,
+            updated_at: new Date().toISOString(),
+        })
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getGitHubRepositories = async (dao_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("dao_github_repositories")
+        .select()
+        .eq("dao_id", dao_id)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getGitHubRepository = async (
+    dao_id: string,
+    repo_owner: string,
+    repo_name: string
+) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("dao_github_repositories")
+        .select()
+        .eq("dao_id", dao_id)
+        .eq("repo_owner", repo_owner.toLowerCase())
+        .eq("repo_name", repo_name.toLowerCase())
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const setGitHubRepository = async (
+    {
+        dao_id,
+        repo_owner,
+        repo_name,
+        reputation_reward,
+        merits_reward,
+    }: SetGitHubRepositoryBody,
+    updated_by: string
+) => {
+    await assertDaoPermission(
+        updated_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("dao_github_repositories")
+        .upsert(
+            {
+                dao_id,
+                repo_owner: repo_owner.toLowerCase(),
+                repo_name: repo_name.toLowerCase(),
+                reputation_reward,
+                merits_reward,
+            },
+            { onConflict: "dao_id,repo_owner,repo_name" }
+        )
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const removeGitHubRepository = async (
+    { dao_id, repository_id }: RemoveGitHubRepositoryBody,
+    removed_by: string
+) => {
+    await assertDaoPermission(
+        removed_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("dao_github_repositories")
+        .delete()
+        .eq("dao_id", dao_id)
+        .eq("repository_id", repository_id)
+        .select()
+        .single();
+
+    if (error?.code === SUPABASE_0_ROWS_ERROR_CODE) {
+        throw createError("Repository not found", HttpStatusCode.NOT_FOUND);
+    }
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
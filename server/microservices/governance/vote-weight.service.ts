@@ -0,0 +1,149 @@
+import { ChainService } from "../../services";
+import { TOKEN_SHARE_PRECISION } from "../../utils/constants";
+import type { Tables } from "../../utils/types/database.types";
+import { getVerificationScore } from "../member/verification.service";
+import { getGovernanceConfig } from "./governance.service";
+
+export interface VoteWeightBreakdown {
+    token_share: number;
+    reputation: number;
+    verification_score: number;
+    token_coefficient: number;
+    reputation_coefficient: number;
+    verification_coefficient: number;
+    house_multiplier: number;
+    weight: number;
+}
+
+export interface TokenBalance {
+    token_address: string;
+    chain_id: number;
+    balance: string;
+    block_number: number;
+}
+
+const getTokenShare = async (tokenBalances: TokenBalance[]) => {
+    const shares = await Promise.all(
+        tokenBalances.map(
+            async ({ token_address, chain_id, balance, block_number }) => {
+                try {
+                    const { total_supply } = await ChainService.getTokenSupply(
+                        chain_id,
+                        token_address,
+                        BigInt(block_number)
+                    );
+                    if (!total_supply) {
+                        return 0;
+                    }
+
+                    // * INFO: divided as bigints, raw amounts of 18 decimal tokens are past a double's precision
+                    return (
+                        Number(
+                            (BigInt(balance) * TOKEN_SHARE_PRECISION) /
+                                total_supply
+                        ) / Number(TOKEN_SHARE_PRECISION)
+                    );
+                } catch (error) {
+                    console.error(
+                        `Failed to read supply for token ${token_address} on chain ${chain_id}:`,
+                        error
+                    );
+                    return null;
+                }
+            }
+        )
+    );
+
+    const readShares = shares.filter((share) => share !== null);
+    if (!readShares.length) {
+        return 0;
+    }
+
+    return (
+        (readShares.reduce((acc, share) => acc + share, 0) /
+            readShares.length) *
+        100
+    );
+};
+
+export const calculateVoteWeight = async ({
+    dao,
+    membership,
+    token_balances,
+    verification_score = 0,
+}: {
+    dao: Tables<"daos">;
+    membership: Tables<"memberships">;
+    token_balances: TokenBalance[];
+    verification_score?: number;
+}): Promise<VoteWeightBreakdown> => {
+    const config = await getGovernanceConfig(dao.dao_id);
+
+    const token_share = await getTokenShare(token_balances);
+
+    const house_multiplier =
+        (config.house_multipliers as Record<string, number>)[
+            membership.house
+        ] ?? 1;
+
+    const weight = Math.floor(
+        (token_share * config.token_coefficient +
+            membership.reputation * config.reputation_coefficient +
+            verification_score * config.verification_coefficient) *
+            house_multiplier
+    );
+
+    return {
+        token_share,
+        reputation: membership.reputation,
+        verification_score,
+        token_coefficient: config.token_coefficient,
+        reputation_coefficient: config.reputation_coefficient,
+        verification_coefficient: config.verification_coefficient,
+        house_multiplier,
+        weight,
+    };
+};
+
+export const calculateCurrentVoteWeight = async (
+    dao: Tables<"daos">,
+    membership: Tables<"memberships">
+) => {
+    const tokens = dao.tokens as {
+        token_address: string;
+        chain_id: number;
+    }[];
+
+    const blocks: Record<string, number> = {};
+    for (const chain_id of new Set(tokens.map(({ chain_id }) => chain_id))) {
+        blocks[chain_id] = Number(
+            await ChainService.getPublicClient(chain_id).getBlockNumber()
+        );
+    }
+
+    const [token_balances, verification_score] = await Promise.all([
+        Promise.all(
+            tokens.map(async ({ token_address, chain_id }) => ({
+                token_address,
+                chain_id,
+                block_number: blocks[chain_id],
+                balance: (
+                    await ChainService.getTokenBalance(
+                        chain_id,
+                        token_address,
+                        membership.member_id,
+                        BigInt(blocks[chain_id])
+                    )
+                ).toString(),
+            }))
+        ),
+        getVerificationScore(membership.member_id),
+    ]);
+
+    return calculateVoteWeight({
+        dao,
+        membership,
+        token_balances,
+        verification_score,
+    });
+};
@@ -1,9 +1,15 @@
+export { authRouter } from "./auth/auth.routes";
 export { daoRouter } from "./dao/dao.routes";
+export { governanceRouter } from "./governance/governance.routes";
 export { memberRouter } from "./member/member.routes";
 export { membershipRouter } from "./membership/membership.routes";
+export { meritsRouter } from "./merits/merits.routes";
 export { messagesRouter } from "./messages/messages.routes";
+export { notificationsRouter } from "./notifications/notifications.routes";
 export { proposalRouter } from "./proposal/proposal.routes";
 export { questParticipantRouter } from "./quest-participant/quest-participant.routes";
 export { questRouter } from "./quest/quest.routes";
+export { schedulerRouter } from "./scheduler/scheduler.routes";
 export { swapRouter } from "./swap/swap.routes";
 export { voteRouter } from "./vote/vote.routes";
+export { webhooksRouter } from "./webhooks/webhooks.routes";
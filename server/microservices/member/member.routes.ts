@@ -1,9 +1,12 @@
 import { validateQuery } from "../../middlewares";
 import {
+    getMemberVerificationsParamsSchema,
     getOrCreateMemberParamsSchema,
+    type GetMemberVerificationsParams,
     type GetOrCreateMemberParams,
 } from "./member.schema";
 import { getOrCreateMember } from "./member.service";
+import { getVerifications, getVerificationScore } from "./verification.service";
 import {
     Router,
     type NextFunction,
@@ -34,6 +37,37 @@ const handleGetOrCreateMember = async (
     }
 };
 
+const handleGetMemberVerifications = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { wallet_address } = req.params as GetMemberVerificationsParams;
+
+        const [verifications, verification_score] = await Promise.all([
+            getVerifications(wallet_address),
+            getVerificationScore(wallet_address),
+        ]);
+
+        res.json({
+            success: true,
+            data: {
+                verifications,
+                verification_score,
+            },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+memberRouter.get(
+    "/:wallet_address/verifications",
+    validateQuery("params", getMemberVerificationsParamsSchema),
+    handleGetMemberVerifications
+);
+
 memberRouter.get(
     "/:wallet_address",
     validateQuery("params", getOrCreateMemberParamsSchema),
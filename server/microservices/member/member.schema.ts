@@ -1,10 +1,18 @@
-import { evmAddressSchema } from "../../utils/shared.schema";
+import { walletAddressSchema } from "../../utils/shared.schema";
 import * as z from "zod";
 
 export const getOrCreateMemberParamsSchema = z.object({
-    wallet_address: evmAddressSchema,
+    wallet_address: walletAddressSchema,
 });
 
 export type GetOrCreateMemberParams = z.infer<
     typeof getOrCreateMemberParamsSchema
 >;
+
+export const getMemberVerificationsParamsSchema = z.object({
+    wallet_address: walletAddressSchema,
+});
+
+export type GetMemberVerificationsParams = z.infer<
+    typeof getMemberVerificationsParamsSchema
+>;
@@ -32,7 +32,7 @@ export const getMember = async (member_id: string) => {
             .select(
                 `
                 *,
-                memberships(*)
+                memberships!memberships_member_id_fkey(*)
                 `
             )
             .eq("member_id", member_id)
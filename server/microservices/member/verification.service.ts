@@ -0,0 +1,82 @@
+import { SupabaseService } from "../../services";
+import {
+    VERIFICATION_SCORE_WEIGHTS,
+    type VERIFICATION_TYPES,
+} from "../../utils/constants";
+
+export const recordVerification = async ({
+    member_id,
+    verification_type,
+    identity,
+    verification_id,
+}: {
+    member_id: string;
+    verification_type: VERIFICATION_TYPES;
+    identity: string;
+    verification_id: string;
+}) => {
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("verifications")
+        .upsert(
+            {
+                member_id,
+                verification_type,
+                identity,
+                verification_id,
+            },
+            {
+                onConflict: "member_id,verification_type",
+                ignoreDuplicates: true,
+            }
+        );
+
+    if (error) {
+        throw error;
+    }
+};
+
+export const getVerifications = async (member_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("verifications")
+        .select(
+            `
+            *,
+            verification_proofs(proof_type, tx_hash, chain_id, block_number, dao_id)
+            `
+        )
+        .eq("member_id", member_id)
+        .order("verified_at", { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getVerificationScore = async (
+    member_id: string,
+    verified_before?: string
+) => {
+    let query = SupabaseService.getSupabase("admin")
+        .from("verifications")
+        .select("verification_type")
+        .eq("member_id", member_id);
+
+    if (verified_before) {
+        query = query.lte("verified_at", verified_before);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        throw error;
+    }
+
+    return data.reduce(
+        (score, { verification_type }) =>
+            score +
+            VERIFICATION_SCORE_WEIGHTS[verification_type as VERIFICATION_TYPES],
+        0
+    );
+};
@@ -1,13 +1,42 @@
-import { validateQuery } from "../../middlewares";
+import {
+    validateJwt,
+    validateQuery,
+    validateWalletOwnership,
+} from "../../middlewares";
 import {
     emailVerifiedBodySchema,
+    getDelegationsBodySchema,
     getMembershipsBodySchema,
+    githubVerifiedBodySchema,
+    grantRoleBodySchema,
     joinDaoBodySchema,
+    reputationHistoryBodySchema,
+    revokeDelegateBodySchema,
+    revokeRoleBodySchema,
+    setDelegateBodySchema,
     type EmailVerifiedBody,
+    type GetDelegationsBody,
     type GetMembershipsBody,
+    type GitHubVerifiedBody,
+    type GrantRoleBody,
     type JoinDaoBody,
+    type ReputationHistoryBody,
+    type RevokeDelegateBody,
+    type RevokeRoleBody,
+    type SetDelegateBody,
 } from "./membership.schema";
-import { emailVerified, getMemberships, joinDao } from "./membership.service";
+import {
+    emailVerified,
+    getDelegations,
+    getMemberships,
+    getReputationHistory,
+    githubVerified,
+    grantRole,
+    joinDao,
+    revokeDelegate,
+    revokeRole,
+    setDelegate,
+} from "./membership.service";
 import {
     Router,
     type NextFunction,
@@ -23,11 +52,11 @@ const handleJoinDao = async (
     next: NextFunction
 ) => {
     try {
-        const { dao_id, wallet_address } = req.body as JoinDaoBody;
+        const { dao_id } = req.body as JoinDaoBody;
 
         const data = await joinDao({
             dao_id,
-            wallet_address,
+            wallet_address: req.wallet_address!,
         });
 
         res.json({
@@ -64,11 +93,35 @@ const handleEmailVerified = async (
     next: NextFunction
 ) => {
     try {
-        const { wallet_address, dao_id } = req.body as EmailVerifiedBody;
+        const { dao_id, tx_hash } = req.body as EmailVerifiedBody;
 
         const data = await emailVerified({
-            wallet_address,
+            wallet_address: req.wallet_address!,
+            dao_id,
+            tx_hash,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGitHubVerified = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, tx_hash } = req.body as GitHubVerifiedBody;
+
+        const data = await githubVerified({
+            wallet_address: req.wallet_address!,
             dao_id,
+            tx_hash,
         });
 
         res.json({
@@ -80,10 +133,145 @@ const handleEmailVerified = async (
     }
 };
 
+const handleGrantRole = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, member_id, role } = req.body as GrantRoleBody;
+
+        const data = await grantRole(
+            {
+                dao_id,
+                member_id,
+                role,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleRevokeRole = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, member_id } = req.body as RevokeRoleBody;
+
+        const data = await revokeRole(
+            {
+                dao_id,
+                member_id,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleSetDelegate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, delegate_id } = req.body as SetDelegateBody;
+
+        const data = await setDelegate({
+            dao_id,
+            wallet_address: req.wallet_address!,
+            delegate_id,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleRevokeDelegate = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.body as RevokeDelegateBody;
+
+        const data = await revokeDelegate({
+            dao_id,
+            wallet_address: req.wallet_address!,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetDelegations = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.body as GetDelegationsBody;
+
+        const data = await getDelegations({ dao_id });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetReputationHistory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, member_id } = req.body as ReputationHistoryBody;
+
+        const data = await getReputationHistory({ dao_id, member_id });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 membershipRouter.post(
     "/join",
-    // validateJwt(),
+    validateJwt(),
     validateQuery("body", joinDaoBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
     handleJoinDao
 );
 
@@ -95,6 +283,58 @@ membershipRouter.post(
 
 membershipRouter.post(
     "/email-verified",
+    validateJwt(),
     validateQuery("body", emailVerifiedBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
     handleEmailVerified
 );
+
+membershipRouter.post(
+    "/github-verified",
+    validateJwt(),
+    validateQuery("body", githubVerifiedBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
+    handleGitHubVerified
+);
+
+membershipRouter.post(
+    "/role/grant",
+    validateJwt(),
+    validateQuery("body", grantRoleBodySchema),
+    handleGrantRole
+);
+
+membershipRouter.post(
+    "/role/revoke",
+    validateJwt(),
+    validateQuery("body", revokeRoleBodySchema),
+    handleRevokeRole
+);
+
+membershipRouter.post(
+    "/delegate",
+    validateJwt(),
+    validateQuery("body", setDelegateBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
+    handleSetDelegate
+);
+
+membershipRouter.post(
+    "/delegate/revoke",
+    validateJwt(),
+    validateQuery("body", revokeDelegateBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
+    handleRevokeDelegate
+);
+
+membershipRouter.post(
+    "/delegations",
+    validateQuery("body", getDelegationsBodySchema),
+    handleGetDelegations
+);
+
+membershipRouter.post(
+    "/reputation/history",
+    validateQuery("body", reputationHistoryBodySchema),
+    handleGetReputationHistory
+);
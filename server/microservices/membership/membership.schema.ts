@@ -1,22 +1,75 @@
-import { evmAddressSchema } from "../../utils/shared.schema";
+import { DAO_ROLES } from "../../utils/constants";
+import { txHashSchema, walletAddressSchema } from "../../utils/shared.schema";
 import * as z from "zod";
 
 export const joinDaoBodySchema = z.object({
     dao_id: z.string().uuid(),
-    wallet_address: evmAddressSchema,
+    wallet_address: walletAddressSchema,
 });
 
 export type JoinDaoBody = z.infer<typeof joinDaoBodySchema>;
 
 export const getMembershipsBodySchema = z.object({
-    wallet_address: evmAddressSchema,
+    wallet_address: walletAddressSchema,
 });
 
 export type GetMembershipsBody = z.infer<typeof getMembershipsBodySchema>;
 
 export const emailVerifiedBodySchema = z.object({
-    wallet_address: evmAddressSchema,
+    wallet_address: walletAddressSchema,
     dao_id: z.string().uuid(),
+    tx_hash: txHashSchema,
 });
 
 export type EmailVerifiedBody = z.infer<typeof emailVerifiedBodySchema>;
+
+export const githubVerifiedBodySchema = z.object({
+    wallet_address: walletAddressSchema,
+    dao_id: z.string().uuid(),
+    tx_hash: txHashSchema,
+});
+
+export type GitHubVerifiedBody = z.infer<typeof githubVerifiedBodySchema>;
+
+export const grantRoleBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    member_id: walletAddressSchema,
+    role: z.enum([DAO_ROLES.ADMIN, DAO_ROLES.MODERATOR]),
+});
+
+export type GrantRoleBody = z.infer<typeof grantRoleBodySchema>;
+
+export const revokeRoleBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    member_id: walletAddressSchema,
+});
+
+export type RevokeRoleBody = z.infer<typeof revokeRoleBodySchema>;
+
+export const setDelegateBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    wallet_address: walletAddressSchema,
+    delegate_id: walletAddressSchema,
+});
+
+export type SetDelegateBody = z.infer<typeof setDelegateBodySchema>;
+
+export const revokeDelegateBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    wallet_address: walletAddressSchema,
+});
+
+export type RevokeDelegateBody = z.infer<typeof revokeDelegateBodySchema>;
+
+export const getDelegationsBodySchema = z.object({
+    dao_id: z.string().uuid(),
+});
+
+export type GetDelegationsBody = z.infer<typeof getDelegationsBodySchema>;
+
+export const reputationHistoryBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    member_id: walletAddressSchema,
+});
+
+export type ReputationHistoryBody = z.infer<typeof reputationHistoryBodySchema>;
@@ -1,9 +1,21 @@
 import { OneinchService, SupabaseService } from "../../services";
 import {
+    DAO_PERMISSIONS,
+    DAO_ROLE_PERMISSIONS,
+    DAO_ROLE_RANKS,
+    DAO_ROLES,
     EMAIL_VERIFIED_MERITS,
     EMAIL_VERIFIED_REPUTATION_CHANGE,
+    POSTGRES_NO_DATA_FOUND_ERROR_CODE,
+    POSTGRES_RAISE_EXCEPTION_ERROR_CODE,
+    POSTGRES_UNIQUE_VIOLATION_ERROR_CODE,
+    REPUTATION_REASONS,
     STARTER_REPUTATION,
     SUPABASE_0_ROWS_ERROR_CODE,
+    VERIFICATION_PROOF_TYPES,
+    VERIFICATION_TYPES,
+    WEBHOOK_EVENTS,
+    type HOUSES,
 } from "../../utils/constants";
 import {
     createError,
@@ -11,11 +23,32 @@ import {
     randomVotingHouse,
 } from "../../utils/functions";
 import { getDao } from "../dao/dao.service";
+import { getGitHubRepository } from "../governance/governance.service";
+import { calculateCurrentVoteWeight } from "../governance/vote-weight.service";
 import { getMember } from "../member/member.service";
-import { distributeMerits } from "../proposal/proposal.service";
-import type { EmailVerifiedBody, JoinDaoBody } from "./membership.schema";
+import { getMeritDistribution } from "../merits/merits.service";
+import { emitWebhookEvent } from "../webhooks/webhook-delivery.service";
+import type {
+    EmailVerifiedBody,
+    GetDelegationsBody,
+    GitHubVerifiedBody,
+    GrantRoleBody,
+    JoinDaoBody,
+    ReputationHistoryBody,
+    RevokeDelegateBody,
+    RevokeRoleBody,
+    SetDelegateBody,
+} from "./membership.schema";
+import {
+    getGitHubContributionHash,
+    matchesEmailSubfix,
+    redeemVerificationProof,
+    verifyEmailDomainProof,
+    verifyGitHubProof,
+} from "./proof.service";
+import { randomUUID } from "crypto";
 
-const getMembership = async (member_id: string, dao_id: string) => {
+export const getMembership = async (member_id: string, dao_id: string) => {
     const { data, error } = await SupabaseService.getSupabase("admin")
         .from("memberships")
         .select()
@@ -43,6 +76,33 @@ export const getMemberships = async (member_id: string) => {
     return data;
 };
 
+export const countMemberships = async (
+    dao_id: string,
+    house?: HOUSES,
+    joined_before?: string
+) => {
+    let query = SupabaseService.getSupabase("admin")
+        .from("memberships")
+        .select("*", { count: "exact", head: true })
+        .eq("dao_id", dao_id);
+
+    if (house) {
+        query = query.eq("house", house);
+    }
+
+    if (joined_before) {
+        query = query.lte("created_at", joined_before);
+    }
+
+    const { count, error } = await query;
+
+    if (error) {
+        throw error;
+    }
+
+    return count ?? 0;
+};
+
 export const getTokensBalances = async (
     wallet_address: string,
     dao_tokens: {
@@ -138,61 +198,447 @@ export const joinDao = async ({ dao_id, wallet_address }: JoinDaoBody) => {
         throw error;
     }
 
+    const { error: eventError } = await SupabaseService.getSupabase("admin")
+        .from("reputation_events")
+        .insert({
+            member_id: data.member_id,
+            dao_id,
+            delta: STARTER_REPUTATION,
+            reputation: STARTER_REPUTATION,
+            reason: REPUTATION_REASONS.JOINED_DAO,
+        });
+
+    if (eventError) {
+        throw eventError;
+    }
+
+    await emitWebhookEvent(dao_id, WEBHOOK_EVENTS.MEMBER_JOINED, data);
+
+    return data;
+};
+
+export interface ReputationChange {
+    member_id: string;
+    dao_id: string;
+    change: number;
+    reason: REPUTATION_REASONS;
+    proposal_id?: string;
+    quest_id?: string;
+    verification_id?: string;
+}
+
+export const changeReputation = async (changes: ReputationChange[]) => {
+    await Promise.all(
+        changes.map(
+            async ({
+                member_id,
+                dao_id,
+                change,
+                reason,
+                proposal_id,
+                quest_id,
+                verification_id,
+            }) => {
+                const { error } = await SupabaseService.getSupabase(
+                    "admin"
+                ).rpc("increment_reputation", {
+                    p_member_id: member_id,
+                    p_dao_id: dao_id,
+                    p_delta: change,
+                    p_reason: reason,
+                    p_proposal_id: proposal_id,
+                    p_quest_id: quest_id,
+                    p_verification_id: verification_id,
+                });
+
+                if (error?.code === POSTGRES_NO_DATA_FOUND_ERROR_CODE) {
+                    throw createError(
+                        "Membership not found",
+                        HttpStatusCode.NOT_FOUND
+                    );
+                }
+                if (error) {
+                    throw error;
+                }
+            }
+        )
+    );
+};
+
+export const getReputationHistory = async ({
+    dao_id,
+    member_id,
+}: ReputationHistoryBody) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("reputation_events")
+        .select()
+        .eq("dao_id", dao_id)
+        .eq("member_id", member_id)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        throw error;
+    }
+
     return data;
 };
 
-export const changeReputation = async (
-    changes: {
+export const emailVerified = async ({
+    wallet_address,
+    dao_id,
+    tx_hash,
+}: EmailVerifiedBody) => {
+    const membership = await getMembership(wallet_address, dao_id);
+    if (!membership) {
+        throw createError("Membership not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const dao = await getDao(dao_id);
+    if (!dao) {
+        throw createError("DAO not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const proof = await verifyEmailDomainProof(tx_hash, wallet_address);
+    if (!matchesEmailSubfix(proof.email_domain, dao.email_subfix)) {
+        throw createError(
+            `Verified domain ${proof.email_domain} does not match the DAO's ${dao.email_subfix}`,
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    const verification_id = randomUUID();
+    const distribution_id = `${dao_id}::${verification_id}::email`;
+
+    await redeemVerificationProof({
+        verification_id,
+        proof: {
+            proof_type: VERIFICATION_PROOF_TYPES.EMAIL_DOMAIN,
+            proof_hash: proof.email_hash,
+            tx_hash,
+            chain_id: proof.chain_id,
+            block_number: proof.block_number,
+            member_id: membership.member_id,
+            dao_id,
+            subject: proof.email_domain,
+        },
+        verification_type: VERIFICATION_TYPES.EMAIL,
+        identity: proof.email_domain,
+        reputation_reason: REPUTATION_REASONS.EMAIL_VERIFIED,
+        reputation_change: EMAIL_VERIFIED_REPUTATION_CHANGE,
+        merits: {
+            distribution_id,
+            dao_id,
+            description: "Email verified",
+            distributions: [
+                {
+                    address: wallet_address,
+                    amount: EMAIL_VERIFIED_MERITS.toString(),
+                },
+            ],
+        },
+    });
+
+    return {
+        merits: await getMeritDistribution(distribution_id),
+        membership: await getMembership(wallet_address, dao_id),
+    };
+};
+
+const linkGitHubUsername = async (
+    membership: {
         member_id: string;
         dao_id: string;
-        change: number;
-    }[]
+        github_username: string | null;
+    },
+    github_username: string
 ) => {
-    await Promise.all(
-        changes.map(async ({ member_id, dao_id, change }) => {
-            const membership = await getMembership(member_id, dao_id);
-            if (!membership) {
-                throw createError(
-                    "Membership not found",
-                    HttpStatusCode.NOT_FOUND
-                );
-            }
+    if (membership.github_username) {
+        if (
+            membership.github_username.toLowerCase() !==
+            github_username.toLowerCase()
+        ) {
+            throw createError(
+                `Membership is already linked to GitHub account ${membership.github_username}`,
+                HttpStatusCode.CONFLICT
+            );
+        }
 
-            const newReputation = membership.reputation + change;
+        return;
+    }
 
-            const { error } = await SupabaseService.getSupabase("admin")
-                .from("memberships")
-                .update({
-                    reputation: newReputation,
-                })
-                .eq("member_id", member_id)
-                .eq("dao_id", dao_id)
-                .select()
-                .single();
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("memberships")
+        .update({ github_username })
+        .eq("member_id", membership.member_id)
+        .eq("dao_id", membership.dao_id);
 
-            if (error) {
-                throw error;
-            }
+    if (error?.code === POSTGRES_UNIQUE_VIOLATION_ERROR_CODE) {
+        throw createError(
+            `GitHub account ${github_username} is already linked to another member of this DAO`,
+            HttpStatusCode.CONFLICT
+        );
+    }
+    if (error) {
+        throw error;
+    }
+};
+
+export const githubVerified = async ({
+    wallet_address,
+    dao_id,
+    tx_hash,
+}: GitHubVerifiedBody) => {
+    const membership = await getMembership(wallet_address, dao_id);
+    if (!membership) {
+        throw createError("Membership not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const proof = await verifyGitHubProof(tx_hash, wallet_address);
+
+    const repository = await getGitHubRepository(
+        dao_id,
+        proof.repo_owner,
+        proof.repo_name
+    );
+    if (!repository) {
+        throw createError(
+            `Contributions to ${proof.repo_owner}/${proof.repo_name} are not rewarded by this DAO`,
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    await linkGitHubUsername(membership, proof.username);
+
+    const verification_id = randomUUID();
+    const distribution_id = `${dao_id}::${verification_id}::github`;
+
+    await redeemVerificationProof({
+        verification_id,
+        proof: {
+            proof_type: VERIFICATION_PROOF_TYPES.GITHUB_CONTRIBUTION,
+            proof_hash: getGitHubContributionHash(
+                dao_id,
+                proof.username,
+                proof.repo_owner,
+                proof.repo_name
+            ),
+            tx_hash,
+            chain_id: proof.chain_id,
+            block_number: proof.block_number,
+            member_id: membership.member_id,
+            dao_id,
+            subject: `${proof.username}@${repository.repo_owner}/${repository.repo_name}`,
+        },
+        verification_type: VERIFICATION_TYPES.GITHUB,
+        identity: proof.username,
+        reputation_reason: REPUTATION_REASONS.GITHUB_VERIFIED,
+        reputation_change: Math.max(repository.reputation_reward, 0),
+        merits:
+            repository.merits_reward > 0
+                ? {
+                      distribution_id,
+                      dao_id,
+                      description: `GitHub contribution to ${repository.repo_owner}/${repository.repo_name}`,
+                      distributions: [
+                          {
+                              address: wallet_address,
+                              amount: repository.merits_reward.toString(),
+                          },
+                      ],
+                  }
+                : null,
+    });
+
+    return {
+        merits:
+            repository.merits_reward > 0
+                ? await getMeritDistribution(distribution_id)
+                : null,
+        membership: await getMembership(wallet_address, dao_id),
+    };
+};
+
+export const hasDaoPermission = (
+    role: DAO_ROLES,
+    permission: DAO_PERMISSIONS
+): boolean => {
+    return DAO_ROLE_PERMISSIONS[role].includes(permission);
+};
+
+export const assertDaoPermission = async (
+    member_id: string,
+    dao_id: string,
+    permission: DAO_PERMISSIONS
+) => {
+    const membership = await getMembership(member_id, dao_id);
+    if (!membership) {
+        throw createError(
+            "User is not a member of this DAO",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    if (!hasDaoPermission(membership.role as DAO_ROLES, permission)) {
+        throw createError(
+            `Missing ${permission} permission for this DAO`,
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    return membership;
+};
+
+export const setMembershipRole = async (
+    member_id: string,
+    dao_id: string,
+    role: DAO_ROLES
+) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("memberships")
+        .update({
+            role,
         })
+        .eq("member_id", member_id)
+        .eq("dao_id", dao_id)
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+const changeRole = async (
+    dao_id: string,
+    member_id: string,
+    role: DAO_ROLES,
+    changed_by: string
+) => {
+    const actor = await assertDaoPermission(
+        changed_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_ROLES
     );
+
+    const membership = await getMembership(member_id, dao_id);
+    if (!membership) {
+        throw createError("Membership not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const actorRank = DAO_ROLE_RANKS[actor.role as DAO_ROLES];
+    if (
+        DAO_ROLE_RANKS[membership.role as DAO_ROLES] >= actorRank ||
+        DAO_ROLE_RANKS[role] >= actorRank
+    ) {
+        throw createError(
+            "Cannot change the role of a member ranked at or above you",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    return await setMembershipRole(member_id, dao_id, role);
 };
 
-export const emailVerified = async ({
+export const grantRole = async (
+    { dao_id, member_id, role }: GrantRoleBody,
+    granted_by: string
+) => {
+    return await changeRole(dao_id, member_id, role, granted_by);
+};
+
+export const revokeRole = async (
+    { dao_id, member_id }: RevokeRoleBody,
+    revoked_by: string
+) => {
+    return await changeRole(dao_id, member_id, DAO_ROLES.MEMBER, revoked_by);
+};
+
+export const getDaoMemberships = async (dao_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("memberships")
+        .select()
+        .eq("dao_id", dao_id);
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const setDelegate = async ({
+    dao_id,
     wallet_address,
+    delegate_id,
+}: SetDelegateBody) => {
+    if (wallet_address.toLowerCase() === delegate_id.toLowerCase()) {
+        throw createError(
+            "Cannot delegate to yourself",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const membership = await getMembership(wallet_address, dao_id);
+    if (!membership) {
+        throw createError("Membership not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const delegateMembership = await getMembership(delegate_id, dao_id);
+    if (!delegateMembership) {
+        throw createError(
+            "Delegate is not a member of this DAO",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const { error } = await SupabaseService.getSupabase("admin").rpc(
+        "set_membership_delegate",
+        {
+            p_dao_id: dao_id,
+            p_member_id: membership.member_id,
+            p_delegate_id: delegateMembership.member_id,
+        }
+    );
+
+    if (error?.code === POSTGRES_RAISE_EXCEPTION_ERROR_CODE) {
+        throw createError(error.message, HttpStatusCode.BAD_REQUEST);
+    }
+    if (error?.code === POSTGRES_NO_DATA_FOUND_ERROR_CODE) {
+        throw createError(error.message, HttpStatusCode.NOT_FOUND);
+    }
+    if (error) {
+        throw error;
+    }
+
+    return await getMembership(membership.member_id, dao_id);
+};
+
+export const revokeDelegate = async ({
     dao_id,
-}: EmailVerifiedBody) => {
+    wallet_address,
+}: RevokeDelegateBody) => {
     const membership = await getMembership(wallet_address, dao_id);
     if (!membership) {
         throw createError("Membership not found", HttpStatusCode.NOT_FOUND);
     }
 
+    if (!membership.delegate_id) {
+        throw createError(
+            "No delegate has been set",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
     const { data, error } = await SupabaseService.getSupabase("admin")
         .from("memberships")
         .update({
-            reputation:
-                membership.reputation + EMAIL_VERIFIED_REPUTATION_CHANGE,
+            delegate_id: null,
+            delegated_at: null,
         })
-        .eq("member_id", wallet_address)
+        .eq("member_id", membership.member_id)
+        .eq("dao_id", dao_id)
         .select()
         .single();
 
@@ -200,19 +646,44 @@ export const emailVerified = async ({
         throw error;
     }
 
-    const merits = await distributeMerits(
-        `${dao_id}::${wallet_address}::${Date.now()}`,
-        "Email verified",
-        [
-            {
-                address: wallet_address,
-                amount: EMAIL_VERIFIED_MERITS.toString(),
-            },
-        ]
+    return data;
+};
+
+export const getDelegations = async ({ dao_id }: GetDelegationsBody) => {
+    const dao = await getDao(dao_id);
+    if (!dao) {
+        throw createError("DAO not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const delegatorMemberships = (await getDaoMemberships(dao_id)).filter(
+        ({ delegate_id }) => delegate_id
     );
 
-    return {
-        merits,
-        membership: data,
-    };
+    const weights = await Promise.all(
+        delegatorMemberships.map(
+            async (membership) =>
+                (await calculateCurrentVoteWeight(dao, membership)).weight
+        )
+    );
+
+    const delegations: Record<
+        string,
+        {
+            delegate_id: string;
+            delegators: string[];
+            delegated_weight: number;
+        }
+    > = {};
+
+    delegatorMemberships.forEach(({ member_id, delegate_id }, index) => {
+        delegations[delegate_id!] ??= {
+            delegate_id: delegate_id!,
+            delegators: [],
+            delegated_weight: 0,
+        };
+        delegations[delegate_id!].delegators.push(member_id);
+        delegations[delegate_id!].delegated_weight += weights[index];
+    });
+
+    return Object.values(delegations);
 };
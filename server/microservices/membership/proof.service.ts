@@ -0,0 +1,348 @@
+import { ChainService, SupabaseService } from "../../services";
+import {
+    DYNAMIC_TWITTER_VERIFIER_ABI,
+    EMAIL_DOMAIN_VERIFIER_ABI,
+    GITHUB_VERIFIER_ABI,
+} from "../../utils/abis";
+import {
+    POSTGRES_UNIQUE_VIOLATION_ERROR_CODE,
+    SUPABASE_0_ROWS_ERROR_CODE,
+    TWITTER_ACTION_IDS,
+    type REPUTATION_REASONS,
+    type TWITTER_ACTIONS,
+    type VERIFICATION_PROOF_TYPES,
+    type VERIFICATION_TYPES,
+} from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import {
+    getMeritDistributionRecord,
+    type MeritPayout,
+} from "../merits/merits.service";
+import {
+    isAddressEqual,
+    keccak256,
+    parseEventLogs,
+    stringToHex,
+    type Hex,
+} from "viem";
+
+const getVerifierChainId = () => {
+    const chain_id = Number(process.env.VLAYER_CHAIN_ID);
+    if (!chain_id) {
+        throw createError(
+            "Proof verification is not configured",
+            HttpStatusCode.INTERNAL_SERVER
+        );
+    }
+
+    return chain_id;
+};
+
+const getSuccessfulReceipt = async (chain_id: number, tx_hash: string) => {
+    const receipt = await ChainService.getTransactionReceipt(chain_id, tx_hash);
+    if (!receipt) {
+        throw createError(
+            "Verification transaction not found, it may not be mined yet",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+    if (receipt.status !== "success") {
+        throw createError(
+            "Verification transaction reverted",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    return receipt;
+};
+
+export const verifyEmailDomainProof = async (
+    tx_hash: string,
+    wallet_address: string
+) => {
+    const verifierAddress = process.env.EMAIL_DOMAIN_VERIFIER_ADDRESS;
+    if (!verifierAddress) {
+        throw createError(
+            "Email verification is not configured",
+            HttpStatusCode.INTERNAL_SERVER
+        );
+    }
+
+    const chain_id = getVerifierChainId();
+    const receipt = await getSuccessfulReceipt(chain_id, tx_hash);
+
+    const [event] = parseEventLogs({
+        abi: EMAIL_DOMAIN_VERIFIER_ABI,
+        eventName: "EmailVerified",
+        logs: receipt.logs.filter((log) =>
+            isAddressEqual(log.address, verifierAddress as Hex)
+        ),
+    });
+    if (!event) {
+        throw createError(
+            "Transaction did not verify an email with the EmailDomainVerifier",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    if (!isAddressEqual(event.args.targetWallet, wallet_address as Hex)) {
+        throw createError(
+            "Email proof was made for a different wallet",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    return {
+        chain_id,
+        block_number: Number(receipt.blockNumber),
+        email_hash: event.args.emailHash,
+        email_domain: event.args.emailDomain,
+    };
+};
+
+export const verifyGitHubProof = async (
+    tx_hash: string,
+    wallet_address: string
+) => {
+    const verifierAddress = process.env.GITHUB_VERIFIER_ADDRESS;
+    if (!verifierAddress) {
+        throw createError(
+            "GitHub verification is not configured",
+            HttpStatusCode.INTERNAL_SERVER
+        );
+    }
+
+    const chain_id = getVerifierChainId();
+    const receipt = await getSuccessfulReceipt(chain_id, tx_hash);
+
+    const [event] = parseEventLogs({
+        abi: GITHUB_VERIFIER_ABI,
+        eventName: "GitHubCommitVerified",
+        logs: receipt.logs.filter((log) =>
+            isAddressEqual(log.address, verifierAddress as Hex)
+        ),
+    });
+    if (!event) {
+        throw createError(
+            "Transaction did not verify a commit with the GitHubVerifier",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    if (!event.args.verified) {
+        throw createError(
+            `GitHub contribution was not verified: ${event.args.resultMessage}`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    if (!isAddressEqual(event.args.account, wallet_address as Hex)) {
+        throw createError(
+            "GitHub proof was made for a different wallet",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    return {
+        chain_id,
+        block_number: Number(receipt.blockNumber),
+        username: event.args.username,
+        repo_owner: event.args.repoOwner,
+        repo_name: event.args.repoName,
+        branch: event.args.branch,
+    };
+};
+
+export const verifyTwitterActionProof = async (
+    tx_hash: string,
+    wallet_address: string,
+    action: TWITTER_ACTIONS,
+    target_value: string
+) => {
+    const verifierAddress = process.env.TWITTER_VERIFIER_ADDRESS;
+    if (!verifierAddress) {
+        throw createError(
+            "Twitter verification is not configured",
+            HttpStatusCode.INTERNAL_SERVER
+        );
+    }
+
+    const chain_id = getVerifierChainId();
+    const receipt = await getSuccessfulReceipt(chain_id, tx_hash);
+
+    const event = parseEventLogs({
+        abi: DYNAMIC_TWITTER_VERIFIER_ABI,
+        eventName: "ActionVerified",
+        logs: receipt.logs.filter((log) =>
+            isAddressEqual(log.address, verifierAddress as Hex)
+        ),
+    }).find(({ args }) => args.actionId === TWITTER_ACTION_IDS[action]);
+    if (!event) {
+        throw createError(
+            `Transaction did not verify a Twitter ${action} with the DynamicTwitterVerifier`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    if (!event.args.success) {
+        throw createError(
+            `Twitter ${action} was not verified`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    if (!isAddressEqual(event.args.user, wallet_address as Hex)) {
+        throw createError(
+            "Twitter proof was made for a different wallet",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    const normalize = (value: string) =>
+        value.trim().toLowerCase().replace(/^@/, "");
+    if (normalize(event.args.targetValue) !== normalize(target_value)) {
+        throw createError(
+            `Twitter ${action} proof targets ${event.args.targetValue}, the quest targets ${target_value}`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const { username } = await ChainService.getPublicClient(
+        chain_id
+    ).readContract({
+        address: verifierAddress as Hex,
+        abi: DYNAMIC_TWITTER_VERIFIER_ABI,
+        functionName: "getUserData",
+        args: [event.args.user],
+        blockNumber: receipt.blockNumber,
+    });
+
+    return {
+        chain_id,
+        block_number: Number(receipt.blockNumber),
+        username,
+        target_value: event.args.targetValue,
+    };
+};
+
+export const getQuestTaskHash = (task_id: string, member_id: string) =>
+    keccak256(stringToHex([task_id, member_id.toLowerCase()].join(":")));
+
+export const getGitHubContributionHash = (
+    dao_id: string,
+    username: string,
+    repo_owner: string,
+    repo_name: string
+) =>
+    keccak256(
+        stringToHex(
+            [dao_id, username, repo_owner, repo_name]
+                .map((part) => part.toLowerCase())
+                .join(":")
+        )
+    );
+
+export const matchesEmailSubfix = (
+    email_domain: string,
+    email_subfix: string
+) => {
+    const domain = email_domain.trim().toLowerCase();
+    const subfix = email_subfix.trim().toLowerCase().replace(/^@/, "");
+
+    return !!subfix && (domain === subfix || domain.endsWith(`.${subfix}`));
+};
+
+export const getVerificationProof = async (tx_hash: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("verification_proofs")
+        .select()
+        .eq("tx_hash", tx_hash.toLowerCase())
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    return data;
+};
+
+interface VerificationProof {
+    proof_type: VERIFICATION_PROOF_TYPES;
+    proof_hash: string;
+    tx_hash: string;
+    chain_id: number;
+    block_number: number;
+    member_id: string;
+    dao_id: string;
+    subject: string;
+}
+
+const assertProofUnused = (error: { code: string } | null) => {
+    if (error?.code === POSTGRES_UNIQUE_VIOLATION_ERROR_CODE) {
+        throw createError(
+            "This proof has already been used",
+            HttpStatusCode.CONFLICT
+        );
+    }
+};
+
+export const recordVerificationProof = async (proof: VerificationProof) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("verification_proofs")
+        .insert({ ...proof, tx_hash: proof.tx_hash.toLowerCase() })
+        .select()
+        .single();
+
+    assertProofUnused(error);
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+// * INFO: the proof, the verification and its rewards are written in one transaction, so a failed reward leaves the proof unspent
+export const redeemVerificationProof = async ({
+    verification_id,
+    proof,
+    verification_type,
+    identity,
+    reputation_reason,
+    reputation_change,
+    merits,
+}: {
+    verification_id: string;
+    proof: VerificationProof;
+    verification_type: VERIFICATION_TYPES;
+    identity: string;
+    reputation_reason: REPUTATION_REASONS;
+    reputation_change: number;
+    merits: MeritPayout | null;
+}) => {
+    const { error } = await SupabaseService.getSupabase("admin").rpc(
+        "redeem_verification_proof",
+        {
+            p_verification_id: verification_id,
+            p_proof_type: proof.proof_type,
+            p_proof_hash: proof.proof_hash,
+            p_tx_hash: proof.tx_hash.toLowerCase(),
+            p_chain_id: proof.chain_id,
+            p_block_number: proof.block_number,
+            p_member_id: proof.member_id,
+            p_dao_id: proof.dao_id,
+            p_subject: proof.subject,
+            p_verification_type: verification_type,
+            p_identity: identity,
+            p_reputation_reason: reputation_reason,
+            p_reputation_change: reputation_change,
+            p_merit_distribution: merits
+                ? getMeritDistributionRecord(merits)
+                : undefined,
+        }
+    );
+
+    assertProofUnused(error);
+    if (error) {
+        throw error;
+    }
+};
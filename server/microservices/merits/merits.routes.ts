@@ -0,0 +1,85 @@
+import { validateJwt, validateQuery } from "../../middlewares";
+import {
+    getMeritDistributionsBodySchema,
+    replayMeritDistributionBodySchema,
+    type GetMeritDistributionsBody,
+    type ReplayMeritDistributionBody,
+} from "./merits.schema";
+import {
+    getMeritDistributions,
+    replayMeritDistribution,
+} from "./merits.service";
+import {
+    Router,
+    type NextFunction,
+    type Request,
+    type Response,
+} from "express";
+
+export const meritsRouter = Router();
+
+const handleGetMeritDistributions = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, status, limit } = req.body as GetMeritDistributionsBody;
+
+        const data = await getMeritDistributions(
+            {
+                dao_id,
+                status,
+                limit,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleReplayMeritDistribution = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, distribution_id } =
+            req.body as ReplayMeritDistributionBody;
+
+        const data = await replayMeritDistribution(
+            {
+                dao_id,
+                distribution_id,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+meritsRouter.post(
+    "/distributions",
+    validateJwt(),
+    validateQuery("body", getMeritDistributionsBodySchema),
+    handleGetMeritDistributions
+);
+
+meritsRouter.post(
+    "/distributions/replay",
+    validateJwt(),
+    validateQuery("body", replayMeritDistributionBodySchema),
+    handleReplayMeritDistribution
+);
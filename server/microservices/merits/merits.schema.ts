@@ -0,0 +1,26 @@
+import { MERIT_DISTRIBUTION_STATUSES } from "../../utils/constants";
+import * as z from "zod";
+
+export interface MeritDistribution {
+    address: string;
+    amount: string;
+}
+
+export const getMeritDistributionsBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    status: z.nativeEnum(MERIT_DISTRIBUTION_STATUSES).optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+});
+
+export type GetMeritDistributionsBody = z.infer<
+    typeof getMeritDistributionsBodySchema
+>;
+
+export const replayMeritDistributionBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    distribution_id: z.string().min(1),
+});
+
+export type ReplayMeritDistributionBody = z.infer<
+    typeof replayMeritDistributionBodySchema
+>;
@@ -0,0 +1,135 @@
+import { LocalService } from "../../services";
+import { useLocalMode } from "../../test/local";
+import { MERIT_DISTRIBUTION_STATUSES } from "../../utils/constants";
+import { getQuestMeritDistributionId } from "../quest-participant/quest-participant.service";
+import {
+    getMeritDistributionRecord,
+    sendPendingMerits,
+} from "./merits.service";
+import { randomUUID } from "crypto";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+const local = useLocalMode();
+
+const dao_id = randomUUID();
+const quest_id = randomUUID();
+const member_id = "0x00000000000000000000000000000000000a11ce";
+const distribution_id = getQuestMeritDistributionId(
+    dao_id,
+    quest_id,
+    member_id
+);
+
+const useBlockscoutFixture = (fixture: object) => {
+    const directory = mkdtempSync(join(tmpdir(), "fixtures-"));
+    writeFileSync(join(directory, "blockscout.json"), JSON.stringify(fixture));
+    process.env.LOCAL_FIXTURES_DIR = directory;
+};
+
+const getDistribution = () =>
+    local.supabase
+        .rows("merit_distributions")
+        .find(
+            (distribution) => distribution.distribution_id === distribution_id
+        )!;
+
+describe("quest merit payouts", () => {
+    beforeEach(() => {
+        const now = new Date().toISOString();
+
+        local.supabase.seed("merit_distributions", [
+            {
+                ...getMeritDistributionRecord({
+                    distribution_id,
+                    dao_id,
+                    description: "Quest completion reward",
+                    distributions: [{ address: member_id, amount: "25" }],
+                }),
+                status: MERIT_DISTRIBUTION_STATUSES.PENDING,
+                attempts: 0,
+                next_attempt_at: now,
+                last_error: null,
+                response: null,
+                sent_at: null,
+                created_at: now,
+                updated_at: now,
+            },
+        ]);
+    });
+
+    afterEach(() => {
+        rmSync(process.env.LOCAL_FIXTURES_DIR!, { recursive: true });
+        delete process.env.LOCAL_FIXTURES_DIR;
+    });
+
+    it("sends a completed quest's merits to Blockscout", async () => {
+        useBlockscoutFixture({ unavailable: false, rejected_addresses: [] });
+
+        expect(await sendPendingMerits()).toEqual({
+            sent: [distribution_id],
+            failures: [],
+        });
+
+        expect(LocalService.getState().distributions).toMatchObject([
+            {
+                id: distribution_id,
+                distributions: [{ address: member_id, amount: "25" }],
+                expected_total: "25",
+            },
+        ]);
+        expect(getDistribution()).toMatchObject({
+            status: MERIT_DISTRIBUTION_STATUSES.SENT,
+            attempts: 1,
+            last_error: null,
+        });
+        expect(local.supabase.rows("notifications")).toMatchObject([
+            { member_id, title: "You received 25 merits" },
+        ]);
+    });
+
+    it("keeps the payout pending with the error when Blockscout rejects it", async () => {
+        useBlockscoutFixture({ rejected_addresses: [member_id] });
+
+        const { sent, failures } = await sendPendingMerits();
+
+        expect(sent).toEqual([]);
+        expect(failures).toEqual([
+            {
+                distribution_id,
+                message: `422: Address ${member_id} was rejected`,
+            },
+        ]);
+        expect(LocalService.getState().distributions).toEqual([]);
+        expect(getDistribution()).toMatchObject({
+            status: MERIT_DISTRIBUTION_STATUSES.PENDING,
+            attempts: 1,
+            last_error: `422: Address ${member_id} was rejected`,
+        });
+    });
+
+    it("marks a payout Blockscout already received as sent without paying twice", async () => {
+        useBlockscoutFixture({ unavailable: false, rejected_addresses: [] });
+        await sendPendingMerits();
+
+        // * INFO: as if the first send went through but its status was never saved
+        Object.assign(
+            local.supabase
+                .getRows("merit_distributions")
+                .find(
+                    (distribution) =>
+                        distribution.distribution_id === distribution_id
+                )!,
+            { status: MERIT_DISTRIBUTION_STATUSES.PENDING }
+        );
+
+        expect(await sendPendingMerits()).toEqual({
+            sent: [distribution_id],
+            failures: [],
+        });
+        expect(LocalService.getState().distributions).toHaveLength(1);
+        expect(getDistribution().status).toBe(MERIT_DISTRIBUTION_STATUSES.SENT);
+    });
+});
@@ -0,0 +1,261 @@
+import { BlockscoutService, SupabaseService } from "../../services";
+import {
+    DAO_PERMISSIONS,
+    MERIT_DISTRIBUTION_STATUSES,
+    NOTIFICATION_TYPES,
+    MERITS_MAX_ATTEMPTS,
+    MERITS_RETRY_BASE_MS,
+    MERITS_RETRY_MAX_MS,
+    SCHEDULER_BATCH_SIZE,
+    SUPABASE_0_ROWS_ERROR_CODE,
+} from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import type { Tables } from "../../utils/types/database.types";
+import { assertDaoPermission } from "../membership/membership.service";
+import { notify } from "../notifications/notifications.service";
+import type {
+    GetMeritDistributionsBody,
+    MeritDistribution,
+    ReplayMeritDistributionBody,
+} from "./merits.schema";
+import { isAxiosError } from "axios";
+
+interface MeritSendFailure {
+    distribution_id: string;
+    message: string;
+}
+
+export const getMeritDistribution = async (distribution_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("merit_distributions")
+        .select()
+        .eq("distribution_id", distribution_id)
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    return data;
+};
+
+export interface MeritPayout {
+    distribution_id: string;
+    dao_id: string;
+    description: string;
+    distributions: MeritDistribution[];
+}
+
+// * INFO: the id must be derived from what is being rewarded, so queuing the same payout twice is a no-op
+export const getMeritDistributionRecord = ({
+    distribution_id,
+    dao_id,
+    description,
+    distributions,
+}: MeritPayout) => ({
+    distribution_id,
+    dao_id,
+    description,
+    distributions: distributions.map((distribution) => ({
+        ...distribution,
+    })),
+    total_amount: distributions.reduce(
+        (acc, distribution) => acc + parseInt(distribution.amount),
+        0
+    ),
+});
+
+const getRetryDelay = (attempts: number) =>
+    Math.min(MERITS_RETRY_BASE_MS * 2 ** (attempts - 1), MERITS_RETRY_MAX_MS);
+
+const getSendErrorMessage = (error: unknown) => {
+    if (isAxiosError(error)) {
+        return `${error.response?.status ?? "network"}: ${
+            error.response?.data?.message ?? error.message
+        }`;
+    }
+
+    return error instanceof Error ? error.message : String(error);
+};
+
+const sendMeritDistribution = async (
+    distribution: Tables<"merit_distributions">
+) => {
+    let response: unknown = null;
+
+    try {
+        const { data } = await BlockscoutService.getInstance().post(
+            "/partner/api/v1/distribute",
+            {
+                id: distribution.distribution_id,
+                description: distribution.description,
+                distributions: distribution.distributions,
+                create_missing_accounts: true,
+                expected_total: distribution.total_amount.toString(),
+            }
+        );
+        response = data;
+    } catch (error) {
+        // * INFO: Blockscout rejects a reused id, meaning an earlier attempt went through before its status was saved
+        if (!isAxiosError(error) || error.response?.status !== 409) {
+            const attempts = distribution.attempts + 1;
+            const { error: updateError } = await SupabaseService.getSupabase(
+                "admin"
+            )
+                .from("merit_distributions")
+                .update({
+                    attempts,
+                    status:
+                        attempts >= MERITS_MAX_ATTEMPTS
+                            ? MERIT_DISTRIBUTION_STATUSES.FAILED
+                            : MERIT_DISTRIBUTION_STATUSES.PENDING,
+                    next_attempt_at: new Date(
+                        Date.now() + getRetryDelay(attempts)
+                    ).toISOString(),
+                    last_error: getSendErrorMessage(error),
+                    updated_at: new Date().toISOString(),
+                })
+                .eq("distribution_id", distribution.distribution_id);
+
+            if (updateError) {
+                throw updateError;
+            }
+
+            throw error;
+        }
+    }
+
+    const now = new Date().toISOString();
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("merit_distributions")
+        .update({
+            status: MERIT_DISTRIBUTION_STATUSES.SENT,
+            attempts: distribution.attempts + 1,
+            response: response as Tables<"merit_distributions">["response"],
+            last_error: null,
+            sent_at: now,
+            updated_at: now,
+        })
+        .eq("distribution_id", distribution.distribution_id);
+
+    if (error) {
+        throw error;
+    }
+
+    await notify(
+        (distribution.distributions as unknown as MeritDistribution[]).map(
+            ({ address, amount }) => ({
+                member_id: address,
+                type: NOTIFICATION_TYPES.MERIT_PAYOUT,
+                title: `You received ${amount} merits`,
+                body: distribution.description,
+                dao_id: distribution.dao_id,
+            })
+        )
+    );
+};
+
+export const sendPendingMerits = async () => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("merit_distributions")
+        .select()
+        .eq("status", MERIT_DISTRIBUTION_STATUSES.PENDING)
+        .lte("next_attempt_at", new Date().toISOString())
+        .order("next_attempt_at", { ascending: true })
+        .limit(SCHEDULER_BATCH_SIZE);
+
+    if (error) {
+        throw error;
+    }
+
+    const sent: string[] = [];
+    const failures: MeritSendFailure[] = [];
+
+    for (const distribution of data) {
+        try {
+            await sendMeritDistribution(distribution);
+            sent.push(distribution.distribution_id);
+        } catch (error) {
+            failures.push({
+                distribution_id: distribution.distribution_id,
+                message: getSendErrorMessage(error),
+            });
+        }
+    }
+
+    return { sent, failures };
+};
+
+export const getMeritDistributions = async (
+    { dao_id, status, limit = 50 }: GetMeritDistributionsBody,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    let query = SupabaseService.getSupabase("admin")
+        .from("merit_distributions")
+        .select()
+        .eq("dao_id", dao_id);
+
+    if (status) {
+        query = query.eq("status", status);
+    }
+
+    const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const replayMeritDistribution = async (
+    { dao_id, distribution_id }: ReplayMeritDistributionBody,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    const distribution = await getMeritDistribution(distribution_id);
+    if (!distribution || distribution.dao_id !== dao_id) {
+        throw createError(
+            "Merit distribution not found",
+            HttpStatusCode.NOT_FOUND
+        );
+    }
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("merit_distributions")
+        .update({
+            status: MERIT_DISTRIBUTION_STATUSES.PENDING,
+            attempts: 0,
+            next_attempt_at: new Date().toISOString(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq("distribution_id", distribution_id)
+        .eq("status", MERIT_DISTRIBUTION_STATUSES.FAILED)
+        .select()
+        .single();
+
+    if (error?.code === SUPABASE_0_ROWS_ERROR_CODE) {
+        throw createError(
+            `Only failed distributions can be replayed, this one is ${distribution.status}`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
@@ -0,0 +1,356 @@
+import { SupabaseService } from "../../services";
+import {
+    DAO_PERMISSIONS,
+    DAO_ROLE_RANKS,
+    MESSAGE_MODERATION_ACTIONS,
+    MESSAGE_RATE_LIMIT_COUNT,
+    MESSAGE_RATE_LIMIT_WINDOW_MS,
+    SUPABASE_0_ROWS_ERROR_CODE,
+    type DAO_ROLES,
+} from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import type { TablesInsert } from "../../utils/types/database.types";
+import {
+    assertDaoPermission,
+    getMembership,
+} from "../membership/membership.service";
+import type {
+    ModerationLogBody,
+    MuteMemberBody,
+    UnmuteMemberBody,
+    UpdateChatSettingsBody,
+} from "./messages.schema";
+
+const LINK_REGEX = /(?:https?:\/\/|www\.)\S+/i;
+
+const escapeRegExp = (value: string) =>
+    value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+export const logModerationAction = async (
+    entry: TablesInsert<"message_moderation_log">
+) => {
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("message_moderation_log")
+        .insert(entry);
+
+    if (error) {
+        throw error;
+    }
+};
+
+export const getChatSettings = async (dao_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("chat_settings")
+        .select()
+        .eq("dao_id", dao_id)
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    if (data) {
+        return data;
+    }
+
+    const { data: newSettings, error: insertError } =
+        await SupabaseService.getSupabase("admin")
+            .from("chat_settings")
+            .upsert({ dao_id }, { onConflict: "dao_id" })
+            .select()
+            .single();
+
+    if (insertError) {
+        throw insertError;
+    }
+
+    return newSettings;
+};
+
+export const updateChatSettings = async (
+    { dao_id, blocked_words, allow_links }: UpdateChatSettingsBody,
+    updated_by: string
+) => {
+    await assertDaoPermission(
+        updated_by,
+        dao_id,
+        DAO_PERMISSIONS.MODERATE_MESSAGES
+    );
+
+    await getChatSettings(dao_id);
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("chat_settings")
+        .update({
+            blocked_words: blocked_words
+                ? [
+                      ...new Set(
+                          blocked_words
+                              .map((word) => word.trim().toLowerCase())
+                              .filter(Boolean)
+                      ),
+                  ]
+                : undefined,
+            allow_links,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("dao_id", dao_id)
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    await logModerationAction({
+        dao_id,
+        moderator_id: updated_by,
+        action: MESSAGE_MODERATION_ACTIONS.UPDATE_SETTINGS,
+        details: {
+            blocked_words: data.blocked_words,
+            allow_links: data.allow_links,
+        },
+    });
+
+    return data;
+};
+
+export const getActiveMute = async (dao_id: string, member_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("chat_mutes")
+        .select()
+        .eq("dao_id", dao_id)
+        .eq("member_id", member_id)
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    if (
+        !data ||
+        (data.muted_until && new Date(data.muted_until) <= new Date())
+    ) {
+        return null;
+    }
+
+    return data;
+};
+
+export const assertCanChat = async (member_id: string, dao_id: string) => {
+    const membership = await getMembership(member_id, dao_id);
+    if (!membership) {
+        throw createError(
+            "Only members of this DAO can chat",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    const mute = await getActiveMute(dao_id, member_id);
+    if (mute) {
+        throw createError(
+            mute.muted_until
+                ? `You are muted in this DAO until ${mute.muted_until}`
+                : "You are muted in this DAO",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    return membership;
+};
+
+export const assertWithinRateLimit = async (
+    member_id: string,
+    dao_id: string
+) => {
+    const { count, error } = await SupabaseService.getSupabase("admin")
+        .from("messages")
+        .select("message_id, proposals!inner(dao_id)", {
+            count: "exact",
+            head: true,
+        })
+        .eq("member_id", member_id)
+        .eq("proposals.dao_id", dao_id)
+        .gte(
+            "created_at",
+            new Date(Date.now() - MESSAGE_RATE_LIMIT_WINDOW_MS).toISOString()
+        );
+
+    if (error) {
+        throw error;
+    }
+
+    if ((count || 0) >= MESSAGE_RATE_LIMIT_COUNT) {
+        throw createError(
+            `Only ${MESSAGE_RATE_LIMIT_COUNT} messages are allowed every ${MESSAGE_RATE_LIMIT_WINDOW_MS / 1000} seconds`,
+            HttpStatusCode.TOO_MANY_REQUESTS
+        );
+    }
+};
+
+export const assertMessageAllowed = async (dao_id: string, message: string) => {
+    const { blocked_words, allow_links } = await getChatSettings(dao_id);
+
+    if (!allow_links && LINK_REGEX.test(message)) {
+        throw createError(
+            "Links are not allowed in this DAO's chat",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const blocked = blocked_words.some((word) =>
+        new RegExp(
+            `(?<![\\p{L}\\p{N}])${escapeRegExp(word)}(?![\\p{L}\\p{N}])`,
+            "iu"
+        ).test(message)
+    );
+    if (blocked) {
+        throw createError(
+            "Message contains a blocked word",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+};
+
+export const muteMember = async (
+    { dao_id, member_id, duration_minutes, reason }: MuteMemberBody,
+    muted_by: string
+) => {
+    const actor = await assertDaoPermission(
+        muted_by,
+        dao_id,
+        DAO_PERMISSIONS.MODERATE_MESSAGES
+    );
+
+    const membership = await getMembership(member_id, dao_id);
+    if (!membership) {
+        throw createError("Membership not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    if (
+        DAO_ROLE_RANKS[membership.role as DAO_ROLES] >=
+        DAO_ROLE_RANKS[actor.role as DAO_ROLES]
+    ) {
+        throw createError(
+            "Cannot mute a member ranked at or above you",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("chat_mutes")
+        .upsert(
+            {
+                dao_id,
+                member_id,
+                muted_by,
+                reason: reason || null,
+                muted_until: duration_minutes
+                    ? new Date(
+                          Date.now() + duration_minutes * 60 * 1000
+                      ).toISOString()
+                    : null,
+                created_at: new Date().toISOString(),
+            },
+            { onConflict: "dao_id,member_id" }
+        )
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    await logModerationAction({
+        dao_id,
+        moderator_id: muted_by,
+        action: MESSAGE_MODERATION_ACTIONS.MUTE_MEMBER,
+        member_id,
+        reason,
+        details: { muted_until: data.muted_until },
+    });
+
+    return data;
+};
+
+export const unmuteMember = async (
+    { dao_id, member_id, reason }: UnmuteMemberBody,
+    unmuted_by: string
+) => {
+    await assertDaoPermission(
+        unmuted_by,
+        dao_id,
+        DAO_PERMISSIONS.MODERATE_MESSAGES
+    );
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("chat_mutes")
+        .delete()
+        .eq("dao_id", dao_id)
+        .eq("member_id", member_id)
+        .select();
+
+    if (error) {
+        throw error;
+    }
+
+    if (!data.length) {
+        throw createError("Member is not muted", HttpStatusCode.NOT_FOUND);
+    }
+
+    await logModerationAction({
+        dao_id,
+        moderator_id: unmuted_by,
+        action: MESSAGE_MODERATION_ACTIONS.UNMUTE_MEMBER,
+        member_id,
+        reason,
+    });
+
+    return data[0];
+};
+
+export const getChatMutes = async (dao_id: string, requested_by: string) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MODERATE_MESSAGES
+    );
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("chat_mutes")
+        .select()
+        .eq("dao_id", dao_id)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        throw error;
+    }
+
+    return data.filter(
+        ({ muted_until }) => !muted_until || new Date(muted_until) > new Date()
+    );
+};
+
+export const getModerationLog = async (
+    { dao_id, limit, offset }: ModerationLogBody,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MODERATE_MESSAGES
+    );
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("message_moderation_log")
+        .select("*, message:messages(*)")
+        .eq("dao_id", dao_id)
+        .order("created_at", { ascending: false })
+        .range(offset!, limit! + offset! - 1);
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
@@ -1,11 +1,64 @@
-import { validateQuery } from "../../middlewares";
 import {
+    validateJwt,
+    validateQuery,
+    validateWalletOwnership,
+} from "../../middlewares";
+import { RealtimeService } from "../../services";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import { getProposal } from "../proposal/proposal.service";
+import {
+    getChatMutes,
+    getChatSettings,
+    getModerationLog,
+    muteMember,
+    unmuteMember,
+    updateChatSettings,
+} from "./message-moderation.service";
+import {
+    chatSettingsParamsSchema,
     createMessageBodySchema,
+    deleteMessageBodySchema,
+    editMessageBodySchema,
+    hideMessageBodySchema,
+    messageEditsParamsSchema,
     messageHistoryBodySchema,
+    messageReactionBodySchema,
+    messageStreamParamsSchema,
+    messageStreamQuerySchema,
+    moderationLogBodySchema,
+    muteMemberBodySchema,
+    typingBodySchema,
+    unmuteMemberBodySchema,
+    updateChatSettingsBodySchema,
+    type ChatSettingsParams,
     type CreateMessageBody,
+    type DeleteMessageBody,
+    type EditMessageBody,
+    type HideMessageBody,
+    type MessageEditsParams,
     type MessageHistoryBody,
+    type MessageReactionBody,
+    type MessageStreamParams,
+    type MessageStreamQuery,
+    type ModerationLogBody,
+    type MuteMemberBody,
+    type TypingBody,
+    type UnmuteMemberBody,
+    type UpdateChatSettingsBody,
 } from "./messages.schema";
-import { createMessage, getMessages } from "./messages.service";
+import {
+    addReaction,
+    createMessage,
+    deleteMessage,
+    editMessage,
+    getMessageEdits,
+    getMessages,
+    hideMessage,
+    removeReaction,
+    setTyping,
+    subscribeToMessages,
+    unhideMessage,
+} from "./messages.service";
 import {
     Router,
     type NextFunction,
@@ -21,13 +74,14 @@ const handleCreateMessage = async (
     next: NextFunction
 ) => {
     try {
-        const { member_id, proposal_id, message } =
+        const { proposal_id, message, reply_to_id } =
             req.body as CreateMessageBody;
 
         const data = await createMessage({
-            member_id,
+            member_id: req.wallet_address!,
             proposal_id,
             message,
+            reply_to_id,
         });
 
         res.json({
@@ -62,9 +116,344 @@ const handleGetMessages = async (
     }
 };
 
+const handleHideMessage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message_id, reason } = req.body as HideMessageBody;
+
+        const data = await hideMessage(
+            { message_id, reason },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleUnhideMessage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message_id, reason } = req.body as HideMessageBody;
+
+        const data = await unhideMessage(
+            { message_id, reason },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleMuteMember = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, member_id, duration_minutes, reason } =
+            req.body as MuteMemberBody;
+
+        const data = await muteMember(
+            { dao_id, member_id, duration_minutes, reason },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleUnmuteMember = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, member_id, reason } = req.body as UnmuteMemberBody;
+
+        const data = await unmuteMember(
+            { dao_id, member_id, reason },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetChatMutes = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.params as ChatSettingsParams;
+
+        const data = await getChatMutes(dao_id, req.wallet_address!);
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetChatSettings = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.params as ChatSettingsParams;
+
+        const data = await getChatSettings(dao_id);
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleUpdateChatSettings = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, blocked_words, allow_links } =
+            req.body as UpdateChatSettingsBody;
+
+        const data = await updateChatSettings(
+            { dao_id, blocked_words, allow_links },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetModerationLog = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, limit, offset } = req.body as ModerationLogBody;
+
+        const data = await getModerationLog(
+            { dao_id, limit, offset },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleEditMessage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message_id, message } = req.body as EditMessageBody;
+
+        const data = await editMessage({
+            member_id: req.wallet_address!,
+            message_id,
+            message,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetMessageEdits = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message_id } = req.params as MessageEditsParams;
+
+        const data = await getMessageEdits(message_id);
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleDeleteMessage = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message_id } = req.body as DeleteMessageBody;
+
+        const data = await deleteMessage({
+            member_id: req.wallet_address!,
+            message_id,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleAddReaction = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message_id, emoji } = req.body as MessageReactionBody;
+
+        const data = await addReaction({
+            member_id: req.wallet_address!,
+            message_id,
+            emoji,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleRemoveReaction = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { message_id, emoji } = req.body as MessageReactionBody;
+
+        const data = await removeReaction({
+            member_id: req.wallet_address!,
+            message_id,
+            emoji,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleMessageStream = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { proposal_id } = req.params as MessageStreamParams;
+        const { last_event_id } = req.query as MessageStreamQuery;
+
+        const proposal = await getProposal(proposal_id);
+        if (!proposal) {
+            throw createError("Proposal not found", HttpStatusCode.NOT_FOUND);
+        }
+
+        const resume_id = req.get("Last-Event-ID") || last_event_id;
+        const last_seq =
+            resume_id && /^\d+$/.test(resume_id) ? Number(resume_id) : null;
+
+        await subscribeToMessages(
+            proposal_id,
+            last_seq,
+            RealtimeService.openEventStream(req, res)
+        );
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleTyping = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { proposal_id, typing } = req.body as TypingBody;
+
+        await setTyping({
+            member_id: req.wallet_address!,
+            proposal_id,
+            typing,
+        });
+
+        res.json({
+            success: true,
+            data: null,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 messagesRouter.post(
     "/create",
+    validateJwt(),
     validateQuery("body", createMessageBodySchema),
+    validateWalletOwnership("body", "member_id"),
     handleCreateMessage
 );
 
@@ -73,3 +462,111 @@ messagesRouter.post(
     validateQuery("body", messageHistoryBodySchema),
     handleGetMessages
 );
+
+messagesRouter.post(
+    "/hide",
+    validateJwt(),
+    validateQuery("body", hideMessageBodySchema),
+    handleHideMessage
+);
+
+messagesRouter.post(
+    "/unhide",
+    validateJwt(),
+    validateQuery("body", hideMessageBodySchema),
+    handleUnhideMessage
+);
+
+messagesRouter.post(
+    "/mute",
+    validateJwt(),
+    validateQuery("body", muteMemberBodySchema),
+    handleMuteMember
+);
+
+messagesRouter.post(
+    "/unmute",
+    validateJwt(),
+    validateQuery("body", unmuteMemberBodySchema),
+    handleUnmuteMember
+);
+
+messagesRouter.get(
+    "/dao/:dao_id/mutes",
+    validateJwt(),
+    validateQuery("params", chatSettingsParamsSchema),
+    handleGetChatMutes
+);
+
+messagesRouter.get(
+    "/dao/:dao_id/settings",
+    validateQuery("params", chatSettingsParamsSchema),
+    handleGetChatSettings
+);
+
+messagesRouter.post(
+    "/settings",
+    validateJwt(),
+    validateQuery("body", updateChatSettingsBodySchema),
+    handleUpdateChatSettings
+);
+
+messagesRouter.post(
+    "/moderation-log",
+    validateJwt(),
+    validateQuery("body", moderationLogBodySchema),
+    handleGetModerationLog
+);
+
+messagesRouter.post(
+    "/edit",
+    validateJwt(),
+    validateQuery("body", editMessageBodySchema),
+    validateWalletOwnership("body", "member_id"),
+    handleEditMessage
+);
+
+messagesRouter.get(
+    "/:message_id/edits",
+    validateQuery("params", messageEditsParamsSchema),
+    handleGetMessageEdits
+);
+
+messagesRouter.post(
+    "/delete",
+    validateJwt(),
+    validateQuery("body", deleteMessageBodySchema),
+    validateWalletOwnership("body", "member_id"),
+    handleDeleteMessage
+);
+
+messagesRouter.post(
+    "/react",
+    validateJwt(),
+    validateQuery("body", messageReactionBodySchema),
+    validateWalletOwnership("body", "member_id"),
+    handleAddReaction
+);
+
+messagesRouter.post(
+    "/unreact",
+    validateJwt(),
+    validateQuery("body", messageReactionBodySchema),
+    validateWalletOwnership("body", "member_id"),
+    handleRemoveReaction
+);
+
+messagesRouter.get(
+    "/:proposal_id/stream",
+    validateQuery("params", messageStreamParamsSchema),
+    validateQuery("query", messageStreamQuerySchema),
+    handleMessageStream
+);
+
+messagesRouter.post(
+    "/typing",
+    validateJwt(),
+    validateQuery("body", typingBodySchema),
+    validateWalletOwnership("body", "member_id"),
+    handleTyping
+);
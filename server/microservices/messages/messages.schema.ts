@@ -1,9 +1,15 @@
+import {
+    MAX_CHAT_BLOCKED_WORDS,
+    MESSAGE_REACTIONS,
+} from "../../utils/constants";
+import { walletAddressSchema } from "../../utils/shared.schema";
 import * as z from "zod";
 
 export const createMessageBodySchema = z.object({
-    member_id: z.string(),
+    member_id: walletAddressSchema,
     proposal_id: z.string().uuid(),
     message: z.string().trim().min(1).max(1000),
+    reply_to_id: z.string().uuid().optional(),
 });
 
 export type CreateMessageBody = z.infer<typeof createMessageBodySchema>;
@@ -15,3 +21,110 @@ export const messageHistoryBodySchema = z.object({
 });
 
 export type MessageHistoryBody = z.infer<typeof messageHistoryBodySchema>;
+
+const moderationReasonSchema = z.string().trim().max(500).optional();
+
+export const hideMessageBodySchema = z.object({
+    message_id: z.string().uuid(),
+    reason: moderationReasonSchema,
+});
+
+export type HideMessageBody = z.infer<typeof hideMessageBodySchema>;
+
+export const editMessageBodySchema = z.object({
+    member_id: walletAddressSchema,
+    message_id: z.string().uuid(),
+    message: z.string().trim().min(1).max(1000),
+});
+
+export type EditMessageBody = z.infer<typeof editMessageBodySchema>;
+
+export const deleteMessageBodySchema = z.object({
+    member_id: walletAddressSchema,
+    message_id: z.string().uuid(),
+});
+
+export type DeleteMessageBody = z.infer<typeof deleteMessageBodySchema>;
+
+export const messageReactionBodySchema = z.object({
+    member_id: walletAddressSchema,
+    message_id: z.string().uuid(),
+    emoji: z.enum(MESSAGE_REACTIONS),
+});
+
+export type MessageReactionBody = z.infer<typeof messageReactionBodySchema>;
+
+export const messageEditsParamsSchema = z.object({
+    message_id: z.string().uuid(),
+});
+
+export type MessageEditsParams = z.infer<typeof messageEditsParamsSchema>;
+
+export const messageStreamParamsSchema = z.object({
+    proposal_id: z.string().uuid(),
+});
+
+export type MessageStreamParams = z.infer<typeof messageStreamParamsSchema>;
+
+export const messageStreamQuerySchema = z.object({
+    last_event_id: z.string().regex(/^\d+$/).optional(),
+});
+
+export type MessageStreamQuery = z.infer<typeof messageStreamQuerySchema>;
+
+export const typingBodySchema = z.object({
+    member_id: walletAddressSchema,
+    proposal_id: z.string().uuid(),
+    typing: z.boolean(),
+});
+
+export type TypingBody = z.infer<typeof typingBodySchema>;
+
+export const muteMemberBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    member_id: walletAddressSchema,
+    duration_minutes: z
+        .number()
+        .int()
+        .min(1)
+        .max(365 * 24 * 60)
+        .optional(),
+    reason: moderationReasonSchema,
+});
+
+export type MuteMemberBody = z.infer<typeof muteMemberBodySchema>;
+
+export const unmuteMemberBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    member_id: walletAddressSchema,
+    reason: moderationReasonSchema,
+});
+
+export type UnmuteMemberBody = z.infer<typeof unmuteMemberBodySchema>;
+
+export const chatSettingsParamsSchema = z.object({
+    dao_id: z.string().uuid(),
+});
+
+export type ChatSettingsParams = z.infer<typeof chatSettingsParamsSchema>;
+
+export const updateChatSettingsBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    blocked_words: z
+        .array(z.string().trim().min(1).max(50))
+        .max(MAX_CHAT_BLOCKED_WORDS)
+        .optional(),
+    allow_links: z.boolean().optional(),
+});
+
+export type UpdateChatSettingsBody = z.infer<
+    typeof updateChatSettingsBodySchema
+>;
+
+export const moderationLogBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    limit: z.coerce.number().min(1).max(100).optional().default(50),
+    offset: z.coerce.number().min(0).optional().default(0),
+});
+
+export type ModerationLogBody = z.infer<typeof moderationLogBodySchema>;
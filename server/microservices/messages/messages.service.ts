@@ -1,17 +1,241 @@
-import { SupabaseService } from "../../services";
-import type { CreateMessageBody, MessageHistoryBody } from "./messages.schema";
+import {
+    RealtimeService,
+    SupabaseService,
+    type EventStream,
+    type RealtimeEvent,
+} from "../../services";
+import {
+    DAO_PERMISSIONS,
+    MAX_MESSAGE_MENTIONS,
+    MESSAGE_MODERATION_ACTIONS,
+    MESSAGE_STREAM_BACKLOG_LIMIT,
+    MESSAGE_TYPING_TTL_MS,
+    NOTIFICATION_TYPES,
+    SUPABASE_0_ROWS_ERROR_CODE,
+} from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import type { Tables } from "../../utils/types/database.types";
+import {
+    assertDaoPermission,
+    getDaoMemberships,
+} from "../membership/membership.service";
+import {
+    notify,
+    type NotificationInsert,
+} from "../notifications/notifications.service";
+import { getProposal } from "../proposal/proposal.service";
+import {
+    assertCanChat,
+    assertMessageAllowed,
+    assertWithinRateLimit,
+    logModerationAction,
+} from "./message-moderation.service";
+import type {
+    CreateMessageBody,
+    DeleteMessageBody,
+    EditMessageBody,
+    HideMessageBody,
+    MessageHistoryBody,
+    MessageReactionBody,
+    TypingBody,
+} from "./messages.schema";
+import { clearTimeout, setTimeout } from "timers";
+
+const typingMembers = new Map<
+    string,
+    Map<string, ReturnType<typeof setTimeout>>
+>();
+
+export interface MessageReaction {
+    emoji: string;
+    member_ids: string[];
+}
+
+export type ChatMessage = Tables<"messages"> & {
+    reactions: MessageReaction[];
+};
+
+const getMessageChannel = (proposal_id: string) => `messages:${proposal_id}`;
+
+const getTypingChannel = (proposal_id: string) => `typing:${proposal_id}`;
+
+const MENTION_PATTERN = /@(0x[a-fA-F0-9]{40})\b/g;
+
+const toChatMessages = async (
+    messages: Tables<"messages">[]
+): Promise<ChatMessage[]> => {
+    if (!messages.length) {
+        return [];
+    }
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("message_reactions")
+        .select()
+        .in(
+            "message_id",
+            messages.map(({ message_id }) => message_id)
+        )
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return messages.map((message) => {
+        const reactions: MessageReaction[] = [];
+        data.filter(
+            ({ message_id }) => message_id === message.message_id
+        ).forEach(({ emoji, member_id }) => {
+            const reaction = reactions.find(
+                (reaction) => reaction.emoji === emoji
+            );
+            if (reaction) {
+                reaction.member_ids.push(member_id);
+            } else {
+                reactions.push({ emoji, member_ids: [member_id] });
+            }
+        });
+
+        return {
+            ...message,
+            message: message.deleted_at ? "" : message.message,
+            reactions,
+        };
+    });
+};
+
+const getProposalDaoId = async (proposal_id: string) => {
+    const proposal = await getProposal(proposal_id);
+    if (!proposal) {
+        throw createError("Proposal not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    return proposal.dao_id;
+};
+
+const publishMessageUpdate = async (message_id: string) => {
+    const message = await getMessage(message_id);
+    if (!message || message.hidden_at) {
+        return;
+    }
+
+    const [data] = await toChatMessages([message]);
+    RealtimeService.publish(getMessageChannel(message.proposal_id), {
+        event: "message_updated",
+        data,
+    });
+
+    return data;
+};
+
+const getTypingMemberIds = (proposal_id: string) => [
+    ...(typingMembers.get(proposal_id)?.keys() || []),
+];
+
+const publishTyping = (proposal_id: string) =>
+    RealtimeService.publishLocal(getMessageChannel(proposal_id), {
+        event: "typing",
+        data: { member_ids: getTypingMemberIds(proposal_id) },
+    });
+
+const notifyMessageRecipients = async (
+    message: Tables<"messages">,
+    dao_id: string,
+    replyTo: Tables<"messages"> | null
+) => {
+    const author = message.member_id.toLowerCase();
+    const mentioned = [
+        ...new Set(
+            [...message.message.matchAll(MENTION_PATTERN)].map(([, address]) =>
+                address.toLowerCase()
+            )
+        ),
+    ]
+        .filter((address) => address !== author)
+        .slice(0, MAX_MESSAGE_MENTIONS);
+    const repliedTo =
+        replyTo && replyTo.member_id.toLowerCase() !== author
+            ? replyTo.member_id
+            : null;
+
+    if (!mentioned.length && !repliedTo) {
+        return;
+    }
+
+    try {
+        const proposal = await getProposal(message.proposal_id);
+        if (!proposal) {
+            return;
+        }
+
+        const memberships = mentioned.length
+            ? await getDaoMemberships(dao_id)
+            : [];
+
+        const notification = {
+            body: message.message.slice(0, 200),
+            dao_id,
+            proposal_id: message.proposal_id,
+            message_id: message.message_id,
+        };
+        const notifications: NotificationInsert[] = memberships
+            .filter(({ member_id }) =>
+                mentioned.includes(member_id.toLowerCase())
+            )
+            .map(({ member_id }) => ({
+                ...notification,
+                member_id,
+                type: NOTIFICATION_TYPES.MENTION,
+                title: `You were mentioned in ${proposal.title}`,
+            }));
+
+        if (
+            repliedTo &&
+            !notifications.some(
+                ({ member_id }) =>
+                    member_id.toLowerCase() === repliedTo.toLowerCase()
+            )
+        ) {
+            notifications.push({
+                ...notification,
+                member_id: repliedTo,
+                type: NOTIFICATION_TYPES.REPLY,
+                title: `New reply in ${proposal.title}`,
+            });
+        }
+
+        await notify(notifications);
+    } catch (error) {
+        console.error("Failed to notify message recipients:", error);
+    }
+};
 
 export const createMessage = async ({
     member_id,
     proposal_id,
     message,
+    reply_to_id,
 }: CreateMessageBody) => {
+    const dao_id = await getProposalDaoId(proposal_id);
+    await assertCanChat(member_id, dao_id);
+    await assertMessageAllowed(dao_id, message);
+    await assertWithinRateLimit(member_id, dao_id);
+
+    const replyTo = reply_to_id ? await getActiveMessage(reply_to_id) : null;
+    if (replyTo && replyTo.proposal_id !== proposal_id) {
+        throw createError(
+            "Replies must be in the same proposal",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
     const { data, error } = await SupabaseService.getSupabase("admin")
         .from("messages")
         .insert({
             member_id,
             proposal_id,
             message,
+            reply_to_id,
         })
         .select()
         .single();
@@ -20,7 +244,18 @@ export const createMessage = async ({
         throw error;
     }
 
-    return data;
+    const [chatMessage] = await toChatMessages([data]);
+
+    relayTyping({ member_id, proposal_id, typing: false });
+    RealtimeService.publish(getMessageChannel(proposal_id), {
+        id: data.seq.toString(),
+        event: "message",
+        data: chatMessage,
+    });
+
+    await notifyMessageRecipients(data, dao_id, replyTo);
+
+    return chatMessage;
 };
 
 export const getMessages = async ({
@@ -32,6 +267,7 @@ export const getMessages = async ({
         .from("messages")
         .select()
         .eq("proposal_id", proposal_id)
+        .is("hidden_at", null)
         .order("created_at", { ascending: false })
         .range(offset!, limit! + offset!)
         .limit(limit!);
@@ -40,5 +276,405 @@ export const getMessages = async ({
         throw error;
     }
 
+    return toChatMessages(data);
+};
+
+export const getMessagesAfter = async (
+    proposal_id: string,
+    seq: number,
+    limit: number
+) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("messages")
+        .select()
+        .eq("proposal_id", proposal_id)
+        .is("hidden_at", null)
+        .gt("seq", seq)
+        .order("seq", { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        throw error;
+    }
+
+    return toChatMessages(data);
+};
+
+export const getMessage = async (message_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("messages")
+        .select()
+        .eq("message_id", message_id)
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
     return data;
 };
+
+const getActiveMessage = async (message_id: string) => {
+    const message = await getMessage(message_id);
+    if (!message || message.hidden_at || message.deleted_at) {
+        throw createError("Message not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    return message;
+};
+
+const getAuthoredMessage = async (message_id: string, member_id: string) => {
+    const message = await getActiveMessage(message_id);
+    if (message.member_id.toLowerCase() !== member_id.toLowerCase()) {
+        throw createError(
+            "Only the author can change this message",
+            HttpStatusCode.FORBIDDEN
+        );
+    }
+
+    return message;
+};
+
+export const editMessage = async ({
+    member_id,
+    message_id,
+    message,
+}: EditMessageBody) => {
+    const current = await getAuthoredMessage(message_id, member_id);
+    if (current.message === message) {
+        const [data] = await toChatMessages([current]);
+        return data;
+    }
+
+    const dao_id = await getProposalDaoId(current.proposal_id);
+    await assertCanChat(member_id, dao_id);
+    await assertMessageAllowed(dao_id, message);
+
+    const edited_at = new Date().toISOString();
+
+    const { error: editError } = await SupabaseService.getSupabase("admin")
+        .from("message_edits")
+        .insert({
+            message_id,
+            message: current.message,
+            edited_at,
+        });
+
+    if (editError) {
+        throw editError;
+    }
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("messages")
+        .update({
+            message,
+            edited_at,
+        })
+        .eq("message_id", message_id);
+
+    if (error) {
+        throw error;
+    }
+
+    return publishMessageUpdate(message_id);
+};
+
+export const getMessageEdits = async (message_id: string) => {
+    await getActiveMessage(message_id);
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("message_edits")
+        .select()
+        .eq("message_id", message_id)
+        .order("edited_at", { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const deleteMessage = async ({
+    member_id,
+    message_id,
+}: DeleteMessageBody) => {
+    await getAuthoredMessage(message_id, member_id);
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("messages")
+        .update({
+            deleted_at: new Date().toISOString(),
+        })
+        .eq("message_id", message_id);
+
+    if (error) {
+        throw error;
+    }
+
+    return publishMessageUpdate(message_id);
+};
+
+export const addReaction = async ({
+    member_id,
+    message_id,
+    emoji,
+}: MessageReactionBody) => {
+    const message = await getActiveMessage(message_id);
+    await assertCanChat(member_id, await getProposalDaoId(message.proposal_id));
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("message_reactions")
+        .upsert(
+            {
+                message_id,
+                member_id,
+                emoji,
+            },
+            {
+                onConflict: "message_id,member_id,emoji",
+                ignoreDuplicates: true,
+            }
+        );
+
+    if (error) {
+        throw error;
+    }
+
+    return publishMessageUpdate(message_id);
+};
+
+export const removeReaction = async ({
+    member_id,
+    message_id,
+    emoji,
+}: MessageReactionBody) => {
+    const message = await getActiveMessage(message_id);
+    await assertCanChat(member_id, await getProposalDaoId(message.proposal_id));
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("message_reactions")
+        .delete()
+        .eq("message_id", message_id)
+        .eq("member_id", member_id)
+        .eq("emoji", emoji);
+
+    if (error) {
+        throw error;
+    }
+
+    return publishMessageUpdate(message_id);
+};
+
+const getModeratedMessage = async (
+    message_id: string,
+    moderator_id: string
+) => {
+    const message = await getMessage(message_id);
+    if (!message) {
+        throw createError("Message not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const dao_id = await getProposalDaoId(message.proposal_id);
+    await assertDaoPermission(
+        moderator_id,
+        dao_id,
+        DAO_PERMISSIONS.MODERATE_MESSAGES
+    );
+
+    return { message, dao_id };
+};
+
+export const hideMessage = async (
+    { message_id, reason }: HideMessageBody,
+    hidden_by: string
+) => {
+    const { message, dao_id } = await getModeratedMessage(
+        message_id,
+        hidden_by
+    );
+    if (message.hidden_at) {
+        throw createError("Message is already hidden", HttpStatusCode.CONFLICT);
+    }
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("messages")
+        .update({
+            hidden_at: new Date().toISOString(),
+            hidden_by,
+        })
+        .eq("message_id", message_id)
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    await logModerationAction({
+        dao_id,
+        moderator_id: hidden_by,
+        action: MESSAGE_MODERATION_ACTIONS.HIDE_MESSAGE,
+        message_id,
+        member_id: message.member_id,
+        reason,
+    });
+
+    RealtimeService.publish(getMessageChannel(message.proposal_id), {
+        event: "message_hidden",
+        data: { message_id },
+    });
+
+    return data;
+};
+
+export const unhideMessage = async (
+    { message_id, reason }: HideMessageBody,
+    unhidden_by: string
+) => {
+    const { message, dao_id } = await getModeratedMessage(
+        message_id,
+        unhidden_by
+    );
+    if (!message.hidden_at) {
+        throw createError("Message is not hidden", HttpStatusCode.CONFLICT);
+    }
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("messages")
+        .update({
+            hidden_at: null,
+            hidden_by: null,
+        })
+        .eq("message_id", message_id);
+
+    if (error) {
+        throw error;
+    }
+
+    await logModerationAction({
+        dao_id,
+        moderator_id: unhidden_by,
+        action: MESSAGE_MODERATION_ACTIONS.UNHIDE_MESSAGE,
+        message_id,
+        member_id: message.member_id,
+        reason,
+    });
+
+    return publishMessageUpdate(message_id);
+};
+
+const applyTyping = ({ member_id, proposal_id, typing }: TypingBody) => {
+    const members =
+        typingMembers.get(proposal_id) ||
+        new Map<string, ReturnType<typeof setTimeout>>();
+    const wasTyping = members.has(member_id);
+
+    clearTimeout(members.get(member_id));
+    if (typing) {
+        members.set(
+            member_id,
+            setTimeout(
+                () => applyTyping({ member_id, proposal_id, typing: false }),
+                MESSAGE_TYPING_TTL_MS
+            )
+        );
+    } else {
+        members.delete(member_id);
+    }
+
+    if (members.size) {
+        typingMembers.set(proposal_id, members);
+    } else {
+        typingMembers.delete(proposal_id);
+    }
+
+    if (typing !== wasTyping) {
+        publishTyping(proposal_id);
+    }
+};
+
+const relayTyping = (typing: TypingBody) =>
+    RealtimeService.publish(getTypingChannel(typing.proposal_id), {
+        event: "typing",
+        data: typing,
+    });
+
+export const setTyping = async ({
+    member_id,
+    proposal_id,
+    typing,
+}: TypingBody) => {
+    await assertCanChat(member_id, await getProposalDaoId(proposal_id));
+
+    relayTyping({ member_id, proposal_id, typing });
+};
+
+// * INFO: subscribes before reading the backlog so nothing falls in between, live events the backlog already sent are dropped by seq
+export const subscribeToMessages = async (
+    proposal_id: string,
+    last_seq: number | null,
+    stream: EventStream
+) => {
+    let pending: RealtimeEvent[] | null = [];
+    let sent_seq = last_seq || 0;
+
+    const send = (event: RealtimeEvent) => {
+        if (event.id) {
+            if (Number(event.id) <= sent_seq) {
+                return;
+            }
+
+            sent_seq = Number(event.id);
+        }
+
+        stream.send(event);
+    };
+
+    const unsubscribe = RealtimeService.subscribe(
+        getMessageChannel(proposal_id),
+        (event) => (pending ? pending.push(event) : send(event))
+    );
+    const unsubscribeTyping = RealtimeService.subscribe(
+        getTypingChannel(proposal_id),
+        ({ event, data }) =>
+            event === "typing" && applyTyping(data as TypingBody)
+    );
+    stream.onClose(() => {
+        unsubscribe();
+        unsubscribeTyping();
+    });
+
+    stream.send({
+        event: "typing",
+        data: { member_ids: getTypingMemberIds(proposal_id) },
+    });
+
+    try {
+        if (last_seq !== null) {
+            const backlog = await getMessagesAfter(
+                proposal_id,
+                last_seq,
+                MESSAGE_STREAM_BACKLOG_LIMIT + 1
+            );
+
+            if (backlog.length > MESSAGE_STREAM_BACKLOG_LIMIT) {
+                stream.send({ event: "reset", data: {} });
+            } else {
+                backlog.forEach((message) =>
+                    send({
+                        id: message.seq.toString(),
+                        event: "message",
+                        data: message,
+                    })
+                );
+            }
+        }
+
+        pending.forEach(send);
+        pending = null;
+    } catch (error) {
+        console.error(`Message stream for ${proposal_id} failed:`, error);
+        stream.close();
+    }
+};
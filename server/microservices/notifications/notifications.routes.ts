@@ -0,0 +1,96 @@
+import { validateJwt, validateQuery } from "../../middlewares";
+import {
+    getNotificationsQuerySchema,
+    markNotificationsReadBodySchema,
+    type GetNotificationsQuery,
+    type MarkNotificationsReadBody,
+} from "./notifications.schema";
+import {
+    countUnreadNotifications,
+    getNotifications,
+    markNotificationsRead,
+} from "./notifications.service";
+import {
+    Router,
+    type NextFunction,
+    type Request,
+    type Response,
+} from "express";
+
+export const notificationsRouter = Router();
+
+const handleGetNotifications = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const data = await getNotifications(
+            req.wallet_address!,
+            req.query as unknown as GetNotificationsQuery
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetUnreadCount = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const unread_count = await countUnreadNotifications(
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data: { unread_count },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleMarkNotificationsRead = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { notification_ids } = req.body as MarkNotificationsReadBody;
+
+        const data = await markNotificationsRead(req.wallet_address!, {
+            notification_ids,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+notificationsRouter.get(
+    "/",
+    validateJwt(),
+    validateQuery("query", getNotificationsQuerySchema),
+    handleGetNotifications
+);
+
+notificationsRouter.get("/unread-count", validateJwt(), handleGetUnreadCount);
+
+notificationsRouter.post(
+    "/read",
+    validateJwt(),
+    validateQuery("body", markNotificationsReadBodySchema),
+    handleMarkNotificationsRead
+);
@@ -0,0 +1,20 @@
+import * as z from "zod";
+
+export const getNotificationsQuerySchema = z.object({
+    unread_only: z
+        .enum(["true", "false"])
+        .transform((unread_only) => unread_only === "true")
+        .optional(),
+    limit: z.coerce.number().int().min(1).max(100).optional(),
+    offset: z.coerce.number().int().min(0).optional(),
+});
+
+export type GetNotificationsQuery = z.infer<typeof getNotificationsQuerySchema>;
+
+export const markNotificationsReadBodySchema = z.object({
+    notification_ids: z.array(z.string().uuid()).min(1).max(100).optional(),
+});
+
+export type MarkNotificationsReadBody = z.infer<
+    typeof markNotificationsReadBodySchema
+>;
@@ -0,0 +1,110 @@
+import { SupabaseService } from "../../services";
+import type { TablesInsert } from "../../utils/types/database.types";
+import { getDaoMemberships } from "../membership/membership.service";
+import type {
+    GetNotificationsQuery,
+    MarkNotificationsReadBody,
+} from "./notifications.schema";
+
+export type NotificationInsert = TablesInsert<"notifications">;
+
+export const notify = async (notifications: NotificationInsert[]) => {
+    if (!notifications.length) {
+        return;
+    }
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("notifications")
+        .insert(notifications);
+
+    if (error) {
+        console.error("Failed to create notifications:", error);
+    }
+};
+
+export const notifyDaoMembers = async (
+    dao_id: string,
+    notification: Omit<NotificationInsert, "member_id" | "dao_id">,
+    excluded_member_id?: string
+) => {
+    try {
+        const memberships = await getDaoMemberships(dao_id);
+
+        await notify(
+            memberships
+                .filter(
+                    ({ member_id }) =>
+                        member_id.toLowerCase() !==
+                        excluded_member_id?.toLowerCase()
+                )
+                .map(({ member_id }) => ({
+                    ...notification,
+                    member_id,
+                    dao_id,
+                }))
+        );
+    } catch (error) {
+        console.error("Failed to notify DAO members:", error);
+    }
+};
+
+export const getNotifications = async (
+    member_id: string,
+    { unread_only, limit = 20, offset = 0 }: GetNotificationsQuery
+) => {
+    let query = SupabaseService.getSupabase("admin")
+        .from("notifications")
+        .select()
+        .eq("member_id", member_id);
+
+    if (unread_only) {
+        query = query.is("read_at", null);
+    }
+
+    const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const countUnreadNotifications = async (member_id: string) => {
+    const { count, error } = await SupabaseService.getSupabase("admin")
+        .from("notifications")
+        .select("*", { count: "exact", head: true })
+        .eq("member_id", member_id)
+        .is("read_at", null);
+
+    if (error) {
+        throw error;
+    }
+
+    return count ?? 0;
+};
+
+export const markNotificationsRead = async (
+    member_id: string,
+    { notification_ids }: MarkNotificationsReadBody
+) => {
+    let query = SupabaseService.getSupabase("admin")
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("member_id", member_id)
+        .is("read_at", null);
+
+    if (notification_ids) {
+        query = query.in("notification_id", notification_ids);
+    }
+
+    const { data, error } = await query.select();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
@@ -1,4 +1,7 @@
-import { validateQuery } from "../../middlewares";
+import { validateJwt, validateQuery } from "../../middlewares";
+import { DAO_PERMISSIONS } from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import { assertDaoPermission } from "../membership/membership.service";
 import {
     concludeProposalBodySchema,
     createProposalBodySchema,
@@ -10,8 +13,10 @@ import {
 import {
     concludeProposal,
     createProposal,
+    getProposal,
     getProposalWithVotes,
 } from "./proposal.service";
+import { getProposalSnapshot, getSnapshotBalances } from "./snapshot.service";
 import {
     Router,
     type NextFunction,
@@ -34,16 +39,23 @@ const handleCreateProposal = async (
             voting_start,
             feedback_end,
             title,
+            voting_method,
+            options,
         } = req.body as CreateProposalBody;
 
-        const data = await createProposal({
-            voting_end: deadline,
-            dao_id,
-            description,
-            voting_start,
-            title,
-            feedback_end,
-        });
+        const data = await createProposal(
+            {
+                voting_end: deadline,
+                dao_id,
+                description,
+                voting_start,
+                title,
+                feedback_end,
+                voting_method,
+                options,
+            },
+            req.wallet_address!
+        );
 
         res.json({
             success: true,
@@ -62,6 +74,17 @@ const handleConcludeProposal = async (
     try {
         const { proposal_id, is_feedback } = req.body as ConcludeProposalBody;
 
+        const proposal = await getProposal(proposal_id);
+        if (!proposal) {
+            throw createError("Proposal not found", HttpStatusCode.NOT_FOUND);
+        }
+
+        await assertDaoPermission(
+            req.wallet_address!,
+            proposal.dao_id,
+            DAO_PERMISSIONS.CONCLUDE_PROPOSAL
+        );
+
         const data = await concludeProposal(proposal_id, is_feedback);
 
         res.json({
@@ -92,19 +115,58 @@ const handleGetProposalWithVotes = async (
     }
 };
 
+const handleGetProposalSnapshot = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { proposal_id } = req.params as GetProposalParams;
+
+        const proposal = await getProposal(proposal_id);
+        if (!proposal) {
+            throw createError("Proposal not found", HttpStatusCode.NOT_FOUND);
+        }
+
+        const snapshot = await getProposalSnapshot(proposal_id);
+        if (!snapshot) {
+            throw createError(
+                "Snapshot has not been taken yet",
+                HttpStatusCode.NOT_FOUND
+            );
+        }
+
+        const balances = await getSnapshotBalances(proposal_id);
+
+        res.json({
+            success: true,
+            data: { ...snapshot, balances },
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
 proposalRouter.post(
     "/create",
-    // validateJwt(),
+    validateJwt(),
     validateQuery("body", createProposalBodySchema),
     handleCreateProposal
 );
 
 proposalRouter.post(
     "/conclude",
+    validateJwt(),
     validateQuery("body", concludeProposalBodySchema),
     handleConcludeProposal
 );
 
+proposalRouter.get(
+    "/:proposal_id/snapshot",
+    validateQuery("params", getProposalParamsSchema),
+    handleGetProposalSnapshot
+);
+
 proposalRouter.get(
     "/:proposal_id",
     validateQuery("params", getProposalParamsSchema),
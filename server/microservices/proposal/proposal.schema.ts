@@ -1,14 +1,40 @@
+import { MAX_PROPOSAL_OPTIONS, VOTING_METHODS } from "../../utils/constants";
 import * as z from "zod";
 
 export const createProposalBodySchema = z
     .object({
         title: z.string().trim(),
         description: z.string().trim(),
-        dao_id: z.string().uuid().optional(),
+        dao_id: z.string().uuid(),
         voting_start: z.string().datetime(),
         voting_end: z.string().datetime(),
         feedback_end: z.string().datetime(),
+        voting_method: z.nativeEnum(VOTING_METHODS).optional(),
+        options: z
+            .array(z.string().trim().min(1).max(200))
+            .max(MAX_PROPOSAL_OPTIONS)
+            .optional(),
     })
+    .refine(
+        (data) =>
+            !data.voting_method || data.voting_method === VOTING_METHODS.BINARY
+                ? !data.options?.length
+                : (data.options?.length ?? 0) >= 2,
+        {
+            message:
+                "Binary proposals take no options, other voting methods need at least 2",
+            path: ["options"],
+        }
+    )
+    .refine(
+        (data) =>
+            new Set(data.options?.map((option) => option.toLowerCase()))
+                .size === (data.options?.length ?? 0),
+        {
+            message: "Options must be unique",
+            path: ["options"],
+        }
+    )
     .refine(
         (data) => {
             const votingStart = new Date(data.voting_start);
@@ -57,8 +83,3 @@ export const getProposalParamsSchema = z.object({
 });
 
 export type GetProposalParams = z.infer<typeof getProposalParamsSchema>;
-
-export interface MeritDistribution {
-    address: string;
-    amount: string;
-}
@@ -0,0 +1,193 @@
+import { LocalService } from "../../services";
+import { useLocalMode } from "../../test/local";
+import {
+    DAO_ROLES,
+    HOUSES,
+    PROPOSAL_OUTCOMES,
+    VOTE_TYPES,
+    VOTING_METHODS,
+} from "../../utils/constants";
+import { castVote } from "../vote/vote.service";
+import { concludeProposal } from "./proposal.service";
+import { randomUUID } from "crypto";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+
+const local = useLocalMode();
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const dao_id = randomUUID();
+const proposal_id = randomUUID();
+const [alice, bob, carol] = [
+    "0x00000000000000000000000000000000000a11ce",
+    "0x0000000000000000000000000000000000000b0b",
+    "0x00000000000000000000000000000000000ca201",
+];
+
+const voteYes = (wallet_address: string) =>
+    castVote({
+        proposal_id,
+        wallet_address,
+        vote: VOTE_TYPES.YES,
+        is_feedback: false,
+    });
+
+const voteNo = (wallet_address: string) =>
+    castVote({
+        proposal_id,
+        wallet_address,
+        vote: VOTE_TYPES.NO,
+        is_feedback: false,
+    });
+
+const closeVoting = () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2 * HOUR_MS);
+};
+
+describe("voting and tally", () => {
+    beforeEach(() => {
+        const now = Date.now();
+        const joined_at = new Date(now - 24 * HOUR_MS).toISOString();
+
+        local.supabase.seed("daos", [
+            {
+                dao_id,
+                name: "Local DAO",
+                description: "",
+                email_subfix: "",
+                logo: "",
+                owner_address: alice,
+                socials: [],
+                tags: null,
+                tokens: [],
+                created_at: joined_at,
+            },
+        ]);
+        // * INFO: the DAO has no tokens, so weights come from reputation alone: 40, 20 and 12
+        for (const [member_id, reputation] of [
+            [alice, 100],
+            [bob, 50],
+            [carol, 30],
+        ] as const) {
+            local.supabase.seed("members", [
+                { member_id, created_at: joined_at },
+            ]);
+            local.supabase.seed("memberships", [
+                {
+                    dao_id,
+                    member_id,
+                    reputation,
+                    house: HOUSES.HOUSE_1,
+                    role: DAO_ROLES.MEMBER,
+                    delegate_id: null,
+                    delegated_at: null,
+                    github_username: null,
+                    created_at: joined_at,
+                },
+            ]);
+        }
+        local.supabase.seed("proposals", [
+            {
+                proposal_id,
+                dao_id,
+                title: "Fund the local node",
+                description: "",
+                akave_url: "",
+                options: [],
+                voting_method: VOTING_METHODS.BINARY,
+                voting_house: HOUSES.HOUSE_1,
+                voting_start: new Date(now - HOUR_MS).toISOString(),
+                voting_end: new Date(now + HOUR_MS).toISOString(),
+                feedback_end: new Date(now + 48 * HOUR_MS).toISOString(),
+                voting_start_announced_at: null,
+                conclusion: null,
+                conclusion_attempts: 0,
+                conclusion_next_attempt_at: null,
+                feedback_conclusion: null,
+                feedback_conclusion_attempts: 0,
+                feedback_conclusion_next_attempt_at: null,
+                feedback_tally: null,
+                tally: null,
+                winning_option: null,
+                created_at: joined_at,
+            },
+        ]);
+    });
+
+    it("tallies weighted votes with delegations and stores the result in Akave", async () => {
+        local.supabase
+            .getRows("memberships")
+            .find(({ member_id }) => member_id === carol)!.delegate_id = alice;
+
+        expect(await voteYes(alice)).toMatchObject({ weight: 40 });
+        expect(await voteNo(bob)).toMatchObject({ weight: 20 });
+        expect(local.supabase.rows("proposal_snapshots")).toHaveLength(1);
+
+        closeVoting();
+        expect(await concludeProposal(proposal_id, false)).toMatchObject({
+            conclusion: PROPOSAL_OUTCOMES.YES,
+            tally: {
+                weighted_yes: 52,
+                weighted_no: 20,
+                delegated_weight: 12,
+                voters: 2,
+                delegators: 1,
+                eligible_members: 3,
+                participation_percentage: 100,
+            },
+        });
+        await vi.waitFor(() =>
+            expect(
+                JSON.parse(
+                    LocalService.getState().objects[
+                        `eth-prague-proposal-storage/proposal::${proposal_id}.json`
+                    ]
+                )
+            ).toMatchObject({ proposal_id, conclusion: PROPOSAL_OUTCOMES.YES })
+        );
+    });
+
+    it("counts a delegator who voted with their own ballot only", async () => {
+        local.supabase
+            .getRows("memberships")
+            .find(({ member_id }) => member_id === carol)!.delegate_id = alice;
+
+        await voteYes(alice);
+        await voteNo(bob);
+        await voteNo(carol);
+
+        closeVoting();
+        expect(await concludeProposal(proposal_id, false)).toMatchObject({
+            conclusion: PROPOSAL_OUTCOMES.YES,
+            tally: {
+                weighted_yes: 40,
+                weighted_no: 32,
+                delegated_weight: 0,
+                voters: 3,
+                delegators: 0,
+            },
+        });
+    });
+
+    it("rejects votes after voting ends and a second conclusion", async () => {
+        await voteNo(bob);
+
+        closeVoting();
+        await expect(voteYes(alice)).rejects.toMatchObject({
+            message: "Voting has ended",
+            errorCode: 400,
+        });
+
+        expect(await concludeProposal(proposal_id, false)).toMatchObject({
+            conclusion: PROPOSAL_OUTCOMES.NO,
+        });
+
+        await expect(
+            concludeProposal(proposal_id, false)
+        ).rejects.toMatchObject({
+            message: "Proposal has already been concluded",
+            errorCode: 400,
+        });
+    });
+});
@@ -1,14 +1,16 @@
-import {
-    AkaveService,
-    BlockscoutService,
-    SupabaseService,
-} from "../../services";
+import { AkaveService, SupabaseService } from "../../services";
 import {
     CORRECT_VOTE_REPUTATION_CHANGE,
+    DAO_PERMISSIONS,
     INCORRECT_VOTE_REPUTATION_CHANGE,
     MERITS_PER_PROPOSAL,
+    NOTIFICATION_TYPES,
+    PROPOSAL_OUTCOMES,
+    REPUTATION_REASONS,
     SUPABASE_0_ROWS_ERROR_CODE,
     VOTE_TYPES,
+    VOTING_METHODS,
+    WEBHOOK_EVENTS,
     type HOUSES,
 } from "../../utils/constants";
 import {
@@ -16,18 +18,47 @@ import {
     HttpStatusCode,
     randomVotingHouse,
 } from "../../utils/functions";
-import { changeReputation } from "../membership/membership.service";
+import type { Tables } from "../../utils/types/database.types";
+import { getDao } from "../dao/dao.service";
+import { getGovernanceConfig } from "../governance/governance.service";
+import {
+    assertDaoPermission,
+    countMemberships,
+    getDaoMemberships,
+} from "../membership/membership.service";
+import type { MeritDistribution } from "../merits/merits.schema";
+import {
+    getMeritDistribution,
+    getMeritDistributionRecord,
+} from "../merits/merits.service";
+import { notifyDaoMembers } from "../notifications/notifications.service";
 import { getVotesForProposal } from "../vote/vote.service";
-import type { CreateProposalBody, MeritDistribution } from "./proposal.schema";
-
-export const createProposal = async ({
-    title,
-    description,
-    dao_id,
-    voting_end,
-    voting_start,
-    feedback_end,
-}: CreateProposalBody) => {
+import { emitWebhookEvent } from "../webhooks/webhook-delivery.service";
+import type { CreateProposalBody } from "./proposal.schema";
+import {
+    calculateSnapshotVoteWeight,
+    isSnapshotEligible,
+} from "./snapshot.service";
+
+export const createProposal = async (
+    {
+        title,
+        description,
+        dao_id,
+        voting_end,
+        voting_start,
+        feedback_end,
+        voting_method,
+        options,
+    }: CreateProposalBody,
+    created_by: string
+) => {
+    await assertDaoPermission(
+        created_by,
+        dao_id,
+        DAO_PERMISSIONS.CREATE_PROPOSAL
+    );
+
     const { data, error } = await SupabaseService.getSupabase("admin")
         .from("proposals")
         .insert({
@@ -38,6 +69,8 @@ export const createProposal = async ({
             voting_end,
             feedback_end,
             voting_house: randomVotingHouse(),
+            voting_method: voting_method ?? VOTING_METHODS.BINARY,
+            options: options ?? [],
         })
         .select()
         .single();
@@ -60,10 +93,25 @@ export const createProposal = async ({
         .select()
         .single();
 
-    return {
+    await notifyDaoMembers(
+        dao_id,
+        {
+            type: NOTIFICATION_TYPES.NEW_PROPOSAL,
+            title: `New proposal: ${data.title}`,
+            body: `Voting opens ${new Date(data.voting_start).toUTCString()}`,
+            proposal_id: data.proposal_id,
+        },
+        created_by
+    );
+
+    const proposal = {
         ...data,
         akave_url: akaveUrl,
     };
+
+    await emitWebhookEvent(dao_id, WEBHOOK_EVENTS.PROPOSAL_CREATED, proposal);
+
+    return proposal;
 };
 
 export const getProposal = async (proposal_id: string) => {
@@ -99,6 +147,259 @@ export const getProposalWithVotes = async (proposal_id: string) => {
     return data;
 };
 
+interface OptionBallot {
+    selections: number[];
+    weight: number;
+}
+
+const getLeadingOption = (option_weights: number[], candidates: number[]) => {
+    const maxWeight = Math.max(
+        ...candidates.map((option) => option_weights[option])
+    );
+    const leaders = candidates.filter(
+        (option) => option_weights[option] === maxWeight
+    );
+
+    return maxWeight > 0 && leaders.length === 1 ? leaders[0] : null;
+};
+
+const tallyRankedChoice = (option_count: number, ballots: OptionBallot[]) => {
+    let remaining = Array.from({ length: option_count }, (_, i) => i);
+    const rounds: number[][] = [];
+
+    while (remaining.length) {
+        const option_weights = new Array<number>(option_count).fill(0);
+        for (const { selections, weight } of ballots) {
+            const choice = selections.find((selection) =>
+                remaining.includes(selection)
+            );
+            if (choice !== undefined) {
+                option_weights[choice] += weight;
+            }
+        }
+        rounds.push(option_weights);
+
+        const activeWeight = option_weights.reduce(
+            (acc, weight) => acc + weight,
+            0
+        );
+        const leader = getLeadingOption(option_weights, remaining);
+        if (!activeWeight) {
+            break;
+        }
+        if (leader !== null && option_weights[leader] * 2 > activeWeight) {
+            return { winning_option: leader, option_weights, rounds };
+        }
+
+        const lowestWeight = Math.min(
+            ...remaining.map((option) => option_weights[option])
+        );
+        const eliminated = remaining.filter(
+            (option) => option_weights[option] === lowestWeight
+        );
+        if (eliminated.length === remaining.length) {
+            break;
+        }
+        remaining = remaining.filter((option) => !eliminated.includes(option));
+    }
+
+    return {
+        winning_option: null,
+        option_weights: rounds[rounds.length - 1] ?? [],
+        rounds,
+    };
+};
+
+const tallyOptions = (
+    voting_method: VOTING_METHODS,
+    option_count: number,
+    ballots: OptionBallot[]
+) => {
+    if (voting_method === VOTING_METHODS.RANKED_CHOICE) {
+        return tallyRankedChoice(option_count, ballots);
+    }
+
+    const option_weights = new Array<number>(option_count).fill(0);
+    for (const { selections, weight } of ballots) {
+        for (const selection of selections) {
+            option_weights[selection] += weight;
+        }
+    }
+
+    return {
+        winning_option: getLeadingOption(
+            option_weights,
+            Array.from({ length: option_count }, (_, i) => i)
+        ),
+        option_weights,
+        rounds: [option_weights],
+    };
+};
+
+// * INFO: delegations in place when voting ended lend the delegator's snapshot weight to a delegate who voted, unless the delegator voted too
+const getDelegatedWeights = async (
+    proposal: Tables<"proposals">,
+    votes: Tables<"votes">[]
+) => {
+    const voters = new Set(votes.map(({ member_id }) => member_id));
+
+    const delegators = (await getDaoMemberships(proposal.dao_id)).filter(
+        (membership) =>
+            membership.delegate_id &&
+            voters.has(membership.delegate_id) &&
+            !voters.has(membership.member_id) &&
+            membership.house === proposal.voting_house &&
+            isSnapshotEligible(proposal, membership) &&
+            new Date(membership.delegated_at ?? 0) <=
+                new Date(proposal.voting_end)
+    );
+
+    const delegatedWeights = new Map<string, number[]>();
+    if (!delegators.length) {
+        return delegatedWeights;
+    }
+
+    const dao = await getDao(proposal.dao_id);
+    const weights = await Promise.all(
+        delegators.map(
+            async (delegator) =>
+                (await calculateSnapshotVoteWeight(proposal, dao, delegator))
+                    .weight
+        )
+    );
+
+    delegators.forEach(({ delegate_id }, index) => {
+        delegatedWeights.set(delegate_id!, [
+            ...(delegatedWeights.get(delegate_id!) ?? []),
+            weights[index],
+        ]);
+    });
+
+    return delegatedWeights;
+};
+
+const tallyVotes = async (
+    proposal: Tables<"proposals">,
+    votes: Tables<"votes">[],
+    is_feedback: boolean
+) => {
+    const config = await getGovernanceConfig(proposal.dao_id);
+
+    const delegatedWeights = is_feedback
+        ? new Map<string, number[]>()
+        : await getDelegatedWeights(proposal, votes);
+
+    let weightedYes: number = 0;
+    let weightedNo: number = 0;
+    let weightedAbstain: number = 0;
+    let delegatedWeight: number = 0;
+    let representedDelegators: number = 0;
+    const ballots: OptionBallot[] = [];
+
+    for (const { vote, selections, weight: ownWeight, member_id } of votes) {
+        const delegatorWeights = delegatedWeights.get(member_id) ?? [];
+        const voteDelegatedWeight = delegatorWeights.reduce(
+            (acc, weight) => acc + weight,
+            0
+        );
+        representedDelegators += delegatorWeights.length;
+        const weight = ownWeight + voteDelegatedWeight;
+        delegatedWeight += voteDelegatedWeight;
+
+        if (selections) {
+            ballots.push({ selections, weight });
+        } else if (vote === VOTE_TYPES.YES) {
+            weightedYes += weight;
+        } else if (vote === VOTE_TYPES.NO) {
+            weightedNo += weight;
+        } else if (vote === VOTE_TYPES.ABSTAIN) {
+            weightedAbstain += weight;
+        }
+    }
+
+    const participatingWeight =
+        weightedYes +
+        weightedNo +
+        weightedAbstain +
+        ballots.reduce((acc, { weight }) => acc + weight, 0);
+
+    const eligibleMembers = is_feedback
+        ? await countMemberships(proposal.dao_id)
+        : await countMemberships(
+              proposal.dao_id,
+              proposal.voting_house as HOUSES,
+              proposal.voting_start
+          );
+    // * INFO: delegators a delegate voted for took part too, or a proposal carried by delegation could miss quorum
+    const participants = votes.length + representedDelegators;
+    const participationPercentage = eligibleMembers
+        ? (participants / eligibleMembers) * 100
+        : 0;
+
+    const hasQuorum =
+        votes.length > 0 &&
+        participationPercentage >= config.quorum_member_percentage &&
+        (is_feedback || participatingWeight >= config.quorum_weight);
+
+    const optionResults =
+        !is_feedback && proposal.voting_method !== VOTING_METHODS.BINARY
+            ? tallyOptions(
+                  proposal.voting_method as VOTING_METHODS,
+                  proposal.options.length,
+                  ballots
+              )
+            : null;
+
+    let outcome: PROPOSAL_OUTCOMES;
+    if (!hasQuorum) {
+        outcome = PROPOSAL_OUTCOMES.FAILED_QUORUM;
+    } else if (optionResults) {
+        outcome =
+            optionResults.winning_option === null
+                ? PROPOSAL_OUTCOMES.TIED
+                : PROPOSAL_OUTCOMES.DECIDED;
+    } else if (weightedYes === weightedNo) {
+        outcome = PROPOSAL_OUTCOMES.TIED;
+    } else if (
+        weightedYes / (weightedYes + weightedNo) >=
+        config.approval_threshold
+    ) {
+        outcome = PROPOSAL_OUTCOMES.YES;
+    } else {
+        outcome = PROPOSAL_OUTCOMES.NO;
+    }
+
+    return {
+        outcome,
+        winning_option: hasQuorum
+            ? (optionResults?.winning_option ?? null)
+            : null,
+        option_weights: optionResults?.option_weights ?? null,
+        rounds: optionResults?.rounds ?? null,
+        weighted_yes: weightedYes,
+        weighted_no: weightedNo,
+        weighted_abstain: weightedAbstain,
+        participating_weight: participatingWeight,
+        delegated_weight: delegatedWeight,
+        voters: votes.length,
+        delegators: representedDelegators,
+        eligible_members: eligibleMembers,
+        participation_percentage: participationPercentage,
+        quorum_weight: is_feedback ? 0 : config.quorum_weight,
+        quorum_member_percentage: config.quorum_member_percentage,
+        approval_threshold: config.approval_threshold,
+    };
+};
+
+const getOutcomeLabel = ({
+    conclusion,
+    options,
+    winning_option,
+}: Tables<"proposals">) =>
+    conclusion === PROPOSAL_OUTCOMES.DECIDED && winning_option !== null
+        ? options[winning_option]
+        : conclusion;
+
 export const concludeProposal = async (
     proposal_id: string,
     is_feedback: boolean
@@ -148,108 +449,112 @@ export const concludeProposal = async (
         proposal.voting_house as HOUSES
     );
 
-    let weightedYes: number = 0;
-    let weightedNo: number = 0;
-
-    for (const { vote, weight } of votes) {
-        if (vote === VOTE_TYPES.YES) {
-            weightedYes += weight;
-        } else if (vote === VOTE_TYPES.NO) {
-            weightedNo += weight;
-        }
-    }
-
-    const result: VOTE_TYPES =
-        weightedYes > weightedNo ? VOTE_TYPES.YES : VOTE_TYPES.NO;
+    const tally = await tallyVotes(proposal, votes, is_feedback);
 
     if (!is_feedback) {
         const { data, error } = await SupabaseService.getSupabase("admin")
             .from("proposals")
             .update({
-                conclusion: result,
+                conclusion: tally.outcome,
+                winning_option: tally.winning_option,
+                tally,
             })
             .eq("proposal_id", proposal_id)
+            // * INFO: guards against the scheduler and a manual conclusion racing each other
+            .is("conclusion", null)
             .select()
             .single();
+        if (error?.code === SUPABASE_0_ROWS_ERROR_CODE) {
+            throw createError(
+                "Proposal has already been concluded",
+                HttpStatusCode.BAD_REQUEST
+            );
+        }
         if (error) {
             throw error;
         }
 
         AkaveService.getInstance().updateProposal(proposal_id, data);
 
+        await notifyDaoMembers(data.dao_id, {
+            type: NOTIFICATION_TYPES.VOTING_ENDED,
+            title: `Voting closed: ${data.title}`,
+            body: `Outcome: ${getOutcomeLabel(data)}`,
+            proposal_id,
+        });
+        await emitWebhookEvent(
+            data.dao_id,
+            WEBHOOK_EVENTS.PROPOSAL_CONCLUDED,
+            data
+        );
+
         return data;
     } else {
-        const { data, error } = await SupabaseService.getSupabase("admin")
-            .from("proposals")
-            .update({
-                feedback_conclusion: result,
-            })
-            .eq("proposal_id", proposal_id)
-            .select()
-            .single();
-        if (error) {
-            throw error;
-        }
-
         const yesVotes = votes.filter((vote) => vote.vote === VOTE_TYPES.YES);
         const noVotes = votes.filter((vote) => vote.vote === VOTE_TYPES.NO);
 
-        let merits: MeritDistribution[] | null = null;
-
-        if (data.feedback_conclusion === VOTE_TYPES.YES) {
-            const yesDistributions: MeritDistribution[] = yesVotes.map(
-                (vote) => ({
-                    address: vote.member_id,
-                    amount: MERITS_PER_PROPOSAL.toString(),
-                })
-            );
-            merits = await distributeMerits(
-                `${proposal.dao_id}::${proposal_id}::${Date.now()}`,
-                "Feedback distribution",
-                yesDistributions
-            );
-
-            await changeReputation([
-                ...yesVotes.map(({ member_id }) => ({
+        const [correctVotes, incorrectVotes] =
+            tally.outcome === PROPOSAL_OUTCOMES.YES
+                ? [yesVotes, noVotes]
+                : tally.outcome === PROPOSAL_OUTCOMES.NO
+                  ? [noVotes, yesVotes]
+                  : [[], []];
+
+        const distribution_id = `${proposal.dao_id}::${proposal_id}::feedback`;
+        const distributions: MeritDistribution[] = correctVotes.map((vote) => ({
+            address: vote.member_id,
+            amount: MERITS_PER_PROPOSAL.toString(),
+        }));
+
+        const { data: concluded, error } = await SupabaseService.getSupabase(
+            "admin"
+        ).rpc("conclude_proposal_feedback", {
+            p_proposal_id: proposal_id,
+            p_outcome: tally.outcome,
+            p_tally: { ...tally },
+            p_reputation_changes: [
+                ...correctVotes.map(({ member_id }) => ({
                     member_id,
-                    dao_id: proposal.dao_id,
-                    change: CORRECT_VOTE_REPUTATION_CHANGE,
+                    delta: CORRECT_VOTE_REPUTATION_CHANGE,
+                    reason: REPUTATION_REASONS.CORRECT_VOTE,
                 })),
-                ...noVotes.map(({ member_id }) => ({
+                ...incorrectVotes.map(({ member_id }) => ({
                     member_id,
-                    dao_id: proposal.dao_id,
-                    change: INCORRECT_VOTE_REPUTATION_CHANGE,
+                    delta: INCORRECT_VOTE_REPUTATION_CHANGE,
+                    reason: REPUTATION_REASONS.INCORRECT_VOTE,
                 })),
-            ]);
-        } else if (data.feedback_conclusion === VOTE_TYPES.NO) {
-            const noDistributions: MeritDistribution[] = noVotes.map(
-                (vote) => ({
-                    address: vote.member_id,
-                    amount: MERITS_PER_PROPOSAL.toString(),
-                })
-            );
-            merits = await distributeMerits(
-                `${proposal.dao_id}::${proposal_id}::${Date.now()}`,
-                "Feedback distribution",
-                noDistributions
+            ],
+            p_merit_distribution: distributions.length
+                ? getMeritDistributionRecord({
+                      distribution_id,
+                      dao_id: proposal.dao_id,
+                      description: "Feedback distribution",
+                      distributions,
+                  })
+                : undefined,
+        });
+        if (error) {
+            throw error;
+        }
+        if (!concluded) {
+            throw createError(
+                "Proposal's feedback has already been concluded",
+                HttpStatusCode.BAD_REQUEST
             );
-
-            await changeReputation([
-                ...yesVotes.map(({ member_id }) => ({
-                    member_id,
-                    dao_id: proposal.dao_id,
-                    change: INCORRECT_VOTE_REPUTATION_CHANGE,
-                })),
-                ...noVotes.map(({ member_id }) => ({
-                    member_id,
-                    dao_id: proposal.dao_id,
-                    change: CORRECT_VOTE_REPUTATION_CHANGE,
-                })),
-            ]);
         }
 
+        const data = (await getProposal(proposal_id))!;
+        const merits = distributions.length
+            ? await getMeritDistribution(distribution_id)
+            : null;
+
         AkaveService.getInstance().updateProposal(proposal_id, data);
 
+        await emitWebhookEvent(data.dao_id, WEBHOOK_EVENTS.FEEDBACK_CONCLUDED, {
+            proposal: data,
+            merits,
+        });
+
         return {
             merits,
             proposal: data,
@@ -257,24 +562,30 @@ export const concludeProposal = async (
     }
 };
 
-export const distributeMerits = async (
-    id: string,
-    description: string,
-    distributions: MeritDistribution[]
-) => {
-    const axiosInstance = BlockscoutService.getInstance();
-    const { data } = await axiosInstance.post("/partner/api/v1/distribute", {
-        id,
-        description,
-        distributions,
-        create_missing_accounts: true,
-        expected_total: distributions
-            .reduce(
-                (acc, distribution) => acc + parseInt(distribution.amount),
-                0
-            )
-            .toString(),
+// * INFO: the announcement is claimed before members are notified, so a proposal is announced at most once
+export const announceVotingStart = async (proposal_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("proposals")
+        .update({ voting_start_announced_at: new Date().toISOString() })
+        .eq("proposal_id", proposal_id)
+        .is("voting_start_announced_at", null)
+        .select()
+        .single();
+
+    if (error?.code === SUPABASE_0_ROWS_ERROR_CODE) {
+        return null;
+    }
+    if (error) {
+        throw error;
+    }
+
+    await notifyDaoMembers(data.dao_id, {
+        type: NOTIFICATION_TYPES.VOTING_STARTED,
+        title: `Voting opened: ${data.title}`,
+        body: `Voting closes ${new Date(data.voting_end).toUTCString()}`,
+        proposal_id,
     });
+    await emitWebhookEvent(data.dao_id, WEBHOOK_EVENTS.VOTING_STARTED, data);
 
     return data;
 };
@@ -0,0 +1,143 @@
+import { ChainService, SupabaseService } from "../../services";
+import { SUPABASE_0_ROWS_ERROR_CODE } from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import type { Tables } from "../../utils/types/database.types";
+import { getDao } from "../dao/dao.service";
+import { calculateVoteWeight } from "../governance/vote-weight.service";
+import { getVerificationScore } from "../member/verification.service";
+import { getDaoMemberships } from "../membership/membership.service";
+
+export const getProposalSnapshot = async (proposal_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("proposal_snapshots")
+        .select()
+        .eq("proposal_id", proposal_id)
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const isSnapshotEligible = (
+    proposal: Tables<"proposals">,
+    membership: Tables<"memberships">
+) => new Date(membership.created_at) <= new Date(proposal.voting_start);
+
+export const takeProposalSnapshot = async (proposal: Tables<"proposals">) => {
+    const existingSnapshot = await getProposalSnapshot(proposal.proposal_id);
+    if (existingSnapshot) {
+        return existingSnapshot;
+    }
+
+    const snapshotAt = new Date(proposal.voting_start);
+    if (snapshotAt > new Date()) {
+        throw createError(
+            "Voting has not started yet",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const dao = await getDao(proposal.dao_id);
+    if (!dao) {
+        throw createError("DAO not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const tokens = dao.tokens as {
+        token_address: string;
+        chain_id: number;
+    }[];
+
+    // * INFO: pinned to the last block before voting_start, so a retaken snapshot yields the same balances
+    const blocks: Record<string, number> = {};
+    for (const chain_id of new Set(tokens.map(({ chain_id }) => chain_id))) {
+        blocks[chain_id] = Number(
+            await ChainService.getBlockNumberAt(chain_id, snapshotAt)
+        );
+    }
+
+    const memberships = (await getDaoMemberships(dao.dao_id)).filter(
+        (membership) => isSnapshotEligible(proposal, membership)
+    );
+
+    const balances = await Promise.all(
+        memberships.flatMap(({ member_id }) =>
+            tokens.map(async ({ token_address, chain_id }) => ({
+                member_id,
+                chain_id,
+                token_address,
+                block_number: blocks[chain_id],
+                balance: (
+                    await ChainService.getTokenBalance(
+                        chain_id,
+                        token_address,
+                        member_id,
+                        BigInt(blocks[chain_id])
+                    )
+                ).toString(),
+            }))
+        )
+    );
+
+    const { error } = await SupabaseService.getSupabase("admin").rpc(
+        "store_proposal_snapshot",
+        {
+            p_proposal_id: proposal.proposal_id,
+            p_snapshot_at: proposal.voting_start,
+            p_blocks: blocks,
+            p_balances: balances,
+        }
+    );
+
+    if (error) {
+        throw error;
+    }
+
+    return (await getProposalSnapshot(proposal.proposal_id))!;
+};
+
+export const getSnapshotBalances = async (
+    proposal_id: string,
+    member_id?: string
+) => {
+    let query = SupabaseService.getSupabase("admin")
+        .from("token_balance_snapshots")
+        .select(
+            "proposal_id, member_id, chain_id, token_address, block_number, balance::text"
+        )
+        .eq("proposal_id", proposal_id);
+
+    if (member_id) {
+        query = query.eq("member_id", member_id);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const calculateSnapshotVoteWeight = async (
+    proposal: Tables<"proposals">,
+    dao: Tables<"daos">,
+    membership: Tables<"memberships">
+) => {
+    await takeProposalSnapshot(proposal);
+
+    const [token_balances, verification_score] = await Promise.all([
+        getSnapshotBalances(proposal.proposal_id, membership.member_id),
+        getVerificationScore(membership.member_id, proposal.voting_start),
+    ]);
+
+    return calculateVoteWeight({
+        dao,
+        membership,
+        token_balances,
+        verification_score,
+    });
+};
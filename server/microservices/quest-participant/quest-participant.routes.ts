@@ -1,21 +1,29 @@
-import { validateQuery } from "../../middlewares";
+import {
+    validateJwt,
+    validateQuery,
+    validateWalletOwnership,
+} from "../../middlewares";
 import { createError, HttpStatusCode } from "../../utils/functions";
 import {
     getParticipantParamsSchema,
     getParticipantsParamsSchema,
+    completeQuestTaskBodySchema,
+    completeQuestTaskParamsSchema,
     joinQuestBodySchema,
-    updateParticipantCompletionBodySchema,
-    updateParticipantCompletionParamsSchema,
+    replayQuestTokenPayoutBodySchema,
+    type CompleteQuestTaskBody,
     type GetParticipantParams,
     type GetParticipantsParams,
     type JoinQuestBody,
-    type UpdateParticipantCompletionBody,
+    type ReplayQuestTokenPayoutBody,
 } from "./quest-participant.schema";
 import {
+    completeQuestTask,
     getParticipant,
+    getQuestEligibility,
     getQuestParticipants,
     joinQuest,
-    updateParticipantCompletion,
+    replayQuestTokenPayout,
 } from "./quest-participant.service";
 import {
     Router,
@@ -32,9 +40,12 @@ const handleJoinQuest = async (
     next: NextFunction
 ) => {
     try {
-        const { member_id, quest_id } = req.body as JoinQuestBody;
+        const { quest_id } = req.body as JoinQuestBody;
 
-        const data = await joinQuest({ member_id, quest_id });
+        const data = await joinQuest({
+            member_id: req.wallet_address!,
+            quest_id,
+        });
 
         res.json({
             success: true,
@@ -88,19 +99,61 @@ const handleGetParticipant = async (
     }
 };
 
-const handleUpdateParticipantCompletion = async (
+const handleGetQuestEligibility = async (
     req: Request,
     res: Response,
     next: NextFunction
 ) => {
     try {
-        const { quest_id, member_id } = req.params;
-        const completionData = req.body as UpdateParticipantCompletionBody;
+        const { quest_id, member_id } = req.params as GetParticipantParams;
+        const data = await getQuestEligibility(quest_id, member_id);
 
-        const data = await updateParticipantCompletion(
-            quest_id,
-            member_id,
-            completionData
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleCompleteQuestTask = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { quest_id } = req.params;
+        const { task_id, tx_hash } = req.body as CompleteQuestTaskBody;
+
+        const data = await completeQuestTask(quest_id, req.wallet_address!, {
+            task_id,
+            tx_hash,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleReplayQuestTokenPayout = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { quest_id, member_id } = req.body as ReplayQuestTokenPayoutBody;
+
+        const data = await replayQuestTokenPayout(
+            {
+                quest_id,
+                member_id,
+            },
+            req.wallet_address!
         );
 
         res.json({
@@ -114,7 +167,9 @@ const handleUpdateParticipantCompletion = async (
 
 questParticipantRouter.post(
     "/join",
+    validateJwt(),
     validateQuery("body", joinQuestBodySchema),
+    validateWalletOwnership("body", "member_id"),
     handleJoinQuest
 );
 
@@ -130,9 +185,24 @@ questParticipantRouter.get(
     handleGetParticipant
 );
 
+questParticipantRouter.get(
+    "/quest/:quest_id/member/:member_id/eligibility",
+    validateQuery("params", getParticipantParamsSchema),
+    handleGetQuestEligibility
+);
+
 questParticipantRouter.patch(
     "/quest/:quest_id/member/:member_id/completion",
-    validateQuery("params", updateParticipantCompletionParamsSchema),
-    validateQuery("body", updateParticipantCompletionBodySchema),
-    handleUpdateParticipantCompletion
+    validateJwt(),
+    validateQuery("params", completeQuestTaskParamsSchema),
+    validateQuery("body", completeQuestTaskBodySchema),
+    validateWalletOwnership("params", "member_id"),
+    handleCompleteQuestTask
+);
+
+questParticipantRouter.post(
+    "/token-payouts/replay",
+    validateJwt(),
+    validateQuery("body", replayQuestTokenPayoutBodySchema),
+    handleReplayQuestTokenPayout
 );
@@ -1,44 +1,28 @@
+import { txHashSchema, walletAddressSchema } from "../../utils/shared.schema";
 import * as z from "zod";
 
 export const joinQuestBodySchema = z.object({
-    member_id: z.string().trim(),
+    member_id: walletAddressSchema,
     quest_id: z.string().uuid(),
 });
 
 export type JoinQuestBody = z.infer<typeof joinQuestBodySchema>;
 
-export const updateParticipantCompletionParamsSchema = z.object({
+export const completeQuestTaskParamsSchema = z.object({
     quest_id: z.string().uuid(),
-    member_id: z.string().trim(),
+    member_id: walletAddressSchema,
 });
 
-export const updateParticipantCompletionBodySchema = z
-    .object({
-        twitter_follow_completed: z.boolean().optional(),
-        twitter_like_completed: z.boolean().optional(),
-        twitter_retweet_completed: z.boolean().optional(),
-    })
-    .refine(
-        (data) => {
-            return (
-                data.twitter_follow_completed !== undefined ||
-                data.twitter_like_completed !== undefined ||
-                data.twitter_retweet_completed !== undefined
-            );
-        },
-        {
-            message: "At least one completion field must be provided",
-            path: ["twitter_follow_completed"],
-        }
-    );
-
-export type UpdateParticipantCompletionBody = z.infer<
-    typeof updateParticipantCompletionBodySchema
->;
+export const completeQuestTaskBodySchema = z.object({
+    task_id: z.string().uuid(),
+    tx_hash: txHashSchema,
+});
+
+export type CompleteQuestTaskBody = z.infer<typeof completeQuestTaskBodySchema>;
 
 export const getParticipantParamsSchema = z.object({
     quest_id: z.string().uuid(),
-    member_id: z.string().trim(),
+    member_id: walletAddressSchema,
 });
 
 export type GetParticipantParams = z.infer<typeof getParticipantParamsSchema>;
@@ -48,3 +32,12 @@ export const getParticipantsParamsSchema = z.object({
 });
 
 export type GetParticipantsParams = z.infer<typeof getParticipantsParamsSchema>;
+
+export const replayQuestTokenPayoutBodySchema = z.object({
+    quest_id: z.string().uuid(),
+    member_id: walletAddressSchema,
+});
+
+export type ReplayQuestTokenPayoutBody = z.infer<
+    typeof replayQuestTokenPayoutBodySchema
+>;
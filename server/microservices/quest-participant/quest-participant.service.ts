@@ -1,14 +1,55 @@
-import { SupabaseService } from "../../services";
-import { SUPABASE_0_ROWS_ERROR_CODE } from "../../utils/constants";
-import { createError, HttpStatusCode } from "../../utils/functions";
-import type { MeritDistribution } from "../proposal/proposal.schema";
-import { distributeMerits } from "../proposal/proposal.service";
+import {
+    ChainService,
+    RewardWalletService,
+    SupabaseService,
+    type SignedTransfer,
+    type TransferStatus,
+} from "../../services";
+import {
+    DAO_PERMISSIONS,
+    NOTIFICATION_TYPES,
+    POSTGRES_UNIQUE_VIOLATION_ERROR_CODE,
+    QUEST_PAYOUT_LEASE_SECONDS,
+    QUEST_PAYOUT_MAX_ATTEMPTS,
+    QUEST_PAYOUT_RETRY_BASE_MS,
+    QUEST_PAYOUT_RETRY_MAX_MS,
+    QUEST_PAYOUT_STATUSES,
+    SCHEDULER_BATCH_SIZE,
+    SUPABASE_0_ROWS_ERROR_CODE,
+    WEBHOOK_EVENTS,
+} from "../../utils/constants";
+import {
+    createError,
+    HttpStatusCode,
+    type ApiError,
+} from "../../utils/functions";
+import type { Tables, TablesUpdate } from "../../utils/types/database.types";
+import { recordVerification } from "../member/verification.service";
+import {
+    assertDaoPermission,
+    getMembership,
+} from "../membership/membership.service";
+import {
+    getQuestTaskHash,
+    getVerificationProof,
+    recordVerificationProof,
+} from "../membership/proof.service";
+import { getMeritDistributionRecord } from "../merits/merits.service";
+import { notify } from "../notifications/notifications.service";
+import { getQuestTask, verifyQuestTask } from "../quest/quest-task.service";
 import { getQuest } from "../quest/quest.service";
+import { emitWebhookEvent } from "../webhooks/webhook-delivery.service";
 import type {
+    CompleteQuestTaskBody,
     JoinQuestBody,
-    UpdateParticipantCompletionBody,
+    ReplayQuestTokenPayoutBody,
 } from "./quest-participant.schema";
 
+interface QuestPayoutFailure {
+    payout_id: string;
+    message: string;
+}
+
 export const joinQuest = async ({ member_id, quest_id }: JoinQuestBody) => {
     const quest = await getQuest(quest_id);
     if (!quest) {
@@ -23,21 +64,184 @@ export const joinQuest = async ({ member_id, quest_id }: JoinQuestBody) => {
         );
     }
 
-    const { data, error } = await SupabaseService.getSupabase("admin")
+    const [restriction] = await getJoinRestrictions(quest, member_id);
+    if (restriction) {
+        throw restriction;
+    }
+
+    const { data: joined, error } = await SupabaseService.getSupabase(
+        "admin"
+    ).rpc("join_quest", {
+        p_quest_id: quest_id,
+        p_member_id: member_id,
+    });
+
+    if (error) {
+        throw error;
+    }
+
+    if (!joined) {
+        throw createError("Quest is full", HttpStatusCode.CONFLICT);
+    }
+
+    return await getParticipant(quest_id, member_id);
+};
+
+const getTimeWindowRestriction = (quest: Tables<"quests">) => {
+    const now = new Date();
+
+    if (now < new Date(quest.start_time)) {
+        return createError(
+            "Quest has not started yet",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+    if (now > new Date(quest.end_time)) {
+        return createError("Quest has ended", HttpStatusCode.BAD_REQUEST);
+    }
+
+    return null;
+};
+
+const getJoinRestrictions = async (
+    quest: Tables<"quests">,
+    member_id: string
+) => {
+    const restrictions: ApiError[] = [];
+
+    const timeWindowRestriction = getTimeWindowRestriction(quest);
+    if (timeWindowRestriction) {
+        restrictions.push(timeWindowRestriction);
+    }
+
+    if (quest.max_participants !== null) {
+        const participant_count = await countQuestParticipants(quest.quest_id);
+        if (participant_count >= quest.max_participants) {
+            restrictions.push(
+                createError("Quest is full", HttpStatusCode.CONFLICT)
+            );
+        }
+    }
+
+    if (
+        quest.members_only ||
+        quest.min_reputation !== null ||
+        quest.required_house !== null
+    ) {
+        const membership = await getMembership(member_id, quest.dao_id);
+        if (!membership) {
+            restrictions.push(
+                createError(
+                    "Only members of this DAO can join this quest",
+                    HttpStatusCode.FORBIDDEN
+                )
+            );
+        } else {
+            if (
+                quest.min_reputation !== null &&
+                membership.reputation < quest.min_reputation
+            ) {
+                restrictions.push(
+                    createError(
+                        `At least ${quest.min_reputation} reputation is required to join this quest, you have ${membership.reputation}`,
+                        HttpStatusCode.FORBIDDEN
+                    )
+                );
+            }
+            if (
+                quest.required_house !== null &&
+                membership.house !== quest.required_house
+            ) {
+                restrictions.push(
+                    createError(
+                        `Only members of house ${quest.required_house} can join this quest`,
+                        HttpStatusCode.FORBIDDEN
+                    )
+                );
+            }
+        }
+    }
+
+    return restrictions;
+};
+
+export const getQuestEligibility = async (
+    quest_id: string,
+    member_id: string
+) => {
+    const quest = await getQuest(quest_id);
+    if (!quest) {
+        throw createError("Quest not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const participant = await getParticipant(quest_id, member_id);
+    const restrictions = participant
+        ? []
+        : await getJoinRestrictions(quest, member_id);
+    const participant_count = await countQuestParticipants(quest_id);
+
+    let remaining_token_rewards: number | null = null;
+    if (quest.reward_token_amount && quest.reward_token_budget !== null) {
+        const { count, error } = await SupabaseService.getSupabase("admin")
+            .from("quest_participant")
+            .select("*", { count: "exact", head: true })
+            .eq("quest_id", quest_id)
+            .in("token_payout_status", [
+                QUEST_PAYOUT_STATUSES.PENDING,
+                QUEST_PAYOUT_STATUSES.SENT,
+                QUEST_PAYOUT_STATUSES.SIMULATED,
+            ]);
+
+        if (error) {
+            throw error;
+        }
+
+        remaining_token_rewards = Math.max(
+            Math.floor(quest.reward_token_budget / quest.reward_token_amount) -
+                (count ?? 0),
+            0
+        );
+    }
+
+    return {
+        joined: !!participant,
+        eligible: !participant && !restrictions.length,
+        reasons: restrictions.map(({ message }) => message),
+        participant_count,
+        remaining_slots:
+            quest.max_participants === null
+                ? null
+                : Math.max(quest.max_participants - participant_count, 0),
+        remaining_token_rewards,
+    };
+};
+
+export const countQuestParticipants = async (quest_id: string) => {
+    const { count, error } = await SupabaseService.getSupabase("admin")
         .from("quest_participant")
-        .insert({
-            member_id,
-            quest_id,
-            twitter_follow_completed: quest.twitter_follow_enabled
-                ? false
-                : true,
-            twitter_like_completed: quest.twitter_like_enabled ? false : true,
-            twitter_retweet_completed: quest.twitter_retweet_enabled
-                ? false
-                : true,
-        })
+        .select("*", { count: "exact", head: true })
+        .eq("quest_id", quest_id);
+
+    if (error) {
+        throw error;
+    }
+
+    return count ?? 0;
+};
+
+const getTaskCompletions = async (quest_id: string, member_id?: string) => {
+    let query = SupabaseService.getSupabase("admin")
+        .from("quest_task_completions")
         .select()
-        .single();
+        .eq("quest_id", quest_id);
+
+    if (member_id) {
+        query = query.eq("member_id", member_id);
+    }
+
+    const { data, error } = await query.order("completed_at", {
+        ascending: true,
+    });
 
     if (error) {
         throw error;
@@ -57,7 +261,14 @@ export const getQuestParticipants = async (quest_id: string) => {
         throw error;
     }
 
-    return data || [];
+    const completions = await getTaskCompletions(quest_id);
+
+    return (data || []).map((participant) => ({
+        ...participant,
+        completions: completions.filter(
+            ({ member_id }) => member_id === participant.member_id
+        ),
+    }));
 };
 
 export const getParticipant = async (quest_id: string, member_id: string) => {
@@ -72,61 +283,448 @@ export const getParticipant = async (quest_id: string, member_id: string) => {
         throw error;
     }
 
-    return data;
+    if (!data) {
+        return null;
+    }
+
+    return {
+        ...data,
+        completions: await getTaskCompletions(quest_id, member_id),
+    };
 };
 
-export const updateParticipantCompletion = async (
+export const completeQuestTask = async (
     quest_id: string,
     member_id: string,
-    completionData: UpdateParticipantCompletionBody
+    { task_id, tx_hash }: CompleteQuestTaskBody
 ) => {
-    const { data, error } = await SupabaseService.getSupabase("admin")
-        .from("quest_participant")
-        .update(completionData)
-        .eq("quest_id", quest_id)
-        .eq("member_id", member_id)
-        .select()
-        .single();
+    const quest = await getQuest(quest_id);
+    if (!quest) {
+        throw createError("Quest not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const participant = await getParticipant(quest_id, member_id);
+    if (!participant) {
+        throw createError("Participant not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const timeWindowRestriction = getTimeWindowRestriction(quest);
+    if (timeWindowRestriction) {
+        throw timeWindowRestriction;
+    }
+
+    const task = await getQuestTask(quest_id, task_id);
+    if (!task) {
+        throw createError("Task not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    if (
+        participant.completions.some(
+            (completion) => completion.task_id === task_id
+        )
+    ) {
+        throw createError("Task is already completed", HttpStatusCode.CONFLICT);
+    }
+
+    const proof = await verifyQuestTask(task, tx_hash, member_id);
+
+    const block = await ChainService.getPublicClient(proof.chain_id).getBlock({
+        blockNumber: BigInt(proof.block_number),
+    });
+    if (Number(block.timestamp) * 1000 < new Date(quest.start_time).getTime()) {
+        throw createError(
+            "Proof was made before the quest started",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const existingProof = await getVerificationProof(tx_hash);
+    if (
+        existingProof &&
+        (existingProof.member_id.toLowerCase() !== member_id.toLowerCase() ||
+            existingProof.proof_type !== proof.proof_type)
+    ) {
+        throw createError(
+            "This proof has already been used",
+            HttpStatusCode.CONFLICT
+        );
+    }
 
+    const { verification_id } =
+        existingProof ??
+        (await recordVerificationProof({
+            proof_type: proof.proof_type,
+            proof_hash: getQuestTaskHash(task_id, member_id),
+            tx_hash,
+            chain_id: proof.chain_id,
+            block_number: proof.block_number,
+            member_id,
+            dao_id: quest.dao_id,
+            subject: proof.subject,
+        }));
+
+    await recordVerification({
+        member_id,
+        verification_type: proof.verification_type,
+        identity: proof.identity,
+        verification_id,
+    });
+
+    // * INFO: completed is only true for the request that completed the quest, so its rewards are sent once
+    const { data: completed, error } = await SupabaseService.getSupabase(
+        "admin"
+    ).rpc("complete_quest_task", {
+        p_quest_id: quest_id,
+        p_member_id: member_id,
+        p_task_id: task_id,
+        p_verification_id: verification_id,
+        p_merit_distribution: getMeritDistributionRecord({
+            distribution_id: getQuestMeritDistributionId(
+                quest.dao_id,
+                quest_id,
+                member_id
+            ),
+            dao_id: quest.dao_id,
+            description: "Quest completion reward",
+            distributions: [
+                {
+                    amount: quest.reward_merits.toString(),
+                    address: member_id,
+                },
+            ],
+        }),
+    });
+
+    if (error?.code === POSTGRES_UNIQUE_VIOLATION_ERROR_CODE) {
+        throw createError("Task is already completed", HttpStatusCode.CONFLICT);
+    }
     if (error) {
         throw error;
     }
 
+    if (completed) {
+        await completeQuest(quest, member_id);
+    }
+
+    return await getParticipant(quest_id, member_id);
+};
+
+export const getQuestMeritDistributionId = (
+    dao_id: string,
+    quest_id: string,
+    member_id: string
+) => `${dao_id}::${quest_id}::${member_id}::quest`;
+
+const completeQuest = async (quest: Tables<"quests">, member_id: string) => {
+    const { quest_id } = quest;
+
+    await notify([
+        {
+            member_id,
+            type: NOTIFICATION_TYPES.QUEST_REWARD,
+            title: `Quest completed: ${quest.title}`,
+            body: `${quest.reward_merits} merits are on their way`,
+            dao_id: quest.dao_id,
+            quest_id,
+        },
+    ]);
+    await emitWebhookEvent(quest.dao_id, WEBHOOK_EVENTS.QUEST_COMPLETED, {
+        quest_id,
+        title: quest.title,
+        member_id,
+        reward_merits: quest.reward_merits,
+    });
+
+    try {
+        await payQuestTokenReward(quest, member_id);
+    } catch (error) {
+        console.error(
+            `Failed to pay the token reward of quest ${quest_id} to ${member_id}:`,
+            error
+        );
+    }
+};
+
+const payQuestTokenReward = async (
+    quest: Tables<"quests">,
+    member_id: string,
+    attempts: number = 0
+) => {
     if (
-        data.twitter_follow_completed &&
-        data.twitter_like_completed &&
-        data.twitter_retweet_completed
+        !quest.reward_token_chain ||
+        !quest.reward_token_address ||
+        !quest.reward_token_amount
     ) {
-        completeQuest(quest_id, member_id);
+        return;
     }
 
-    return data;
+    const { data: claimed, error } = await SupabaseService.getSupabase(
+        "admin"
+    ).rpc("reserve_quest_token_payout", {
+        p_quest_id: quest.quest_id,
+        p_member_id: member_id,
+        p_lease_seconds: QUEST_PAYOUT_LEASE_SECONDS,
+    });
+
+    if (error) {
+        throw error;
+    }
+
+    if (!claimed) {
+        return;
+    }
+
+    let transfer: SignedTransfer | null;
+    try {
+        transfer = await RewardWalletService.signTransfer({
+            chain_id: quest.reward_token_chain,
+            token_address: quest.reward_token_address,
+            to: member_id,
+            amount: quest.reward_token_amount,
+        });
+    } catch (error) {
+        await failTokenPayout(quest.quest_id, member_id, attempts + 1, error);
+        return;
+    }
+
+    if (!transfer) {
+        await updateTokenPayout(quest.quest_id, member_id, {
+            token_payout_status: QUEST_PAYOUT_STATUSES.SIMULATED,
+            token_payout_tx_hash: null,
+            token_payout_attempts: attempts + 1,
+            token_payout_next_attempt_at: null,
+            token_paid_at: new Date().toISOString(),
+        });
+        return;
+    }
+
+    // * INFO: saved before it is broadcast, so the retry job checks this transfer instead of signing another one
+    await updateTokenPayout(quest.quest_id, member_id, {
+        token_payout_tx_hash: transfer.tx_hash,
+        token_payout_nonce: transfer.nonce,
+        token_payout_raw_tx: transfer.raw_tx,
+        token_payout_attempts: attempts + 1,
+        token_payout_next_attempt_at: new Date(
+            Date.now() + QUEST_PAYOUT_RETRY_BASE_MS
+        ).toISOString(),
+    });
+
+    await broadcastTokenPayout(
+        quest.quest_id,
+        member_id,
+        quest.reward_token_chain,
+        transfer.raw_tx
+    );
+};
+
+const broadcastTokenPayout = async (
+    quest_id: string,
+    member_id: string,
+    chain_id: number,
+    raw_tx: string
+) => {
+    try {
+        await RewardWalletService.broadcastTransfer(chain_id, raw_tx);
+    } catch (error) {
+        await updateTokenPayout(quest_id, member_id, {
+            token_payout_error:
+                error instanceof Error ? error.message : String(error),
+        });
+    }
+};
+
+const settleTokenPayout = async (
+    { quest_id, reward_token_chain }: Tables<"quests">,
+    member_id: string,
+    attempts: number,
+    raw_tx: string | null,
+    status: TransferStatus
+) => {
+    if (status === "success") {
+        await updateTokenPayout(quest_id, member_id, {
+            token_payout_status: QUEST_PAYOUT_STATUSES.SENT,
+            token_payout_error: null,
+            token_payout_next_attempt_at: null,
+            token_paid_at: new Date().toISOString(),
+        });
+    } else if (status === "pending") {
+        await updateTokenPayout(quest_id, member_id, {
+            token_payout_next_attempt_at: new Date(
+                Date.now() + QUEST_PAYOUT_RETRY_BASE_MS
+            ).toISOString(),
+        });
+        if (raw_tx) {
+            await broadcastTokenPayout(
+                quest_id,
+                member_id,
+                reward_token_chain!,
+                raw_tx
+            );
+        }
+    } else {
+        await failTokenPayout(
+            quest_id,
+            member_id,
+            attempts,
+            new Error(
+                status === "reverted"
+                    ? "Token transfer reverted"
+                    : "Token transfer was replaced by another transaction of the reward wallet"
+            )
+        );
+    }
 };
 
-const completeQuest = async (quest_id: string, member_id: string) => {
+const getPayoutRetryDelay = (attempts: number) =>
+    Math.min(
+        QUEST_PAYOUT_RETRY_BASE_MS * 2 ** (attempts - 1),
+        QUEST_PAYOUT_RETRY_MAX_MS
+    );
+
+const failTokenPayout = async (
+    quest_id: string,
+    member_id: string,
+    attempts: number,
+    error: unknown
+) => {
+    await updateTokenPayout(quest_id, member_id, {
+        token_payout_status: QUEST_PAYOUT_STATUSES.FAILED,
+        token_payout_error:
+            error instanceof Error ? error.message : String(error),
+        token_payout_attempts: attempts,
+        token_payout_next_attempt_at: new Date(
+            Date.now() + getPayoutRetryDelay(attempts)
+        ).toISOString(),
+    });
+};
+
+export const retryQuestTokenPayouts = async () => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("quest_participant")
+        .select("*, quest:quests(*)")
+        .or(
+            `token_payout_status.eq.${QUEST_PAYOUT_STATUSES.PENDING},and(token_payout_status.eq.${QUEST_PAYOUT_STATUSES.FAILED},token_payout_attempts.lt.${QUEST_PAYOUT_MAX_ATTEMPTS})`
+        )
+        .lte("token_payout_next_attempt_at", new Date().toISOString())
+        .order("token_payout_next_attempt_at", { ascending: true })
+        .limit(SCHEDULER_BATCH_SIZE);
+
+    if (error) {
+        throw error;
+    }
+
+    const settled: string[] = [];
+    const failures: QuestPayoutFailure[] = [];
+
+    for (const {
+        quest,
+        member_id,
+        token_payout_status,
+        token_payout_tx_hash,
+        token_payout_nonce,
+        token_payout_raw_tx,
+        token_payout_attempts,
+    } of data) {
+        const payout_id = `${quest.quest_id}::${member_id}`;
+
+        try {
+            if (
+                token_payout_status === QUEST_PAYOUT_STATUSES.PENDING &&
+                token_payout_tx_hash
+            ) {
+                await settleTokenPayout(
+                    quest,
+                    member_id,
+                    token_payout_attempts,
+                    token_payout_raw_tx,
+                    await RewardWalletService.getTransferStatus(
+                        quest.reward_token_chain!,
+                        token_payout_tx_hash,
+                        token_payout_nonce
+                    )
+                );
+            } else {
+                await payQuestTokenReward(
+                    quest,
+                    member_id,
+                    token_payout_attempts
+                );
+            }
+
+            const participant = await getParticipant(quest.quest_id, member_id);
+            if (
+                participant?.token_payout_status ===
+                QUEST_PAYOUT_STATUSES.FAILED
+            ) {
+                failures.push({
+                    payout_id,
+                    message: participant.token_payout_error ?? "Failed",
+                });
+            } else if (
+                participant?.token_payout_status !==
+                QUEST_PAYOUT_STATUSES.PENDING
+            ) {
+                settled.push(payout_id);
+            }
+        } catch (error) {
+            failures.push({
+                payout_id,
+                message: error instanceof Error ? error.message : String(error),
+            });
+        }
+    }
+
+    return { settled, failures };
+};
+
+export const replayQuestTokenPayout = async (
+    { quest_id, member_id }: ReplayQuestTokenPayoutBody,
+    requested_by: string
+) => {
     const quest = await getQuest(quest_id);
     if (!quest) {
         throw createError("Quest not found", HttpStatusCode.NOT_FOUND);
     }
 
-    const distributions: MeritDistribution[] = [
-        {
-            amount: quest.reward_merits.toString(),
-            address: member_id,
-        },
-    ];
-
-    await distributeMerits(
-        `${quest_id}::${member_id}::${Date.now()}`,
-        "Quest completion reward",
-        distributions
+    await assertDaoPermission(
+        requested_by,
+        quest.dao_id,
+        DAO_PERMISSIONS.CREATE_QUEST
     );
 
-    // TODO: Add token distribution
-    // if (
-    //     quest.reward_token_address &&
-    //     quest.reward_token_amount &&
-    //     quest.reward_token_address
-    // ) {
-    // }
+    const participant = await getParticipant(quest_id, member_id);
+    if (!participant) {
+        throw createError("Participant not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    if (
+        participant.token_payout_status !== QUEST_PAYOUT_STATUSES.FAILED &&
+        participant.token_payout_status !==
+            QUEST_PAYOUT_STATUSES.BUDGET_EXHAUSTED
+    ) {
+        throw createError(
+            `Only failed or budget exhausted payouts can be replayed, this one is ${participant.token_payout_status}`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    await payQuestTokenReward(quest, member_id);
+
+    return await getParticipant(quest_id, member_id);
+};
+
+const updateTokenPayout = async (
+    quest_id: string,
+    member_id: string,
+    payout: TablesUpdate<"quest_participant">
+) => {
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("quest_participant")
+        .update(payout)
+        .eq("quest_id", quest_id)
+        .eq("member_id", member_id);
+
+    if (error) {
+        throw error;
+    }
 };
@@ -0,0 +1,366 @@
+import { SupabaseService } from "../../services";
+import {
+    DAO_PERMISSIONS,
+    MERIT_DISTRIBUTION_STATUSES,
+    QUEST_PAYOUT_STATUSES,
+    QUEST_STATS_FILTER_CHUNK_SIZE,
+    QUEST_STATS_PAGE_SIZE,
+} from "../../utils/constants";
+import { createError, HttpStatusCode, toCsv } from "../../utils/functions";
+import type { Tables } from "../../utils/types/database.types";
+import { assertDaoPermission } from "../membership/membership.service";
+import { getQuestMeritDistributionId } from "../quest-participant/quest-participant.service";
+import { getQuest, getQuestsByDaoId } from "./quest.service";
+
+export interface QuestLeaderboardEntry {
+    rank: number;
+    member_id: string;
+    quests_joined: number;
+    quests_completed: number;
+    tasks_completed: number;
+    merits_earned: number;
+    current_streak: number;
+    longest_streak: number;
+    last_completed_at: string | null;
+}
+
+const readAllRows = async <T>(
+    values: string[],
+    readPage: (values: string[], from: number, to: number) => Promise<T[]>
+) => {
+    const rows: T[] = [];
+
+    for (
+        let index = 0;
+        index < values.length;
+        index += QUEST_STATS_FILTER_CHUNK_SIZE
+    ) {
+        const chunk = values.slice(
+            index,
+            index + QUEST_STATS_FILTER_CHUNK_SIZE
+        );
+
+        for (let from = 0; ; from += QUEST_STATS_PAGE_SIZE) {
+            const page = await readPage(
+                chunk,
+                from,
+                from + QUEST_STATS_PAGE_SIZE - 1
+            );
+            rows.push(...page);
+
+            if (page.length < QUEST_STATS_PAGE_SIZE) {
+                break;
+            }
+        }
+    }
+
+    return rows;
+};
+
+const getParticipantRows = (quest_ids: string[]) =>
+    readAllRows(quest_ids, async (chunk, from, to) => {
+        const { data, error } = await SupabaseService.getSupabase("admin")
+            .from("quest_participant")
+            .select()
+            .in("quest_id", chunk)
+            .order("quest_id")
+            .order("member_id")
+            .range(from, to);
+
+        if (error) {
+            throw error;
+        }
+
+        return data;
+    });
+
+const getCompletionRows = (quest_ids: string[]) =>
+    readAllRows(quest_ids, async (chunk, from, to) => {
+        const { data, error } = await SupabaseService.getSupabase("admin")
+            .from("quest_task_completions")
+            .select()
+            .in("quest_id", chunk)
+            .order("task_id")
+            .order("member_id")
+            .range(from, to);
+
+        if (error) {
+            throw error;
+        }
+
+        return data;
+    });
+
+const groupBy = <T>(rows: T[], getKey: (row: T) => string) => {
+    const groups = new Map<string, T[]>();
+    for (const row of rows) {
+        const key = getKey(row);
+        const group = groups.get(key);
+        if (group) {
+            group.push(row);
+        } else {
+            groups.set(key, [row]);
+        }
+    }
+
+    return groups;
+};
+
+const getStreaks = (
+    quests: Tables<"quests">[],
+    completed_quest_ids: Set<string>
+) => {
+    const now = Date.now();
+    let current_streak = 0;
+    let longest_streak = 0;
+
+    for (const quest of [...quests].sort(
+        (a, b) =>
+            new Date(a.start_time).getTime() - new Date(b.start_time).getTime()
+    )) {
+        if (completed_quest_ids.has(quest.quest_id)) {
+            current_streak++;
+            longest_streak = Math.max(longest_streak, current_streak);
+        } else if (new Date(quest.end_time).getTime() < now) {
+            current_streak = 0;
+        }
+    }
+
+    return { current_streak, longest_streak };
+};
+
+export const getQuestLeaderboard = async (
+    dao_id: string
+): Promise<QuestLeaderboardEntry[]> => {
+    const quests = await getQuestsByDaoId(dao_id);
+    const quest_ids = quests.map(({ quest_id }) => quest_id);
+    const [participants, completions] = await Promise.all([
+        getParticipantRows(quest_ids),
+        getCompletionRows(quest_ids),
+    ]);
+
+    const reward_merits = new Map(
+        quests.map((quest) => [quest.quest_id, quest.reward_merits])
+    );
+    const completionsByMember = groupBy(
+        completions,
+        ({ member_id }) => member_id
+    );
+
+    const entries = [
+        ...groupBy(participants, ({ member_id }) => member_id),
+    ].map(([member_id, rows]) => {
+        const completedRows = rows.filter(({ completed_at }) => completed_at);
+        const completed_quest_ids = new Set(
+            completedRows.map(({ quest_id }) => quest_id)
+        );
+
+        return {
+            member_id,
+            quests_joined: rows.length,
+            quests_completed: completedRows.length,
+            tasks_completed: completionsByMember.get(member_id)?.length || 0,
+            merits_earned: completedRows.reduce(
+                (acc, { quest_id }) => acc + (reward_merits.get(quest_id) || 0),
+                0
+            ),
+            ...getStreaks(quests, completed_quest_ids),
+            last_completed_at:
+                completedRows
+                    .map(({ completed_at }) => completed_at)
+                    .sort()
+                    .pop() || null,
+        };
+    });
+
+    entries.sort(
+        (a, b) =>
+            b.quests_completed - a.quests_completed ||
+            b.merits_earned - a.merits_earned ||
+            b.tasks_completed - a.tasks_completed ||
+            (a.last_completed_at || "").localeCompare(
+                b.last_completed_at || ""
+            ) ||
+            a.member_id.localeCompare(b.member_id)
+    );
+
+    return entries.reduce<QuestLeaderboardEntry[]>((ranked, entry, index) => {
+        const previous = ranked[index - 1];
+        const tied =
+            previous &&
+            previous.quests_completed === entry.quests_completed &&
+            previous.merits_earned === entry.merits_earned &&
+            previous.tasks_completed === entry.tasks_completed;
+
+        return [
+            ...ranked,
+            { rank: tied ? previous.rank : index + 1, ...entry },
+        ];
+    }, []);
+};
+
+export const getQuestFunnel = async (quest_id: string) => {
+    const quest = await getQuest(quest_id);
+    if (!quest) {
+        throw createError("Quest not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    const [participants, completions] = await Promise.all([
+        getParticipantRows([quest_id]),
+        getCompletionRows([quest_id]),
+    ]);
+
+    const completed = participants.filter(({ completed_at }) => completed_at);
+    const meritStatuses = await getMeritStatuses(
+        quest.dao_id,
+        quest_id,
+        completed.map(({ member_id }) => member_id)
+    );
+
+    return {
+        quest_id,
+        joined: participants.length,
+        tasks: quest.tasks.map(({ task_id, task_type, position }) => ({
+            task_id,
+            task_type,
+            position,
+            completed: completions.filter(
+                (completion) => completion.task_id === task_id
+            ).length,
+        })),
+        completed: completed.length,
+        rewarded: [...meritStatuses.values()].filter(
+            (status) => status === MERIT_DISTRIBUTION_STATUSES.SENT
+        ).length,
+        token_rewarded: participants.filter(
+            ({ token_payout_status }) =>
+                token_payout_status === QUEST_PAYOUT_STATUSES.SENT ||
+                token_payout_status === QUEST_PAYOUT_STATUSES.SIMULATED
+        ).length,
+    };
+};
+
+const getMeritStatuses = async (
+    dao_id: string,
+    quest_id: string,
+    member_ids: string[]
+) => {
+    const distribution_ids = new Map(
+        member_ids.map((member_id) => [
+            getQuestMeritDistributionId(dao_id, quest_id, member_id),
+            member_id,
+        ])
+    );
+    const data = await readAllRows(
+        [...distribution_ids.keys()],
+        async (chunk, from, to) => {
+            const { data, error } = await SupabaseService.getSupabase("admin")
+                .from("merit_distributions")
+                .select("distribution_id, status")
+                .in("distribution_id", chunk)
+                .order("distribution_id")
+                .range(from, to);
+
+            if (error) {
+                throw error;
+            }
+
+            return data;
+        }
+    );
+
+    return new Map<string, string>(
+        data.map(({ distribution_id, status }) => [
+            distribution_ids.get(distribution_id) || distribution_id,
+            status,
+        ])
+    );
+};
+
+export const exportQuestLeaderboard = async (
+    dao_id: string,
+    wallet_address: string
+) => {
+    await assertDaoPermission(
+        wallet_address,
+        dao_id,
+        DAO_PERMISSIONS.CREATE_QUEST
+    );
+
+    return toCsv(
+        [
+            "rank",
+            "member_id",
+            "quests_joined",
+            "quests_completed",
+            "tasks_completed",
+            "merits_earned",
+            "current_streak",
+            "longest_streak",
+            "last_completed_at",
+        ],
+        await getQuestLeaderboard(dao_id)
+    );
+};
+
+export const exportQuestParticipants = async (
+    quest_id: string,
+    wallet_address: string
+) => {
+    const quest = await getQuest(quest_id);
+    if (!quest) {
+        throw createError("Quest not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    await assertDaoPermission(
+        wallet_address,
+        quest.dao_id,
+        DAO_PERMISSIONS.CREATE_QUEST
+    );
+
+    const [participants, completions] = await Promise.all([
+        getParticipantRows([quest_id]),
+        getCompletionRows([quest_id]),
+    ]);
+    const meritStatuses = await getMeritStatuses(
+        quest.dao_id,
+        quest_id,
+        participants.map(({ member_id }) => member_id)
+    );
+
+    const taskColumns = quest.tasks.map(
+        ({ task_type, position }) =>
+            `task_${position + 1}_${task_type.toLowerCase()}`
+    );
+    const rows = participants.map((participant) => ({
+        member_id: participant.member_id,
+        joined_at: participant.created_at,
+        ...Object.fromEntries(
+            quest.tasks.map(({ task_id }, index) => [
+                taskColumns[index],
+                completions.find(
+                    (completion) =>
+                        completion.task_id === task_id &&
+                        completion.member_id === participant.member_id
+                )?.completed_at,
+            ])
+        ),
+        completed_at: participant.completed_at,
+        merit_status: meritStatuses.get(participant.member_id),
+        token_payout_status: participant.token_payout_status,
+        token_payout_tx_hash: participant.token_payout_tx_hash,
+    }));
+
+    return toCsv<Record<string, unknown>>(
+        [
+            "member_id",
+            "joined_at",
+            ...taskColumns,
+            "completed_at",
+            "merit_status",
+            "token_payout_status",
+            "token_payout_tx_hash",
+        ],
+        rows
+    );
+};
@@ -0,0 +1,181 @@
+import { SupabaseService } from "../../services";
+import {
+    QUEST_TASK_TYPES,
+    SUPABASE_0_ROWS_ERROR_CODE,
+    TWITTER_ACTIONS,
+    VERIFICATION_PROOF_TYPES,
+    VERIFICATION_TYPES,
+} from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import type { Tables } from "../../utils/types/database.types";
+import {
+    matchesEmailSubfix,
+    verifyEmailDomainProof,
+    verifyGitHubProof,
+    verifyTwitterActionProof,
+} from "../membership/proof.service";
+import { questTaskSchema, type QuestTask } from "./quest.schema";
+
+export interface QuestTaskProof {
+    proof_type: VERIFICATION_PROOF_TYPES;
+    chain_id: number;
+    block_number: number;
+    subject: string;
+    verification_type: VERIFICATION_TYPES;
+    identity: string;
+}
+
+export const createQuestTasks = async (
+    quest_id: string,
+    tasks: QuestTask[]
+) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("quest_tasks")
+        .insert(
+            tasks.map(({ task_type, config }, position) => ({
+                quest_id,
+                task_type,
+                config,
+                position,
+            }))
+        )
+        .select();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getQuestTasks = async (quest_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("quest_tasks")
+        .select()
+        .eq("quest_id", quest_id)
+        .order("position", { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getQuestTask = async (quest_id: string, task_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("quest_tasks")
+        .select()
+        .eq("quest_id", quest_id)
+        .eq("task_id", task_id)
+        .single();
+
+    if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw error;
+    }
+
+    return data;
+};
+
+const verifyTwitterTask = async (
+    action: TWITTER_ACTIONS,
+    target_value: string,
+    tx_hash: string,
+    member_id: string
+): Promise<QuestTaskProof> => {
+    const proof = await verifyTwitterActionProof(
+        tx_hash,
+        member_id,
+        action,
+        target_value
+    );
+
+    return {
+        proof_type: VERIFICATION_PROOF_TYPES.TWITTER_ACTION,
+        chain_id: proof.chain_id,
+        block_number: proof.block_number,
+        subject: `${proof.username}:${action}:${proof.target_value}`,
+        verification_type: VERIFICATION_TYPES.TWITTER,
+        identity: proof.username,
+    };
+};
+
+export const verifyQuestTask = async (
+    task: Tables<"quest_tasks">,
+    tx_hash: string,
+    member_id: string
+): Promise<QuestTaskProof> => {
+    const parsedTask = questTaskSchema.safeParse(task);
+    if (!parsedTask.success) {
+        throw createError(
+            `Task ${task.task_id} has an invalid ${task.task_type} config`,
+            HttpStatusCode.INTERNAL_SERVER
+        );
+    }
+
+    const { task_type, config } = parsedTask.data;
+
+    switch (task_type) {
+        case QUEST_TASK_TYPES.TWITTER_FOLLOW:
+            return verifyTwitterTask(
+                TWITTER_ACTIONS.FOLLOW,
+                config.username,
+                tx_hash,
+                member_id
+            );
+        case QUEST_TASK_TYPES.TWITTER_LIKE:
+            return verifyTwitterTask(
+                TWITTER_ACTIONS.LIKE,
+                config.tweet_id,
+                tx_hash,
+                member_id
+            );
+        case QUEST_TASK_TYPES.TWITTER_RETWEET:
+            return verifyTwitterTask(
+                TWITTER_ACTIONS.RETWEET,
+                config.tweet_id,
+                tx_hash,
+                member_id
+            );
+        case QUEST_TASK_TYPES.GITHUB_CONTRIBUTION: {
+            const proof = await verifyGitHubProof(tx_hash, member_id);
+            if (
+                proof.repo_owner.toLowerCase() !==
+                    config.repo_owner.toLowerCase() ||
+                proof.repo_name.toLowerCase() !== config.repo_name.toLowerCase()
+            ) {
+                throw createError(
+                    `GitHub proof is for ${proof.repo_owner}/${proof.repo_name}, the task asks for ${config.repo_owner}/${config.repo_name}`,
+                    HttpStatusCode.BAD_REQUEST
+                );
+            }
+
+            return {
+                proof_type: VERIFICATION_PROOF_TYPES.GITHUB_CONTRIBUTION,
+                chain_id: proof.chain_id,
+                block_number: proof.block_number,
+                subject: `${proof.username}@${config.repo_owner}/${config.repo_name}`,
+                verification_type: VERIFICATION_TYPES.GITHUB,
+                identity: proof.username,
+            };
+        }
+        case QUEST_TASK_TYPES.EMAIL_DOMAIN: {
+            const proof = await verifyEmailDomainProof(tx_hash, member_id);
+            if (!matchesEmailSubfix(proof.email_domain, config.email_domain)) {
+                throw createError(
+                    `Email proof is for ${proof.email_domain}, the task asks for ${config.email_domain}`,
+                    HttpStatusCode.FORBIDDEN
+                );
+            }
+
+            return {
+                proof_type: VERIFICATION_PROOF_TYPES.EMAIL_DOMAIN,
+                chain_id: proof.chain_id,
+                block_number: proof.block_number,
+                subject: proof.email_domain,
+                verification_type: VERIFICATION_TYPES.EMAIL,
+                identity: proof.email_domain,
+            };
+        }
+    }
+};
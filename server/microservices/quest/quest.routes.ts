@@ -1,6 +1,19 @@
-import { validateQuery } from "../../middlewares";
+import { validateJwt, validateQuery } from "../../middlewares";
 import { createError, HttpStatusCode } from "../../utils/functions";
-import { createQuestBodySchema, type CreateQuestBody } from "./quest.schema";
+import {
+    exportQuestLeaderboard,
+    exportQuestParticipants,
+    getQuestFunnel,
+    getQuestLeaderboard,
+} from "./quest-stats.service";
+import {
+    createQuestBodySchema,
+    getQuestLeaderboardParamsSchema,
+    getQuestStatsParamsSchema,
+    type CreateQuestBody,
+    type GetQuestLeaderboardParams,
+    type GetQuestStatsParams,
+} from "./quest.schema";
 import { createQuest, getQuest, getQuestsByDaoId } from "./quest.service";
 import {
     Router,
@@ -27,29 +40,34 @@ const handleCreateQuest = async (
             reward_token_chain,
             reward_token_address,
             reward_token_amount,
-            twitter_account_url,
-            twitter_post_url,
-            twitter_follow_enabled,
-            twitter_like_enabled,
-            twitter_retweet_enabled,
+            reward_token_budget,
+            tasks,
+            max_participants,
+            members_only,
+            min_reputation,
+            required_house,
         } = req.body as CreateQuestBody;
 
-        const data = await createQuest({
-            dao_id,
-            start_time,
-            end_time,
-            title,
-            description,
-            reward_merits,
-            reward_token_chain,
-            reward_token_address,
-            reward_token_amount,
-            twitter_account_url,
-            twitter_post_url,
-            twitter_follow_enabled,
-            twitter_like_enabled,
-            twitter_retweet_enabled,
-        });
+        const data = await createQuest(
+            {
+                dao_id,
+                start_time,
+                end_time,
+                title,
+                description,
+                reward_merits,
+                reward_token_chain,
+                reward_token_address,
+                reward_token_amount,
+                reward_token_budget,
+                tasks,
+                max_participants,
+                members_only,
+                min_reputation,
+                required_house,
+            },
+            req.wallet_address!
+        );
 
         res.json({
             success: true,
@@ -100,13 +118,108 @@ const handleGetQuest = async (
     }
 };
 
+const handleGetQuestLeaderboard = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.params as GetQuestLeaderboardParams;
+        const data = await getQuestLeaderboard(dao_id);
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleExportQuestLeaderboard = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.params as GetQuestLeaderboardParams;
+        const csv = await exportQuestLeaderboard(dao_id, req.wallet_address!);
+
+        res.attachment(`quest-leaderboard-${dao_id}.csv`).send(csv);
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetQuestStats = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { quest_id } = req.params as GetQuestStatsParams;
+        const data = await getQuestFunnel(quest_id);
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleExportQuestParticipants = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { quest_id } = req.params as GetQuestStatsParams;
+        const csv = await exportQuestParticipants(
+            quest_id,
+            req.wallet_address!
+        );
+
+        res.attachment(`quest-participants-${quest_id}.csv`).send(csv);
+    } catch (error) {
+        next(error);
+    }
+};
+
 questRouter.post(
     "/create",
-    // validateJwt(),
+    validateJwt(),
     validateQuery("body", createQuestBodySchema),
     handleCreateQuest
 );
 
 questRouter.get("/dao/:dao_id", handleGetQuestsByDaoId);
 
+questRouter.get(
+    "/dao/:dao_id/leaderboard",
+    validateQuery("params", getQuestLeaderboardParamsSchema),
+    handleGetQuestLeaderboard
+);
+
+questRouter.get(
+    "/dao/:dao_id/leaderboard/export",
+    validateJwt(),
+    validateQuery("params", getQuestLeaderboardParamsSchema),
+    handleExportQuestLeaderboard
+);
+
+questRouter.get(
+    "/:quest_id/stats",
+    validateQuery("params", getQuestStatsParamsSchema),
+    handleGetQuestStats
+);
+
+questRouter.get(
+    "/:quest_id/participants/export",
+    validateJwt(),
+    validateQuery("params", getQuestStatsParamsSchema),
+    handleExportQuestParticipants
+);
+
 questRouter.get("/:quest_id", handleGetQuest);
@@ -1,6 +1,53 @@
+import {
+    HOUSES,
+    MAX_QUEST_TASKS,
+    QUEST_TASK_TYPES,
+} from "../../utils/constants";
 import { evmAddressSchema } from "../../utils/shared.schema";
 import * as z from "zod";
 
+const tweetTaskConfigSchema = z.object({
+    tweet_id: z.string().regex(/^\d+$/, "Must be a tweet id"),
+});
+
+export const questTaskSchema = z.discriminatedUnion("task_type", [
+    z.object({
+        task_type: z.literal(QUEST_TASK_TYPES.TWITTER_FOLLOW),
+        config: z.object({
+            username: z
+                .string()
+                .regex(/^@?\w{1,15}$/, "Must be a Twitter username"),
+        }),
+    }),
+    z.object({
+        task_type: z.literal(QUEST_TASK_TYPES.TWITTER_LIKE),
+        config: tweetTaskConfigSchema,
+    }),
+    z.object({
+        task_type: z.literal(QUEST_TASK_TYPES.TWITTER_RETWEET),
+        config: tweetTaskConfigSchema,
+    }),
+    z.object({
+        task_type: z.literal(QUEST_TASK_TYPES.GITHUB_CONTRIBUTION),
+        config: z.object({
+            repo_owner: z.string().regex(/^[\w.-]+$/, "Must be a GitHub owner"),
+            repo_name: z
+                .string()
+                .regex(/^[\w.-]+$/, "Must be a GitHub repository"),
+        }),
+    }),
+    z.object({
+        task_type: z.literal(QUEST_TASK_TYPES.EMAIL_DOMAIN),
+        config: z.object({
+            email_domain: z
+                .string()
+                .regex(/^@?[\w-]+(\.[\w-]+)+$/, "Must be an email domain"),
+        }),
+    }),
+]);
+
+export type QuestTask = z.infer<typeof questTaskSchema>;
+
 export const createQuestBodySchema = z
     .object({
         dao_id: z.string().uuid(),
@@ -12,55 +59,69 @@ export const createQuestBodySchema = z
         reward_token_chain: z.number().int().optional(),
         reward_token_address: evmAddressSchema.optional(),
         reward_token_amount: z.number().positive().optional(),
-        twitter_account_url: z.string().trim().url().optional(),
-        twitter_post_url: z.string().trim().url().optional(),
-        twitter_follow_enabled: z.boolean(),
-        twitter_like_enabled: z.boolean(),
-        twitter_retweet_enabled: z.boolean(),
+        reward_token_budget: z.number().positive().optional(),
+        tasks: z.array(questTaskSchema).min(1).max(MAX_QUEST_TASKS),
+        max_participants: z.number().int().positive().optional(),
+        members_only: z.boolean().optional(),
+        min_reputation: z.number().int().optional(),
+        required_house: z.nativeEnum(HOUSES).optional(),
     })
     .refine(
         (data) => {
             const hasTokenChain = data.reward_token_chain !== undefined;
             const hasTokenAddress = data.reward_token_address !== undefined;
             const hasTokenAmount = data.reward_token_amount !== undefined;
+            const hasTokenBudget = data.reward_token_budget !== undefined;
 
-            if (hasTokenChain || hasTokenAddress || hasTokenAmount) {
-                return hasTokenChain && hasTokenAddress && hasTokenAmount;
+            if (
+                hasTokenChain ||
+                hasTokenAddress ||
+                hasTokenAmount ||
+                hasTokenBudget
+            ) {
+                return (
+                    hasTokenChain &&
+                    hasTokenAddress &&
+                    hasTokenAmount &&
+                    hasTokenBudget
+                );
             }
             return true;
         },
         {
             message:
-                "If providing token rewards, all token fields (chain, address, amount) must be provided",
+                "If providing token rewards, all token fields (chain, address, amount, budget) must be provided",
             path: ["reward_token_chain"],
         }
     )
     .refine(
         (data) => {
-            if (data.twitter_follow_enabled && !data.twitter_account_url) {
-                return false;
-            }
-            return true;
-        },
-        {
-            message: "Twitter account URL is required when follow is enabled",
-            path: ["twitter_account_url"],
-        }
-    )
-    .refine(
-        (data) => {
-            const needsPostUrl =
-                data.twitter_like_enabled || data.twitter_retweet_enabled;
-            if (needsPostUrl && !data.twitter_post_url) {
-                return false;
+            if (
+                data.reward_token_amount !== undefined &&
+                data.reward_token_budget !== undefined
+            ) {
+                return data.reward_token_budget >= data.reward_token_amount;
             }
             return true;
         },
         {
-            message:
-                "Twitter post URL is required when like or retweet is enabled",
-            path: ["twitter_post_url"],
+            message: "Token budget must cover at least one reward",
+            path: ["reward_token_budget"],
         }
     );
 
 export type CreateQuestBody = z.infer<typeof createQuestBodySchema>;
+
+export const getQuestLeaderboardParamsSchema = z.object({
+    dao_id: z.string().uuid(),
+});
+
+export type GetQuestLeaderboardParams = z.infer<
+    typeof getQuestLeaderboardParamsSchema
+>;
+
+export const getQuestStatsParamsSchema = z.object({
+    quest_id: z.string().uuid(),
+});
+
+export type GetQuestStatsParams = z.infer<typeof getQuestStatsParamsSchema>;
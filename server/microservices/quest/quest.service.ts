@@ -1,24 +1,35 @@
 import { SupabaseService } from "../../services";
-import { SUPABASE_0_ROWS_ERROR_CODE } from "../../utils/constants";
+import {
+    DAO_PERMISSIONS,
+    SUPABASE_0_ROWS_ERROR_CODE,
+} from "../../utils/constants";
 import { createError, HttpStatusCode } from "../../utils/functions";
+import { assertDaoPermission } from "../membership/membership.service";
+import { createQuestTasks } from "./quest-task.service";
 import type { CreateQuestBody } from "./quest.schema";
 
-export const createQuest = async ({
-    dao_id,
-    start_time,
-    end_time,
-    title,
-    description,
-    reward_merits,
-    reward_token_chain,
-    reward_token_address,
-    reward_token_amount,
-    twitter_account_url,
-    twitter_post_url,
-    twitter_follow_enabled,
-    twitter_like_enabled,
-    twitter_retweet_enabled,
-}: CreateQuestBody) => {
+export const createQuest = async (
+    {
+        dao_id,
+        start_time,
+        end_time,
+        title,
+        description,
+        reward_merits,
+        reward_token_chain,
+        reward_token_address,
+        reward_token_amount,
+        reward_token_budget,
+        tasks,
+        max_participants,
+        members_only,
+        min_reputation,
+        required_house,
+    }: CreateQuestBody,
+    created_by: string
+) => {
+    await assertDaoPermission(created_by, dao_id, DAO_PERMISSIONS.CREATE_QUEST);
+
     const startDate = new Date(start_time);
     const endDate = new Date(end_time);
 
@@ -41,11 +52,11 @@ export const createQuest = async ({
             reward_token_chain,
             reward_token_address,
             reward_token_amount,
-            twitter_account_url,
-            twitter_post_url,
-            twitter_follow_enabled,
-            twitter_like_enabled,
-            twitter_retweet_enabled,
+            reward_token_budget,
+            max_participants,
+            members_only,
+            min_reputation,
+            required_house,
         })
         .select()
         .single();
@@ -54,15 +65,27 @@ export const createQuest = async ({
         throw error;
     }
 
-    return data;
+    try {
+        const questTasks = await createQuestTasks(data.quest_id, tasks);
+
+        return { ...data, tasks: questTasks };
+    } catch (error) {
+        await SupabaseService.getSupabase("admin")
+            .from("quests")
+            .delete()
+            .eq("quest_id", data.quest_id);
+
+        throw error;
+    }
 };
 
 export const getQuestsByDaoId = async (dao_id: string) => {
     const { data, error } = await SupabaseService.getSupabase("admin")
         .from("quests")
-        .select()
+        .select("*, tasks:quest_tasks(*)")
         .eq("dao_id", dao_id)
-        .order("created_at", { ascending: false });
+        .order("created_at", { ascending: false })
+        .order("position", { referencedTable: "quest_tasks" });
 
     if (error) {
         throw error;
@@ -74,8 +97,9 @@ export const getQuestsByDaoId = async (dao_id: string) => {
 export const getQuest = async (quest_id: string) => {
     const { data, error } = await SupabaseService.getSupabase("admin")
         .from("quests")
-        .select()
+        .select("*, tasks:quest_tasks(*)")
         .eq("quest_id", quest_id)
+        .order("position", { referencedTable: "quest_tasks" })
         .single();
 
     if (error && error.code !== SUPABASE_0_ROWS_ERROR_CODE) {
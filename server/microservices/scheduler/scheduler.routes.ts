@@ -0,0 +1,41 @@
+import { validateJwt, validateQuery } from "../../middlewares";
+import {
+    getSchedulerStatusQuerySchema,
+    type GetSchedulerStatusQuery,
+} from "./scheduler.schema";
+import { getSchedulerStatus } from "./scheduler.service";
+import {
+    Router,
+    type NextFunction,
+    type Request,
+    type Response,
+} from "express";
+
+export const schedulerRouter = Router();
+
+const handleGetSchedulerStatus = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const data = await getSchedulerStatus(
+            req.query as unknown as GetSchedulerStatusQuery,
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+schedulerRouter.get(
+    "/status",
+    validateJwt(),
+    validateQuery("query", getSchedulerStatusQuerySchema),
+    handleGetSchedulerStatus
+);
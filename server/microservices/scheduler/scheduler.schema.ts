@@ -0,0 +1,10 @@
+import * as z from "zod";
+
+export const getSchedulerStatusQuerySchema = z.object({
+    dao_id: z.string().uuid(),
+    limit: z.coerce.number().min(1).max(100).optional(),
+});
+
+export type GetSchedulerStatusQuery = z.infer<
+    typeof getSchedulerStatusQuerySchema
+>;
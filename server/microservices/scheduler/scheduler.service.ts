@@ -0,0 +1,512 @@
+import { SupabaseService } from "../../services";
+import {
+    DAO_PERMISSIONS,
+    SCHEDULER_BATCH_SIZE,
+    SCHEDULER_CONCLUSION_MAX_ATTEMPTS,
+    SCHEDULER_CONCLUSION_RETRY_BASE_MS,
+    SCHEDULER_CONCLUSION_RETRY_MAX_MS,
+    SCHEDULER_INTERVAL_MS,
+    SCHEDULER_JOBS,
+    SCHEDULER_LOCK_TTL_SECONDS,
+    SCHEDULER_RUN_STATUSES,
+    SUPABASE_0_ROWS_ERROR_CODE,
+} from "../../utils/constants";
+import { assertDaoPermission } from "../membership/membership.service";
+import { sendPendingMerits } from "../merits/merits.service";
+import {
+    announceVotingStart,
+    concludeProposal,
+} from "../proposal/proposal.service";
+import { takeProposalSnapshot } from "../proposal/snapshot.service";
+import { retryQuestTokenPayouts } from "../quest-participant/quest-participant.service";
+import { sendPendingWebhooks } from "../webhooks/webhook-delivery.service";
+import type { GetSchedulerStatusQuery } from "./scheduler.schema";
+import { randomUUID } from "crypto";
+import { setInterval } from "timers";
+
+interface ConcludedPhase {
+    proposal_id: string;
+    is_feedback: boolean;
+}
+
+interface ConclusionFailure extends ConcludedPhase {
+    message: string;
+}
+
+const INSTANCE_ID = randomUUID();
+
+let isRunning = false;
+
+const acquireLock = async (job: SCHEDULER_JOBS) => {
+    const { data, error } = await SupabaseService.getSupabase("admin").rpc(
+        "acquire_scheduler_lock",
+        {
+            p_job: job,
+            p_instance_id: INSTANCE_ID,
+            p_ttl_seconds: SCHEDULER_LOCK_TTL_SECONDS,
+        }
+    );
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+const releaseLock = async (job: SCHEDULER_JOBS) => {
+    const { error } = await SupabaseService.getSupabase("admin").rpc(
+        "release_scheduler_lock",
+        {
+            p_job: job,
+            p_instance_id: INSTANCE_ID,
+        }
+    );
+
+    if (error) {
+        throw error;
+    }
+};
+
+const getProposalsToConclude = async (is_feedback: boolean) => {
+    const now = new Date().toISOString();
+    const endColumn = is_feedback ? "feedback_end" : "voting_end";
+    const attemptsColumn = is_feedback
+        ? "feedback_conclusion_attempts"
+        : "conclusion_attempts";
+    const nextAttemptColumn = is_feedback
+        ? "feedback_conclusion_next_attempt_at"
+        : "conclusion_next_attempt_at";
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("proposals")
+        .select(
+            "proposal_id, conclusion_attempts, feedback_conclusion_attempts"
+        )
+        .lt(endColumn, now)
+        .is(is_feedback ? "feedback_conclusion" : "conclusion", null)
+        .lt(attemptsColumn, SCHEDULER_CONCLUSION_MAX_ATTEMPTS)
+        .or(`${nextAttemptColumn}.is.null,${nextAttemptColumn}.lte.${now}`)
+        .order(attemptsColumn, { ascending: true })
+        .order(endColumn, { ascending: true })
+        .limit(SCHEDULER_BATCH_SIZE);
+
+    if (error) {
+        throw error;
+    }
+
+    return data.map(
+        ({
+            proposal_id,
+            conclusion_attempts,
+            feedback_conclusion_attempts,
+        }) => ({
+            proposal_id,
+            attempts: is_feedback
+                ? feedback_conclusion_attempts
+                : conclusion_attempts,
+        })
+    );
+};
+
+const getConclusionRetryDelay = (attempts: number) =>
+    Math.min(
+        SCHEDULER_CONCLUSION_RETRY_BASE_MS * 2 ** (attempts - 1),
+        SCHEDULER_CONCLUSION_RETRY_MAX_MS
+    );
+
+const recordConclusionFailure = async (
+    proposal_id: string,
+    is_feedback: boolean,
+    attempts: number
+) => {
+    const next_attempt_at = new Date(
+        Date.now() + getConclusionRetryDelay(attempts)
+    ).toISOString();
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("proposals")
+        .update(
+            is_feedback
+                ? {
+                      feedback_conclusion_attempts: attempts,
+                      feedback_conclusion_next_attempt_at: next_attempt_at,
+                  }
+                : {
+                      conclusion_attempts: attempts,
+                      conclusion_next_attempt_at: next_attempt_at,
+                  }
+        )
+        .eq("proposal_id", proposal_id);
+
+    if (error) {
+        throw error;
+    }
+};
+
+const getProposalsToAnnounce = async () => {
+    const now = new Date().toISOString();
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("proposals")
+        .select()
+        .lte("voting_start", now)
+        .gt("voting_end", now)
+        .is("voting_start_announced_at", null)
+        .order("voting_start", { ascending: true })
+        .limit(SCHEDULER_BATCH_SIZE);
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const runConclusionJob = async () => {
+    const job = SCHEDULER_JOBS.CONCLUDE_PROPOSALS;
+
+    if (!(await acquireLock(job))) {
+        return null;
+    }
+
+    const concluded: ConcludedPhase[] = [];
+    const failures: ConclusionFailure[] = [];
+    let runError: string | null = null;
+
+    try {
+        const { data: run, error } = await SupabaseService.getSupabase("admin")
+            .from("scheduler_runs")
+            .insert({ job, instance_id: INSTANCE_ID })
+            .select()
+            .single();
+
+        if (error) {
+            throw error;
+        }
+
+        try {
+            for (const is_feedback of [false, true]) {
+                const proposals = await getProposalsToConclude(is_feedback);
+
+                for (const { proposal_id, attempts } of proposals) {
+                    try {
+                        await concludeProposal(proposal_id, is_feedback);
+                        concluded.push({ proposal_id, is_feedback });
+                    } catch (error) {
+                        await recordConclusionFailure(
+                            proposal_id,
+                            is_feedback,
+                            attempts + 1
+                        );
+                        failures.push({
+                            proposal_id,
+                            is_feedback,
+                            message:
+                                error instanceof Error
+                                    ? error.message
+                                    : String(error),
+                        });
+                    }
+                }
+            }
+        } catch (error) {
+            runError = error instanceof Error ? error.message : String(error);
+        }
+
+        const { data, error: updateError } = await SupabaseService.getSupabase(
+            "admin"
+        )
+            .from("scheduler_runs")
+            .update({
+                status:
+                    runError || failures.length
+                        ? SCHEDULER_RUN_STATUSES.FAILED
+                        : SCHEDULER_RUN_STATUSES.SUCCEEDED,
+                concluded: concluded.map((conclusion) => ({ ...conclusion })),
+                failures: failures.map((failure) => ({ ...failure })),
+                error: runError,
+                finished_at: new Date().toISOString(),
+            })
+            .eq("run_id", run.run_id)
+            .select()
+            .single();
+
+        if (updateError) {
+            throw updateError;
+        }
+
+        return data;
+    } finally {
+        await releaseLock(job);
+    }
+};
+
+export const runMeritsJob = async () => {
+    const job = SCHEDULER_JOBS.SEND_MERITS;
+
+    if (!(await acquireLock(job))) {
+        return null;
+    }
+
+    try {
+        return await sendPendingMerits();
+    } finally {
+        await releaseLock(job);
+    }
+};
+
+export const runWebhooksJob = async () => {
+    const job = SCHEDULER_JOBS.DELIVER_WEBHOOKS;
+
+    if (!(await acquireLock(job))) {
+        return null;
+    }
+
+    try {
+        return await sendPendingWebhooks();
+    } finally {
+        await releaseLock(job);
+    }
+};
+
+export const runAnnouncementJob = async () => {
+    const job = SCHEDULER_JOBS.ANNOUNCE_VOTING;
+
+    if (!(await acquireLock(job))) {
+        return null;
+    }
+
+    try {
+        const announced: string[] = [];
+
+        for (const proposal of await getProposalsToAnnounce()) {
+            try {
+                await takeProposalSnapshot(proposal);
+            } catch (error) {
+                console.error(
+                    `Failed to take the snapshot of proposal ${proposal.proposal_id}:`,
+                    error
+                );
+            }
+
+            if (await announceVotingStart(proposal.proposal_id)) {
+                announced.push(proposal.proposal_id);
+            }
+        }
+
+        return announced;
+    } finally {
+        await releaseLock(job);
+    }
+};
+
+export const runQuestPayoutsJob = async () => {
+    const job = SCHEDULER_JOBS.RETRY_QUEST_PAYOUTS;
+
+    if (!(await acquireLock(job))) {
+        return null;
+    }
+
+    try {
+        return await retryQuestTokenPayouts();
+    } finally {
+        await releaseLock(job);
+    }
+};
+
+export const startScheduler = () => {
+    const interval = +(
+        process.env.SCHEDULER_INTERVAL_MS || SCHEDULER_INTERVAL_MS
+    );
+
+    const runConclusions = async () => {
+        try {
+            const run = await runConclusionJob();
+            if (run && (run.concluded as unknown[]).length) {
+                console.info(
+                    `Scheduler concluded ${(run.concluded as unknown[]).length} proposal phase(s)`
+                );
+            }
+        } catch (error) {
+            console.error("Scheduler run failed:", error);
+        }
+    };
+
+    const runMerits = async () => {
+        try {
+            const result = await runMeritsJob();
+            if (result?.sent.length) {
+                console.info(
+                    `Scheduler sent ${result.sent.length} merit distribution(s)`
+                );
+            }
+            for (const { distribution_id, message } of result?.failures ?? []) {
+                console.error(
+                    `Merit distribution ${distribution_id} failed: ${message}`
+                );
+            }
+        } catch (error) {
+            console.error("Merits run failed:", error);
+        }
+    };
+
+    const runAnnouncements = async () => {
+        try {
+            const announced = await runAnnouncementJob();
+            if (announced?.length) {
+                console.info(
+                    `Scheduler announced voting for ${announced.length} proposal(s)`
+                );
+            }
+        } catch (error) {
+            console.error("Announcement run failed:", error);
+        }
+    };
+
+    const runWebhooks = async () => {
+        try {
+            const result = await runWebhooksJob();
+            if (result?.sent.length) {
+                console.info(
+                    `Scheduler retried ${result.sent.length} webhook delivery(ies)`
+                );
+            }
+            for (const { delivery_id, message } of result?.failures ?? []) {
+                console.error(
+                    `Webhook delivery ${delivery_id} failed: ${message}`
+                );
+            }
+        } catch (error) {
+            console.error("Webhooks run failed:", error);
+        }
+    };
+
+    const runQuestPayouts = async () => {
+        try {
+            const result = await runQuestPayoutsJob();
+            if (result?.settled.length) {
+                console.info(
+                    `Scheduler settled ${result.settled.length} quest token payout(s)`
+                );
+            }
+            for (const { payout_id, message } of result?.failures ?? []) {
+                console.error(
+                    `Quest token payout ${payout_id} failed: ${message}`
+                );
+            }
+        } catch (error) {
+            console.error("Quest payouts run failed:", error);
+        }
+    };
+
+    const tick = async () => {
+        if (isRunning) {
+            return;
+        }
+
+        isRunning = true;
+        try {
+            await runAnnouncements();
+            await runConclusions();
+            // * INFO: runs after the conclusions so merits they queued go out on the same tick
+            await runMerits();
+            await runQuestPayouts();
+            await runWebhooks();
+        } finally {
+            isRunning = false;
+        }
+    };
+
+    setInterval(tick, interval);
+    tick();
+
+    console.info(`Scheduler started, running every ${interval}ms`);
+};
+
+export const getSchedulerStatus = async (
+    { dao_id, limit = 20 }: GetSchedulerStatusQuery,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    const { data: lock, error: lockError } = await SupabaseService.getSupabase(
+        "admin"
+    )
+        .from("scheduler_locks")
+        .select()
+        .eq("job", SCHEDULER_JOBS.CONCLUDE_PROPOSALS)
+        .single();
+
+    if (lockError && lockError.code !== SUPABASE_0_ROWS_ERROR_CODE) {
+        throw lockError;
+    }
+
+    const { data: runs, error } = await SupabaseService.getSupabase("admin")
+        .from("scheduler_runs")
+        .select()
+        .eq("job", SCHEDULER_JOBS.CONCLUDE_PROPOSALS)
+        .order("started_at", { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw error;
+    }
+
+    const proposalIds = [
+        ...new Set(
+            runs.flatMap(({ concluded, failures }) =>
+                [
+                    ...(concluded as unknown as ConcludedPhase[]),
+                    ...(failures as unknown as ConclusionFailure[]),
+                ].map(({ proposal_id }) => proposal_id)
+            )
+        ),
+    ];
+
+    const { data: proposals, error: proposalsError } = proposalIds.length
+        ? await SupabaseService.getSupabase("admin")
+              .from("proposals")
+              .select("proposal_id")
+              .eq("dao_id", dao_id)
+              .in("proposal_id", proposalIds)
+        : { data: [], error: null };
+
+    if (proposalsError) {
+        throw proposalsError;
+    }
+
+    const daoProposalIds = new Set(
+        proposals.map(({ proposal_id }) => proposal_id)
+    );
+    const isDaoProposal = ({ proposal_id }: ConcludedPhase) =>
+        daoProposalIds.has(proposal_id);
+
+    const daoRuns = runs.map((run) => ({
+        ...run,
+        concluded: (run.concluded as unknown as ConcludedPhase[]).filter(
+            isDaoProposal
+        ),
+        failures: (run.failures as unknown as ConclusionFailure[]).filter(
+            isDaoProposal
+        ),
+    }));
+
+    const failures = daoRuns.flatMap(({ run_id, started_at, failures }) =>
+        failures.map((failure) => ({
+            run_id,
+            started_at,
+            ...failure,
+        }))
+    );
+
+    return {
+        lock,
+        runs: daoRuns,
+        failures,
+    };
+};
@@ -1,11 +1,27 @@
-import { validateQuery } from "../../middlewares";
+import {
+    validateJwt,
+    validateQuery,
+    validateWalletOwnership,
+} from "../../middlewares";
 import {
     castVoteBodySchema,
     getVotesBodySchema,
+    retractVoteBodySchema,
+    updateVoteBodySchema,
+    voteHistoryBodySchema,
     type CastVoteBody,
     type GetVotesBody,
+    type RetractVoteBody,
+    type UpdateVoteBody,
+    type VoteHistoryBody,
 } from "./vote.schema";
-import { castVote, getVotesForProposal } from "./vote.service";
+import {
+    castVote,
+    getVoteHistory,
+    getVotesForProposal,
+    retractVote,
+    updateVote,
+} from "./vote.service";
 import {
     Router,
     type NextFunction,
@@ -21,14 +37,86 @@ const handleCastVote = async (
     next: NextFunction
 ) => {
     try {
-        const { proposal_id, wallet_address, vote, is_feedback } =
+        const { proposal_id, vote, selections, is_feedback } =
             req.body as CastVoteBody;
 
         const data = await castVote({
             proposal_id,
-            wallet_address,
+            wallet_address: req.wallet_address!,
             is_feedback,
             vote,
+            selections,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleUpdateVote = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { proposal_id, vote, selections, is_feedback } =
+            req.body as UpdateVoteBody;
+
+        const data = await updateVote({
+            proposal_id,
+            wallet_address: req.wallet_address!,
+            is_feedback,
+            vote,
+            selections,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleRetractVote = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { proposal_id, is_feedback } = req.body as RetractVoteBody;
+
+        const data = await retractVote({
+            proposal_id,
+            wallet_address: req.wallet_address!,
+            is_feedback,
+        });
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetVoteHistory = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { proposal_id, wallet_address } = req.body as VoteHistoryBody;
+
+        const data = await getVoteHistory({
+            proposal_id,
+            wallet_address,
         });
 
         res.json({
@@ -65,11 +153,34 @@ const handleGetVotes = async (
 
 voteRouter.post(
     "/",
-    // validateJwt(),
+    validateJwt(),
     validateQuery("body", castVoteBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
     handleCastVote
 );
 
+voteRouter.post(
+    "/update",
+    validateJwt(),
+    validateQuery("body", updateVoteBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
+    handleUpdateVote
+);
+
+voteRouter.post(
+    "/retract",
+    validateJwt(),
+    validateQuery("body", retractVoteBodySchema),
+    validateWalletOwnership("body", "wallet_address"),
+    handleRetractVote
+);
+
+voteRouter.post(
+    "/history",
+    validateQuery("body", voteHistoryBodySchema),
+    handleGetVoteHistory
+);
+
 voteRouter.post(
     "/proposal",
     validateQuery("body", getVotesBodySchema),
@@ -1,16 +1,51 @@
-import { HOUSES, VOTE_TYPES } from "../../utils/constants";
-import { evmAddressSchema } from "../../utils/shared.schema";
+import {
+    HOUSES,
+    MAX_PROPOSAL_OPTIONS,
+    VOTE_TYPES,
+} from "../../utils/constants";
+import { walletAddressSchema } from "../../utils/shared.schema";
 import z from "zod";
 
-export const castVoteBodySchema = z.object({
+const voteBodySchema = z.object({
     proposal_id: z.string().uuid(),
-    wallet_address: evmAddressSchema,
-    vote: z.nativeEnum(VOTE_TYPES),
+    wallet_address: walletAddressSchema,
+    vote: z.nativeEnum(VOTE_TYPES).optional(),
+    selections: z
+        .array(z.number().int().min(0))
+        .min(1)
+        .max(MAX_PROPOSAL_OPTIONS)
+        .optional(),
     is_feedback: z.boolean(),
 });
 
+export const castVoteBodySchema = voteBodySchema.refine(
+    (data) => !data.vote !== !data.selections,
+    {
+        message: "Either a vote or option selections are required",
+        path: ["selections"],
+    }
+);
+
 export type CastVoteBody = z.infer<typeof castVoteBodySchema>;
 
+export const updateVoteBodySchema = castVoteBodySchema;
+
+export type UpdateVoteBody = z.infer<typeof updateVoteBodySchema>;
+
+export const retractVoteBodySchema = voteBodySchema.omit({
+    vote: true,
+    selections: true,
+});
+
+export type RetractVoteBody = z.infer<typeof retractVoteBodySchema>;
+
+export const voteHistoryBodySchema = z.object({
+    proposal_id: z.string().uuid(),
+    wallet_address: walletAddressSchema,
+});
+
+export type VoteHistoryBody = z.infer<typeof voteHistoryBodySchema>;
+
 export const getVotesBodySchema = z.object({
     proposal_id: z.string().uuid(),
     is_feedback: z.boolean(),
@@ -2,17 +2,27 @@ import { SupabaseService } from "../../services";
 import {
     FEEDBACK_PROPOSAL_WEIGHT,
     SUPABASE_0_ROWS_ERROR_CODE,
+    VOTE_HISTORY_ACTIONS,
+    VOTE_TYPES,
+    VOTING_METHODS,
     type HOUSES,
 } from "../../utils/constants";
 import { createError, HttpStatusCode } from "../../utils/functions";
+import type { Tables } from "../../utils/types/database.types";
 import { getDao } from "../dao/dao.service";
 import { getMember } from "../member/member.service";
-import {
-    getMemberships,
-    getTokensBalances,
-} from "../membership/membership.service";
+import { getMemberships } from "../membership/membership.service";
 import { getProposal } from "../proposal/proposal.service";
-import type { CastVoteBody } from "./vote.schema";
+import {
+    calculateSnapshotVoteWeight,
+    isSnapshotEligible,
+} from "../proposal/snapshot.service";
+import type {
+    CastVoteBody,
+    RetractVoteBody,
+    UpdateVoteBody,
+    VoteHistoryBody,
+} from "./vote.schema";
 
 export const getVote = async (
     proposal_id: string,
@@ -34,10 +44,88 @@ export const getVote = async (
     return data;
 };
 
+const assertVotingWindowOpen = (
+    proposal: Tables<"proposals">,
+    is_feedback: boolean
+) => {
+    const now = new Date();
+    const votingStart = new Date(proposal.voting_start);
+    const votingEnd = new Date(proposal.voting_end);
+    const feedbackEnd = new Date(proposal.feedback_end);
+
+    if (!is_feedback) {
+        if (now < votingStart) {
+            throw createError(
+                "Voting has not started yet",
+                HttpStatusCode.BAD_REQUEST
+            );
+        }
+        if (now > votingEnd) {
+            throw createError("Voting has ended", HttpStatusCode.BAD_REQUEST);
+        }
+    } else {
+        if (now > feedbackEnd) {
+            throw createError(
+                "Feedback voting has ended",
+                HttpStatusCode.BAD_REQUEST
+            );
+        }
+    }
+};
+
+const assertValidBallot = (
+    proposal: Tables<"proposals">,
+    is_feedback: boolean,
+    vote?: VOTE_TYPES,
+    selections?: number[]
+) => {
+    if (is_feedback || proposal.voting_method === VOTING_METHODS.BINARY) {
+        if (!vote || selections) {
+            throw createError(
+                "This vote takes YES, NO or ABSTAIN",
+                HttpStatusCode.BAD_REQUEST
+            );
+        }
+        return;
+    }
+
+    if (vote) {
+        if (vote !== VOTE_TYPES.ABSTAIN) {
+            throw createError(
+                "Select one or more options, or ABSTAIN",
+                HttpStatusCode.BAD_REQUEST
+            );
+        }
+        return;
+    }
+
+    if (
+        !selections ||
+        new Set(selections).size !== selections.length ||
+        selections.some((selection) => selection >= proposal.options.length)
+    ) {
+        throw createError(
+            "Selections must be unique and refer to the proposal's options",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    if (
+        proposal.voting_method === VOTING_METHODS.SINGLE_CHOICE &&
+        selections.length !== 1
+    ) {
+        throw createError(
+            "Single-choice proposals take exactly one option",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+};
+
 export const castVote = async ({
     proposal_id,
     wallet_address,
     vote,
+    selections,
     is_feedback,
 }: CastVoteBody) => {
     const proposal = await getProposal(proposal_id);
@@ -45,6 +133,8 @@ export const castVote = async ({
         throw createError("Proposal not found", HttpStatusCode.NOT_FOUND);
     }
 
+    assertValidBallot(proposal, is_feedback, vote, selections);
+
     const dao = await getDao(proposal.dao_id);
     if (!dao) {
         throw createError("DAO not found", HttpStatusCode.NOT_FOUND);
@@ -72,28 +162,13 @@ export const castVote = async ({
         throw createError("User has already voted", HttpStatusCode.BAD_REQUEST);
     }
 
-    const now = new Date();
-    const votingStart = new Date(proposal.voting_start);
-    const votingEnd = new Date(proposal.voting_end);
-    const feedbackEnd = new Date(proposal.feedback_end);
+    assertVotingWindowOpen(proposal, is_feedback);
 
-    if (!is_feedback) {
-        if (now < votingStart) {
-            throw createError(
-                "Voting has not started yet",
-                HttpStatusCode.BAD_REQUEST
-            );
-        }
-        if (now > votingEnd) {
-            throw createError("Voting has ended", HttpStatusCode.BAD_REQUEST);
-        }
-    } else {
-        if (now > feedbackEnd) {
-            throw createError(
-                "Feedback voting has ended",
-                HttpStatusCode.BAD_REQUEST
-            );
-        }
+    if (!is_feedback && !isSnapshotEligible(proposal, membership)) {
+        throw createError(
+            "Joined the DAO after this proposal's snapshot, so not eligible to vote on it",
+            HttpStatusCode.FORBIDDEN
+        );
     }
 
     const member = await getMember(wallet_address);
@@ -101,26 +176,9 @@ export const castVote = async ({
         throw createError("Member not found", HttpStatusCode.NOT_FOUND);
     }
 
-    const tokenBalances = await getTokensBalances(
-        wallet_address,
-        dao.tokens as {
-            token_address: string;
-            chain_id: number;
-        }[]
-    );
-
-    const totalBalance =
-        tokenBalances.reduce(
-            (acc, tokenBalance) => acc + tokenBalance.balance,
-            0
-        ) /
-        10 ** 18;
-
-    const TOKEN_SUPPLY_PER_TOKEN = 1_000_000_000;
-    const totalSupply =
-        (dao.tokens as { token_address: string; chain_id: number }[]).length *
-        TOKEN_SUPPLY_PER_TOKEN;
-    const percentageHolding = (totalBalance / totalSupply) * 100;
+    const weightBreakdown = is_feedback
+        ? null
+        : await calculateSnapshotVoteWeight(proposal, dao, membership);
 
     const { data, error } = await SupabaseService.getSupabase("admin")
         .from("votes")
@@ -128,13 +186,11 @@ export const castVote = async ({
             is_feedback,
             proposal_id,
             member_id: member.member_id,
-            vote,
+            vote: vote ?? null,
+            selections: selections ?? null,
             house: membership.house,
-            weight: is_feedback
-                ? FEEDBACK_PROPOSAL_WEIGHT
-                : Math.floor(
-                      percentageHolding * 0.5 + membership.reputation * 0.5
-                  ),
+            weight: weightBreakdown?.weight ?? FEEDBACK_PROPOSAL_WEIGHT,
+            weight_breakdown: weightBreakdown ? { ...weightBreakdown } : null,
         })
         .select()
         .single();
@@ -146,6 +202,148 @@ export const castVote = async ({
     return data;
 };
 
+const getChangeableVote = async (
+    proposal_id: string,
+    wallet_address: string,
+    is_feedback: boolean
+) => {
+    const proposal = await getProposal(proposal_id);
+    if (!proposal) {
+        throw createError("Proposal not found", HttpStatusCode.NOT_FOUND);
+    }
+
+    assertVotingWindowOpen(proposal, is_feedback);
+
+    const existingVote = await getVote(
+        proposal_id,
+        wallet_address,
+        is_feedback
+    );
+    if (!existingVote) {
+        throw createError("User has not voted yet", HttpStatusCode.NOT_FOUND);
+    }
+
+    return { proposal, existingVote };
+};
+
+const recordVoteHistory = async (
+    {
+        proposal_id,
+        member_id,
+        is_feedback,
+        vote,
+        selections,
+        weight,
+    }: Tables<"votes">,
+    action: VOTE_HISTORY_ACTIONS
+) => {
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("vote_history")
+        .insert({
+            proposal_id,
+            member_id,
+            is_feedback,
+            vote,
+            selections,
+            weight,
+            action,
+        });
+
+    if (error) {
+        throw error;
+    }
+};
+
+export const updateVote = async ({
+    proposal_id,
+    wallet_address,
+    vote,
+    selections,
+    is_feedback,
+}: UpdateVoteBody) => {
+    const { proposal, existingVote } = await getChangeableVote(
+        proposal_id,
+        wallet_address,
+        is_feedback
+    );
+
+    assertValidBallot(proposal, is_feedback, vote, selections);
+
+    if (
+        existingVote.vote === (vote ?? null) &&
+        (existingVote.selections ?? []).join() === (selections ?? []).join()
+    ) {
+        throw createError("Vote is unchanged", HttpStatusCode.BAD_REQUEST);
+    }
+
+    await recordVoteHistory(existingVote, VOTE_HISTORY_ACTIONS.CHANGED);
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("votes")
+        .update({
+            vote: vote ?? null,
+            selections: selections ?? null,
+        })
+        .eq("proposal_id", proposal_id)
+        .eq("member_id", existingVote.member_id)
+        .eq("is_feedback", is_feedback)
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const retractVote = async ({
+    proposal_id,
+    wallet_address,
+    is_feedback,
+}: RetractVoteBody) => {
+    const { existingVote } = await getChangeableVote(
+        proposal_id,
+        wallet_address,
+        is_feedback
+    );
+
+    await recordVoteHistory(existingVote, VOTE_HISTORY_ACTIONS.RETRACTED);
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("votes")
+        .delete()
+        .eq("proposal_id", proposal_id)
+        .eq("member_id", existingVote.member_id)
+        .eq("is_feedback", is_feedback)
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getVoteHistory = async ({
+    proposal_id,
+    wallet_address,
+}: VoteHistoryBody) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("vote_history")
+        .select()
+        .eq("proposal_id", proposal_id)
+        .eq("member_id", wallet_address)
+        .order("created_at", { ascending: false });
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
 export const getVotesForProposal = async (
     proposal_id: string,
     is_feedback: boolean,
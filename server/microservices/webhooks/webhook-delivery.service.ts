@@ -0,0 +1,225 @@
+import { LocalService, SupabaseService } from "../../services";
+import {
+    SCHEDULER_BATCH_SIZE,
+    WEBHOOK_DELIVERY_STATUSES,
+    WEBHOOK_MAX_ATTEMPTS,
+    WEBHOOK_RETRY_BASE_MS,
+    WEBHOOK_RETRY_MAX_MS,
+    WEBHOOK_TIMEOUT_MS,
+    type WEBHOOK_EVENTS,
+} from "../../utils/constants";
+import { signWebhookPayload } from "../../utils/functions";
+import type { Json, Tables } from "../../utils/types/database.types";
+import { assertWebhookUrlAllowed, webhookAgent } from "./webhook-url.service";
+import axios, { isAxiosError } from "axios";
+import { randomUUID } from "crypto";
+
+interface WebhookSendFailure {
+    delivery_id: string;
+    message: string;
+}
+
+export type WebhookDelivery = Tables<"webhook_deliveries"> & {
+    webhook: Tables<"webhooks">;
+};
+
+const getRetryDelay = (attempts: number) =>
+    Math.min(WEBHOOK_RETRY_BASE_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_MS);
+
+const getSendErrorMessage = (error: unknown) => {
+    if (isAxiosError(error)) {
+        return `${error.response?.status ?? "network"}: ${error.message}`;
+    }
+
+    return error instanceof Error ? error.message : String(error);
+};
+
+export const sendWebhookDelivery = async ({
+    webhook,
+    ...delivery
+}: WebhookDelivery) => {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const attempts = delivery.attempts + 1;
+
+    let response_status: number | null = null;
+    let last_error: string | null = null;
+
+    try {
+        await assertWebhookUrlAllowed(webhook.url);
+
+        const response = await axios.post(webhook.url, body, {
+            headers: {
+                "Content-Type": "application/json",
+                "User-Agent": "DAOscape-Webhooks",
+                "X-DAOscape-Event": delivery.event,
+                "X-DAOscape-Delivery": delivery.delivery_id,
+                "X-DAOscape-Timestamp": timestamp,
+                "X-DAOscape-Signature": signWebhookPayload(
+                    webhook.secret,
+                    timestamp,
+                    body
+                ),
+            },
+            timeout: WEBHOOK_TIMEOUT_MS,
+            maxRedirects: 0,
+            httpsAgent: LocalService.isEnabled() ? undefined : webhookAgent,
+        });
+        response_status = response.status;
+    } catch (error) {
+        response_status = isAxiosError(error)
+            ? (error.response?.status ?? null)
+            : null;
+        last_error = getSendErrorMessage(error);
+    }
+
+    const now = new Date().toISOString();
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhook_deliveries")
+        .update({
+            status: !last_error
+                ? WEBHOOK_DELIVERY_STATUSES.SENT
+                : attempts >= WEBHOOK_MAX_ATTEMPTS
+                  ? WEBHOOK_DELIVERY_STATUSES.FAILED
+                  : WEBHOOK_DELIVERY_STATUSES.PENDING,
+            attempts,
+            response_status,
+            last_error,
+            next_attempt_at: new Date(
+                Date.now() + getRetryDelay(attempts)
+            ).toISOString(),
+            sent_at: last_error ? null : now,
+            updated_at: now,
+        })
+        .eq("delivery_id", delivery.delivery_id)
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const createWebhookDeliveries = async (
+    webhooks: Tables<"webhooks">[],
+    event: WEBHOOK_EVENTS,
+    data: object
+) => {
+    if (!webhooks.length) {
+        return [];
+    }
+
+    const created_at = new Date().toISOString();
+    const { data: deliveries, error } = await SupabaseService.getSupabase(
+        "admin"
+    )
+        .from("webhook_deliveries")
+        .insert(
+            webhooks.map(({ webhook_id, dao_id }) => {
+                const delivery_id = randomUUID();
+
+                return {
+                    delivery_id,
+                    webhook_id,
+                    dao_id,
+                    event,
+                    payload: {
+                        id: delivery_id,
+                        event,
+                        dao_id,
+                        created_at,
+                        data,
+                    } as unknown as Json,
+                    next_attempt_at: new Date(
+                        Date.now() + WEBHOOK_RETRY_BASE_MS
+                    ).toISOString(),
+                };
+            })
+        )
+        .select();
+
+    if (error) {
+        throw error;
+    }
+
+    return deliveries.map((delivery) => ({
+        ...delivery,
+        webhook: webhooks.find(
+            ({ webhook_id }) => webhook_id === delivery.webhook_id
+        )!,
+    }));
+};
+
+export const emitWebhookEvent = async (
+    dao_id: string,
+    event: WEBHOOK_EVENTS,
+    data: object
+) => {
+    try {
+        const { data: webhooks, error } = await SupabaseService.getSupabase(
+            "admin"
+        )
+            .from("webhooks")
+            .select()
+            .eq("dao_id", dao_id)
+            .eq("active", true)
+            .contains("events", [event]);
+
+        if (error) {
+            throw error;
+        }
+
+        const deliveries = await createWebhookDeliveries(webhooks, event, data);
+
+        for (const delivery of deliveries) {
+            sendWebhookDelivery(delivery).catch((error) =>
+                console.error(
+                    `Webhook delivery ${delivery.delivery_id} failed:`,
+                    error
+                )
+            );
+        }
+    } catch (error) {
+        console.error(`Failed to emit the ${event} webhook event:`, error);
+    }
+};
+
+export const sendPendingWebhooks = async () => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhook_deliveries")
+        .select("*, webhook:webhooks(*)")
+        .eq("status", WEBHOOK_DELIVERY_STATUSES.PENDING)
+        .lte("next_attempt_at", new Date().toISOString())
+        .order("next_attempt_at", { ascending: true })
+        .limit(SCHEDULER_BATCH_SIZE);
+
+    if (error) {
+        throw error;
+    }
+
+    const sent: string[] = [];
+    const failures: WebhookSendFailure[] = [];
+
+    for (const delivery of data) {
+        try {
+            const { status, last_error } = await sendWebhookDelivery(delivery);
+            if (status === WEBHOOK_DELIVERY_STATUSES.SENT) {
+                sent.push(delivery.delivery_id);
+            } else {
+                failures.push({
+                    delivery_id: delivery.delivery_id,
+                    message: last_error ?? status,
+                });
+            }
+        } catch (error) {
+            failures.push({
+                delivery_id: delivery.delivery_id,
+                message: getSendErrorMessage(error),
+            });
+        }
+    }
+
+    return { sent, failures };
+};
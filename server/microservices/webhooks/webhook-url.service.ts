@@ -0,0 +1,105 @@
+import { LocalService } from "../../services";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import { lookup, type LookupAddress } from "dns";
+import { Agent } from "https";
+import { BlockList, isIP, type LookupFunction } from "net";
+import { URL } from "url";
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix] of [
+    ["0.0.0.0", 8],
+    ["10.0.0.0", 8],
+    ["100.64.0.0", 10],
+    ["127.0.0.0", 8],
+    ["169.254.0.0", 16],
+    ["172.16.0.0", 12],
+    ["192.0.0.0", 24],
+    ["192.168.0.0", 16],
+    ["198.18.0.0", 15],
+    ["224.0.0.0", 4],
+    ["240.0.0.0", 4],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+    ["::", 128],
+    ["::1", 128],
+    ["64:ff9b::", 96],
+    ["fc00::", 7],
+    ["fe80::", 10],
+    ["ff00::", 8],
+] as const) {
+    blockedAddresses.addSubnet(network, prefix, "ipv6");
+}
+
+const isBlockedAddress = (address: string) =>
+    blockedAddresses.check(address, isIP(address) === 6 ? "ipv6" : "ipv4");
+
+const resolveHost = (hostname: string) =>
+    new Promise<LookupAddress[]>((resolve, reject) =>
+        lookup(hostname, { all: true }, (error, addresses) =>
+            error ? reject(error) : resolve(addresses)
+        )
+    );
+
+export const assertWebhookUrlAllowed = async (url: string) => {
+    if (LocalService.isEnabled()) {
+        return;
+    }
+
+    const { protocol, hostname } = new URL(url);
+    if (protocol !== "https:") {
+        throw createError(
+            "Webhook URLs must use https",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const host = hostname.replace(/^\[(.*)\]$/, "$1");
+
+    let addresses: string[];
+    try {
+        addresses = isIP(host)
+            ? [host]
+            : (await resolveHost(host)).map(({ address }) => address);
+    } catch {
+        throw createError(
+            `Webhook host ${host} could not be resolved`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    if (addresses.some(isBlockedAddress)) {
+        throw createError(
+            "Webhook URLs must point at a public host",
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+};
+
+// * INFO: checks the addresses the connection actually uses, so a host re-pointed after validation is still refused
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) =>
+    lookup(hostname, { ...options, all: true }, (error, addresses) => {
+        if (error) {
+            callback(error, "");
+            return;
+        }
+
+        if (addresses.some(({ address }) => isBlockedAddress(address))) {
+            callback(
+                new Error(
+                    `Webhook host ${hostname} resolves to a private address`
+                ),
+                ""
+            );
+            return;
+        }
+
+        if (options.all) {
+            callback(null, addresses);
+        } else {
+            callback(null, addresses[0].address, addresses[0].family);
+        }
+    });
+
+export const webhookAgent = new Agent({ lookup: publicOnlyLookup });
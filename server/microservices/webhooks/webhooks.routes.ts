@@ -0,0 +1,302 @@
+import { validateJwt, validateQuery } from "../../middlewares";
+import {
+    createWebhookBodySchema,
+    daoWebhooksBodySchema,
+    redeliverWebhookBodySchema,
+    rotateWebhookSecretBodySchema,
+    updateWebhookBodySchema,
+    webhookBodySchema,
+    webhookDeliveriesBodySchema,
+    type CreateWebhookBody,
+    type DaoWebhooksBody,
+    type RedeliverWebhookBody,
+    type RotateWebhookSecretBody,
+    type UpdateWebhookBody,
+    type WebhookBody,
+    type WebhookDeliveriesBody,
+} from "./webhooks.schema";
+import {
+    createWebhook,
+    deleteWebhook,
+    getWebhookDeliveries,
+    getWebhooks,
+    redeliverWebhookDelivery,
+    rotateWebhookSecret,
+    testWebhook,
+    updateWebhook,
+} from "./webhooks.service";
+import {
+    Router,
+    type NextFunction,
+    type Request,
+    type Response,
+} from "express";
+
+export const webhooksRouter = Router();
+
+const handleCreateWebhook = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, url, events, secret } = req.body as CreateWebhookBody;
+
+        const data = await createWebhook(
+            {
+                dao_id,
+                url,
+                events,
+                secret,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetWebhooks = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id } = req.body as DaoWebhooksBody;
+
+        const data = await getWebhooks(
+            {
+                dao_id,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleUpdateWebhook = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, webhook_id, url, events, active } =
+            req.body as UpdateWebhookBody;
+
+        const data = await updateWebhook(
+            {
+                dao_id,
+                webhook_id,
+                url,
+                events,
+                active,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleRotateWebhookSecret = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, webhook_id, secret } =
+            req.body as RotateWebhookSecretBody;
+
+        const data = await rotateWebhookSecret(
+            {
+                dao_id,
+                webhook_id,
+                secret,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleDeleteWebhook = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, webhook_id } = req.body as WebhookBody;
+
+        const data = await deleteWebhook(
+            {
+                dao_id,
+                webhook_id,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleTestWebhook = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, webhook_id } = req.body as WebhookBody;
+
+        const data = await testWebhook(
+            {
+                dao_id,
+                webhook_id,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleGetWebhookDeliveries = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, webhook_id, status, limit, offset } =
+            req.body as WebhookDeliveriesBody;
+
+        const data = await getWebhookDeliveries(
+            {
+                dao_id,
+                webhook_id,
+                status,
+                limit,
+                offset,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+const handleRedeliverWebhookDelivery = async (
+    req: Request,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const { dao_id, delivery_id } = req.body as RedeliverWebhookBody;
+
+        const data = await redeliverWebhookDelivery(
+            {
+                dao_id,
+                delivery_id,
+            },
+            req.wallet_address!
+        );
+
+        res.json({
+            success: true,
+            data,
+        });
+    } catch (error) {
+        next(error);
+    }
+};
+
+webhooksRouter.post(
+    "/create",
+    validateJwt(),
+    validateQuery("body", createWebhookBodySchema),
+    handleCreateWebhook
+);
+
+webhooksRouter.post(
+    "/list",
+    validateJwt(),
+    validateQuery("body", daoWebhooksBodySchema),
+    handleGetWebhooks
+);
+
+webhooksRouter.post(
+    "/update",
+    validateJwt(),
+    validateQuery("body", updateWebhookBodySchema),
+    handleUpdateWebhook
+);
+
+webhooksRouter.post(
+    "/rotate-secret",
+    validateJwt(),
+    validateQuery("body", rotateWebhookSecretBodySchema),
+    handleRotateWebhookSecret
+);
+
+webhooksRouter.post(
+    "/delete",
+    validateJwt(),
+    validateQuery("body", webhookBodySchema),
+    handleDeleteWebhook
+);
+
+webhooksRouter.post(
+    "/test",
+    validateJwt(),
+    validateQuery("body", webhookBodySchema),
+    handleTestWebhook
+);
+
+webhooksRouter.post(
+    "/deliveries",
+    validateJwt(),
+    validateQuery("body", webhookDeliveriesBodySchema),
+    handleGetWebhookDeliveries
+);
+
+webhooksRouter.post(
+    "/deliveries/redeliver",
+    validateJwt(),
+    validateQuery("body", redeliverWebhookBodySchema),
+    handleRedeliverWebhookDelivery
+);
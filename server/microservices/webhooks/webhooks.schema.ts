@@ -0,0 +1,80 @@
+import {
+    WEBHOOK_DELIVERY_STATUSES,
+    WEBHOOK_EVENTS,
+} from "../../utils/constants";
+import * as z from "zod";
+
+const webhookUrlSchema = z
+    .string()
+    .trim()
+    .url()
+    .max(2000)
+    .refine((url) => /^https?:\/\//.test(url), "Must be an http(s) URL");
+
+const webhookEventsSchema = z
+    .array(
+        z
+            .nativeEnum(WEBHOOK_EVENTS)
+            .refine(
+                (event) => event !== WEBHOOK_EVENTS.PING,
+                "PING is only sent by the test endpoint"
+            )
+    )
+    .min(1);
+
+const webhookSecretSchema = z.string().trim().min(16).max(200).optional();
+
+export const createWebhookBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    url: webhookUrlSchema,
+    events: webhookEventsSchema,
+    secret: webhookSecretSchema,
+});
+
+export type CreateWebhookBody = z.infer<typeof createWebhookBodySchema>;
+
+export const daoWebhooksBodySchema = z.object({
+    dao_id: z.string().uuid(),
+});
+
+export type DaoWebhooksBody = z.infer<typeof daoWebhooksBodySchema>;
+
+export const webhookBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    webhook_id: z.string().uuid(),
+});
+
+export type WebhookBody = z.infer<typeof webhookBodySchema>;
+
+export const updateWebhookBodySchema = webhookBodySchema.extend({
+    url: webhookUrlSchema.optional(),
+    events: webhookEventsSchema.optional(),
+    active: z.boolean().optional(),
+});
+
+export type UpdateWebhookBody = z.infer<typeof updateWebhookBodySchema>;
+
+export const rotateWebhookSecretBodySchema = webhookBodySchema.extend({
+    secret: webhookSecretSchema,
+});
+
+export type RotateWebhookSecretBody = z.infer<
+    typeof rotateWebhookSecretBodySchema
+>;
+
+export const webhookDeliveriesBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    webhook_id: z.string().uuid().optional(),
+    status: z.nativeEnum(WEBHOOK_DELIVERY_STATUSES).optional(),
+    limit: z.number().int().min(1).max(100).optional(),
+    offset: z.number().int().min(0).optional(),
+});
+
+export type WebhookDeliveriesBody = z.infer<typeof webhookDeliveriesBodySchema>;
+
+export const redeliverWebhookBodySchema = z.object({
+    dao_id: z.string().uuid(),
+    delivery_id: z.string().uuid(),
+});
+
+export type RedeliverWebhookBody = z.infer<typeof redeliverWebhookBodySchema>;
@@ -0,0 +1,293 @@
+import { SupabaseService } from "../../services";
+import {
+    DAO_PERMISSIONS,
+    MAX_DAO_WEBHOOKS,
+    SUPABASE_0_ROWS_ERROR_CODE,
+    WEBHOOK_EVENTS,
+} from "../../utils/constants";
+import { createError, HttpStatusCode } from "../../utils/functions";
+import { assertDaoPermission } from "../membership/membership.service";
+import {
+    createWebhookDeliveries,
+    sendWebhookDelivery,
+} from "./webhook-delivery.service";
+import { assertWebhookUrlAllowed } from "./webhook-url.service";
+import type {
+    CreateWebhookBody,
+    DaoWebhooksBody,
+    RedeliverWebhookBody,
+    RotateWebhookSecretBody,
+    UpdateWebhookBody,
+    WebhookBody,
+    WebhookDeliveriesBody,
+} from "./webhooks.schema";
+import { randomBytes } from "crypto";
+
+const WEBHOOK_COLUMNS =
+    "webhook_id, dao_id, url, events, active, created_by, created_at, updated_at";
+
+const generateWebhookSecret = () => `whsec_${randomBytes(24).toString("hex")}`;
+
+const getWebhook = async (dao_id: string, webhook_id: string) => {
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhooks")
+        .select()
+        .eq("webhook_id", webhook_id)
+        .eq("dao_id", dao_id)
+        .single();
+
+    if (error?.code === SUPABASE_0_ROWS_ERROR_CODE) {
+        throw createError("Webhook not found", HttpStatusCode.NOT_FOUND);
+    }
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const createWebhook = async (
+    { dao_id, url, events, secret }: CreateWebhookBody,
+    created_by: string
+) => {
+    await assertDaoPermission(
+        created_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+    await assertWebhookUrlAllowed(url);
+
+    const { count, error: countError } = await SupabaseService.getSupabase(
+        "admin"
+    )
+        .from("webhooks")
+        .select("*", { count: "exact", head: true })
+        .eq("dao_id", dao_id);
+
+    if (countError) {
+        throw countError;
+    }
+
+    if ((count ?? 0) >= MAX_DAO_WEBHOOKS) {
+        throw createError(
+            `A DAO can have at most ${MAX_DAO_WEBHOOKS} webhooks`,
+            HttpStatusCode.BAD_REQUEST
+        );
+    }
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhooks")
+        .insert({
+            dao_id,
+            url,
+            events: [...new Set(events)],
+            secret: secret ?? generateWebhookSecret(),
+            created_by,
+        })
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const getWebhooks = async (
+    { dao_id }: DaoWebhooksBody,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhooks")
+        .select(WEBHOOK_COLUMNS)
+        .eq("dao_id", dao_id)
+        .order("created_at", { ascending: true });
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const updateWebhook = async (
+    { dao_id, webhook_id, url, events, active }: UpdateWebhookBody,
+    updated_by: string
+) => {
+    await assertDaoPermission(
+        updated_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+    await getWebhook(dao_id, webhook_id);
+
+    if (url) {
+        await assertWebhookUrlAllowed(url);
+    }
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhooks")
+        .update({
+            url,
+            events: events ? [...new Set(events)] : undefined,
+            active,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("webhook_id", webhook_id)
+        .select(WEBHOOK_COLUMNS)
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const rotateWebhookSecret = async (
+    { dao_id, webhook_id, secret }: RotateWebhookSecretBody,
+    updated_by: string
+) => {
+    await assertDaoPermission(
+        updated_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+    await getWebhook(dao_id, webhook_id);
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhooks")
+        .update({
+            secret: secret ?? generateWebhookSecret(),
+            updated_at: new Date().toISOString(),
+        })
+        .eq("webhook_id", webhook_id)
+        .select()
+        .single();
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const deleteWebhook = async (
+    { dao_id, webhook_id }: WebhookBody,
+    deleted_by: string
+) => {
+    await assertDaoPermission(
+        deleted_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+    await getWebhook(dao_id, webhook_id);
+
+    const { error } = await SupabaseService.getSupabase("admin")
+        .from("webhooks")
+        .delete()
+        .eq("webhook_id", webhook_id);
+
+    if (error) {
+        throw error;
+    }
+
+    return { webhook_id };
+};
+
+export const testWebhook = async (
+    { dao_id, webhook_id }: WebhookBody,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+    const webhook = await getWebhook(dao_id, webhook_id);
+
+    const [delivery] = await createWebhookDeliveries(
+        [webhook],
+        WEBHOOK_EVENTS.PING,
+        { webhook_id, requested_by }
+    );
+
+    return await sendWebhookDelivery(delivery);
+};
+
+export const getWebhookDeliveries = async (
+    {
+        dao_id,
+        webhook_id,
+        status,
+        limit = 50,
+        offset = 0,
+    }: WebhookDeliveriesBody,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    let query = SupabaseService.getSupabase("admin")
+        .from("webhook_deliveries")
+        .select()
+        .eq("dao_id", dao_id);
+
+    if (webhook_id) {
+        query = query.eq("webhook_id", webhook_id);
+    }
+
+    if (status) {
+        query = query.eq("status", status);
+    }
+
+    const { data, error } = await query
+        .order("created_at", { ascending: false })
+        .range(offset, offset + limit - 1);
+
+    if (error) {
+        throw error;
+    }
+
+    return data;
+};
+
+export const redeliverWebhookDelivery = async (
+    { dao_id, delivery_id }: RedeliverWebhookBody,
+    requested_by: string
+) => {
+    await assertDaoPermission(
+        requested_by,
+        dao_id,
+        DAO_PERMISSIONS.MANAGE_GOVERNANCE
+    );
+
+    const { data, error } = await SupabaseService.getSupabase("admin")
+        .from("webhook_deliveries")
+        .select("*, webhook:webhooks(*)")
+        .eq("delivery_id", delivery_id)
+        .eq("dao_id", dao_id)
+        .single();
+
+    if (error?.code === SUPABASE_0_ROWS_ERROR_CODE) {
+        throw createError(
+            "Webhook delivery not found",
+            HttpStatusCode.NOT_FOUND
+        );
+    }
+    if (error) {
+        throw error;
+    }
+
+    return await sendWebhookDelivery({ ...data, attempts: 0 });
+};
@@ -1,2 +1,3 @@
 export { validateJwt } from "./validate-jwt";
 export { validateQuery } from "./validate-query";
+export { validateWalletOwnership } from "./validate-wallet-ownership";
@@ -1,6 +1,10 @@
-import { HttpStatusCode, createError } from "../utils/functions";
+import {
+    HttpStatusCode,
+    createError,
+    normalizeAddress,
+} from "../utils/functions";
 import { type NextFunction, type Request, type Response } from "express";
-import { verify } from "jsonwebtoken";
+import { verify, type JwtPayload } from "jsonwebtoken";
 import { z } from "zod";
 
 export const jwtHeaderSchema = z.object({
@@ -11,6 +15,11 @@ export const jwtHeaderSchema = z.object({
         .regex(/^Bearer .+$/, { message: "JWT should be Bearer Token" }),
 });
 
+/**
+ * JWT Validator
+ * Verifies the Bearer token issued by `/auth/verify` and exposes the
+ * authenticated wallet as `req.wallet_address`.
+ */
 export const validateJwt = () => {
     return async (req: Request, res: Response, next: NextFunction) => {
         try {
@@ -27,7 +36,21 @@ export const validateJwt = () => {
 
             const authToken = result.data.authorization.split(" ")[1];
 
-            verify(authToken, process.env.JWT_SECRET!);
+            const payload = verify(
+                authToken,
+                process.env.JWT_SECRET!
+            ) as JwtPayload;
+
+            if (!payload.sub) {
+                return next(
+                    createError(
+                        "JWT is missing a subject",
+                        HttpStatusCode.FORBIDDEN
+                    )
+                );
+            }
+
+            req.wallet_address = normalizeAddress(payload.sub);
 
             next();
         } catch (err: any) {
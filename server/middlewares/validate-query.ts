@@ -5,6 +5,8 @@ type RequestLocations = "query" | "body" | "params" | "headers";
 
 /**
  * Generic Request Validator
+ * Writes the parsed values back, so coercions, defaults and transforms apply
+ * to what handlers read. Headers are only checked.
  * @param {RequestLocations} location The parameter of the req object to be validated.
  * @param {AnyZodObject} schema The Zod schema against which validation is to be done.
  */
@@ -29,7 +31,10 @@ export const validateQuery = (
                 break;
         }
         try {
-            await schema.parseAsync(_location);
+            const parsed = await schema.parseAsync(_location);
+            if (location !== "headers" && _location) {
+                Object.assign(_location, parsed);
+            }
             next();
         } catch (error: unknown) {
             if (error instanceof ZodError) {
@@ -0,0 +1,36 @@
+import { HttpStatusCode, createError } from "../utils/functions";
+import { type NextFunction, type Request, type Response } from "express";
+
+type RequestLocations = "body" | "params";
+
+/**
+ * Wallet Ownership Validator
+ * Must run after `validateJwt`.
+ * @param {RequestLocations} location The parameter of the req object holding the wallet.
+ * @param {string} field The field that must match the authenticated wallet.
+ */
+export const validateWalletOwnership = (
+    location: RequestLocations,
+    field: string
+) => {
+    return async (req: Request, res: Response, next: NextFunction) => {
+        const wallet = req[location]?.[field];
+
+        if (
+            !req.wallet_address ||
+            typeof wallet !== "string" ||
+            wallet.toLowerCase() !== req.wallet_address.toLowerCase()
+        ) {
+            return next(
+                createError(
+                    `'${field}' does not match the authenticated wallet`,
+                    HttpStatusCode.FORBIDDEN
+                )
+            );
+        }
+
+        next();
+    };
+};
+
+export default validateWalletOwnership;
@@ -0,0 +1,57 @@
+import { signWebhookPayload } from "../utils/functions";
+import { Buffer } from "buffer";
+import { timingSafeEqual } from "crypto";
+import "dotenv/config";
+import { createServer } from "http";
+
+const PORT = +(process.env.WEBHOOK_RECEIVER_PORT || 4000);
+const SECRET = process.env.WEBHOOK_RECEIVER_SECRET;
+const FAIL_STATUS = process.env.WEBHOOK_RECEIVER_FAIL_STATUS;
+
+const TIMESTAMP_TOLERANCE_SECONDS = 5 * 60;
+
+const isSignatureValid = (
+    secret: string,
+    signature: string,
+    timestamp: string,
+    body: string
+) => {
+    const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+    const received = Buffer.from(signature);
+
+    return (
+        expected.length === received.length &&
+        timingSafeEqual(expected, received) &&
+        Math.abs(Date.now() / 1000 - +timestamp) <= TIMESTAMP_TOLERANCE_SECONDS
+    );
+};
+
+createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => {
+        body += chunk;
+    });
+    req.on("end", () => {
+        const valid = SECRET
+            ? isSignatureValid(
+                  SECRET,
+                  String(req.headers["x-daoscape-signature"] ?? ""),
+                  String(req.headers["x-daoscape-timestamp"] ?? ""),
+                  body
+              )
+            : null;
+
+        console.info(
+            `${new Date().toISOString()} ${req.headers["x-daoscape-event"]} ${req.headers["x-daoscape-delivery"]} - signature ${
+                valid === null ? "not checked" : valid ? "valid" : "INVALID"
+            }`
+        );
+        console.info(body);
+
+        res.writeHead(
+            valid === false ? 401 : FAIL_STATUS ? +FAIL_STATUS : 200
+        ).end();
+    });
+}).listen(PORT, () => {
+    console.info(`Webhook receiver listening on http://localhost:${PORT}`);
+});
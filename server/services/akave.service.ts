@@ -1,4 +1,5 @@
-import type { CreateProposalBody } from "../microservices/proposal/proposal.schema";
+import type { Tables } from "../utils/types/database.types";
+import { LocalService } from "./local.service";
 import {
     CreateBucketCommand,
     HeadBucketCommand,
@@ -11,9 +12,23 @@ export class AkaveService {
     private static instance: AkaveService;
     private static s3Client: S3Client;
     private static bucketName = "eth-prague-proposal-storage";
+    private static baseUrl: string;
 
     public static init = async (): Promise<void> => {
-        if (
+        if (LocalService.isEnabled()) {
+            this.baseUrl = process.env.AKAVE_BASE_URL || "http://localhost";
+            this.s3Client = new S3Client({
+                endpoint: this.baseUrl,
+                region: "us-east-1",
+                credentials: {
+                    accessKeyId: "local",
+                    secretAccessKey: "local",
+                },
+                forcePathStyle: true,
+            });
+            LocalService.attachS3(this.s3Client);
+            console.info("Akave Service initiated in local mode!");
+        } else if (
             !process.env.AKAVE_KEY_ID ||
             !process.env.AKAVE_SECRET_KEY ||
             !process.env.AKAVE_BASE_URL
@@ -21,6 +36,7 @@ export class AkaveService {
             console.error("Missing Akave env variables.");
             process.exit(1);
         } else {
+            this.baseUrl = process.env.AKAVE_BASE_URL;
             this.s3Client = new S3Client({
                 endpoint: process.env.AKAVE_BASE_URL,
                 region: "us-east-1",
@@ -108,7 +124,10 @@ export class AkaveService {
         return AkaveService.instance;
     }
 
-    public storeProposal(proposalId: string, proposalData: CreateProposalBody) {
+    public storeProposal(
+        proposalId: string,
+        proposalData: Tables<"proposals">
+    ) {
         try {
             const fileName = `proposal::${proposalId}.json`;
             const command = new PutObjectCommand({
@@ -122,7 +141,7 @@ export class AkaveService {
             // * INFO: fire and forget
             AkaveService.s3Client.send(command);
 
-            const assetUrl = `${process.env.AKAVE_BASE_URL}/${AkaveService.bucketName}/${fileName}`;
+            const assetUrl = `${AkaveService.baseUrl}/${AkaveService.bucketName}/${fileName}`;
 
             console.info(
                 `Proposal ${proposalId} stored successfully in Akave O3 at: ${assetUrl}`
@@ -140,7 +159,7 @@ export class AkaveService {
 
     public updateProposal(
         proposalId: string,
-        updatedProposalData: CreateProposalBody
+        updatedProposalData: Tables<"proposals">
     ) {
         try {
             const fileName = `proposal::${proposalId}.json`;
@@ -170,7 +189,7 @@ export class AkaveService {
             // * INFO: fire and forget
             AkaveService.s3Client.send(command);
 
-            const assetUrl = `${process.env.AKAVE_BASE_URL}/${AkaveService.bucketName}/${fileName}`;
+            const assetUrl = `${AkaveService.baseUrl}/${AkaveService.bucketName}/${fileName}`;
 
             console.info(
                 `Proposal ${proposalId} updated successfully in Akave O3 at: ${assetUrl}`
@@ -1,3 +1,4 @@
+import { LocalService } from "./local.service";
 import axios, { type AxiosInstance } from "axios";
 
 export class BlockscoutService {
@@ -5,7 +6,12 @@ export class BlockscoutService {
     private static axiosInstance: AxiosInstance;
 
     public static init = (): void => {
-        if (
+        if (LocalService.isEnabled()) {
+            this.axiosInstance = axios.create({
+                adapter: LocalService.getBlockscoutAdapter(),
+            });
+            console.info("Blockscout Service initiated in local mode!");
+        } else if (
             !process.env.BLOCKSCOUT_MERITS_BASE_URL ||
             !process.env.BLOCKSCOUT_API_KEY
         ) {
@@ -0,0 +1,147 @@
+import {
+    createPublicClient,
+    createWalletClient,
+    erc20Abi,
+    http,
+    TransactionReceiptNotFoundError,
+    type Account,
+    type Chain,
+    type Hex,
+    type PublicClient,
+    type TransactionReceipt,
+    type WalletClient,
+} from "viem";
+import * as chains from "viem/chains";
+
+export class ChainService {
+    private static publicClients = new Map<number, PublicClient>();
+
+    private static getChainConfig = (chain_id: number) => {
+        const rpcUrl = process.env[`RPC_URL_${chain_id}`];
+        const chain = (Object.values(chains) as Chain[]).find(
+            (chain) => chain.id === chain_id
+        );
+        if (!chain && !rpcUrl) {
+            throw new Error(`Unsupported chain ${chain_id}`);
+        }
+
+        return { chain, rpcUrl };
+    };
+
+    public static getPublicClient = (chain_id: number): PublicClient => {
+        const existingClient = this.publicClients.get(chain_id);
+        if (existingClient) {
+            return existingClient;
+        }
+
+        const { chain, rpcUrl } = this.getChainConfig(chain_id);
+        const publicClient = createPublicClient({
+            chain,
+            transport: http(rpcUrl),
+        }) as PublicClient;
+        this.publicClients.set(chain_id, publicClient);
+
+        return publicClient;
+    };
+
+    public static getWalletClient = (
+        chain_id: number,
+        account: Account
+    ): WalletClient => {
+        const { chain, rpcUrl } = this.getChainConfig(chain_id);
+
+        return createWalletClient({
+            account,
+            chain,
+            transport: http(rpcUrl),
+        });
+    };
+
+    public static getTokenSupply = async (
+        chain_id: number,
+        token_address: string,
+        block_number?: bigint
+    ): Promise<{ total_supply: bigint; decimals: number }> => {
+        const publicClient = this.getPublicClient(chain_id);
+
+        const [total_supply, decimals] = await Promise.all([
+            publicClient.readContract({
+                address: token_address as Hex,
+                abi: erc20Abi,
+                functionName: "totalSupply",
+                blockNumber: block_number,
+            }),
+            publicClient.readContract({
+                address: token_address as Hex,
+                abi: erc20Abi,
+                functionName: "decimals",
+            }),
+        ]);
+
+        return { total_supply, decimals };
+    };
+
+    public static getTransactionReceipt = async (
+        chain_id: number,
+        tx_hash: string
+    ): Promise<TransactionReceipt | null> => {
+        const publicClient = this.getPublicClient(chain_id);
+
+        try {
+            return await publicClient.getTransactionReceipt({
+                hash: tx_hash as Hex,
+            });
+        } catch (error) {
+            if (error instanceof TransactionReceiptNotFoundError) {
+                return null;
+            }
+            throw error;
+        }
+    };
+
+    public static getTokenBalance = async (
+        chain_id: number,
+        token_address: string,
+        wallet_address: string,
+        block_number?: bigint
+    ): Promise<bigint> => {
+        const publicClient = this.getPublicClient(chain_id);
+
+        return publicClient.readContract({
+            address: token_address as Hex,
+            abi: erc20Abi,
+            functionName: "balanceOf",
+            args: [wallet_address as Hex],
+            blockNumber: block_number,
+        });
+    };
+
+    public static getBlockNumberAt = async (
+        chain_id: number,
+        timestamp: Date
+    ): Promise<bigint> => {
+        const publicClient = this.getPublicClient(chain_id);
+        const target = BigInt(Math.floor(timestamp.getTime() / 1000));
+
+        const latestBlock = await publicClient.getBlock();
+        if (latestBlock.timestamp <= target) {
+            return latestBlock.number;
+        }
+
+        let low = 0n;
+        let high = latestBlock.number;
+        while (low < high) {
+            const middle = (low + high + 1n) / 2n;
+            const block = await publicClient.getBlock({
+                blockNumber: middle,
+            });
+            if (block.timestamp <= target) {
+                low = middle;
+            } else {
+                high = middle - 1n;
+            }
+        }
+
+        return low;
+    };
+}
@@ -1,4 +1,16 @@
 export { AkaveService } from "./akave.service";
 export { BlockscoutService } from "./blockscout.service";
+export { ChainService } from "./chain.service";
+export { LocalService } from "./local.service";
 export { OneinchService } from "./oneinch.service";
+export {
+    RealtimeService,
+    type EventStream,
+    type RealtimeEvent,
+} from "./realtime.service";
+export {
+    RewardWalletService,
+    type SignedTransfer,
+    type TransferStatus,
+} from "./reward-wallet.service";
 export { SupabaseService } from "./supabase.service";
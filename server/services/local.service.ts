@@ -0,0 +1,270 @@
+import type { S3Client } from "@aws-sdk/client-s3";
+import {
+    AxiosError,
+    type AxiosAdapter,
+    type AxiosResponse,
+    type InternalAxiosRequestConfig,
+} from "axios";
+import { readFileSync } from "fs";
+import { join } from "path";
+
+interface LocalRoute {
+    method: string;
+    pattern: RegExp;
+    handle: (params: string[], body: unknown) => unknown;
+}
+
+interface BlockscoutFixture {
+    unavailable?: boolean;
+    rejected_addresses?: string[];
+}
+
+interface OneinchFixture {
+    balances?: Record<string, Record<string, Record<string, string>>>;
+    tokens?: Record<string, Record<string, unknown>>;
+    prices?: Record<string, Record<string, string>>;
+}
+
+interface LocalDistribution {
+    id: string;
+    description: string;
+    distributions: { address: string; amount: string }[];
+    expected_total: string;
+    distributed_at: string;
+}
+
+type DistributeBody = Omit<LocalDistribution, "distributed_at">;
+
+class LocalRequestError extends Error {
+    constructor(
+        public status: number,
+        message: string
+    ) {
+        super(message);
+    }
+}
+
+export class LocalService {
+    private static distributions = new Map<string, LocalDistribution>();
+    private static objects = new Map<string, string>();
+
+    public static isEnabled = (): boolean => process.env.LOCAL_MODE === "true";
+
+    private static readFixture = <T>(name: string): T => {
+        const directory =
+            process.env.LOCAL_FIXTURES_DIR ||
+            join(process.cwd(), "local", "fixtures");
+
+        return JSON.parse(
+            readFileSync(join(directory, `${name}.json`), "utf8")
+        );
+    };
+
+    private static createAdapter =
+        (service: string, routes: LocalRoute[]): AxiosAdapter =>
+        async (config: InternalAxiosRequestConfig) => {
+            const method = (config.method || "get").toUpperCase();
+            const path = (config.url || "").split("?")[0];
+            const body =
+                typeof config.data === "string"
+                    ? JSON.parse(config.data)
+                    : config.data;
+
+            const respond = (status: number, data: unknown): AxiosResponse => ({
+                data,
+                status,
+                statusText: String(status),
+                headers: {},
+                config,
+            });
+
+            for (const route of routes) {
+                const match = route.pattern.exec(path);
+                if (route.method !== method || !match) {
+                    continue;
+                }
+
+                try {
+                    return respond(200, route.handle(match.slice(1), body));
+                } catch (error) {
+                    if (!(error instanceof LocalRequestError)) {
+                        throw error;
+                    }
+
+                    const response = respond(error.status, {
+                        message: error.message,
+                    });
+                    throw new AxiosError(
+                        error.message,
+                        AxiosError.ERR_BAD_REQUEST,
+                        config,
+                        null,
+                        response
+                    );
+                }
+            }
+
+            throw new AxiosError(
+                `Local ${service} has no route for ${method} ${path}`,
+                AxiosError.ERR_BAD_REQUEST,
+                config,
+                null,
+                respond(404, { message: "Not Found" })
+            );
+        };
+
+    public static getBlockscoutAdapter = (): AxiosAdapter =>
+        this.createAdapter("Blockscout", [
+            {
+                method: "POST",
+                pattern: /^\/partner\/api\/v1\/distribute$/,
+                handle: (_params, body) => {
+                    const { id, description, distributions, expected_total } =
+                        body as DistributeBody;
+                    const fixture =
+                        this.readFixture<BlockscoutFixture>("blockscout");
+                    if (fixture.unavailable) {
+                        throw new LocalRequestError(
+                            503,
+                            "Blockscout is unavailable"
+                        );
+                    }
+
+                    if (this.distributions.has(id)) {
+                        throw new LocalRequestError(
+                            409,
+                            `Distribution ${id} already exists`
+                        );
+                    }
+
+                    const total = distributions.reduce(
+                        (acc, { amount }) => acc + parseInt(amount),
+                        0
+                    );
+                    if (total.toString() !== expected_total) {
+                        throw new LocalRequestError(
+                            422,
+                            `Expected total ${expected_total} does not match ${total}`
+                        );
+                    }
+
+                    const rejected = (fixture.rejected_addresses || []).map(
+                        (address) => address.toLowerCase()
+                    );
+                    const rejectedDistribution = distributions.find(
+                        ({ address }) =>
+                            rejected.includes(address.toLowerCase())
+                    );
+                    if (rejectedDistribution) {
+                        throw new LocalRequestError(
+                            422,
+                            `Address ${rejectedDistribution.address} was rejected`
+                        );
+                    }
+
+                    this.distributions.set(id, {
+                        id,
+                        description,
+                        distributions,
+                        expected_total,
+                        distributed_at: new Date().toISOString(),
+                    });
+
+                    return {
+                        accounts_distributed: distributions.length.toString(),
+                        accounts_created: "0",
+                    };
+                },
+            },
+        ]);
+
+    public static getOneinchAdapter = (): AxiosAdapter =>
+        this.createAdapter("1inch", [
+            {
+                method: "GET",
+                pattern:
+                    /^\/balance\/v1\.2\/(\d+)\/balances\/(0x[0-9a-fA-F]+)$/,
+                handle: ([chain_id, wallet_address]) =>
+                    this.readFixture<OneinchFixture>("oneinch").balances?.[
+                        chain_id
+                    ]?.[wallet_address.toLowerCase()] ?? {},
+            },
+            {
+                method: "GET",
+                pattern: /^\/token\/v1\.2\/(\d+)\/custom\/(0x[0-9a-fA-F]+)$/,
+                handle: ([chain_id, token_address]) => {
+                    const token =
+                        this.readFixture<OneinchFixture>("oneinch").tokens?.[
+                            chain_id
+                        ]?.[token_address.toLowerCase()];
+                    if (!token) {
+                        throw new LocalRequestError(
+                            404,
+                            `Token ${token_address} is not in the oneinch fixture`
+                        );
+                    }
+
+                    return token;
+                },
+            },
+            {
+                method: "POST",
+                pattern: /^\/price\/v1\.1\/(\d+)$/,
+                handle: ([chain_id], body) => {
+                    const prices =
+                        this.readFixture<OneinchFixture>("oneinch").prices?.[
+                            chain_id
+                        ] ?? {};
+
+                    return Object.fromEntries(
+                        (body as { tokens: string[] }).tokens
+                            .filter(
+                                (token) =>
+                                    prices[token.toLowerCase()] !== undefined
+                            )
+                            .map((token) => [
+                                token,
+                                prices[token.toLowerCase()],
+                            ])
+                    );
+                },
+            },
+        ]);
+
+    public static attachS3 = (s3Client: S3Client): void => {
+        s3Client.middlewareStack.add(
+            (_next, context) => async (args) => {
+                const input = args.input as {
+                    Bucket?: string;
+                    Key?: string;
+                    Body?: unknown;
+                };
+
+                if (context.commandName === "PutObjectCommand") {
+                    this.objects.set(
+                        `${input.Bucket}/${input.Key}`,
+                        String(input.Body)
+                    );
+                }
+
+                return {
+                    output: {
+                        $metadata: { httpStatusCode: 200 },
+                    } as never,
+                    response: {},
+                };
+            },
+            { step: "initialize", name: "localS3Middleware" }
+        );
+    };
+
+    public static getState = () => ({
+        distributions: [...this.distributions.values()],
+        objects: Object.fromEntries(this.objects),
+    });
+
+    public static reset = (): void => {
+        this.distributions.clear();
+        this.objects.clear();
+    };
+}
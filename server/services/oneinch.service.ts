@@ -1,3 +1,4 @@
+import { LocalService } from "./local.service";
 import { PrivateKeyProviderConnector, SDK } from "@1inch/cross-chain-sdk";
 import axios, { type AxiosInstance } from "axios";
 import Web3 from "web3";
@@ -8,7 +9,15 @@ export class OneinchService {
     private static fusionSDK: SDK;
 
     public static init = (): void => {
-        if (!process.env.ONEINCH_BASE_URL || !process.env.ONEINCH_API_KEY) {
+        if (LocalService.isEnabled()) {
+            this.axiosInstance = axios.create({
+                adapter: LocalService.getOneinchAdapter(),
+            });
+            console.info("Oneinch Service initiated in local mode!");
+        } else if (
+            !process.env.ONEINCH_BASE_URL ||
+            !process.env.ONEINCH_API_KEY
+        ) {
             console.error("Missing Oneinch env variables.");
             process.exit(1);
         } else {
@@ -0,0 +1,194 @@
+import { REALTIME_HEARTBEAT_MS, REALTIME_RETRY_MS } from "../utils/constants";
+import { SupabaseService } from "./supabase.service";
+import type { RealtimeChannel } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+import type { Request, Response } from "express";
+import { clearInterval, setInterval } from "timers";
+
+export interface RealtimeEvent {
+    id?: string;
+    event: string;
+    data: unknown;
+}
+
+export interface EventStream {
+    send: (event: RealtimeEvent) => void;
+    close: () => void;
+    onClose: (listener: () => void) => void;
+}
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const RELAY_EVENT = "relay";
+
+export class RealtimeService {
+    private static instanceId = randomUUID();
+    private static channels = new Map<string, Set<RealtimeListener>>();
+    private static relays = new Map<string, RealtimeChannel>();
+    private static remoteSubscribers = new Map<string, number>();
+
+    public static subscribe = (
+        channel: string,
+        listener: RealtimeListener
+    ): (() => void) => {
+        const listeners = this.channels.get(channel) || new Set();
+        listeners.add(listener);
+        this.channels.set(channel, listeners);
+
+        if (this.relays.has(channel)) {
+            this.trackSubscribers(channel);
+        } else {
+            this.joinRelay(channel);
+        }
+        this.publishPresence(channel);
+
+        return () => {
+            listeners.delete(listener);
+            if (!listeners.size) {
+                this.channels.delete(channel);
+                this.leaveRelay(channel);
+            } else {
+                this.trackSubscribers(channel);
+                this.publishPresence(channel);
+            }
+        };
+    };
+
+    public static publish = (channel: string, event: RealtimeEvent): void => {
+        this.publishLocal(channel, event);
+
+        const relay = this.relays.get(channel);
+        const sender =
+            relay || SupabaseService.getSupabase("admin").channel(channel);
+
+        sender
+            .send({ type: "broadcast", event: RELAY_EVENT, payload: event })
+            .then((status) => {
+                if (status !== "ok") {
+                    console.error(
+                        `Failed to relay ${event.event} on ${channel}: ${status}`
+                    );
+                }
+            })
+            .finally(() => {
+                if (!relay) {
+                    SupabaseService.getSupabase("admin").removeChannel(sender);
+                }
+            });
+    };
+
+    public static publishLocal = (
+        channel: string,
+        event: RealtimeEvent
+    ): void => {
+        this.channels.get(channel)?.forEach((listener) => listener(event));
+    };
+
+    public static getSubscriberCount = (channel: string): number =>
+        (this.channels.get(channel)?.size || 0) +
+        (this.remoteSubscribers.get(channel) || 0);
+
+    private static publishPresence = (channel: string): void => {
+        this.publishLocal(channel, {
+            event: "presence",
+            data: { viewers: this.getSubscriberCount(channel) },
+        });
+    };
+
+    private static joinRelay = (channel: string): void => {
+        const relay = SupabaseService.getSupabase("admin")
+            .channel(channel, {
+                config: { presence: { key: this.instanceId } },
+            })
+            .on("broadcast", { event: RELAY_EVENT }, ({ payload }) =>
+                this.publishLocal(channel, payload as RealtimeEvent)
+            )
+            .on("presence", { event: "sync" }, () => {
+                const state = relay.presenceState<{ subscribers: number }>();
+                this.remoteSubscribers.set(
+                    channel,
+                    Object.entries(state)
+                        .filter(([key]) => key !== this.instanceId)
+                        .reduce(
+                            (acc, [, presences]) =>
+                                acc + (presences.at(-1)?.subscribers || 0),
+                            0
+                        )
+                );
+                this.publishPresence(channel);
+            })
+            .subscribe((status, error) => {
+                if (status === "SUBSCRIBED") {
+                    this.trackSubscribers(channel);
+                } else if (error) {
+                    console.error(
+                        `Realtime relay for ${channel} failed (${status}):`,
+                        error
+                    );
+                }
+            });
+
+        this.relays.set(channel, relay);
+    };
+
+    private static trackSubscribers = (channel: string): void => {
+        this.relays
+            .get(channel)
+            ?.track({ subscribers: this.channels.get(channel)?.size || 0 })
+            .catch((error) =>
+                console.error(
+                    `Failed to track subscribers on ${channel}:`,
+                    error
+                )
+            );
+    };
+
+    private static leaveRelay = (channel: string): void => {
+        const relay = this.relays.get(channel);
+        this.relays.delete(channel);
+        this.remoteSubscribers.delete(channel);
+
+        if (relay) {
+            SupabaseService.getSupabase("admin").removeChannel(relay);
+        }
+    };
+
+    public static openEventStream = (
+        req: Request,
+        res: Response
+    ): EventStream => {
+        res.set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache, no-transform",
+            Connection: "keep-alive",
+            "X-Accel-Buffering": "no",
+        });
+        res.flushHeaders();
+        res.write(`retry: ${REALTIME_RETRY_MS}\n\n`);
+
+        const heartbeat = setInterval(
+            () => res.write(": heartbeat\n\n"),
+            REALTIME_HEARTBEAT_MS
+        );
+        req.on("close", () => clearInterval(heartbeat));
+
+        return {
+            send: ({ id, event, data }) => {
+                if (res.writableEnded) {
+                    return;
+                }
+
+                res.write(
+                    `${id ? `id: ${id}\n` : ""}event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+                );
+            },
+            close: () => {
+                clearInterval(heartbeat);
+                res.end();
+            },
+            onClose: (listener) => {
+                req.on("close", listener);
+            },
+        };
+    };
+}
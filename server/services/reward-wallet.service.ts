@@ -0,0 +1,152 @@
+import { ChainService } from "./chain.service";
+import {
+    encodeFunctionData,
+    erc20Abi,
+    keccak256,
+    parseUnits,
+    TransactionNotFoundError,
+    type Hex,
+} from "viem";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+
+interface TokenTransfer {
+    chain_id: number;
+    token_address: string;
+    to: string;
+    amount: number;
+}
+
+export interface SignedTransfer {
+    tx_hash: Hex;
+    nonce: number;
+    raw_tx: Hex;
+}
+
+export type TransferStatus = "success" | "reverted" | "pending" | "dropped";
+
+export class RewardWalletService {
+    private static account: PrivateKeyAccount;
+
+    public static isDryRun = (): boolean =>
+        process.env.REWARD_WALLET_DRY_RUN === "true";
+
+    private static getAccount = (): PrivateKeyAccount => {
+        if (!this.account) {
+            if (!process.env.REWARD_WALLET_PRIVATE_KEY) {
+                throw new Error("Missing REWARD_WALLET_PRIVATE_KEY");
+            }
+            this.account = privateKeyToAccount(
+                process.env.REWARD_WALLET_PRIVATE_KEY as Hex
+            );
+        }
+
+        return this.account;
+    };
+
+    public static getAddress = (): string => this.getAccount().address;
+
+    public static signTransfer = async ({
+        chain_id,
+        token_address,
+        to,
+        amount,
+    }: TokenTransfer): Promise<SignedTransfer | null> => {
+        const account = this.getAccount();
+        const publicClient = ChainService.getPublicClient(chain_id);
+
+        const decimals = await publicClient.readContract({
+            address: token_address as Hex,
+            abi: erc20Abi,
+            functionName: "decimals",
+        });
+        const value = parseUnits(amount.toString(), decimals);
+
+        const balance = await ChainService.getTokenBalance(
+            chain_id,
+            token_address,
+            account.address
+        );
+        if (balance < value) {
+            throw new Error(
+                `Reward wallet holds ${balance} of ${token_address}, ${value} is needed`
+            );
+        }
+
+        await publicClient.simulateContract({
+            account,
+            address: token_address as Hex,
+            abi: erc20Abi,
+            functionName: "transfer",
+            args: [to as Hex, value],
+        });
+
+        if (this.isDryRun()) {
+            return null;
+        }
+
+        const walletClient = ChainService.getWalletClient(chain_id, account);
+        const transaction = await walletClient.prepareTransactionRequest({
+            account,
+            chain: walletClient.chain,
+            to: token_address as Hex,
+            data: encodeFunctionData({
+                abi: erc20Abi,
+                functionName: "transfer",
+                args: [to as Hex, value],
+            }),
+        });
+        const raw_tx = await walletClient.signTransaction(transaction);
+
+        return {
+            tx_hash: keccak256(raw_tx),
+            nonce: transaction.nonce,
+            raw_tx,
+        };
+    };
+
+    public static broadcastTransfer = async (
+        chain_id: number,
+        raw_tx: string
+    ): Promise<void> => {
+        const publicClient = ChainService.getPublicClient(chain_id);
+
+        try {
+            await publicClient.getTransaction({
+                hash: keccak256(raw_tx as Hex),
+            });
+            return;
+        } catch (error) {
+            if (!(error instanceof TransactionNotFoundError)) {
+                throw error;
+            }
+        }
+
+        await publicClient.sendRawTransaction({
+            serializedTransaction: raw_tx as Hex,
+        });
+    };
+
+    // * INFO: dropped only once a mined transaction used its nonce, which is read before the receipt so a transfer mined in between is not missed
+    public static getTransferStatus = async (
+        chain_id: number,
+        tx_hash: string,
+        nonce: number | null
+    ): Promise<TransferStatus> => {
+        const minedNonces = await ChainService.getPublicClient(
+            chain_id
+        ).getTransactionCount({
+            address: this.getAccount().address,
+            blockTag: "latest",
+        });
+
+        const receipt = await ChainService.getTransactionReceipt(
+            chain_id,
+            tx_hash
+        );
+        if (receipt) {
+            return receipt.status;
+        }
+
+        return nonce !== null && minedNonces > nonce ? "dropped" : "pending";
+    };
+}
@@ -0,0 +1,9 @@
+create table if not exists public.auth_nonces (
+    nonce text primary key,
+    wallet_address text not null,
+    expires_at timestamptz not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists auth_nonces_wallet_address_idx
+    on public.auth_nonces (wallet_address);
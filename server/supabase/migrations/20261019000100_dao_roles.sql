@@ -0,0 +1,14 @@
+create type public."DAO_ROLES" as enum ('owner', 'admin', 'moderator', 'member');
+
+alter table public.memberships
+    add column if not exists role public."DAO_ROLES" not null default 'member';
+
+update public.memberships as m
+set role = 'owner'
+from public.daos as d
+where d.dao_id = m.dao_id
+    and d.owner_address = m.member_id;
+
+alter table public.messages
+    add column if not exists hidden_at timestamptz,
+    add column if not exists hidden_by text references public.members (member_id);
@@ -0,0 +1,15 @@
+create table if not exists public.governance_configs (
+    dao_id uuid primary key references public.daos (dao_id) on delete cascade,
+    token_coefficient numeric not null default 0.4,
+    reputation_coefficient numeric not null default 0.4,
+    verification_coefficient numeric not null default 0.2,
+    house_multipliers jsonb not null default '{"1": 1, "2": 1, "3": 1, "4": 1}'::jsonb,
+    updated_at timestamptz not null default now()
+);
+
+insert into public.governance_configs (dao_id)
+select dao_id from public.daos
+on conflict (dao_id) do nothing;
+
+alter table public.votes
+    add column if not exists weight_breakdown jsonb;
@@ -0,0 +1,16 @@
+create type public."PROPOSAL_OUTCOMES" as enum ('YES', 'NO', 'FAILED_QUORUM', 'TIED');
+
+alter table public.proposals
+    alter column conclusion type public."PROPOSAL_OUTCOMES"
+        using conclusion::text::public."PROPOSAL_OUTCOMES",
+    alter column feedback_conclusion type public."PROPOSAL_OUTCOMES"
+        using feedback_conclusion::text::public."PROPOSAL_OUTCOMES";
+
+alter table public.governance_configs
+    add column if not exists quorum_weight numeric not null default 0,
+    add column if not exists quorum_member_percentage numeric not null default 0,
+    add column if not exists approval_threshold numeric not null default 0.5;
+
+alter table public.proposals
+    add column if not exists tally jsonb,
+    add column if not exists feedback_tally jsonb;
@@ -0,0 +1,10 @@
+alter table public.memberships
+    add column if not exists delegate_id text references public.members (member_id),
+    add column if not exists delegated_at timestamptz;
+
+create index if not exists memberships_dao_id_delegate_id_idx
+    on public.memberships (dao_id, delegate_id);
+
+alter table public.votes
+    add column if not exists delegated_weight integer not null default 0,
+    add column if not exists delegators jsonb not null default '[]'::jsonb;
@@ -0,0 +1,15 @@
+create type public."VOTE_HISTORY_ACTIONS" as enum ('CHANGED', 'RETRACTED');
+
+create table if not exists public.vote_history (
+    history_id uuid primary key default gen_random_uuid(),
+    proposal_id uuid not null references public.proposals (proposal_id) on delete cascade,
+    member_id text not null references public.members (member_id),
+    is_feedback boolean not null,
+    vote public."VOTE_TYPES" not null,
+    weight integer not null,
+    action public."VOTE_HISTORY_ACTIONS" not null,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists vote_history_proposal_id_member_id_idx
+    on public.vote_history (proposal_id, member_id);
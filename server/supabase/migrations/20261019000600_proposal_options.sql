@@ -0,0 +1,16 @@
+create type public."VOTING_METHODS" as enum ('BINARY', 'SINGLE_CHOICE', 'APPROVAL', 'RANKED_CHOICE');
+
+alter type public."PROPOSAL_OUTCOMES" add value if not exists 'DECIDED';
+
+alter table public.proposals
+    add column if not exists voting_method public."VOTING_METHODS" not null default 'BINARY',
+    add column if not exists options text[] not null default '{}',
+    add column if not exists winning_option integer;
+
+alter table public.votes
+    alter column vote drop not null,
+    add column if not exists selections integer[];
+
+alter table public.vote_history
+    alter column vote drop not null,
+    add column if not exists selections integer[];
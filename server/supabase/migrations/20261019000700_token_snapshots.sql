@@ -0,0 +1,18 @@
+create table if not exists public.token_balance_snapshots (
+    proposal_id uuid not null references public.proposals (proposal_id) on delete cascade,
+    member_id text not null references public.members (member_id),
+    chain_id integer not null,
+    token_address text not null,
+    block_number bigint not null,
+    balance numeric not null,
+    created_at timestamptz not null default now(),
+    primary key (proposal_id, member_id, chain_id, token_address)
+);
+
+-- a proposal's snapshot only exists once every member balance has been stored
+create table if not exists public.proposal_snapshots (
+    proposal_id uuid primary key references public.proposals (proposal_id) on delete cascade,
+    snapshot_at timestamptz not null,
+    blocks jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now()
+);
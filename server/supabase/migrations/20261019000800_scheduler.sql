@@ -0,0 +1,54 @@
+create type public."SCHEDULER_RUN_STATUSES" as enum ('RUNNING', 'SUCCEEDED', 'FAILED');
+
+create table if not exists public.scheduler_locks (
+    job text primary key,
+    locked_by text not null,
+    locked_until timestamptz not null
+);
+
+create table if not exists public.scheduler_runs (
+    run_id uuid primary key default gen_random_uuid(),
+    job text not null,
+    instance_id text not null,
+    status public."SCHEDULER_RUN_STATUSES" not null default 'RUNNING',
+    concluded jsonb not null default '[]'::jsonb,
+    failures jsonb not null default '[]'::jsonb,
+    error text,
+    started_at timestamptz not null default now(),
+    finished_at timestamptz
+);
+
+create index if not exists scheduler_runs_job_started_at_idx
+    on public.scheduler_runs (job, started_at desc);
+
+-- takes the job's lock when it is free, expired or already held by the caller
+create or replace function public.acquire_scheduler_lock(
+    p_job text,
+    p_instance_id text,
+    p_ttl_seconds integer
+) returns boolean
+language plpgsql
+as $$
+begin
+    insert into public.scheduler_locks (job, locked_by, locked_until)
+    values (p_job, p_instance_id, now() + make_interval(secs => p_ttl_seconds))
+    on conflict (job) do update
+        set locked_by = excluded.locked_by,
+            locked_until = excluded.locked_until
+        where public.scheduler_locks.locked_until < now()
+            or public.scheduler_locks.locked_by = excluded.locked_by;
+
+    return found;
+end;
+$$;
+
+create or replace function public.release_scheduler_lock(
+    p_job text,
+    p_instance_id text
+) returns void
+language sql
+as $$
+    update public.scheduler_locks
+    set locked_until = now()
+    where job = p_job and locked_by = p_instance_id;
+$$;
@@ -0,0 +1,57 @@
+create type public."REPUTATION_REASONS" as enum (
+    'JOINED_DAO',
+    'CORRECT_VOTE',
+    'INCORRECT_VOTE',
+    'EMAIL_VERIFIED'
+);
+
+-- append-only: rows are never updated or deleted, memberships.reputation is their running sum
+create table if not exists public.reputation_events (
+    event_id uuid primary key default gen_random_uuid(),
+    member_id text not null references public.members (member_id),
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    delta integer not null,
+    reputation integer not null,
+    reason public."REPUTATION_REASONS" not null,
+    proposal_id uuid references public.proposals (proposal_id) on delete set null,
+    quest_id uuid references public.quests (quest_id) on delete set null,
+    verification_id uuid,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists reputation_events_dao_id_member_id_idx
+    on public.reputation_events (dao_id, member_id, created_at desc);
+
+-- applies a reputation change and records it in a single transaction
+create or replace function public.increment_reputation(
+    p_member_id text,
+    p_dao_id uuid,
+    p_delta integer,
+    p_reason public."REPUTATION_REASONS",
+    p_proposal_id uuid default null,
+    p_quest_id uuid default null,
+    p_verification_id uuid default null
+) returns integer
+language plpgsql
+as $$
+declare
+    v_reputation integer;
+begin
+    update public.memberships
+    set reputation = reputation + p_delta
+    where member_id = p_member_id and dao_id = p_dao_id
+    returning reputation into v_reputation;
+
+    if not found then
+        raise exception 'Membership not found' using errcode = 'P0002';
+    end if;
+
+    insert into public.reputation_events (
+        member_id, dao_id, delta, reputation, reason, proposal_id, quest_id, verification_id
+    ) values (
+        p_member_id, p_dao_id, p_delta, v_reputation, p_reason, p_proposal_id, p_quest_id, p_verification_id
+    );
+
+    return v_reputation;
+end;
+$$;
@@ -0,0 +1,20 @@
+create type public."VERIFICATION_PROOF_TYPES" as enum ('EMAIL_DOMAIN');
+
+-- every on-chain proof the server has accepted, so none can be redeemed twice
+create table if not exists public.verification_proofs (
+    verification_id uuid primary key default gen_random_uuid(),
+    proof_type public."VERIFICATION_PROOF_TYPES" not null,
+    proof_hash text not null,
+    tx_hash text not null unique,
+    chain_id integer not null,
+    block_number bigint not null,
+    member_id text not null references public.members (member_id),
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    subject text not null,
+    created_at timestamptz not null default now(),
+    unique (proof_type, proof_hash)
+);
+
+alter table public.reputation_events
+    add constraint reputation_events_verification_id_fkey
+    foreign key (verification_id) references public.verification_proofs (verification_id) on delete set null;
@@ -0,0 +1,22 @@
+alter type public."VERIFICATION_PROOF_TYPES" add value if not exists 'GITHUB_CONTRIBUTION';
+alter type public."REPUTATION_REASONS" add value if not exists 'GITHUB_VERIFIED';
+
+-- repositories whose verified contributors a DAO rewards, owner and name are stored lowercased
+create table if not exists public.dao_github_repositories (
+    repository_id uuid primary key default gen_random_uuid(),
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    repo_owner text not null,
+    repo_name text not null,
+    reputation_reward integer not null default 0 check (reputation_reward >= 0),
+    merits_reward integer not null default 0 check (merits_reward >= 0),
+    created_at timestamptz not null default now(),
+    unique (dao_id, repo_owner, repo_name)
+);
+
+alter table public.memberships
+    add column if not exists github_username text;
+
+-- one GitHub account per DAO, whichever wallet claims it first
+create unique index if not exists memberships_dao_github_username_key
+    on public.memberships (dao_id, lower(github_username))
+    where github_username is not null;
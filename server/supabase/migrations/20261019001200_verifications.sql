@@ -0,0 +1,36 @@
+create type public."VERIFICATION_TYPES" as enum ('TWITTER', 'GITHUB', 'EMAIL');
+
+-- a member's verified identities, shared across every DAO they join
+create table if not exists public.verifications (
+    member_id text not null references public.members (member_id) on delete cascade,
+    verification_type public."VERIFICATION_TYPES" not null,
+    identity text not null,
+    verification_id uuid not null references public.verification_proofs (verification_id) on delete cascade,
+    verified_at timestamptz not null default now(),
+    primary key (member_id, verification_type)
+);
+
+insert into public.verifications (member_id, verification_type, identity, verification_id, verified_at)
+select distinct on (member_id, verification_type)
+    member_id,
+    verification_type,
+    identity,
+    verification_id,
+    created_at
+from (
+    select
+        member_id,
+        case proof_type
+            when 'EMAIL_DOMAIN' then 'EMAIL'::public."VERIFICATION_TYPES"
+            when 'GITHUB_CONTRIBUTION' then 'GITHUB'::public."VERIFICATION_TYPES"
+        end as verification_type,
+        case proof_type
+            when 'GITHUB_CONTRIBUTION' then split_part(subject, '@', 1)
+            else subject
+        end as identity,
+        verification_id,
+        created_at
+    from public.verification_proofs
+) proofs
+order by member_id, verification_type, created_at
+on conflict (member_id, verification_type) do nothing;
@@ -0,0 +1,25 @@
+create type public."MERIT_DISTRIBUTION_STATUSES" as enum ('PENDING', 'SENT', 'FAILED');
+
+-- outbox of Blockscout merit payouts, the deterministic id doubles as Blockscout's distribution id
+create table if not exists public.merit_distributions (
+    distribution_id text primary key,
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    description text not null,
+    distributions jsonb not null,
+    total_amount bigint not null,
+    status public."MERIT_DISTRIBUTION_STATUSES" not null default 'PENDING',
+    attempts integer not null default 0,
+    next_attempt_at timestamptz not null default now(),
+    last_error text,
+    response jsonb,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now(),
+    sent_at timestamptz
+);
+
+create index if not exists merit_distributions_pending_idx
+    on public.merit_distributions (next_attempt_at)
+    where status = 'PENDING';
+
+create index if not exists merit_distributions_dao_id_status_idx
+    on public.merit_distributions (dao_id, status, created_at desc);
@@ -0,0 +1,65 @@
+create type public."QUEST_PAYOUT_STATUSES" as enum ('PENDING', 'SENT', 'SIMULATED', 'FAILED', 'BUDGET_EXHAUSTED');
+
+-- total tokens the reward wallet may pay out for a quest, a quest without a budget pays nothing
+alter table public.quests
+    add column if not exists reward_token_budget double precision;
+
+alter table public.quest_participant
+    add column if not exists token_payout_status public."QUEST_PAYOUT_STATUSES",
+    add column if not exists token_payout_tx_hash text,
+    add column if not exists token_payout_error text,
+    add column if not exists token_paid_at timestamptz;
+
+-- reserves one reward from the quest budget, locking the quest so concurrent completions cannot overspend it
+create or replace function public.reserve_quest_token_payout(
+    p_quest_id uuid,
+    p_member_id text
+) returns public."QUEST_PAYOUT_STATUSES"
+language plpgsql
+as $$
+declare
+    v_quest public.quests;
+    v_status public."QUEST_PAYOUT_STATUSES";
+    v_reserved integer;
+begin
+    select * into v_quest
+    from public.quests
+    where quest_id = p_quest_id
+    for update;
+
+    if not found then
+        raise exception 'Quest not found' using errcode = 'P0002';
+    end if;
+
+    select token_payout_status into v_status
+    from public.quest_participant
+    where quest_id = p_quest_id and member_id = p_member_id;
+
+    if not found then
+        raise exception 'Participant not found' using errcode = 'P0002';
+    end if;
+
+    -- a participant is paid at most once, failed or refused payouts may be reserved again
+    if v_status is not null and v_status not in ('FAILED', 'BUDGET_EXHAUSTED') then
+        return v_status;
+    end if;
+
+    select count(*) into v_reserved
+    from public.quest_participant
+    where quest_id = p_quest_id
+        and token_payout_status in ('PENDING', 'SENT', 'SIMULATED');
+
+    if (v_reserved + 1) * v_quest.reward_token_amount > coalesce(v_quest.reward_token_budget, 0) then
+        v_status := 'BUDGET_EXHAUSTED';
+    else
+        v_status := 'PENDING';
+    end if;
+
+    update public.quest_participant
+    set token_payout_status = v_status,
+        token_payout_error = null
+    where quest_id = p_quest_id and member_id = p_member_id;
+
+    return v_status;
+end;
+$$;
@@ -0,0 +1,7 @@
+alter type public."VERIFICATION_PROOF_TYPES" add value if not exists 'TWITTER_ACTION';
+
+-- each completed Twitter action points at the DynamicTwitterVerifier proof that completed it
+alter table public.quest_participant
+    add column if not exists twitter_follow_proof uuid references public.verification_proofs (verification_id) on delete set null,
+    add column if not exists twitter_like_proof uuid references public.verification_proofs (verification_id) on delete set null,
+    add column if not exists twitter_retweet_proof uuid references public.verification_proofs (verification_id) on delete set null;
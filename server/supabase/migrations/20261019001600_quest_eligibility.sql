@@ -0,0 +1,51 @@
+-- who may join a quest and how many, a null rule does not restrict
+alter table public.quests
+    add column if not exists max_participants integer check (max_participants > 0),
+    add column if not exists members_only boolean not null default false,
+    add column if not exists min_reputation integer,
+    add column if not exists required_house public."HOUSES";
+
+-- joins a quest unless it is full, locking the quest so concurrent joins cannot exceed max_participants
+create or replace function public.join_quest(
+    p_quest_id uuid,
+    p_member_id text
+) returns boolean
+language plpgsql
+as $$
+declare
+    v_quest public.quests;
+    v_participants integer;
+begin
+    select * into v_quest
+    from public.quests
+    where quest_id = p_quest_id
+    for update;
+
+    if not found then
+        raise exception 'Quest not found' using errcode = 'P0002';
+    end if;
+
+    if v_quest.max_participants is not null then
+        select count(*) into v_participants
+        from public.quest_participant
+        where quest_id = p_quest_id;
+
+        if v_participants >= v_quest.max_participants then
+            return false;
+        end if;
+    end if;
+
+    -- actions the quest does not ask for start out completed
+    insert into public.quest_participant (
+        quest_id, member_id, twitter_follow_completed, twitter_like_completed, twitter_retweet_completed
+    ) values (
+        p_quest_id,
+        p_member_id,
+        not v_quest.twitter_follow_enabled,
+        not v_quest.twitter_like_enabled,
+        not v_quest.twitter_retweet_enabled
+    );
+
+    return true;
+end;
+$$;
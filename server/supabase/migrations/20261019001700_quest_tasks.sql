@@ -0,0 +1,139 @@
+create type public."QUEST_TASK_TYPES" as enum (
+    'TWITTER_FOLLOW',
+    'TWITTER_LIKE',
+    'TWITTER_RETWEET',
+    'GITHUB_CONTRIBUTION',
+    'EMAIL_DOMAIN'
+);
+
+-- what a participant proves to complete a quest, config holds the task type's target
+create table if not exists public.quest_tasks (
+    task_id uuid primary key default gen_random_uuid(),
+    quest_id uuid not null references public.quests (quest_id) on delete cascade,
+    task_type public."QUEST_TASK_TYPES" not null,
+    config jsonb not null default '{}'::jsonb,
+    position integer not null default 0,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists quest_tasks_quest_id_idx
+    on public.quest_tasks (quest_id, position);
+
+create table if not exists public.quest_task_completions (
+    task_id uuid not null references public.quest_tasks (task_id) on delete cascade,
+    member_id text not null references public.members (member_id),
+    quest_id uuid not null references public.quests (quest_id) on delete cascade,
+    verification_id uuid references public.verification_proofs (verification_id) on delete set null,
+    completed_at timestamptz not null default now(),
+    primary key (task_id, member_id)
+);
+
+create index if not exists quest_task_completions_quest_id_member_id_idx
+    on public.quest_task_completions (quest_id, member_id);
+
+alter table public.quest_participant
+    add column if not exists completed_at timestamptz;
+
+-- the Twitter flags become tasks, follows target the account's username and likes or retweets the post's tweet id;
+-- a flag whose URL holds no username or tweet id is skipped, its task could never be verified
+insert into public.quest_tasks (quest_id, task_type, config, position)
+select quest_id, task_type::public."QUEST_TASK_TYPES", jsonb_build_object(config_key, config_value), position
+from (
+    select quest_id, 'TWITTER_FOLLOW' as task_type, 'username' as config_key,
+        substring(twitter_account_url from '(?:twitter|x)\.com/@?(\w{1,15})(?:[/?#]|$)') as config_value, 0 as position
+    from public.quests
+    where twitter_follow_enabled
+    union all
+    select quest_id, 'TWITTER_LIKE', 'tweet_id', substring(twitter_post_url from 'status/(\d+)'), 1
+    from public.quests
+    where twitter_like_enabled
+    union all
+    select quest_id, 'TWITTER_RETWEET', 'tweet_id', substring(twitter_post_url from 'status/(\d+)'), 2
+    from public.quests
+    where twitter_retweet_enabled
+) tasks
+where config_value is not null;
+
+insert into public.quest_task_completions (task_id, member_id, quest_id, verification_id, completed_at)
+select
+    t.task_id,
+    p.member_id,
+    p.quest_id,
+    case t.task_type
+        when 'TWITTER_FOLLOW' then p.twitter_follow_proof
+        when 'TWITTER_LIKE' then p.twitter_like_proof
+        else p.twitter_retweet_proof
+    end,
+    p.created_at
+from public.quest_participant p
+join public.quest_tasks t on t.quest_id = p.quest_id
+where (t.task_type = 'TWITTER_FOLLOW' and p.twitter_follow_completed)
+    or (t.task_type = 'TWITTER_LIKE' and p.twitter_like_completed)
+    or (t.task_type = 'TWITTER_RETWEET' and p.twitter_retweet_completed);
+
+-- completion times were not tracked before, the join time stands in for them
+update public.quest_participant p
+set completed_at = p.created_at
+where exists (select 1 from public.quest_tasks t where t.quest_id = p.quest_id)
+    and not exists (
+        select 1
+        from public.quest_tasks t
+        where t.quest_id = p.quest_id
+            and not exists (
+                select 1
+                from public.quest_task_completions c
+                where c.task_id = t.task_id and c.member_id = p.member_id
+            )
+    );
+
+alter table public.quests
+    drop column if exists twitter_account_url,
+    drop column if exists twitter_post_url,
+    drop column if exists twitter_follow_enabled,
+    drop column if exists twitter_like_enabled,
+    drop column if exists twitter_retweet_enabled;
+
+alter table public.quest_participant
+    drop column if exists twitter_follow_completed,
+    drop column if exists twitter_like_completed,
+    drop column if exists twitter_retweet_completed,
+    drop column if exists twitter_follow_proof,
+    drop column if exists twitter_like_proof,
+    drop column if exists twitter_retweet_proof;
+
+-- joins a quest unless it is full, locking the quest so concurrent joins cannot exceed max_participants
+create or replace function public.join_quest(
+    p_quest_id uuid,
+    p_member_id text
+) returns boolean
+language plpgsql
+as $$
+declare
+    v_quest public.quests;
+    v_participants integer;
+begin
+    select * into v_quest
+    from public.quests
+    where quest_id = p_quest_id
+    for update;
+
+    if not found then
+        raise exception 'Quest not found' using errcode = 'P0002';
+    end if;
+
+    if v_quest.max_participants is not null then
+        select count(*) into v_participants
+        from public.quest_participant
+        where quest_id = p_quest_id;
+
+        if v_participants >= v_quest.max_participants then
+            return false;
+        end if;
+    end if;
+
+    insert into public.quest_participant (quest_id, member_id)
+    values (p_quest_id, p_member_id);
+
+    return true;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- a monotonic cursor for the proposal chat stream, clients resume from the last seq they received
+alter table public.messages
+    add column if not exists seq bigint generated always as identity;
+
+create unique index if not exists messages_proposal_id_seq_idx
+    on public.messages (proposal_id, seq);
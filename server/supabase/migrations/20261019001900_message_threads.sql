@@ -0,0 +1,27 @@
+-- replies point at the message they answer, and deleted messages keep their row so their replies stay threaded
+alter table public.messages
+    add column if not exists reply_to_id uuid references public.messages (message_id) on delete set null,
+    add column if not exists edited_at timestamptz,
+    add column if not exists deleted_at timestamptz;
+
+create index if not exists messages_reply_to_id_idx
+    on public.messages (reply_to_id);
+
+-- the text a message had before each edit
+create table if not exists public.message_edits (
+    edit_id uuid primary key default gen_random_uuid(),
+    message_id uuid not null references public.messages (message_id) on delete cascade,
+    message text not null,
+    edited_at timestamptz not null default now()
+);
+
+create index if not exists message_edits_message_id_idx
+    on public.message_edits (message_id, edited_at);
+
+create table if not exists public.message_reactions (
+    message_id uuid not null references public.messages (message_id) on delete cascade,
+    member_id text not null references public.members (member_id),
+    emoji text not null,
+    created_at timestamptz not null default now(),
+    primary key (message_id, member_id, emoji)
+);
@@ -0,0 +1,46 @@
+create type public."MESSAGE_MODERATION_ACTIONS" as enum (
+    'HIDE_MESSAGE',
+    'UNHIDE_MESSAGE',
+    'MUTE_MEMBER',
+    'UNMUTE_MEMBER',
+    'UPDATE_SETTINGS'
+);
+
+-- a DAO's chat filter, DAOs without a row use the column defaults
+create table if not exists public.chat_settings (
+    dao_id uuid primary key references public.daos (dao_id) on delete cascade,
+    blocked_words text[] not null default '{}',
+    allow_links boolean not null default true,
+    updated_at timestamptz not null default now()
+);
+
+-- a null muted_until mutes the member until a moderator unmutes them
+create table if not exists public.chat_mutes (
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    member_id text not null references public.members (member_id),
+    muted_by text not null references public.members (member_id),
+    reason text,
+    muted_until timestamptz,
+    created_at timestamptz not null default now(),
+    primary key (dao_id, member_id)
+);
+
+-- every moderator action, hidden messages keep their text so the log still shows what was hidden
+create table if not exists public.message_moderation_log (
+    log_id uuid primary key default gen_random_uuid(),
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    moderator_id text not null references public.members (member_id),
+    action public."MESSAGE_MODERATION_ACTIONS" not null,
+    message_id uuid references public.messages (message_id) on delete set null,
+    member_id text references public.members (member_id),
+    reason text,
+    details jsonb not null default '{}'::jsonb,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists message_moderation_log_dao_id_idx
+    on public.message_moderation_log (dao_id, created_at desc);
+
+-- rate limits count a member's recent messages
+create index if not exists messages_member_id_created_at_idx
+    on public.messages (member_id, created_at);
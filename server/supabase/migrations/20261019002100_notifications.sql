@@ -0,0 +1,40 @@
+create type public."NOTIFICATION_TYPES" as enum (
+    'MENTION',
+    'REPLY',
+    'NEW_PROPOSAL',
+    'VOTING_STARTED',
+    'VOTING_ENDED',
+    'QUEST_REWARD',
+    'MERIT_PAYOUT'
+);
+
+-- a member's inbox, the optional ids point the client at what the notification is about
+create table if not exists public.notifications (
+    notification_id uuid primary key default gen_random_uuid(),
+    member_id text not null references public.members (member_id) on delete cascade,
+    type public."NOTIFICATION_TYPES" not null,
+    title text not null,
+    body text,
+    dao_id uuid references public.daos (dao_id) on delete cascade,
+    proposal_id uuid references public.proposals (proposal_id) on delete cascade,
+    message_id uuid references public.messages (message_id) on delete cascade,
+    quest_id uuid references public.quests (quest_id) on delete cascade,
+    read_at timestamptz,
+    created_at timestamptz not null default now()
+);
+
+create index if not exists notifications_member_id_created_at_idx
+    on public.notifications (member_id, created_at desc);
+
+create index if not exists notifications_unread_idx
+    on public.notifications (member_id)
+    where read_at is null;
+
+-- set by the scheduler once the opening of a proposal's voting window has been announced
+alter table public.proposals
+    add column if not exists voting_start_announced_at timestamptz;
+
+-- proposals already voting when this ships are not announced again
+update public.proposals
+    set voting_start_announced_at = voting_start
+    where voting_start <= now();
@@ -0,0 +1,54 @@
+create type public."WEBHOOK_EVENTS" as enum (
+    'PROPOSAL_CREATED',
+    'VOTING_STARTED',
+    'PROPOSAL_CONCLUDED',
+    'FEEDBACK_CONCLUDED',
+    'MEMBER_JOINED',
+    'QUEST_COMPLETED',
+    'PING'
+);
+
+create type public."WEBHOOK_DELIVERY_STATUSES" as enum (
+    'PENDING',
+    'SENT',
+    'FAILED'
+);
+
+-- a DAO's outbound webhook, deliveries are signed with its secret
+create table if not exists public.webhooks (
+    webhook_id uuid primary key default gen_random_uuid(),
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    url text not null,
+    secret text not null,
+    events public."WEBHOOK_EVENTS"[] not null,
+    active boolean not null default true,
+    created_by text not null references public.members (member_id),
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists webhooks_dao_id_idx on public.webhooks (dao_id);
+
+-- one row per event per webhook, doubling as the retry queue and the delivery log
+create table if not exists public.webhook_deliveries (
+    delivery_id uuid primary key default gen_random_uuid(),
+    webhook_id uuid not null references public.webhooks (webhook_id) on delete cascade,
+    dao_id uuid not null references public.daos (dao_id) on delete cascade,
+    event public."WEBHOOK_EVENTS" not null,
+    payload jsonb not null,
+    status public."WEBHOOK_DELIVERY_STATUSES" not null default 'PENDING',
+    attempts integer not null default 0,
+    next_attempt_at timestamptz not null default now(),
+    response_status integer,
+    last_error text,
+    sent_at timestamptz,
+    created_at timestamptz not null default now(),
+    updated_at timestamptz not null default now()
+);
+
+create index if not exists webhook_deliveries_pending_idx
+    on public.webhook_deliveries (next_attempt_at)
+    where status = 'PENDING';
+
+create index if not exists webhook_deliveries_webhook_id_idx
+    on public.webhook_deliveries (webhook_id, created_at desc);
@@ -0,0 +1,64 @@
+-- failed token payouts are retried with backoff, and a sent transfer is re-checked until its receipt is in
+alter table public.quest_participant
+    add column if not exists token_payout_attempts integer not null default 0,
+    add column if not exists token_payout_next_attempt_at timestamptz;
+
+create index if not exists quest_participant_token_payout_retry_idx
+    on public.quest_participant (token_payout_next_attempt_at)
+    where token_payout_status in ('PENDING', 'FAILED');
+
+-- as before, and a new reservation also clears the previous attempt's tx hash so a retry is never mistaken for the old transfer
+create or replace function public.reserve_quest_token_payout(
+    p_quest_id uuid,
+    p_member_id text
+) returns public."QUEST_PAYOUT_STATUSES"
+language plpgsql
+as $$
+declare
+    v_quest public.quests;
+    v_status public."QUEST_PAYOUT_STATUSES";
+    v_reserved integer;
+begin
+    select * into v_quest
+    from public.quests
+    where quest_id = p_quest_id
+    for update;
+
+    if not found then
+        raise exception 'Quest not found' using errcode = 'P0002';
+    end if;
+
+    select token_payout_status into v_status
+    from public.quest_participant
+    where quest_id = p_quest_id and member_id = p_member_id;
+
+    if not found then
+        raise exception 'Participant not found' using errcode = 'P0002';
+    end if;
+
+    -- a participant is paid at most once, failed or refused payouts may be reserved again
+    if v_status is not null and v_status not in ('FAILED', 'BUDGET_EXHAUSTED') then
+        return v_status;
+    end if;
+
+    select count(*) into v_reserved
+    from public.quest_participant
+    where quest_id = p_quest_id
+        and token_payout_status in ('PENDING', 'SENT', 'SIMULATED');
+
+    if (v_reserved + 1) * v_quest.reward_token_amount > coalesce(v_quest.reward_token_budget, 0) then
+        v_status := 'BUDGET_EXHAUSTED';
+    else
+        v_status := 'PENDING';
+    end if;
+
+    update public.quest_participant
+    set token_payout_status = v_status,
+        token_payout_error = null,
+        token_payout_tx_hash = null,
+        token_payout_next_attempt_at = null
+    where quest_id = p_quest_id and member_id = p_member_id;
+
+    return v_status;
+end;
+$$;
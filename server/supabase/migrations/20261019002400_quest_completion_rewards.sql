@@ -0,0 +1,153 @@
+-- a transfer is signed and saved before it is broadcast, so a payout never has a transfer in flight that it does not know about
+alter table public.quest_participant
+    add column if not exists token_payout_nonce integer,
+    add column if not exists token_payout_raw_tx text;
+
+update public.quest_participant
+set token_payout_next_attempt_at = now()
+where token_payout_status = 'PENDING' and token_payout_next_attempt_at is null;
+
+drop function if exists public.reserve_quest_token_payout(uuid, text);
+
+-- claims a payout for the caller to send, reserving it from the quest budget first if it is not reserved yet
+-- a pending payout is only claimed again once its lease ran out without a transfer being saved
+create or replace function public.reserve_quest_token_payout(
+    p_quest_id uuid,
+    p_member_id text,
+    p_lease_seconds integer
+) returns boolean
+language plpgsql
+as $$
+declare
+    v_quest public.quests;
+    v_participant public.quest_participant;
+    v_reserved integer;
+begin
+    select * into v_quest
+    from public.quests
+    where quest_id = p_quest_id
+    for update;
+
+    if not found then
+        raise exception 'Quest not found' using errcode = 'P0002';
+    end if;
+
+    select * into v_participant
+    from public.quest_participant
+    where quest_id = p_quest_id and member_id = p_member_id
+    for update;
+
+    if not found then
+        raise exception 'Participant not found' using errcode = 'P0002';
+    end if;
+
+    if v_participant.token_payout_status = 'PENDING' then
+        if v_participant.token_payout_tx_hash is not null
+            or v_participant.token_payout_next_attempt_at > now() then
+            return false;
+        end if;
+    elsif v_participant.token_payout_status is not null
+        and v_participant.token_payout_status not in ('FAILED', 'BUDGET_EXHAUSTED') then
+        return false;
+    else
+        select count(*) into v_reserved
+        from public.quest_participant
+        where quest_id = p_quest_id
+            and token_payout_status in ('PENDING', 'SENT', 'SIMULATED');
+
+        if (v_reserved + 1) * v_quest.reward_token_amount > coalesce(v_quest.reward_token_budget, 0) then
+            update public.quest_participant
+            set token_payout_status = 'BUDGET_EXHAUSTED',
+                token_payout_error = null,
+                token_payout_next_attempt_at = null
+            where quest_id = p_quest_id and member_id = p_member_id;
+
+            return false;
+        end if;
+    end if;
+
+    update public.quest_participant
+    set token_payout_status = 'PENDING',
+        token_payout_error = null,
+        token_payout_tx_hash = null,
+        token_payout_nonce = null,
+        token_payout_raw_tx = null,
+        token_payout_next_attempt_at = now() + make_interval(secs => p_lease_seconds)
+    where quest_id = p_quest_id and member_id = p_member_id;
+
+    return true;
+end;
+$$;
+
+-- records a completed task, and when it was the quest's last one completes the participant and queues its merit and
+-- token rewards in the same transaction, so a completed quest always has its rewards on record to be retried
+create or replace function public.complete_quest_task(
+    p_quest_id uuid,
+    p_member_id text,
+    p_task_id uuid,
+    p_verification_id uuid,
+    p_merit_distribution jsonb
+) returns boolean
+language plpgsql
+as $$
+declare
+    v_quest public.quests;
+    v_remaining integer;
+begin
+    -- concurrent completions of a participant's last tasks wait for each other, so one of them sees every task completed
+    perform 1
+    from public.quest_participant
+    where quest_id = p_quest_id and member_id = p_member_id
+    for update;
+
+    if not found then
+        raise exception 'Participant not found' using errcode = 'P0002';
+    end if;
+
+    insert into public.quest_task_completions (task_id, member_id, quest_id, verification_id)
+    values (p_task_id, p_member_id, p_quest_id, p_verification_id);
+
+    select count(*) into v_remaining
+    from public.quest_tasks t
+    where t.quest_id = p_quest_id
+        and not exists (
+            select 1
+            from public.quest_task_completions c
+            where c.task_id = t.task_id and c.member_id = p_member_id
+        );
+
+    if v_remaining > 0 then
+        return false;
+    end if;
+
+    update public.quest_participant
+    set completed_at = now()
+    where quest_id = p_quest_id and member_id = p_member_id and completed_at is null;
+
+    if not found then
+        return false;
+    end if;
+
+    insert into public.merit_distributions (distribution_id, dao_id, description, distributions, total_amount)
+    values (
+        p_merit_distribution ->> 'distribution_id',
+        (p_merit_distribution ->> 'dao_id')::uuid,
+        p_merit_distribution ->> 'description',
+        p_merit_distribution -> 'distributions',
+        (p_merit_distribution ->> 'total_amount')::bigint
+    )
+    on conflict (distribution_id) do nothing;
+
+    select * into v_quest
+    from public.quests
+    where quest_id = p_quest_id;
+
+    if v_quest.reward_token_chain is not null
+        and v_quest.reward_token_address is not null
+        and coalesce(v_quest.reward_token_amount, 0) > 0 then
+        perform public.reserve_quest_token_payout(p_quest_id, p_member_id, 0);
+    end if;
+
+    return true;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- a phase the scheduler fails to conclude is retried with backoff, so it cannot hold newer proposals out of the batch
+alter table public.proposals
+    add column if not exists conclusion_attempts integer not null default 0,
+    add column if not exists conclusion_next_attempt_at timestamptz,
+    add column if not exists feedback_conclusion_attempts integer not null default 0,
+    add column if not exists feedback_conclusion_next_attempt_at timestamptz;
@@ -0,0 +1,59 @@
+-- wallets are stored lowercased, so members created with a checksummed address are merged into their lowercase row
+do $$
+declare
+    v_member record;
+    v_column record;
+    v_row record;
+begin
+    for v_member in
+        select member_id
+        from public.members
+        where member_id <> lower(member_id)
+    loop
+        insert into public.members
+        select *
+        from jsonb_populate_record(
+            null::public.members,
+            to_jsonb(m) || jsonb_build_object('member_id', lower(m.member_id))
+        )
+        from public.members m
+        where m.member_id = v_member.member_id
+        on conflict (member_id) do nothing;
+
+        for v_column in
+            select c.conrelid::regclass as table_name, a.attname as column_name
+            from pg_constraint c
+            join pg_attribute a on a.attrelid = c.conrelid and a.attnum = c.conkey[1]
+            where c.contype = 'f'
+                and c.confrelid = 'public.members'::regclass
+                and array_length(c.conkey, 1) = 1
+        loop
+            -- a row the lowercase member already has a copy of is dropped instead of merged
+            for v_row in execute format(
+                'select ctid from %s where %I = $1',
+                v_column.table_name,
+                v_column.column_name
+            ) using v_member.member_id
+            loop
+                begin
+                    execute format(
+                        'update %s set %I = $1 where ctid = $2',
+                        v_column.table_name,
+                        v_column.column_name
+                    ) using lower(v_member.member_id), v_row.ctid;
+                exception when unique_violation then
+                    execute format('delete from %s where ctid = $1', v_column.table_name)
+                    using v_row.ctid;
+                end;
+            end loop;
+        end loop;
+
+        delete from public.members
+        where member_id = v_member.member_id;
+    end loop;
+end;
+$$;
+
+update public.auth_nonces
+set wallet_address = lower(wallet_address)
+where wallet_address <> lower(wallet_address);
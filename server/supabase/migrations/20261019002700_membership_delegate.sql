@@ -0,0 +1,52 @@
+alter table public.memberships
+    drop constraint if exists memberships_delegate_not_self,
+    add constraint memberships_delegate_not_self check (delegate_id is null or delegate_id <> member_id);
+
+-- delegation is a single hop: the delegate has not delegated, and nobody has delegated to the delegator
+-- both memberships are locked first, so two delegations touching the same members cannot both pass the checks
+create or replace function public.set_membership_delegate(
+    p_dao_id uuid,
+    p_member_id text,
+    p_delegate_id text
+) returns void
+language plpgsql
+as $$
+declare
+    v_delegate public.memberships;
+begin
+    perform 1
+    from public.memberships
+    where dao_id = p_dao_id and member_id in (p_member_id, p_delegate_id)
+    order by member_id
+    for update;
+
+    select * into v_delegate
+    from public.memberships
+    where dao_id = p_dao_id and member_id = p_delegate_id;
+
+    if not found then
+        raise exception 'Delegate is not a member of this DAO' using errcode = 'P0002';
+    end if;
+
+    if v_delegate.delegate_id is not null then
+        raise exception 'Delegate has already delegated their vote' using errcode = 'P0001';
+    end if;
+
+    if exists (
+        select 1
+        from public.memberships
+        where dao_id = p_dao_id and delegate_id = p_member_id
+    ) then
+        raise exception 'Members who hold delegated votes cannot delegate' using errcode = 'P0001';
+    end if;
+
+    update public.memberships
+    set delegate_id = p_delegate_id,
+        delegated_at = now()
+    where dao_id = p_dao_id and member_id = p_member_id;
+
+    if not found then
+        raise exception 'Membership not found' using errcode = 'P0002';
+    end if;
+end;
+$$;
@@ -0,0 +1,26 @@
+-- balances arrive as decimal strings, since token amounts do not fit a double, and are stored with their snapshot in one transaction
+create or replace function public.store_proposal_snapshot(
+    p_proposal_id uuid,
+    p_snapshot_at timestamptz,
+    p_blocks jsonb,
+    p_balances jsonb
+) returns void
+language plpgsql
+as $$
+begin
+    insert into public.token_balance_snapshots (proposal_id, member_id, chain_id, token_address, block_number, balance)
+    select
+        p_proposal_id,
+        b ->> 'member_id',
+        (b ->> 'chain_id')::integer,
+        b ->> 'token_address',
+        (b ->> 'block_number')::bigint,
+        (b ->> 'balance')::numeric
+    from jsonb_array_elements(p_balances) b
+    on conflict (proposal_id, member_id, chain_id, token_address) do nothing;
+
+    insert into public.proposal_snapshots (proposal_id, snapshot_at, blocks)
+    values (p_proposal_id, p_snapshot_at, p_blocks)
+    on conflict (proposal_id) do nothing;
+end;
+$$;
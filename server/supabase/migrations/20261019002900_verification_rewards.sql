@@ -0,0 +1,49 @@
+-- redeems a proof and grants its rewards in one transaction, so a proof is never spent without the member being rewarded
+create or replace function public.redeem_verification_proof(
+    p_verification_id uuid,
+    p_proof_type public."VERIFICATION_PROOF_TYPES",
+    p_proof_hash text,
+    p_tx_hash text,
+    p_chain_id integer,
+    p_block_number bigint,
+    p_member_id text,
+    p_dao_id uuid,
+    p_subject text,
+    p_verification_type public."VERIFICATION_TYPES",
+    p_identity text,
+    p_reputation_reason public."REPUTATION_REASONS",
+    p_reputation_change integer,
+    p_merit_distribution jsonb default null
+) returns void
+language plpgsql
+as $$
+begin
+    insert into public.verification_proofs (
+        verification_id, proof_type, proof_hash, tx_hash, chain_id, block_number, member_id, dao_id, subject
+    ) values (
+        p_verification_id, p_proof_type, p_proof_hash, p_tx_hash, p_chain_id, p_block_number, p_member_id, p_dao_id, p_subject
+    );
+
+    insert into public.verifications (member_id, verification_type, identity, verification_id)
+    values (p_member_id, p_verification_type, p_identity, p_verification_id)
+    on conflict (member_id, verification_type) do nothing;
+
+    if p_reputation_change <> 0 then
+        perform public.increment_reputation(
+            p_member_id, p_dao_id, p_reputation_change, p_reputation_reason, null, null, p_verification_id
+        );
+    end if;
+
+    if p_merit_distribution is not null then
+        insert into public.merit_distributions (distribution_id, dao_id, description, distributions, total_amount)
+        values (
+            p_merit_distribution ->> 'distribution_id',
+            (p_merit_distribution ->> 'dao_id')::uuid,
+            p_merit_distribution ->> 'description',
+            p_merit_distribution -> 'distributions',
+            (p_merit_distribution ->> 'total_amount')::bigint
+        )
+        on conflict (distribution_id) do nothing;
+    end if;
+end;
+$$;
@@ -0,0 +1,56 @@
+-- concludes a proposal's feedback together with its reputation changes and merit payout, so a conclusion is never
+-- recorded without its rewards; members who left the DAO since voting are skipped
+create or replace function public.conclude_proposal_feedback(
+    p_proposal_id uuid,
+    p_outcome public."PROPOSAL_OUTCOMES",
+    p_tally jsonb,
+    p_reputation_changes jsonb,
+    p_merit_distribution jsonb default null
+) returns boolean
+language plpgsql
+as $$
+declare
+    v_dao_id uuid;
+    v_change record;
+begin
+    update public.proposals
+    set feedback_conclusion = p_outcome,
+        feedback_tally = p_tally
+    where proposal_id = p_proposal_id and feedback_conclusion is null
+    returning dao_id into v_dao_id;
+
+    if not found then
+        return false;
+    end if;
+
+    for v_change in
+        select *
+        from jsonb_to_recordset(p_reputation_changes)
+            as c(member_id text, delta integer, reason public."REPUTATION_REASONS")
+    loop
+        if exists (
+            select 1
+            from public.memberships
+            where member_id = v_change.member_id and dao_id = v_dao_id
+        ) then
+            perform public.increment_reputation(
+                v_change.member_id, v_dao_id, v_change.delta, v_change.reason, p_proposal_id
+            );
+        end if;
+    end loop;
+
+    if p_merit_distribution is not null then
+        insert into public.merit_distributions (distribution_id, dao_id, description, distributions, total_amount)
+        values (
+            p_merit_distribution ->> 'distribution_id',
+            (p_merit_distribution ->> 'dao_id')::uuid,
+            p_merit_distribution ->> 'description',
+            p_merit_distribution -> 'distributions',
+            (p_merit_distribution ->> 'total_amount')::bigint
+        )
+        on conflict (distribution_id) do nothing;
+    end if;
+
+    return true;
+end;
+$$;
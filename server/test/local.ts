@@ -0,0 +1,36 @@
+import {
+    AkaveService,
+    BlockscoutService,
+    LocalService,
+    SupabaseService,
+} from "../services";
+import { InMemorySupabase } from "./supabase";
+import { afterEach, beforeAll, beforeEach, vi } from "vitest";
+
+export const useLocalMode = () => {
+    let supabase = new InMemorySupabase();
+
+    beforeAll(async () => {
+        BlockscoutService.init();
+        await AkaveService.init();
+    });
+
+    beforeEach(() => {
+        supabase = new InMemorySupabase();
+        LocalService.reset();
+        vi.spyOn(SupabaseService, "getSupabase").mockImplementation(() =>
+            supabase.getClient()
+        );
+    });
+
+    afterEach(() => {
+        vi.restoreAllMocks();
+        vi.useRealTimers();
+    });
+
+    return {
+        get supabase() {
+            return supabase;
+        },
+    };
+};
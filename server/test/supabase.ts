@@ -0,0 +1,449 @@
+import {
+    POSTGRES_UNIQUE_VIOLATION_ERROR_CODE,
+    SUPABASE_0_ROWS_ERROR_CODE,
+} from "../utils/constants";
+import type { Database, Tables } from "../utils/types/database.types";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { randomUUID } from "crypto";
+
+type TableName = keyof Database["public"]["Tables"];
+
+type Row = Record<string, unknown>;
+
+interface QueryError {
+    code: string;
+    message: string;
+}
+
+interface QueryResult {
+    data: unknown;
+    error: QueryError | null;
+    count: number | null;
+}
+
+type RpcHandler = (supabase: InMemorySupabase, args: Row) => unknown;
+
+// * INFO: the first key is also the column embedded tables are joined on
+const PRIMARY_KEYS: Partial<Record<TableName, string[]>> = {
+    auth_nonces: ["nonce"],
+    daos: ["dao_id"],
+    governance_configs: ["dao_id"],
+    members: ["member_id"],
+    memberships: ["dao_id", "member_id"],
+    merit_distributions: ["distribution_id"],
+    notifications: ["notification_id"],
+    proposal_snapshots: ["proposal_id"],
+    proposals: ["proposal_id"],
+    token_balance_snapshots: [
+        "proposal_id",
+        "member_id",
+        "chain_id",
+        "token_address",
+    ],
+    votes: ["proposal_id", "member_id", "is_feedback"],
+};
+
+const COLUMN_DEFAULTS: Partial<Record<TableName, () => Row>> = {
+    notifications: () => ({
+        notification_id: randomUUID(),
+        read_at: null,
+    }),
+    votes: () => ({
+        delegated_weight: 0,
+        delegators: [],
+    }),
+};
+
+const RPC_HANDLERS: Record<string, RpcHandler> = {
+    store_proposal_snapshot: (
+        supabase,
+        { p_proposal_id, p_snapshot_at, p_blocks, p_balances }
+    ) => {
+        supabase.insertRows(
+            "token_balance_snapshots",
+            (p_balances as Row[]).map((balance) => ({
+                ...balance,
+                proposal_id: p_proposal_id,
+                balance: Number(balance.balance),
+            })),
+            true
+        );
+        supabase.insertRows(
+            "proposal_snapshots",
+            [
+                {
+                    proposal_id: p_proposal_id,
+                    snapshot_at: p_snapshot_at,
+                    blocks: p_blocks,
+                },
+            ],
+            true
+        );
+
+        return null;
+    },
+};
+
+const clone = <T>(value: T): T =>
+    value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const compareValues = (a: unknown, b: unknown) => {
+    if (typeof a === "number" && typeof b === "number") {
+        return a - b;
+    }
+
+    const [left, right] = [String(a), String(b)];
+    if (/^\d{4}-\d{2}-\d{2}/.test(left) && /^\d{4}-\d{2}-\d{2}/.test(right)) {
+        return new Date(left).getTime() - new Date(right).getTime();
+    }
+
+    return left < right ? -1 : left > right ? 1 : 0;
+};
+
+const splitColumns = (columns: string) => {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = "";
+
+    for (const char of columns.replace(/\s/g, "")) {
+        if (char === "," && !depth) {
+            parts.push(current);
+            current = "";
+            continue;
+        }
+        depth += char === "(" ? 1 : char === ")" ? -1 : 0;
+        current += char;
+    }
+
+    return [...parts, current].filter(Boolean);
+};
+
+class InMemoryQuery implements PromiseLike<QueryResult> {
+    private operation: "select" | "insert" | "upsert" | "update" | "delete" =
+        "select";
+    private values: Row[] = [];
+    private columns: string | null = null;
+    private filters: ((row: Row) => boolean)[] = [];
+    private ordering: { column: string; ascending: boolean }[] = [];
+    private window: { from: number; to: number } | null = null;
+    private countRows = false;
+    private headOnly = false;
+    private expect: "many" | "single" | "maybeSingle" = "many";
+
+    constructor(
+        private supabase: InMemorySupabase,
+        private table: TableName
+    ) {}
+
+    select(columns = "*", options?: { count?: string; head?: boolean }) {
+        this.columns = columns;
+        this.countRows = !!options?.count;
+        this.headOnly = !!options?.head;
+        return this;
+    }
+
+    insert(values: Row | Row[]) {
+        this.operation = "insert";
+        this.values = Array.isArray(values) ? values : [values];
+        return this;
+    }
+
+    upsert(values: Row | Row[]) {
+        this.operation = "upsert";
+        this.values = Array.isArray(values) ? values : [values];
+        return this;
+    }
+
+    update(values: Row) {
+        this.operation = "update";
+        this.values = [values];
+        return this;
+    }
+
+    delete() {
+        this.operation = "delete";
+        return this;
+    }
+
+    eq(column: string, value: unknown) {
+        this.filters.push((row) => row[column] === value);
+        return this;
+    }
+
+    neq(column: string, value: unknown) {
+        this.filters.push((row) => row[column] !== value);
+        return this;
+    }
+
+    in(column: string, values: unknown[]) {
+        this.filters.push((row) => values.includes(row[column]));
+        return this;
+    }
+
+    is(column: string, value: null | boolean) {
+        this.filters.push((row) => (row[column] ?? null) === value);
+        return this;
+    }
+
+    lt(column: string, value: unknown) {
+        this.filters.push((row) => compareValues(row[column], value) < 0);
+        return this;
+    }
+
+    lte(column: string, value: unknown) {
+        this.filters.push((row) => compareValues(row[column], value) <= 0);
+        return this;
+    }
+
+    gt(column: string, value: unknown) {
+        this.filters.push((row) => compareValues(row[column], value) > 0);
+        return this;
+    }
+
+    gte(column: string, value: unknown) {
+        this.filters.push((row) => compareValues(row[column], value) >= 0);
+        return this;
+    }
+
+    contains(column: string, values: unknown[]) {
+        this.filters.push((row) =>
+            values.every((value) =>
+                ((row[column] as unknown[]) ?? []).includes(value)
+            )
+        );
+        return this;
+    }
+
+    order(column: string, options?: { ascending?: boolean }) {
+        this.ordering.push({ column, ascending: options?.ascending ?? true });
+        return this;
+    }
+
+    limit(count: number) {
+        this.window = { from: 0, to: count - 1 };
+        return this;
+    }
+
+    range(from: number, to: number) {
+        this.window = { from, to };
+        return this;
+    }
+
+    single() {
+        this.expect = "single";
+        return this;
+    }
+
+    maybeSingle() {
+        this.expect = "maybeSingle";
+        return this;
+    }
+
+    then<TResult1 = QueryResult, TResult2 = never>(
+        onfulfilled?: (value: QueryResult) => TResult1 | PromiseLike<TResult1>,
+        onrejected?: (reason: unknown) => TResult2 | PromiseLike<TResult2>
+    ) {
+        return Promise.resolve()
+            .then(() => this.execute())
+            .then(onfulfilled, onrejected);
+    }
+
+    private matches = (row: Row) => this.filters.every((filter) => filter(row));
+
+    private execute(): QueryResult {
+        let rows: Row[];
+
+        try {
+            rows = this.run();
+        } catch (error) {
+            return { data: null, error: error as QueryError, count: null };
+        }
+
+        for (const { column, ascending } of [...this.ordering].reverse()) {
+            rows = [...rows].sort(
+                (a, b) =>
+                    compareValues(a[column], b[column]) * (ascending ? 1 : -1)
+            );
+        }
+
+        const count = this.countRows ? rows.length : null;
+        if (this.window) {
+            rows = rows.slice(this.window.from, this.window.to + 1);
+        }
+
+        if (this.headOnly) {
+            return { data: null, error: null, count };
+        }
+
+        if (this.operation !== "select" && this.columns === null) {
+            return { data: null, error: null, count };
+        }
+
+        const data = rows.map((row) => this.project(this.table, row));
+
+        if (this.expect === "many") {
+            return { data, error: null, count };
+        }
+        if (data.length === 1) {
+            return { data: data[0], error: null, count };
+        }
+        if (!data.length && this.expect === "maybeSingle") {
+            return { data: null, error: null, count };
+        }
+
+        return {
+            data: null,
+            error: {
+                code: SUPABASE_0_ROWS_ERROR_CODE,
+                message: `JSON object requested, ${data.length} rows returned`,
+            },
+            count,
+        };
+    }
+
+    private run() {
+        const rows = this.supabase.getRows(this.table);
+
+        switch (this.operation) {
+            case "select":
+                return rows.filter(this.matches);
+            case "insert":
+                return this.supabase.insertRows(this.table, this.values);
+            case "upsert":
+                return this.supabase.upsertRows(this.table, this.values);
+            case "update":
+                return rows.filter(this.matches).map((row) => {
+                    Object.assign(row, this.values[0]);
+                    return row;
+                });
+            case "delete": {
+                const deleted = rows.filter(this.matches);
+                this.supabase.setRows(
+                    this.table,
+                    rows.filter((row) => !deleted.includes(row))
+                );
+                return deleted;
+            }
+        }
+    }
+
+    private project(table: TableName, row: Row, columns = this.columns) {
+        const result: Row = {};
+
+        for (const column of splitColumns(columns ?? "*")) {
+            const embedded = /^(?:(\w+):)?(\w+)(?:!\w+)?\((.*)\)$/.exec(column);
+            if (embedded) {
+                const [, alias, child, childColumns] = embedded;
+                const key = PRIMARY_KEYS[table]![0];
+                result[alias ?? child] = this.supabase
+                    .getRows(child as TableName)
+                    .filter((childRow) => childRow[key] === row[key])
+                    .map((childRow) =>
+                        this.project(child as TableName, childRow, childColumns)
+                    );
+            } else if (column === "*") {
+                Object.assign(result, clone(row));
+            } else {
+                const [name, cast] = column.split("::");
+                result[name] =
+                    cast === "text" && row[name] !== null
+                        ? String(row[name])
+                        : clone(row[name]);
+            }
+        }
+
+        return result;
+    }
+}
+
+export class InMemorySupabase {
+    private tables = new Map<TableName, Row[]>();
+
+    public seed = <T extends TableName>(table: T, rows: Tables<T>[]): void => {
+        this.insertRows(table, rows as unknown as Row[]);
+    };
+
+    public rows = <T extends TableName>(table: T): Tables<T>[] =>
+        clone(this.getRows(table)) as unknown as Tables<T>[];
+
+    public getRows = (table: TableName): Row[] => {
+        if (!this.tables.has(table)) {
+            this.tables.set(table, []);
+        }
+        return this.tables.get(table)!;
+    };
+
+    public setRows = (table: TableName, rows: Row[]): void => {
+        this.tables.set(table, rows);
+    };
+
+    public insertRows = (
+        table: TableName,
+        values: Row[],
+        ignore_duplicates = false
+    ): Row[] => {
+        const rows = this.getRows(table);
+        const inserted: Row[] = [];
+
+        for (const value of values) {
+            const row = {
+                created_at: new Date().toISOString(),
+                ...COLUMN_DEFAULTS[table]?.(),
+                ...clone(value),
+            };
+
+            if (this.findDuplicate(table, row)) {
+                if (ignore_duplicates) {
+                    continue;
+                }
+                throw {
+                    code: POSTGRES_UNIQUE_VIOLATION_ERROR_CODE,
+                    message: `duplicate key value violates unique constraint on ${table}`,
+                };
+            }
+
+            rows.push(row);
+            inserted.push(row);
+        }
+
+        return inserted;
+    };
+
+    public upsertRows = (table: TableName, values: Row[]): Row[] =>
+        values.flatMap((value) => {
+            const existing = this.findDuplicate(table, value);
+            if (!existing) {
+                return this.insertRows(table, [value]);
+            }
+
+            Object.assign(existing, clone(value));
+            return [existing];
+        });
+
+    private findDuplicate = (table: TableName, row: Row) => {
+        const keys = PRIMARY_KEYS[table];
+
+        return keys
+            ? this.getRows(table).find((existing) =>
+                  keys.every((key) => existing[key] === row[key])
+              )
+            : undefined;
+    };
+
+    public getClient = (): SupabaseClient<Database> =>
+        ({
+            from: (table: TableName) => new InMemoryQuery(this, table),
+            rpc: async (name: string, args: Row) => {
+                const handler = RPC_HANDLERS[name];
+                if (!handler) {
+                    throw new Error(`In-memory Supabase has no ${name} RPC`);
+                }
+
+                try {
+                    return { data: handler(this, args), error: null };
+                } catch (error) {
+                    return { data: null, error };
+                }
+            },
+        }) as unknown as SupabaseClient<Database>;
+}
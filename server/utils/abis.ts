@@ -0,0 +1,14 @@
+import { parseAbi } from "viem";
+
+export const EMAIL_DOMAIN_VERIFIER_ABI = parseAbi([
+    "event EmailVerified(bytes32 indexed emailHash, address indexed targetWallet, string emailDomain)",
+]);
+
+export const DYNAMIC_TWITTER_VERIFIER_ABI = parseAbi([
+    "event ActionVerified(address indexed user, uint256 indexed actionId, string targetValue, bool success)",
+    "function getUserData(address user) view returns ((string username, address userAddress, uint256 totalActionsVerified, uint256 lastVerificationTimestamp, bool isActive))",
+]);
+
+export const GITHUB_VERIFIER_ABI = parseAbi([
+    "event GitHubCommitVerified(address indexed account, string username, string repoOwner, string repoName, string branch, bool verified, string resultMessage)",
+]);
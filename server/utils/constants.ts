@@ -11,6 +11,183 @@ export enum VOTE_TYPES {
     ABSTAIN = "ABSTAIN",
 }
 
+export enum VOTE_HISTORY_ACTIONS {
+    CHANGED = "CHANGED",
+    RETRACTED = "RETRACTED",
+}
+
+export enum PROPOSAL_OUTCOMES {
+    YES = "YES",
+    NO = "NO",
+    FAILED_QUORUM = "FAILED_QUORUM",
+    TIED = "TIED",
+    DECIDED = "DECIDED",
+}
+
+export enum REPUTATION_REASONS {
+    JOINED_DAO = "JOINED_DAO",
+    CORRECT_VOTE = "CORRECT_VOTE",
+    INCORRECT_VOTE = "INCORRECT_VOTE",
+    EMAIL_VERIFIED = "EMAIL_VERIFIED",
+    GITHUB_VERIFIED = "GITHUB_VERIFIED",
+}
+
+export enum VERIFICATION_PROOF_TYPES {
+    EMAIL_DOMAIN = "EMAIL_DOMAIN",
+    GITHUB_CONTRIBUTION = "GITHUB_CONTRIBUTION",
+    TWITTER_ACTION = "TWITTER_ACTION",
+}
+
+export enum QUEST_TASK_TYPES {
+    TWITTER_FOLLOW = "TWITTER_FOLLOW",
+    TWITTER_LIKE = "TWITTER_LIKE",
+    TWITTER_RETWEET = "TWITTER_RETWEET",
+    GITHUB_CONTRIBUTION = "GITHUB_CONTRIBUTION",
+    EMAIL_DOMAIN = "EMAIL_DOMAIN",
+}
+
+export enum TWITTER_ACTIONS {
+    FOLLOW = "follow",
+    LIKE = "like",
+    RETWEET = "retweet",
+}
+
+export const TWITTER_ACTION_IDS: Record<TWITTER_ACTIONS, bigint> = {
+    [TWITTER_ACTIONS.FOLLOW]: 1n,
+    [TWITTER_ACTIONS.LIKE]: 2n,
+    [TWITTER_ACTIONS.RETWEET]: 3n,
+};
+
+export enum VERIFICATION_TYPES {
+    TWITTER = "TWITTER",
+    GITHUB = "GITHUB",
+    EMAIL = "EMAIL",
+}
+
+export enum VOTING_METHODS {
+    BINARY = "BINARY",
+    SINGLE_CHOICE = "SINGLE_CHOICE",
+    APPROVAL = "APPROVAL",
+    RANKED_CHOICE = "RANKED_CHOICE",
+}
+
+export enum SCHEDULER_JOBS {
+    CONCLUDE_PROPOSALS = "conclude-proposals",
+    SEND_MERITS = "send-merits",
+    ANNOUNCE_VOTING = "announce-voting",
+    DELIVER_WEBHOOKS = "deliver-webhooks",
+    RETRY_QUEST_PAYOUTS = "retry-quest-payouts",
+}
+
+export enum MERIT_DISTRIBUTION_STATUSES {
+    PENDING = "PENDING",
+    SENT = "SENT",
+    FAILED = "FAILED",
+}
+
+export enum QUEST_PAYOUT_STATUSES {
+    PENDING = "PENDING",
+    SENT = "SENT",
+    SIMULATED = "SIMULATED",
+    FAILED = "FAILED",
+    BUDGET_EXHAUSTED = "BUDGET_EXHAUSTED",
+}
+
+export enum SCHEDULER_RUN_STATUSES {
+    RUNNING = "RUNNING",
+    SUCCEEDED = "SUCCEEDED",
+    FAILED = "FAILED",
+}
+
+export enum MESSAGE_MODERATION_ACTIONS {
+    HIDE_MESSAGE = "HIDE_MESSAGE",
+    UNHIDE_MESSAGE = "UNHIDE_MESSAGE",
+    MUTE_MEMBER = "MUTE_MEMBER",
+    UNMUTE_MEMBER = "UNMUTE_MEMBER",
+    UPDATE_SETTINGS = "UPDATE_SETTINGS",
+}
+
+export enum NOTIFICATION_TYPES {
+    MENTION = "MENTION",
+    REPLY = "REPLY",
+    NEW_PROPOSAL = "NEW_PROPOSAL",
+    VOTING_STARTED = "VOTING_STARTED",
+    VOTING_ENDED = "VOTING_ENDED",
+    QUEST_REWARD = "QUEST_REWARD",
+    MERIT_PAYOUT = "MERIT_PAYOUT",
+}
+
+export enum WEBHOOK_EVENTS {
+    PROPOSAL_CREATED = "PROPOSAL_CREATED",
+    VOTING_STARTED = "VOTING_STARTED",
+    PROPOSAL_CONCLUDED = "PROPOSAL_CONCLUDED",
+    FEEDBACK_CONCLUDED = "FEEDBACK_CONCLUDED",
+    MEMBER_JOINED = "MEMBER_JOINED",
+    QUEST_COMPLETED = "QUEST_COMPLETED",
+    PING = "PING",
+}
+
+export enum WEBHOOK_DELIVERY_STATUSES {
+    PENDING = "PENDING",
+    SENT = "SENT",
+    FAILED = "FAILED",
+}
+
+export enum DAO_ROLES {
+    OWNER = "owner",
+    ADMIN = "admin",
+    MODERATOR = "moderator",
+    MEMBER = "member",
+}
+
+export enum DAO_PERMISSIONS {
+    CREATE_PROPOSAL = "CREATE_PROPOSAL",
+    CONCLUDE_PROPOSAL = "CONCLUDE_PROPOSAL",
+    CREATE_QUEST = "CREATE_QUEST",
+    MODERATE_MESSAGES = "MODERATE_MESSAGES",
+    MANAGE_ROLES = "MANAGE_ROLES",
+    MANAGE_GOVERNANCE = "MANAGE_GOVERNANCE",
+}
+
+export const DAO_ROLE_PERMISSIONS: Record<DAO_ROLES, DAO_PERMISSIONS[]> = {
+    [DAO_ROLES.OWNER]: Object.values(DAO_PERMISSIONS),
+    [DAO_ROLES.ADMIN]: Object.values(DAO_PERMISSIONS),
+    [DAO_ROLES.MODERATOR]: [DAO_PERMISSIONS.MODERATE_MESSAGES],
+    [DAO_ROLES.MEMBER]: [],
+};
+
+export const DAO_ROLE_RANKS: Record<DAO_ROLES, number> = {
+    [DAO_ROLES.OWNER]: 3,
+    [DAO_ROLES.ADMIN]: 2,
+    [DAO_ROLES.MODERATOR]: 1,
+    [DAO_ROLES.MEMBER]: 0,
+};
+
+export const VERIFICATION_SCORE_WEIGHTS: Record<VERIFICATION_TYPES, number> = {
+    [VERIFICATION_TYPES.TWITTER]: 30,
+    [VERIFICATION_TYPES.GITHUB]: 40,
+    [VERIFICATION_TYPES.EMAIL]: 30,
+};
+
+export const MAX_PROPOSAL_OPTIONS = 20;
+
+export const MAX_QUEST_TASKS = 10;
+
+export const QUEST_STATS_PAGE_SIZE = 1000;
+
+export const QUEST_STATS_FILTER_CHUNK_SIZE = 100;
+
+export const MESSAGE_REACTIONS = [
+    "👍",
+    "👎",
+    "❤️",
+    "🎉",
+    "😄",
+    "🤔",
+    "👀",
+    "🚀",
+] as const;
+
 export const STARTER_REPUTATION = 100;
 
 export const FEEDBACK_PROPOSAL_WEIGHT = 1;
@@ -27,4 +204,68 @@ export const INCORRECT_VOTE_REPUTATION_CHANGE = -10;
 
 export const ABSTAIN_REPUTATION_CHANGE = 0;
 
+export const TOKEN_SHARE_PRECISION = 10n ** 18n;
+
 export const SUPABASE_0_ROWS_ERROR_CODE = "PGRST116";
+
+export const POSTGRES_NO_DATA_FOUND_ERROR_CODE = "P0002";
+
+export const POSTGRES_UNIQUE_VIOLATION_ERROR_CODE = "23505";
+
+export const POSTGRES_RAISE_EXCEPTION_ERROR_CODE = "P0001";
+
+export const AUTH_NONCE_TTL_MS = 10 * 60 * 1000;
+
+export const AUTH_JWT_EXPIRY_SECONDS = 7 * 24 * 60 * 60;
+
+export const SCHEDULER_INTERVAL_MS = 60 * 1000;
+
+export const SCHEDULER_LOCK_TTL_SECONDS = 5 * 60;
+
+export const SCHEDULER_BATCH_SIZE = 25;
+
+export const SCHEDULER_CONCLUSION_MAX_ATTEMPTS = 8;
+
+export const SCHEDULER_CONCLUSION_RETRY_BASE_MS = 60 * 1000;
+
+export const SCHEDULER_CONCLUSION_RETRY_MAX_MS = 60 * 60 * 1000;
+
+export const MERITS_MAX_ATTEMPTS = 8;
+
+export const MERITS_RETRY_BASE_MS = 30 * 1000;
+
+export const MERITS_RETRY_MAX_MS = 60 * 60 * 1000;
+
+export const QUEST_PAYOUT_MAX_ATTEMPTS = 5;
+
+export const QUEST_PAYOUT_RETRY_BASE_MS = 60 * 1000;
+
+export const QUEST_PAYOUT_RETRY_MAX_MS = 60 * 60 * 1000;
+
+export const QUEST_PAYOUT_LEASE_SECONDS = 5 * 60;
+
+export const REALTIME_HEARTBEAT_MS = 25 * 1000;
+
+export const REALTIME_RETRY_MS = 3 * 1000;
+
+export const MESSAGE_TYPING_TTL_MS = 6 * 1000;
+
+export const MESSAGE_STREAM_BACKLOG_LIMIT = 100;
+
+export const MESSAGE_RATE_LIMIT_COUNT = 5;
+
+export const MESSAGE_RATE_LIMIT_WINDOW_MS = 30 * 1000;
+
+export const MAX_CHAT_BLOCKED_WORDS = 200;
+
+export const MAX_MESSAGE_MENTIONS = 10;
+
+export const MAX_DAO_WEBHOOKS = 10;
+
+export const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+export const WEBHOOK_RETRY_BASE_MS = 30 * 1000;
+
+export const WEBHOOK_RETRY_MAX_MS = 60 * 60 * 1000;
@@ -28,5 +28,6 @@ export const HttpStatusCode = {
     FORBIDDEN: 403,
     NOT_FOUND: 404,
     CONFLICT: 409,
+    TOO_MANY_REQUESTS: 429,
     INTERNAL_SERVER: 500,
 } as const;
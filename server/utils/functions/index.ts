@@ -1,2 +1,5 @@
 export { ApiError, createError, HttpStatusCode } from "./create-error";
+export { normalizeAddress } from "./normalize-address";
 export { randomVotingHouse } from "./random-voting-house";
+export { signWebhookPayload } from "./sign-webhook-payload";
+export { toCsv } from "./to-csv";
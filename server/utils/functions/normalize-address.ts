@@ -0,0 +1,2 @@
+// * INFO: members, nonces and every table keyed by a wallet store it lowercased
+export const normalizeAddress = (address: string) => address.toLowerCase();
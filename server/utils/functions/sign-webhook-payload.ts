@@ -0,0 +1,10 @@
+import { createHmac } from "crypto";
+
+export const signWebhookPayload = (
+    secret: string,
+    timestamp: string,
+    body: string
+) =>
+    `sha256=${createHmac("sha256", secret)
+        .update(`${timestamp}.${body}`)
+        .digest("hex")}`;
@@ -0,0 +1,24 @@
+// * INFO: strings starting with a formula character are prefixed, so spreadsheets show them as text
+const escapeCsvCell = (value: unknown): string => {
+    if (value === null || value === undefined) {
+        return "";
+    }
+
+    let cell = String(value);
+    if (typeof value === "string" && /^[=+\-@\t\r]/.test(cell)) {
+        cell = `'${cell}`;
+    }
+
+    return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+export const toCsv = <T extends object>(
+    columns: (keyof T & string)[],
+    rows: T[]
+): string =>
+    [
+        columns.join(","),
+        ...rows.map((row) =>
+            columns.map((column) => escapeCsvCell(row[column])).join(",")
+        ),
+    ].join("\r\n");
@@ -1,3 +1,4 @@
+import { normalizeAddress } from "./functions/normalize-address";
 import { z } from "zod";
 
 export const evmAddressSchema = z
@@ -5,3 +6,10 @@ export const evmAddressSchema = z
     .trim()
     .regex(/^0x[a-fA-F0-9]{40}$/, "Must be a valid EVM address")
     .refine((val) => val.startsWith("0x"), "Must start with 0x");
+
+export const walletAddressSchema = evmAddressSchema.transform(normalizeAddress);
+
+export const txHashSchema = z
+    .string()
+    .trim()
+    .regex(/^0x[a-fA-F0-9]{64}$/, "Must be a valid transaction hash");
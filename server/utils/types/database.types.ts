@@ -9,6 +9,143 @@ export type Json =
 export type Database = {
     public: {
         Tables: {
+            auth_nonces: {
+                Row: {
+                    created_at: string;
+                    expires_at: string;
+                    nonce: string;
+                    wallet_address: string;
+                };
+                Insert: {
+                    created_at?: string;
+                    expires_at: string;
+                    nonce: string;
+                    wallet_address: string;
+                };
+                Update: {
+                    created_at?: string;
+                    expires_at?: string;
+                    nonce?: string;
+                    wallet_address?: string;
+                };
+                Relationships: [];
+            };
+            chat_mutes: {
+                Row: {
+                    created_at: string;
+                    dao_id: string;
+                    member_id: string;
+                    muted_by: string;
+                    muted_until: string | null;
+                    reason: string | null;
+                };
+                Insert: {
+                    created_at?: string;
+                    dao_id: string;
+                    member_id: string;
+                    muted_by: string;
+                    muted_until?: string | null;
+                    reason?: string | null;
+                };
+                Update: {
+                    created_at?: string;
+                    dao_id?: string;
+                    member_id?: string;
+                    muted_by?: string;
+                    muted_until?: string | null;
+                    reason?: string | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "chat_mutes_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                    {
+                        foreignKeyName: "chat_mutes_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "chat_mutes_muted_by_fkey";
+                        columns: ["muted_by"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                ];
+            };
+            chat_settings: {
+                Row: {
+                    allow_links: boolean;
+                    blocked_words: string[];
+                    dao_id: string;
+                    updated_at: string;
+                };
+                Insert: {
+                    allow_links?: boolean;
+                    blocked_words?: string[];
+                    dao_id: string;
+                    updated_at?: string;
+                };
+                Update: {
+                    allow_links?: boolean;
+                    blocked_words?: string[];
+                    dao_id?: string;
+                    updated_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "chat_settings_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: true;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                ];
+            };
+            dao_github_repositories: {
+                Row: {
+                    created_at: string;
+                    dao_id: string;
+                    merits_reward: number;
+                    repo_name: string;
+                    repo_owner: string;
+                    repository_id: string;
+                    reputation_reward: number;
+                };
+                Insert: {
+                    created_at?: string;
+                    dao_id: string;
+                    merits_reward?: number;
+                    repo_name: string;
+                    repo_owner: string;
+                    repository_id?: string;
+                    reputation_reward?: number;
+                };
+                Update: {
+                    created_at?: string;
+                    dao_id?: string;
+                    merits_reward?: number;
+                    repo_name?: string;
+                    repo_owner?: string;
+                    repository_id?: string;
+                    reputation_reward?: number;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "dao_github_repositories_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                ];
+            };
             daos: {
                 Row: {
                     created_at: string;
@@ -56,6 +193,50 @@ export type Database = {
                     },
                 ];
             };
+            governance_configs: {
+                Row: {
+                    approval_threshold: number;
+                    dao_id: string;
+                    house_multipliers: Json;
+                    quorum_member_percentage: number;
+                    quorum_weight: number;
+                    reputation_coefficient: number;
+                    token_coefficient: number;
+                    updated_at: string;
+                    verification_coefficient: number;
+                };
+                Insert: {
+                    approval_threshold?: number;
+                    dao_id: string;
+                    house_multipliers?: Json;
+                    quorum_member_percentage?: number;
+                    quorum_weight?: number;
+                    reputation_coefficient?: number;
+                    token_coefficient?: number;
+                    updated_at?: string;
+                    verification_coefficient?: number;
+                };
+                Update: {
+                    approval_threshold?: number;
+                    dao_id?: string;
+                    house_multipliers?: Json;
+                    quorum_member_percentage?: number;
+                    quorum_weight?: number;
+                    reputation_coefficient?: number;
+                    token_coefficient?: number;
+                    updated_at?: string;
+                    verification_coefficient?: number;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "governance_configs_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: true;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                ];
+            };
             members: {
                 Row: {
                     created_at: string;
@@ -75,23 +256,35 @@ export type Database = {
                 Row: {
                     created_at: string;
                     dao_id: string;
+                    delegate_id: string | null;
+                    delegated_at: string | null;
+                    github_username: string | null;
                     house: Database["public"]["Enums"]["HOUSES"];
                     member_id: string;
                     reputation: number;
+                    role: Database["public"]["Enums"]["DAO_ROLES"];
                 };
                 Insert: {
                     created_at?: string;
                     dao_id?: string;
+                    delegate_id?: string | null;
+                    delegated_at?: string | null;
+                    github_username?: string | null;
                     house: Database["public"]["Enums"]["HOUSES"];
                     member_id: string;
                     reputation: number;
+                    role?: Database["public"]["Enums"]["DAO_ROLES"];
                 };
                 Update: {
                     created_at?: string;
                     dao_id?: string;
+                    delegate_id?: string | null;
+                    delegated_at?: string | null;
+                    github_username?: string | null;
                     house?: Database["public"]["Enums"]["HOUSES"];
                     member_id?: string;
                     reputation?: number;
+                    role?: Database["public"]["Enums"]["DAO_ROLES"];
                 };
                 Relationships: [
                     {
@@ -102,111 +295,70 @@ export type Database = {
                         referencedColumns: ["dao_id"];
                     },
                     {
-                        foreignKeyName: "memberships_member_id_fkey";
-                        columns: ["member_id"];
+                        foreignKeyName: "memberships_delegate_id_fkey";
+                        columns: ["delegate_id"];
                         isOneToOne: false;
                         referencedRelation: "members";
                         referencedColumns: ["member_id"];
                     },
-                ];
-            };
-            messages: {
-                Row: {
-                    created_at: string;
-                    member_id: string;
-                    message: string;
-                    message_id: string;
-                    proposal_id: string;
-                };
-                Insert: {
-                    created_at?: string;
-                    member_id: string;
-                    message: string;
-                    message_id?: string;
-                    proposal_id: string;
-                };
-                Update: {
-                    created_at?: string;
-                    member_id?: string;
-                    message?: string;
-                    message_id?: string;
-                    proposal_id?: string;
-                };
-                Relationships: [
                     {
-                        foreignKeyName: "messages_member_id_fkey";
+                        foreignKeyName: "memberships_member_id_fkey";
                         columns: ["member_id"];
                         isOneToOne: false;
                         referencedRelation: "members";
                         referencedColumns: ["member_id"];
                     },
-                    {
-                        foreignKeyName: "messages_proposal_id_fkey";
-                        columns: ["proposal_id"];
-                        isOneToOne: false;
-                        referencedRelation: "proposals";
-                        referencedColumns: ["proposal_id"];
-                    },
                 ];
             };
-            proposals: {
+            merit_distributions: {
                 Row: {
-                    akave_url: string;
-                    conclusion:
-                        | Database["public"]["Enums"]["VOTE_TYPES"]
-                        | null;
+                    attempts: number;
                     created_at: string;
                     dao_id: string;
                     description: string;
-                    feedback_conclusion:
-                        | Database["public"]["Enums"]["VOTE_TYPES"]
-                        | null;
-                    feedback_end: string;
-                    proposal_id: string;
-                    title: string;
-                    voting_end: string;
-                    voting_house: Database["public"]["Enums"]["HOUSES"];
-                    voting_start: string;
+                    distribution_id: string;
+                    distributions: Json;
+                    last_error: string | null;
+                    next_attempt_at: string;
+                    response: Json | null;
+                    sent_at: string | null;
+                    status: Database["public"]["Enums"]["MERIT_DISTRIBUTION_STATUSES"];
+                    total_amount: number;
+                    updated_at: string;
                 };
                 Insert: {
-                    akave_url?: string;
-                    conclusion?:
-                        | Database["public"]["Enums"]["VOTE_TYPES"]
-                        | null;
+                    attempts?: number;
                     created_at?: string;
-                    dao_id?: string;
+                    dao_id: string;
                     description: string;
-                    feedback_conclusion?:
-                        | Database["public"]["Enums"]["VOTE_TYPES"]
-                        | null;
-                    feedback_end: string;
-                    proposal_id?: string;
-                    title: string;
-                    voting_end: string;
-                    voting_house: Database["public"]["Enums"]["HOUSES"];
-                    voting_start: string;
+                    distribution_id: string;
+                    distributions: Json;
+                    last_error?: string | null;
+                    next_attempt_at?: string;
+                    response?: Json | null;
+                    sent_at?: string | null;
+                    status?: Database["public"]["Enums"]["MERIT_DISTRIBUTION_STATUSES"];
+                    total_amount: number;
+                    updated_at?: string;
                 };
                 Update: {
-                    akave_url?: string;
-                    conclusion?:
-                        | Database["public"]["Enums"]["VOTE_TYPES"]
-                        | null;
+                    attempts?: number;
                     created_at?: string;
                     dao_id?: string;
                     description?: string;
-                    feedback_conclusion?:
-                        | Database["public"]["Enums"]["VOTE_TYPES"]
-                        | null;
-                    feedback_end?: string;
-                    proposal_id?: string;
-                    title?: string;
-                    voting_end?: string;
-                    voting_house?: Database["public"]["Enums"]["HOUSES"];
-                    voting_start?: string;
+                    distribution_id?: string;
+                    distributions?: Json;
+                    last_error?: string | null;
+                    next_attempt_at?: string;
+                    response?: Json | null;
+                    sent_at?: string | null;
+                    status?: Database["public"]["Enums"]["MERIT_DISTRIBUTION_STATUSES"];
+                    total_amount?: number;
+                    updated_at?: string;
                 };
                 Relationships: [
                     {
-                        foreignKeyName: "proposals_dao_id_fkey";
+                        foreignKeyName: "merit_distributions_dao_id_fkey";
                         columns: ["dao_id"];
                         isOneToOne: false;
                         referencedRelation: "daos";
@@ -214,140 +366,991 @@ export type Database = {
                     },
                 ];
             };
-            quest_participant: {
+            message_edits: {
                 Row: {
-                    created_at: string;
-                    member_id: string;
-                    quest_id: string;
-                    twitter_follow_completed: boolean;
-                    twitter_like_completed: boolean;
-                    twitter_retweet_completed: boolean;
+                    edit_id: string;
+                    edited_at: string;
+                    message: string;
+                    message_id: string;
                 };
                 Insert: {
-                    created_at?: string;
-                    member_id: string;
-                    quest_id: string;
-                    twitter_follow_completed: boolean;
-                    twitter_like_completed: boolean;
-                    twitter_retweet_completed: boolean;
+                    edit_id?: string;
+                    edited_at?: string;
+                    message: string;
+                    message_id: string;
                 };
                 Update: {
-                    created_at?: string;
-                    member_id?: string;
-                    quest_id?: string;
-                    twitter_follow_completed?: boolean;
-                    twitter_like_completed?: boolean;
-                    twitter_retweet_completed?: boolean;
+                    edit_id?: string;
+                    edited_at?: string;
+                    message?: string;
+                    message_id?: string;
                 };
                 Relationships: [
                     {
-                        foreignKeyName: "quest_participant_member_id_fkey";
-                        columns: ["member_id"];
-                        isOneToOne: false;
-                        referencedRelation: "members";
-                        referencedColumns: ["member_id"];
-                    },
-                    {
-                        foreignKeyName: "quest_participant_quest_id_fkey";
-                        columns: ["quest_id"];
+                        foreignKeyName: "message_edits_message_id_fkey";
+                        columns: ["message_id"];
                         isOneToOne: false;
-                        referencedRelation: "quests";
-                        referencedColumns: ["quest_id"];
+                        referencedRelation: "messages";
+                        referencedColumns: ["message_id"];
                     },
                 ];
             };
-            quests: {
+            message_moderation_log: {
                 Row: {
+                    action: Database["public"]["Enums"]["MESSAGE_MODERATION_ACTIONS"];
                     created_at: string;
                     dao_id: string;
-                    description: string;
-                    end_time: string;
-                    quest_id: string;
-                    reward_merits: number;
-                    reward_token_address: string | null;
-                    reward_token_amount: number | null;
-                    reward_token_chain: number | null;
-                    start_time: string;
-                    title: string;
-                    twitter_account_url: string | null;
-                    twitter_follow_enabled: boolean;
-                    twitter_like_enabled: boolean;
-                    twitter_post_url: string | null;
-                    twitter_retweet_enabled: boolean;
+                    details: Json;
+                    log_id: string;
+                    member_id: string | null;
+                    message_id: string | null;
+                    moderator_id: string;
+                    reason: string | null;
                 };
                 Insert: {
+                    action: Database["public"]["Enums"]["MESSAGE_MODERATION_ACTIONS"];
                     created_at?: string;
                     dao_id: string;
-                    description: string;
-                    end_time: string;
-                    quest_id?: string;
-                    reward_merits: number;
-                    reward_token_address?: string | null;
-                    reward_token_amount?: number | null;
-                    reward_token_chain?: number | null;
-                    start_time: string;
-                    title: string;
-                    twitter_account_url?: string | null;
-                    twitter_follow_enabled: boolean;
-                    twitter_like_enabled: boolean;
-                    twitter_post_url?: string | null;
-                    twitter_retweet_enabled: boolean;
+                    details?: Json;
+                    log_id?: string;
+                    member_id?: string | null;
+                    message_id?: string | null;
+                    moderator_id: string;
+                    reason?: string | null;
                 };
                 Update: {
+                    action?: Database["public"]["Enums"]["MESSAGE_MODERATION_ACTIONS"];
                     created_at?: string;
                     dao_id?: string;
-                    description?: string;
-                    end_time?: string;
-                    quest_id?: string;
-                    reward_merits?: number;
-                    reward_token_address?: string | null;
-                    reward_token_amount?: number | null;
-                    reward_token_chain?: number | null;
-                    start_time?: string;
-                    title?: string;
-                    twitter_account_url?: string | null;
-                    twitter_follow_enabled?: boolean;
-                    twitter_like_enabled?: boolean;
-                    twitter_post_url?: string | null;
-                    twitter_retweet_enabled?: boolean;
+                    details?: Json;
+                    log_id?: string;
+                    member_id?: string | null;
+                    message_id?: string | null;
+                    moderator_id?: string;
+                    reason?: string | null;
                 };
                 Relationships: [
                     {
-                        foreignKeyName: "quests_dao_id_fkey";
+                        foreignKeyName: "message_moderation_log_dao_id_fkey";
                         columns: ["dao_id"];
                         isOneToOne: false;
                         referencedRelation: "daos";
                         referencedColumns: ["dao_id"];
                     },
+                    {
+                        foreignKeyName: "message_moderation_log_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "message_moderation_log_message_id_fkey";
+                        columns: ["message_id"];
+                        isOneToOne: false;
+                        referencedRelation: "messages";
+                        referencedColumns: ["message_id"];
+                    },
+                    {
+                        foreignKeyName: "message_moderation_log_moderator_id_fkey";
+                        columns: ["moderator_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
                 ];
             };
-            votes: {
+            message_reactions: {
                 Row: {
                     created_at: string;
-                    house: Database["public"]["Enums"]["HOUSES"];
-                    is_feedback: boolean;
+                    emoji: string;
                     member_id: string;
-                    proposal_id: string;
-                    vote: Database["public"]["Enums"]["VOTE_TYPES"];
-                    weight: number;
+                    message_id: string;
                 };
                 Insert: {
                     created_at?: string;
-                    house: Database["public"]["Enums"]["HOUSES"];
-                    is_feedback: boolean;
+                    emoji: string;
                     member_id: string;
-                    proposal_id?: string;
-                    vote: Database["public"]["Enums"]["VOTE_TYPES"];
-                    weight: number;
+                    message_id: string;
                 };
                 Update: {
                     created_at?: string;
-                    house?: Database["public"]["Enums"]["HOUSES"];
+                    emoji?: string;
+                    member_id?: string;
+                    message_id?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "message_reactions_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "message_reactions_message_id_fkey";
+                        columns: ["message_id"];
+                        isOneToOne: false;
+                        referencedRelation: "messages";
+                        referencedColumns: ["message_id"];
+                    },
+                ];
+            };
+            messages: {
+                Row: {
+                    created_at: string;
+                    deleted_at: string | null;
+                    edited_at: string | null;
+                    hidden_at: string | null;
+                    hidden_by: string | null;
+                    member_id: string;
+                    message: string;
+                    message_id: string;
+                    proposal_id: string;
+                    reply_to_id: string | null;
+                    seq: number;
+                };
+                Insert: {
+                    created_at?: string;
+                    deleted_at?: string | null;
+                    edited_at?: string | null;
+                    hidden_at?: string | null;
+                    hidden_by?: string | null;
+                    member_id: string;
+                    message: string;
+                    message_id?: string;
+                    proposal_id: string;
+                    reply_to_id?: string | null;
+                    seq?: never;
+                };
+                Update: {
+                    created_at?: string;
+                    deleted_at?: string | null;
+                    edited_at?: string | null;
+                    hidden_at?: string | null;
+                    hidden_by?: string | null;
+                    member_id?: string;
+                    message?: string;
+                    message_id?: string;
+                    proposal_id?: string;
+                    reply_to_id?: string | null;
+                    seq?: never;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "messages_hidden_by_fkey";
+                        columns: ["hidden_by"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "messages_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "messages_proposal_id_fkey";
+                        columns: ["proposal_id"];
+                        isOneToOne: false;
+                        referencedRelation: "proposals";
+                        referencedColumns: ["proposal_id"];
+                    },
+                    {
+                        foreignKeyName: "messages_reply_to_id_fkey";
+                        columns: ["reply_to_id"];
+                        isOneToOne: false;
+                        referencedRelation: "messages";
+                        referencedColumns: ["message_id"];
+                    },
+                ];
+            };
+            notifications: {
+                Row: {
+                    body: string | null;
+                    created_at: string;
+                    dao_id: string | null;
+                    member_id: string;
+                    message_id: string | null;
+                    notification_id: string;
+                    proposal_id: string | null;
+                    quest_id: string | null;
+                    read_at: string | null;
+                    title: string;
+                    type: Database["public"]["Enums"]["NOTIFICATION_TYPES"];
+                };
+                Insert: {
+                    body?: string | null;
+                    created_at?: string;
+                    dao_id?: string | null;
+                    member_id: string;
+                    message_id?: string | null;
+                    notification_id?: string;
+                    proposal_id?: string | null;
+                    quest_id?: string | null;
+                    read_at?: string | null;
+                    title: string;
+                    type: Database["public"]["Enums"]["NOTIFICATION_TYPES"];
+                };
+                Update: {
+                    body?: string | null;
+                    created_at?: string;
+                    dao_id?: string | null;
+                    member_id?: string;
+                    message_id?: string | null;
+                    notification_id?: string;
+                    proposal_id?: string | null;
+                    quest_id?: string | null;
+                    read_at?: string | null;
+                    title?: string;
+                    type?: Database["public"]["Enums"]["NOTIFICATION_TYPES"];
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "notifications_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                    {
+                        foreignKeyName: "notifications_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "notifications_message_id_fkey";
+                        columns: ["message_id"];
+                        isOneToOne: false;
+                        referencedRelation: "messages";
+                        referencedColumns: ["message_id"];
+                    },
+                    {
+                        foreignKeyName: "notifications_proposal_id_fkey";
+                        columns: ["proposal_id"];
+                        isOneToOne: false;
+                        referencedRelation: "proposals";
+                        referencedColumns: ["proposal_id"];
+                    },
+                    {
+                        foreignKeyName: "notifications_quest_id_fkey";
+                        columns: ["quest_id"];
+                        isOneToOne: false;
+                        referencedRelation: "quests";
+                        referencedColumns: ["quest_id"];
+                    },
+                ];
+            };
+            proposal_snapshots: {
+                Row: {
+                    blocks: Json;
+                    created_at: string;
+                    proposal_id: string;
+                    snapshot_at: string;
+                };
+                Insert: {
+                    blocks?: Json;
+                    created_at?: string;
+                    proposal_id: string;
+                    snapshot_at: string;
+                };
+                Update: {
+                    blocks?: Json;
+                    created_at?: string;
+                    proposal_id?: string;
+                    snapshot_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "proposal_snapshots_proposal_id_fkey";
+                        columns: ["proposal_id"];
+                        isOneToOne: true;
+                        referencedRelation: "proposals";
+                        referencedColumns: ["proposal_id"];
+                    },
+                ];
+            };
+            proposals: {
+                Row: {
+                    akave_url: string;
+                    conclusion:
+                        | Database["public"]["Enums"]["PROPOSAL_OUTCOMES"]
+                        | null;
+                    conclusion_attempts: number;
+                    conclusion_next_attempt_at: string | null;
+                    created_at: string;
+                    dao_id: string;
+                    description: string;
+                    feedback_conclusion:
+                        | Database["public"]["Enums"]["PROPOSAL_OUTCOMES"]
+                        | null;
+                    feedback_conclusion_attempts: number;
+                    feedback_conclusion_next_attempt_at: string | null;
+                    feedback_end: string;
+                    feedback_tally: Json | null;
+                    options: string[];
+                    proposal_id: string;
+                    tally: Json | null;
+                    title: string;
+                    voting_end: string;
+                    voting_house: Database["public"]["Enums"]["HOUSES"];
+                    voting_method: Database["public"]["Enums"]["VOTING_METHODS"];
+                    voting_start: string;
+                    voting_start_announced_at: string | null;
+                    winning_option: number | null;
+                };
+                Insert: {
+                    akave_url?: string;
+                    conclusion?:
+                        | Database["public"]["Enums"]["PROPOSAL_OUTCOMES"]
+                        | null;
+                    conclusion_attempts?: number;
+                    conclusion_next_attempt_at?: string | null;
+                    created_at?: string;
+                    dao_id?: string;
+                    description: string;
+                    feedback_conclusion?:
+                        | Database["public"]["Enums"]["PROPOSAL_OUTCOMES"]
+                        | null;
+                    feedback_conclusion_attempts?: number;
+                    feedback_conclusion_next_attempt_at?: string | null;
+                    feedback_end: string;
+                    feedback_tally?: Json | null;
+                    options?: string[];
+                    proposal_id?: string;
+                    tally?: Json | null;
+                    title: string;
+                    voting_end: string;
+                    voting_house: Database["public"]["Enums"]["HOUSES"];
+                    voting_method?: Database["public"]["Enums"]["VOTING_METHODS"];
+                    voting_start: string;
+                    voting_start_announced_at?: string | null;
+                    winning_option?: number | null;
+                };
+                Update: {
+                    akave_url?: string;
+                    conclusion?:
+                        | Database["public"]["Enums"]["PROPOSAL_OUTCOMES"]
+                        | null;
+                    conclusion_attempts?: number;
+                    conclusion_next_attempt_at?: string | null;
+                    created_at?: string;
+                    dao_id?: string;
+                    description?: string;
+                    feedback_conclusion?:
+                        | Database["public"]["Enums"]["PROPOSAL_OUTCOMES"]
+                        | null;
+                    feedback_conclusion_attempts?: number;
+                    feedback_conclusion_next_attempt_at?: string | null;
+                    feedback_end?: string;
+                    feedback_tally?: Json | null;
+                    options?: string[];
+                    proposal_id?: string;
+                    tally?: Json | null;
+                    title?: string;
+                    voting_end?: string;
+                    voting_house?: Database["public"]["Enums"]["HOUSES"];
+                    voting_method?: Database["public"]["Enums"]["VOTING_METHODS"];
+                    voting_start?: string;
+                    voting_start_announced_at?: string | null;
+                    winning_option?: number | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "proposals_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                ];
+            };
+            quest_participant: {
+                Row: {
+                    completed_at: string | null;
+                    created_at: string;
+                    member_id: string;
+                    quest_id: string;
+                    token_paid_at: string | null;
+                    token_payout_attempts: number;
+                    token_payout_error: string | null;
+                    token_payout_next_attempt_at: string | null;
+                    token_payout_nonce: number | null;
+                    token_payout_raw_tx: string | null;
+                    token_payout_status:
+                        | Database["public"]["Enums"]["QUEST_PAYOUT_STATUSES"]
+                        | null;
+                    token_payout_tx_hash: string | null;
+                };
+                Insert: {
+                    completed_at?: string | null;
+                    created_at?: string;
+                    member_id: string;
+                    quest_id: string;
+                    token_paid_at?: string | null;
+                    token_payout_attempts?: number;
+                    token_payout_error?: string | null;
+                    token_payout_next_attempt_at?: string | null;
+                    token_payout_nonce?: number | null;
+                    token_payout_raw_tx?: string | null;
+                    token_payout_status?:
+                        | Database["public"]["Enums"]["QUEST_PAYOUT_STATUSES"]
+                        | null;
+                    token_payout_tx_hash?: string | null;
+                };
+                Update: {
+                    completed_at?: string | null;
+                    created_at?: string;
+                    member_id?: string;
+                    quest_id?: string;
+                    token_paid_at?: string | null;
+                    token_payout_attempts?: number;
+                    token_payout_error?: string | null;
+                    token_payout_next_attempt_at?: string | null;
+                    token_payout_nonce?: number | null;
+                    token_payout_raw_tx?: string | null;
+                    token_payout_status?:
+                        | Database["public"]["Enums"]["QUEST_PAYOUT_STATUSES"]
+                        | null;
+                    token_payout_tx_hash?: string | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "quest_participant_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "quest_participant_quest_id_fkey";
+                        columns: ["quest_id"];
+                        isOneToOne: false;
+                        referencedRelation: "quests";
+                        referencedColumns: ["quest_id"];
+                    },
+                ];
+            };
+            quest_task_completions: {
+                Row: {
+                    completed_at: string;
+                    member_id: string;
+                    quest_id: string;
+                    task_id: string;
+                    verification_id: string | null;
+                };
+                Insert: {
+                    completed_at?: string;
+                    member_id: string;
+                    quest_id: string;
+                    task_id: string;
+                    verification_id?: string | null;
+                };
+                Update: {
+                    completed_at?: string;
+                    member_id?: string;
+                    quest_id?: string;
+                    task_id?: string;
+                    verification_id?: string | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "quest_task_completions_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "quest_task_completions_quest_id_fkey";
+                        columns: ["quest_id"];
+                        isOneToOne: false;
+                        referencedRelation: "quests";
+                        referencedColumns: ["quest_id"];
+                    },
+                    {
+                        foreignKeyName: "quest_task_completions_task_id_fkey";
+                        columns: ["task_id"];
+                        isOneToOne: false;
+                        referencedRelation: "quest_tasks";
+                        referencedColumns: ["task_id"];
+                    },
+                    {
+                        foreignKeyName: "quest_task_completions_verification_id_fkey";
+                        columns: ["verification_id"];
+                        isOneToOne: false;
+                        referencedRelation: "verification_proofs";
+                        referencedColumns: ["verification_id"];
+                    },
+                ];
+            };
+            quest_tasks: {
+                Row: {
+                    config: Json;
+                    created_at: string;
+                    position: number;
+                    quest_id: string;
+                    task_id: string;
+                    task_type: Database["public"]["Enums"]["QUEST_TASK_TYPES"];
+                };
+                Insert: {
+                    config?: Json;
+                    created_at?: string;
+                    position?: number;
+                    quest_id: string;
+                    task_id?: string;
+                    task_type: Database["public"]["Enums"]["QUEST_TASK_TYPES"];
+                };
+                Update: {
+                    config?: Json;
+                    created_at?: string;
+                    position?: number;
+                    quest_id?: string;
+                    task_id?: string;
+                    task_type?: Database["public"]["Enums"]["QUEST_TASK_TYPES"];
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "quest_tasks_quest_id_fkey";
+                        columns: ["quest_id"];
+                        isOneToOne: false;
+                        referencedRelation: "quests";
+                        referencedColumns: ["quest_id"];
+                    },
+                ];
+            };
+            quests: {
+                Row: {
+                    created_at: string;
+                    dao_id: string;
+                    description: string;
+                    end_time: string;
+                    max_participants: number | null;
+                    members_only: boolean;
+                    min_reputation: number | null;
+                    quest_id: string;
+                    required_house:
+                        | Database["public"]["Enums"]["HOUSES"]
+                        | null;
+                    reward_merits: number;
+                    reward_token_address: string | null;
+                    reward_token_amount: number | null;
+                    reward_token_budget: number | null;
+                    reward_token_chain: number | null;
+                    start_time: string;
+                    title: string;
+                };
+                Insert: {
+                    created_at?: string;
+                    dao_id: string;
+                    description: string;
+                    end_time: string;
+                    max_participants?: number | null;
+                    members_only?: boolean;
+                    min_reputation?: number | null;
+                    quest_id?: string;
+                    required_house?:
+                        | Database["public"]["Enums"]["HOUSES"]
+                        | null;
+                    reward_merits: number;
+                    reward_token_address?: string | null;
+                    reward_token_amount?: number | null;
+                    reward_token_budget?: number | null;
+                    reward_token_chain?: number | null;
+                    start_time: string;
+                    title: string;
+                };
+                Update: {
+                    created_at?: string;
+                    dao_id?: string;
+                    description?: string;
+                    end_time?: string;
+                    max_participants?: number | null;
+                    members_only?: boolean;
+                    min_reputation?: number | null;
+                    quest_id?: string;
+                    required_house?:
+                        | Database["public"]["Enums"]["HOUSES"]
+                        | null;
+                    reward_merits?: number;
+                    reward_token_address?: string | null;
+                    reward_token_amount?: number | null;
+                    reward_token_budget?: number | null;
+                    reward_token_chain?: number | null;
+                    start_time?: string;
+                    title?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "quests_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                ];
+            };
+            reputation_events: {
+                Row: {
+                    created_at: string;
+                    dao_id: string;
+                    delta: number;
+                    event_id: string;
+                    member_id: string;
+                    proposal_id: string | null;
+                    quest_id: string | null;
+                    reason: Database["public"]["Enums"]["REPUTATION_REASONS"];
+                    reputation: number;
+                    verification_id: string | null;
+                };
+                Insert: {
+                    created_at?: string;
+                    dao_id: string;
+                    delta: number;
+                    event_id?: string;
+                    member_id: string;
+                    proposal_id?: string | null;
+                    quest_id?: string | null;
+                    reason: Database["public"]["Enums"]["REPUTATION_REASONS"];
+                    reputation: number;
+                    verification_id?: string | null;
+                };
+                Update: {
+                    created_at?: string;
+                    dao_id?: string;
+                    delta?: number;
+                    event_id?: string;
+                    member_id?: string;
+                    proposal_id?: string | null;
+                    quest_id?: string | null;
+                    reason?: Database["public"]["Enums"]["REPUTATION_REASONS"];
+                    reputation?: number;
+                    verification_id?: string | null;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "reputation_events_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                    {
+                        foreignKeyName: "reputation_events_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "reputation_events_proposal_id_fkey";
+                        columns: ["proposal_id"];
+                        isOneToOne: false;
+                        referencedRelation: "proposals";
+                        referencedColumns: ["proposal_id"];
+                    },
+                    {
+                        foreignKeyName: "reputation_events_quest_id_fkey";
+                        columns: ["quest_id"];
+                        isOneToOne: false;
+                        referencedRelation: "quests";
+                        referencedColumns: ["quest_id"];
+                    },
+                    {
+                        foreignKeyName: "reputation_events_verification_id_fkey";
+                        columns: ["verification_id"];
+                        isOneToOne: false;
+                        referencedRelation: "verification_proofs";
+                        referencedColumns: ["verification_id"];
+                    },
+                ];
+            };
+            scheduler_locks: {
+                Row: {
+                    job: string;
+                    locked_by: string;
+                    locked_until: string;
+                };
+                Insert: {
+                    job: string;
+                    locked_by: string;
+                    locked_until: string;
+                };
+                Update: {
+                    job?: string;
+                    locked_by?: string;
+                    locked_until?: string;
+                };
+                Relationships: [];
+            };
+            scheduler_runs: {
+                Row: {
+                    concluded: Json;
+                    error: string | null;
+                    failures: Json;
+                    finished_at: string | null;
+                    instance_id: string;
+                    job: string;
+                    run_id: string;
+                    started_at: string;
+                    status: Database["public"]["Enums"]["SCHEDULER_RUN_STATUSES"];
+                };
+                Insert: {
+                    concluded?: Json;
+                    error?: string | null;
+                    failures?: Json;
+                    finished_at?: string | null;
+                    instance_id: string;
+                    job: string;
+                    run_id?: string;
+                    started_at?: string;
+                    status?: Database["public"]["Enums"]["SCHEDULER_RUN_STATUSES"];
+                };
+                Update: {
+                    concluded?: Json;
+                    error?: string | null;
+                    failures?: Json;
+                    finished_at?: string | null;
+                    instance_id?: string;
+                    job?: string;
+                    run_id?: string;
+                    started_at?: string;
+                    status?: Database["public"]["Enums"]["SCHEDULER_RUN_STATUSES"];
+                };
+                Relationships: [];
+            };
+            token_balance_snapshots: {
+                Row: {
+                    balance: number;
+                    block_number: number;
+                    chain_id: number;
+                    created_at: string;
+                    member_id: string;
+                    proposal_id: string;
+                    token_address: string;
+                };
+                Insert: {
+                    balance: number;
+                    block_number: number;
+                    chain_id: number;
+                    created_at?: string;
+                    member_id: string;
+                    proposal_id: string;
+                    token_address: string;
+                };
+                Update: {
+                    balance?: number;
+                    block_number?: number;
+                    chain_id?: number;
+                    created_at?: string;
+                    member_id?: string;
+                    proposal_id?: string;
+                    token_address?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "token_balance_snapshots_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "token_balance_snapshots_proposal_id_fkey";
+                        columns: ["proposal_id"];
+                        isOneToOne: false;
+                        referencedRelation: "proposals";
+                        referencedColumns: ["proposal_id"];
+                    },
+                ];
+            };
+            verification_proofs: {
+                Row: {
+                    block_number: number;
+                    chain_id: number;
+                    created_at: string;
+                    dao_id: string;
+                    member_id: string;
+                    proof_hash: string;
+                    proof_type: Database["public"]["Enums"]["VERIFICATION_PROOF_TYPES"];
+                    subject: string;
+                    tx_hash: string;
+                    verification_id: string;
+                };
+                Insert: {
+                    block_number: number;
+                    chain_id: number;
+                    created_at?: string;
+                    dao_id: string;
+                    member_id: string;
+                    proof_hash: string;
+                    proof_type: Database["public"]["Enums"]["VERIFICATION_PROOF_TYPES"];
+                    subject: string;
+                    tx_hash: string;
+                    verification_id?: string;
+                };
+                Update: {
+                    block_number?: number;
+                    chain_id?: number;
+                    created_at?: string;
+                    dao_id?: string;
+                    member_id?: string;
+                    proof_hash?: string;
+                    proof_type?: Database["public"]["Enums"]["VERIFICATION_PROOF_TYPES"];
+                    subject?: string;
+                    tx_hash?: string;
+                    verification_id?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "verification_proofs_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                    {
+                        foreignKeyName: "verification_proofs_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                ];
+            };
+            verifications: {
+                Row: {
+                    identity: string;
+                    member_id: string;
+                    verification_id: string;
+                    verification_type: Database["public"]["Enums"]["VERIFICATION_TYPES"];
+                    verified_at: string;
+                };
+                Insert: {
+                    identity: string;
+                    member_id: string;
+                    verification_id: string;
+                    verification_type: Database["public"]["Enums"]["VERIFICATION_TYPES"];
+                    verified_at?: string;
+                };
+                Update: {
+                    identity?: string;
+                    member_id?: string;
+                    verification_id?: string;
+                    verification_type?: Database["public"]["Enums"]["VERIFICATION_TYPES"];
+                    verified_at?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "verifications_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "verifications_verification_id_fkey";
+                        columns: ["verification_id"];
+                        isOneToOne: false;
+                        referencedRelation: "verification_proofs";
+                        referencedColumns: ["verification_id"];
+                    },
+                ];
+            };
+            vote_history: {
+                Row: {
+                    action: Database["public"]["Enums"]["VOTE_HISTORY_ACTIONS"];
+                    created_at: string;
+                    history_id: string;
+                    is_feedback: boolean;
+                    member_id: string;
+                    proposal_id: string;
+                    selections: number[] | null;
+                    vote: Database["public"]["Enums"]["VOTE_TYPES"] | null;
+                    weight: number;
+                };
+                Insert: {
+                    action: Database["public"]["Enums"]["VOTE_HISTORY_ACTIONS"];
+                    created_at?: string;
+                    history_id?: string;
+                    is_feedback: boolean;
+                    member_id: string;
+                    proposal_id: string;
+                    selections?: number[] | null;
+                    vote?: Database["public"]["Enums"]["VOTE_TYPES"] | null;
+                    weight: number;
+                };
+                Update: {
+                    action?: Database["public"]["Enums"]["VOTE_HISTORY_ACTIONS"];
+                    created_at?: string;
+                    history_id?: string;
+                    is_feedback?: boolean;
+                    member_id?: string;
+                    proposal_id?: string;
+                    selections?: number[] | null;
+                    vote?: Database["public"]["Enums"]["VOTE_TYPES"] | null;
+                    weight?: number;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "vote_history_member_id_fkey";
+                        columns: ["member_id"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "vote_history_proposal_id_fkey";
+                        columns: ["proposal_id"];
+                        isOneToOne: false;
+                        referencedRelation: "proposals";
+                        referencedColumns: ["proposal_id"];
+                    },
+                ];
+            };
+            votes: {
+                Row: {
+                    created_at: string;
+                    delegated_weight: number;
+                    delegators: Json;
+                    house: Database["public"]["Enums"]["HOUSES"];
+                    is_feedback: boolean;
+                    member_id: string;
+                    proposal_id: string;
+                    selections: number[] | null;
+                    vote: Database["public"]["Enums"]["VOTE_TYPES"] | null;
+                    weight: number;
+                    weight_breakdown: Json | null;
+                };
+                Insert: {
+                    created_at?: string;
+                    delegated_weight?: number;
+                    delegators?: Json;
+                    house: Database["public"]["Enums"]["HOUSES"];
+                    is_feedback: boolean;
+                    member_id: string;
+                    proposal_id?: string;
+                    selections?: number[] | null;
+                    vote?: Database["public"]["Enums"]["VOTE_TYPES"] | null;
+                    weight: number;
+                    weight_breakdown?: Json | null;
+                };
+                Update: {
+                    created_at?: string;
+                    delegated_weight?: number;
+                    delegators?: Json;
+                    house?: Database["public"]["Enums"]["HOUSES"];
                     is_feedback?: boolean;
                     member_id?: string;
                     proposal_id?: string;
-                    vote?: Database["public"]["Enums"]["VOTE_TYPES"];
+                    selections?: number[] | null;
+                    vote?: Database["public"]["Enums"]["VOTE_TYPES"] | null;
                     weight?: number;
+                    weight_breakdown?: Json | null;
                 };
                 Relationships: [
                     {
@@ -366,16 +1369,288 @@ export type Database = {
                     },
                 ];
             };
+            webhook_deliveries: {
+                Row: {
+                    attempts: number;
+                    created_at: string;
+                    dao_id: string;
+                    delivery_id: string;
+                    event: Database["public"]["Enums"]["WEBHOOK_EVENTS"];
+                    last_error: string | null;
+                    next_attempt_at: string;
+                    payload: Json;
+                    response_status: number | null;
+                    sent_at: string | null;
+                    status: Database["public"]["Enums"]["WEBHOOK_DELIVERY_STATUSES"];
+                    updated_at: string;
+                    webhook_id: string;
+                };
+                Insert: {
+                    attempts?: number;
+                    created_at?: string;
+                    dao_id: string;
+                    delivery_id?: string;
+                    event: Database["public"]["Enums"]["WEBHOOK_EVENTS"];
+                    last_error?: string | null;
+                    next_attempt_at?: string;
+                    payload: Json;
+                    response_status?: number | null;
+                    sent_at?: string | null;
+                    status?: Database["public"]["Enums"]["WEBHOOK_DELIVERY_STATUSES"];
+                    updated_at?: string;
+                    webhook_id: string;
+                };
+                Update: {
+                    attempts?: number;
+                    created_at?: string;
+                    dao_id?: string;
+                    delivery_id?: string;
+                    event?: Database["public"]["Enums"]["WEBHOOK_EVENTS"];
+                    last_error?: string | null;
+                    next_attempt_at?: string;
+                    payload?: Json;
+                    response_status?: number | null;
+                    sent_at?: string | null;
+                    status?: Database["public"]["Enums"]["WEBHOOK_DELIVERY_STATUSES"];
+                    updated_at?: string;
+                    webhook_id?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "webhook_deliveries_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                    {
+                        foreignKeyName: "webhook_deliveries_webhook_id_fkey";
+                        columns: ["webhook_id"];
+                        isOneToOne: false;
+                        referencedRelation: "webhooks";
+                        referencedColumns: ["webhook_id"];
+                    },
+                ];
+            };
+            webhooks: {
+                Row: {
+                    active: boolean;
+                    created_at: string;
+                    created_by: string;
+                    dao_id: string;
+                    events: Database["public"]["Enums"]["WEBHOOK_EVENTS"][];
+                    secret: string;
+                    updated_at: string;
+                    url: string;
+                    webhook_id: string;
+                };
+                Insert: {
+                    active?: boolean;
+                    created_at?: string;
+                    created_by: string;
+                    dao_id: string;
+                    events: Database["public"]["Enums"]["WEBHOOK_EVENTS"][];
+                    secret: string;
+                    updated_at?: string;
+                    url: string;
+                    webhook_id?: string;
+                };
+                Update: {
+                    active?: boolean;
+                    created_at?: string;
+                    created_by?: string;
+                    dao_id?: string;
+                    events?: Database["public"]["Enums"]["WEBHOOK_EVENTS"][];
+                    secret?: string;
+                    updated_at?: string;
+                    url?: string;
+                    webhook_id?: string;
+                };
+                Relationships: [
+                    {
+                        foreignKeyName: "webhooks_created_by_fkey";
+                        columns: ["created_by"];
+                        isOneToOne: false;
+                        referencedRelation: "members";
+                        referencedColumns: ["member_id"];
+                    },
+                    {
+                        foreignKeyName: "webhooks_dao_id_fkey";
+                        columns: ["dao_id"];
+                        isOneToOne: false;
+                        referencedRelation: "daos";
+                        referencedColumns: ["dao_id"];
+                    },
+                ];
+            };
         };
         Views: {
             [_ in never]: never;
         };
         Functions: {
-            [_ in never]: never;
+            acquire_scheduler_lock: {
+                Args: {
+                    p_instance_id: string;
+                    p_job: string;
+                    p_ttl_seconds: number;
+                };
+                Returns: boolean;
+            };
+            complete_quest_task: {
+                Args: {
+                    p_member_id: string;
+                    p_merit_distribution: Json;
+                    p_quest_id: string;
+                    p_task_id: string;
+                    p_verification_id: string;
+                };
+                Returns: boolean;
+            };
+            conclude_proposal_feedback: {
+                Args: {
+                    p_merit_distribution?: Json;
+                    p_outcome: Database["public"]["Enums"]["PROPOSAL_OUTCOMES"];
+                    p_proposal_id: string;
+                    p_reputation_changes: Json;
+                    p_tally: Json;
+                };
+                Returns: boolean;
+            };
+            increment_reputation: {
+                Args: {
+                    p_dao_id: string;
+                    p_delta: number;
+                    p_member_id: string;
+                    p_proposal_id?: string;
+                    p_quest_id?: string;
+                    p_reason: Database["public"]["Enums"]["REPUTATION_REASONS"];
+                    p_verification_id?: string;
+                };
+                Returns: number;
+            };
+            join_quest: {
+                Args: {
+                    p_member_id: string;
+                    p_quest_id: string;
+                };
+                Returns: boolean;
+            };
+            redeem_verification_proof: {
+                Args: {
+                    p_block_number: number;
+                    p_chain_id: number;
+                    p_dao_id: string;
+                    p_identity: string;
+                    p_member_id: string;
+                    p_merit_distribution?: Json;
+                    p_proof_hash: string;
+                    p_proof_type: Database["public"]["Enums"]["VERIFICATION_PROOF_TYPES"];
+                    p_reputation_change: number;
+                    p_reputation_reason: Database["public"]["Enums"]["REPUTATION_REASONS"];
+                    p_subject: string;
+                    p_tx_hash: string;
+                    p_verification_id: string;
+                    p_verification_type: Database["public"]["Enums"]["VERIFICATION_TYPES"];
+                };
+                Returns: undefined;
+            };
+            release_scheduler_lock: {
+                Args: {
+                    p_instance_id: string;
+                    p_job: string;
+                };
+                Returns: undefined;
+            };
+            reserve_quest_token_payout: {
+                Args: {
+                    p_lease_seconds: number;
+                    p_member_id: string;
+                    p_quest_id: string;
+                };
+                Returns: boolean;
+            };
+            set_membership_delegate: {
+                Args: {
+                    p_dao_id: string;
+                    p_delegate_id: string;
+                    p_member_id: string;
+                };
+                Returns: undefined;
+            };
+            store_proposal_snapshot: {
+                Args: {
+                    p_balances: Json;
+                    p_blocks: Json;
+                    p_proposal_id: string;
+                    p_snapshot_at: string;
+                };
+                Returns: undefined;
+            };
         };
         Enums: {
+            DAO_ROLES: "owner" | "admin" | "moderator" | "member";
             HOUSES: "1" | "2" | "3" | "4";
+            MERIT_DISTRIBUTION_STATUSES: "PENDING" | "SENT" | "FAILED";
+            MESSAGE_MODERATION_ACTIONS:
+                | "HIDE_MESSAGE"
+                | "UNHIDE_MESSAGE"
+                | "MUTE_MEMBER"
+                | "UNMUTE_MEMBER"
+                | "UPDATE_SETTINGS";
+            NOTIFICATION_TYPES:
+                | "MENTION"
+                | "REPLY"
+                | "NEW_PROPOSAL"
+                | "VOTING_STARTED"
+                | "VOTING_ENDED"
+                | "QUEST_REWARD"
+                | "MERIT_PAYOUT";
+            PROPOSAL_OUTCOMES:
+                | "YES"
+                | "NO"
+                | "FAILED_QUORUM"
+                | "TIED"
+                | "DECIDED";
+            QUEST_PAYOUT_STATUSES:
+                | "PENDING"
+                | "SENT"
+                | "SIMULATED"
+                | "FAILED"
+                | "BUDGET_EXHAUSTED";
+            QUEST_TASK_TYPES:
+                | "TWITTER_FOLLOW"
+                | "TWITTER_LIKE"
+                | "TWITTER_RETWEET"
+                | "GITHUB_CONTRIBUTION"
+                | "EMAIL_DOMAIN";
+            REPUTATION_REASONS:
+                | "JOINED_DAO"
+                | "CORRECT_VOTE"
+                | "INCORRECT_VOTE"
+                | "EMAIL_VERIFIED"
+                | "GITHUB_VERIFIED";
+            SCHEDULER_RUN_STATUSES: "RUNNING" | "SUCCEEDED" | "FAILED";
+            VERIFICATION_PROOF_TYPES:
+                | "EMAIL_DOMAIN"
+                | "GITHUB_CONTRIBUTION"
+                | "TWITTER_ACTION";
+            VERIFICATION_TYPES: "TWITTER" | "GITHUB" | "EMAIL";
+            VOTE_HISTORY_ACTIONS: "CHANGED" | "RETRACTED";
             VOTE_TYPES: "YES" | "NO" | "ABSTAIN";
+            VOTING_METHODS:
+                | "BINARY"
+                | "SINGLE_CHOICE"
+                | "APPROVAL"
+                | "RANKED_CHOICE";
+            WEBHOOK_DELIVERY_STATUSES: "PENDING" | "SENT" | "FAILED";
+            WEBHOOK_EVENTS:
+                | "PROPOSAL_CREATED"
+                | "VOTING_STARTED"
+                | "PROPOSAL_CONCLUDED"
+                | "FEEDBACK_CONCLUDED"
+                | "MEMBER_JOINED"
+                | "QUEST_COMPLETED"
+                | "PING";
         };
         CompositeTypes: {
             [_ in never]: never;
@@ -491,8 +1766,78 @@ export type CompositeTypes<
 export const Constants = {
     public: {
         Enums: {
+            DAO_ROLES: ["owner", "admin", "moderator", "member"],
             HOUSES: ["1", "2", "3", "4"],
+            MERIT_DISTRIBUTION_STATUSES: ["PENDING", "SENT", "FAILED"],
+            MESSAGE_MODERATION_ACTIONS: [
+                "HIDE_MESSAGE",
+                "UNHIDE_MESSAGE",
+                "MUTE_MEMBER",
+                "UNMUTE_MEMBER",
+                "UPDATE_SETTINGS",
+            ],
+            NOTIFICATION_TYPES: [
+                "MENTION",
+                "REPLY",
+                "NEW_PROPOSAL",
+                "VOTING_STARTED",
+                "VOTING_ENDED",
+                "QUEST_REWARD",
+                "MERIT_PAYOUT",
+            ],
+            PROPOSAL_OUTCOMES: [
+                "YES",
+                "NO",
+                "FAILED_QUORUM",
+                "TIED",
+                "DECIDED",
+            ],
+            QUEST_PAYOUT_STATUSES: [
+                "PENDING",
+                "SENT",
+                "SIMULATED",
+                "FAILED",
+                "BUDGET_EXHAUSTED",
+            ],
+            QUEST_TASK_TYPES: [
+                "TWITTER_FOLLOW",
+                "TWITTER_LIKE",
+                "TWITTER_RETWEET",
+                "GITHUB_CONTRIBUTION",
+                "EMAIL_DOMAIN",
+            ],
+            REPUTATION_REASONS: [
+                "JOINED_DAO",
+                "CORRECT_VOTE",
+                "INCORRECT_VOTE",
+                "EMAIL_VERIFIED",
+                "GITHUB_VERIFIED",
+            ],
+            SCHEDULER_RUN_STATUSES: ["RUNNING", "SUCCEEDED", "FAILED"],
+            VERIFICATION_PROOF_TYPES: [
+                "EMAIL_DOMAIN",
+                "GITHUB_CONTRIBUTION",
+                "TWITTER_ACTION",
+            ],
+            VERIFICATION_TYPES: ["TWITTER", "GITHUB", "EMAIL"],
+            VOTE_HISTORY_ACTIONS: ["CHANGED", "RETRACTED"],
             VOTE_TYPES: ["YES", "NO", "ABSTAIN"],
+            VOTING_METHODS: [
+                "BINARY",
+                "SINGLE_CHOICE",
+                "APPROVAL",
+                "RANKED_CHOICE",
+            ],
+            WEBHOOK_DELIVERY_STATUSES: ["PENDING", "SENT", "FAILED"],
+            WEBHOOK_EVENTS: [
+                "PROPOSAL_CREATED",
+                "VOTING_STARTED",
+                "PROPOSAL_CONCLUDED",
+                "FEEDBACK_CONCLUDED",
+                "MEMBER_JOINED",
+                "QUEST_COMPLETED",
+                "PING",
+            ],
         },
     },
 } as const;
@@ -0,0 +1,12 @@
+declare global {
+    namespace Express {
+        interface Request {
+            /**
+             * Wallet address of the authenticated member, set by `validateJwt`.
+             */
+            wallet_address?: string;
+        }
+    }
+}
+
+export {};
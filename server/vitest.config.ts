@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+    test: {
+        environment: "node",
+        include: ["**/*.test.ts"],
+        exclude: ["node_modules", "dist"],
+        env: {
+            LOCAL_MODE: "true",
+            JWT_SECRET: "local-test-secret",
+            AUTH_DOMAIN: "",
+        },
+    },
+});